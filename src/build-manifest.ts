@@ -0,0 +1,146 @@
+import { createHash } from "node:crypto";
+import { existsSync, readdirSync, readFileSync, writeFileSync } from "node:fs";
+import { join, relative } from "node:path";
+
+// ── Types ──────────────────────────────────────────────────────────────────────
+
+interface BuildManifestOptions {
+  cliVersion: string;
+  /** Engine source directories copied into the generated project. */
+  engineDirs: string[];
+  basePath: string;
+  targets: string[];
+  /** Commit per version built from a git tag, keyed by version slug. */
+  versionTags: Record<string, string>;
+}
+
+interface BuildManifest {
+  version: 2;
+  cliVersion: string;
+  /** Build options and environment variables that change the output. */
+  options: {
+    basePath: string;
+    targets: string[];
+    env: Record<string, string>;
+  };
+  /** Hash of the engine sources the site was built with. */
+  engine: string;
+  /** Hash per input file, keyed by path relative to the docs directory. */
+  files: Record<string, string>;
+  /**
+   * Commit per version built from a git tag, keyed by version slug. The
+   * checkouts are not among `files`, so this is what notices a moved tag.
+   */
+  versionTags: Record<string, string>;
+  /** Hash over everything above; equal hashes mean an identical build. */
+  hash: string;
+}
+
+interface BuildManifestDiff {
+  added: string[];
+  changed: string[];
+  removed: string[];
+  /** Slugs of versions built from a git tag whose tag now points at another commit. */
+  versionTags: string[];
+  /** CLI version, engine, options or environment changed. */
+  toolchain: boolean;
+}
+
+const BUILD_MANIFEST_FILE = "build-manifest.json";
+const MANIFEST_VERSION = 2;
+
+/** Read by the engine at build time (see `getSiteOrigin`). */
+const OUTPUT_ENV_VARS = ["VELU_SITE_URL", "NEXT_PUBLIC_SITE_URL", "SITE_URL"];
+
+const IGNORED_ENTRIES = new Set(["node_modules", "tsconfig.tsbuildinfo"]);
+
+// ── Hashing ────────────────────────────────────────────────────────────────────
+
+function sha256(data: string | Buffer): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+/** Hash every file under `dir`, skipping dot entries (`.velu-out`, `.git`) and dependencies. */
+function hashFiles(dir: string): Record<string, string> {
+  const files: Record<string, string> = {};
+
+  function walk(absDir: string) {
+    const entries = readdirSync(absDir, { withFileTypes: true })
+      .sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+    for (const entry of entries) {
+      if (entry.name.startsWith(".") || IGNORED_ENTRIES.has(entry.name)) continue;
+      const absPath = join(absDir, entry.name);
+      if (entry.isDirectory()) {
+        walk(absPath);
+      } else if (entry.isFile()) {
+        files[relative(dir, absPath).replace(/\\/g, "/")] = sha256(readFileSync(absPath));
+      }
+    }
+  }
+
+  if (existsSync(dir)) walk(dir);
+  return files;
+}
+
+function computeBuildManifest(docsDir: string, options: BuildManifestOptions): BuildManifest {
+  const env: Record<string, string> = {};
+  for (const name of OUTPUT_ENV_VARS) {
+    const value = process.env[name];
+    if (value !== undefined) env[name] = value;
+  }
+
+  const engineFiles = options.engineDirs.map((dir) => JSON.stringify(hashFiles(dir)));
+  const manifest: Omit<BuildManifest, "hash"> = {
+    version: MANIFEST_VERSION,
+    cliVersion: options.cliVersion,
+    options: { basePath: options.basePath, targets: [...options.targets].sort(), env },
+    engine: sha256(engineFiles.join("\n")),
+    files: hashFiles(docsDir),
+    versionTags: options.versionTags,
+  };
+  return { ...manifest, hash: sha256(JSON.stringify(manifest)) };
+}
+
+// ── Reading and comparing ──────────────────────────────────────────────────────
+
+/** The manifest of the last successful build, or null when missing or from another format version. */
+function readBuildManifest(path: string): BuildManifest | null {
+  if (!existsSync(path)) return null;
+  try {
+    const parsed = JSON.parse(readFileSync(path, "utf-8")) as BuildManifest;
+    return parsed.version === MANIFEST_VERSION && typeof parsed.hash === "string" ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeBuildManifest(path: string, manifest: BuildManifest) {
+  writeFileSync(path, `${JSON.stringify(manifest, null, 2)}\n`, "utf-8");
+}
+
+function diffBuildManifests(previous: BuildManifest, next: BuildManifest): BuildManifestDiff {
+  const added: string[] = [];
+  const changed: string[] = [];
+  for (const [file, hash] of Object.entries(next.files)) {
+    if (!(file in previous.files)) added.push(file);
+    else if (previous.files[file] !== hash) changed.push(file);
+  }
+  const removed = Object.keys(previous.files).filter((file) => !(file in next.files));
+  const versionTags = [...new Set([...Object.keys(previous.versionTags), ...Object.keys(next.versionTags)])]
+    .filter((slug) => previous.versionTags[slug] !== next.versionTags[slug]);
+  const toolchain = previous.cliVersion !== next.cliVersion
+    || previous.engine !== next.engine
+    || JSON.stringify(previous.options) !== JSON.stringify(next.options);
+  return { added, changed, removed, versionTags, toolchain };
+}
+
+export {
+  BUILD_MANIFEST_FILE,
+  computeBuildManifest,
+  diffBuildManifests,
+  readBuildManifest,
+  writeBuildManifest,
+  type BuildManifest,
+  type BuildManifestDiff,
+  type BuildManifestOptions,
+};
@@ -0,0 +1,251 @@
+import { execFileSync } from "node:child_process";
+import { readdirSync, readFileSync } from "node:fs";
+import { join, relative } from "node:path";
+import { parseChangelogFromMarkdown, slugifyUpdateLabel } from "./engine/lib/changelog.js";
+
+// ── Types ──────────────────────────────────────────────────────────────────────
+
+interface GitCommit {
+  hash: string;
+  subject: string;
+  body: string;
+}
+
+interface ConventionalCommit {
+  /** Lowercased type, or null when the subject isn't `type(scope)!: description`. */
+  type: string | null;
+  scope?: string;
+  breaking: boolean;
+  description: string;
+}
+
+interface ChangelogGroup {
+  title: string;
+  items: string[];
+}
+
+interface GroupDefinition {
+  title: string;
+  types: string[];
+  /** Singular and plural, for the description. */
+  noun: [string, string];
+}
+
+interface UpdateDraft {
+  label: string;
+  /** `YYYY-MM-DD`. */
+  date: string;
+  description: string;
+  tags: string[];
+  groups: ChangelogGroup[];
+}
+
+interface DraftOptions {
+  from: string | null;
+  to: string;
+  label?: string;
+  description?: string;
+}
+
+/** Breaking changes first, then one group per conventional-commit type, then commits without a type. */
+const BREAKING_GROUP: GroupDefinition = { title: "Breaking changes", types: [], noun: ["breaking change", "breaking changes"] };
+const COMMIT_GROUPS: GroupDefinition[] = [
+  { title: "Features", types: ["feat", "feature"], noun: ["feature", "features"] },
+  { title: "Fixes", types: ["fix"], noun: ["fix", "fixes"] },
+  { title: "Performance", types: ["perf"], noun: ["performance improvement", "performance improvements"] },
+  { title: "Documentation", types: ["docs"], noun: ["documentation change", "documentation changes"] },
+  { title: "Reverts", types: ["revert"], noun: ["revert", "reverts"] },
+];
+const OTHER_GROUP: GroupDefinition = { title: "Other changes", types: [], noun: ["other change", "other changes"] };
+const ALL_GROUPS = [BREAKING_GROUP, ...COMMIT_GROUPS, OTHER_GROUP];
+const HIDDEN_TYPES = new Set(["build", "chore", "ci", "refactor", "style", "test"]);
+
+const FIELD_SEPARATOR = "\x1f";
+const RECORD_SEPARATOR = "\x1e";
+
+// ── Git ────────────────────────────────────────────────────────────────────────
+
+function git(cwd: string, args: string[]): string {
+  try {
+    return execFileSync("git", args, { cwd, encoding: "utf-8", stdio: ["ignore", "pipe", "pipe"] });
+  } catch (error) {
+    const stderr = (error as { stderr?: string }).stderr?.trim();
+    throw new Error(stderr || `git ${args.join(" ")} failed`);
+  }
+}
+
+/** The most recent tag before `to`, or null when there is none (the draft then covers all history). */
+function previousTag(cwd: string, to: string): string | null {
+  try {
+    return git(cwd, ["describe", "--tags", "--abbrev=0", `${to}^`]).trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+/** The tag pointing at `ref`, if any. */
+function exactTag(cwd: string, ref: string): string | null {
+  try {
+    return git(cwd, ["describe", "--tags", "--exact-match", ref]).trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+/** Commits reachable from `to` but not `from`, oldest first, without merges. */
+function readGitCommits(cwd: string, from: string | null, to: string): GitCommit[] {
+  const range = from ? `${from}..${to}` : to;
+  const output = git(cwd, [
+    "log",
+    "--no-merges",
+    "--reverse",
+    `--format=%H${FIELD_SEPARATOR}%s${FIELD_SEPARATOR}%b${RECORD_SEPARATOR}`,
+    range,
+  ]);
+  return output
+    .split(RECORD_SEPARATOR)
+    .map((record) => record.replace(/^\n/, ""))
+    .filter((record) => record.trim().length > 0)
+    .map((record) => {
+      const [hash, subject, body] = record.split(FIELD_SEPARATOR);
+      return { hash, subject: subject.trim(), body: (body ?? "").trim() };
+    });
+}
+
+// ── Drafting ───────────────────────────────────────────────────────────────────
+
+function parseConventionalCommit(commit: GitCommit): ConventionalCommit {
+  const match = commit.subject.match(/^(\w+)(?:\(([^)]*)\))?(!)?:\s*(.+)$/);
+  const breakingFooter = /^BREAKING[ -]CHANGE:/m.test(commit.body);
+  if (!match) return { type: null, breaking: breakingFooter, description: commit.subject };
+  return {
+    type: match[1].toLowerCase(),
+    scope: match[2]?.trim() || undefined,
+    breaking: Boolean(match[3]) || breakingFooter,
+    description: match[4].trim(),
+  };
+}
+
+/** Keep commit text from being read as JSX or expressions by MDX. */
+function escapeMdx(value: string): string {
+  return value.replace(/[{}<]/g, (char) => `\\${char}`);
+}
+
+/** Attribute values are read up to the next double quote, so they can't contain one. */
+function escapeAttribute(value: string): string {
+  return value.replace(/"/g, "'").trim();
+}
+
+function groupCommits(commits: GitCommit[]): ChangelogGroup[] {
+  const groups = new Map<string, string[]>();
+  const add = (title: string, item: string) => groups.set(title, [...(groups.get(title) ?? []), item]);
+
+  for (const commit of commits) {
+    const parsed = parseConventionalCommit(commit);
+    if (parsed.type && HIDDEN_TYPES.has(parsed.type) && !parsed.breaking) continue;
+
+    const scope = parsed.scope ? `**${escapeMdx(parsed.scope)}:** ` : "";
+    const item = `${scope}${escapeMdx(parsed.description)} (${commit.hash.slice(0, 7)})`;
+    if (parsed.breaking) {
+      add(BREAKING_GROUP.title, item);
+      continue;
+    }
+    const group = COMMIT_GROUPS.find((entry) => parsed.type && entry.types.includes(parsed.type));
+    add((group ?? OTHER_GROUP).title, item);
+  }
+
+  return ALL_GROUPS.flatMap(({ title }) => (groups.has(title) ? [{ title, items: groups.get(title)! }] : []));
+}
+
+/** e.g. `1 breaking change, 3 features, 2 fixes`. */
+function summarizeGroups(groups: ChangelogGroup[]): string {
+  return groups
+    .map((group) => {
+      const [singular, plural] = ALL_GROUPS.find((entry) => entry.title === group.title)!.noun;
+      return `${group.items.length} ${group.items.length === 1 ? singular : plural}`;
+    })
+    .join(", ");
+}
+
+/** Read `from..to` and turn it into an update; throws when git fails or no commit is worth listing. */
+function draftUpdate(cwd: string, options: DraftOptions): UpdateDraft {
+  const from = options.from ?? previousTag(cwd, options.to);
+  const commits = readGitCommits(cwd, from, options.to);
+  const groups = groupCommits(commits);
+  if (groups.length === 0) {
+    throw new Error(`No changes to list between ${from ?? "the first commit"} and ${options.to}.`);
+  }
+
+  const date = git(cwd, ["log", "-1", "--format=%cs", options.to]).trim();
+  const titles = groups.map((group) => group.title).filter((title) => title !== OTHER_GROUP.title);
+  return {
+    label: options.label ?? exactTag(cwd, options.to) ?? date,
+    date,
+    description: options.description ?? summarizeGroups(groups),
+    tags: titles.map((title) => (title === BREAKING_GROUP.title ? "Breaking" : title)),
+    groups,
+  };
+}
+
+// ── Writing ────────────────────────────────────────────────────────────────────
+
+/** The `<Update>` block in the shape `parseChangelogFromMarkdown` reads. */
+function formatUpdateBlock(draft: UpdateDraft): string {
+  const tags = draft.tags.map((tag) => `"${escapeAttribute(tag)}"`).join(", ");
+  const attributes = [
+    `label="${escapeAttribute(draft.label)}"`,
+    `date="${draft.date}"`,
+    ...(draft.tags.length > 0 ? [`tags={[${tags}]}`] : []),
+    ...(draft.description ? [`description="${escapeAttribute(draft.description)}"`] : []),
+  ];
+  const sections = draft.groups.map((group) => [
+    `## ${group.title}`,
+    "",
+    ...group.items.map((item) => `- ${item}`),
+  ].join("\n"));
+  return [`<Update ${attributes.join(" ")}>`, sections.join("\n\n"), "</Update>"].join("\n\n");
+}
+
+/**
+ * Put the block above the first `<Update>`, so the page stays newest first,
+ * or at the end of a page that has none. Throws when the label is taken,
+ * since both updates would get the same anchor.
+ */
+function insertUpdateBlock(source: string, block: string, label: string): string {
+  const anchor = slugifyUpdateLabel(label);
+  if (parseChangelogFromMarkdown(source).updates.some((update) => update.anchor === anchor)) {
+    throw new Error(`The page already has an update labelled "${label}". Pass --label to use another one.`);
+  }
+
+  const first = source.search(/^<Update\b/m);
+  if (first === -1) return `${source.replace(/\s*$/, "")}\n\n${block}\n`;
+  return `${source.slice(0, first)}${block}\n\n${source.slice(first)}`;
+}
+
+/** Pages with at least one `<Update>` block, relative to the docs directory. */
+function findChangelogPages(docsDir: string): string[] {
+  const pages: string[] = [];
+  function walk(dir: string) {
+    for (const entry of readdirSync(dir, { withFileTypes: true })) {
+      if (entry.name.startsWith(".") || entry.name === "node_modules") continue;
+      const path = join(dir, entry.name);
+      if (entry.isDirectory()) walk(path);
+      else if (/\.mdx?$/.test(entry.name) && /^<Update\b/m.test(readFileSync(path, "utf-8"))) {
+        pages.push(relative(docsDir, path).replace(/\\/g, "/"));
+      }
+    }
+  }
+  walk(docsDir);
+  return pages.sort();
+}
+
+export {
+  draftUpdate,
+  findChangelogPages,
+  formatUpdateBlock,
+  insertUpdateBlock,
+  parseConventionalCommit,
+  type ConventionalCommit,
+  type DraftOptions,
+  type UpdateDraft,
+};
@@ -0,0 +1,394 @@
+import { existsSync, readdirSync, readFileSync, statSync } from "node:fs";
+import { dirname, extname, join, relative, resolve } from "node:path";
+import GithubSlugger from "github-slugger";
+import {
+  buildSiteArtifacts,
+  loadContentConfig,
+  replaceVariablesInString,
+  type PageMapping,
+} from "./engine/lib/content-pipeline.js";
+import {
+  compileRedirectRules,
+  isExternalDestination,
+  normalizeRedirectRules,
+  resolveRedirect,
+} from "./engine/lib/redirects.js";
+import { markdownLines, stripInlineCode } from "./mdx-source.js";
+
+// ── Types ──────────────────────────────────────────────────────────────────────
+
+interface LinkIssue {
+  file: string;
+  line: number;
+  message: string;
+}
+
+interface CheckLinksResult {
+  issues: LinkIssue[];
+  pages: number;
+  links: number;
+}
+
+interface LinkReference {
+  url: string;
+  line: number;
+  kind: "link" | "image";
+}
+
+interface RouteTarget {
+  mapping?: PageMapping;
+  srcPath?: string;
+}
+
+type CompiledRedirects = ReturnType<typeof compileRedirectRules>;
+
+const SITE_ORIGIN = "http://velu.local";
+const BUILTIN_ROUTES = new Set(["/", "/llms.txt", "/llms-full.txt", "/sitemap.xml", "/robots.txt", "/mcp", "/rss.xml", "/atom.xml", "/feed.json"]);
+const FEED_FILE_PATTERN = /\/(?:rss\.xml|atom\.xml|feed\.json)$/;
+/** Changelog archive pages; whether the page has updates with that tag or month is only known at build time. */
+const CHANGELOG_ARCHIVE_PATTERN = /\/(?:tags\/[^/]+|\d{4}\/\d{2})$/;
+
+// ── Helpers ────────────────────────────────────────────────────────────────────
+
+function normalizeRoute(pathname: string): string {
+  const collapsed = pathname.replace(/\/{2,}/g, "/");
+  if (collapsed !== "/" && collapsed.endsWith("/")) return collapsed.slice(0, -1);
+  return collapsed || "/";
+}
+
+function isSkippedUrl(url: string): boolean {
+  return url.length === 0 || url.startsWith("{") || url.startsWith("//") || isExternalDestination(url);
+}
+
+/** `decodeURIComponent`, keeping the text as it is when an escape is malformed (a stray `%`). */
+function decodeUrlPart(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/** An issue for a URL whose `%` escapes don't decode, such as a stray `%`, else null. */
+function malformedUrlMessage(url: string): string | null {
+  try {
+    decodeURIComponent(url);
+    return null;
+  } catch {
+    return `Malformed URL ${url}: "%" must start an escape such as %20`;
+  }
+}
+
+function splitUrl(url: string, baseRoute: string): { pathname: string; fragment: string; samePage: boolean } {
+  const hashIndex = url.indexOf("#");
+  const fragment = hashIndex === -1 ? "" : decodeUrlPart(url.slice(hashIndex + 1));
+  const withoutFragment = hashIndex === -1 ? url : url.slice(0, hashIndex);
+  const path = withoutFragment.split("?")[0];
+  if (!path) return { pathname: baseRoute, fragment, samePage: true };
+
+  const base = baseRoute === "/" ? "/" : `${baseRoute}/`;
+  const pathname = decodeUrlPart(new URL(path, `${SITE_ORIGIN}${base}`).pathname);
+  return { pathname: normalizeRoute(pathname), fragment, samePage: false };
+}
+
+/** Plain heading text the way fumadocs flattens it before slugging. */
+function flattenHeading(text: string): string {
+  return text
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, "")
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/`([^`]*)`/g, "$1")
+    .replace(/<[^>]+>/g, "")
+    .replace(/(\*\*|__)(.+?)\1/g, "$2")
+    .replace(/\*(.+?)\*/g, "$1")
+    .replace(/(^|\W)_(.+?)_(?=\W|$)/g, "$1$2")
+    .replace(/~~(.+?)~~/g, "$1")
+    .trim();
+}
+
+function collectSourceAnchors(content: string): Set<string> {
+  const anchors = new Set<string>();
+  const slugger = new GithubSlugger();
+
+  for (const { text } of markdownLines(content)) {
+    const heading = text.match(/^\s{0,3}#{1,6}\s+(.+?)\s*#*\s*$/);
+    if (heading) {
+      const customId = heading[1].match(/\s*\[#([^\]]+)\]\s*$/);
+      anchors.add(customId ? customId[1] : slugger.slug(flattenHeading(heading[1])));
+    }
+    for (const match of text.matchAll(/\bid\s*=\s*(["'])([^"']+)\1/g)) {
+      anchors.add(match[2]);
+    }
+  }
+  return anchors;
+}
+
+function collectSourceLinks(content: string): LinkReference[] {
+  const links: LinkReference[] = [];
+
+  for (const { text, line } of markdownLines(content)) {
+    const code = stripInlineCode(text);
+    for (const match of code.matchAll(/(!?)\[[^\]]*\]\(\s*<?([^)\s>]*)>?(?:\s+["'][^"']*["'])?\s*\)/g)) {
+      links.push({ url: match[2], line, kind: match[1] ? "image" : "link" });
+    }
+    const definition = code.match(/^\s{0,3}\[[^\]]+\]:\s*<?(\S+?)>?(?:\s|$)/);
+    if (definition) links.push({ url: definition[1], line, kind: "link" });
+    for (const match of code.matchAll(/\b(href|src)\s*=\s*(["'])([^"']*)\2/g)) {
+      links.push({ url: match[3], line, kind: match[1] === "src" ? "image" : "link" });
+    }
+  }
+  return links;
+}
+
+function resolveSourcePath(docsDir: string, src: string): string | undefined {
+  for (const ext of [".mdx", ".md"]) {
+    const path = join(docsDir, `${src}${ext}`);
+    if (existsSync(path)) return path;
+  }
+  return undefined;
+}
+
+function isFile(path: string): boolean {
+  try {
+    return statSync(path).isFile();
+  } catch {
+    return false;
+  }
+}
+
+// ── Source mode ────────────────────────────────────────────────────────────────
+
+/**
+ * Check links, anchors and images in every navigation page against the
+ * routes the site will generate. Links into redirected paths are followed
+ * through `resolveRedirect`, the same matcher the proxy uses.
+ */
+function checkLinks(docsDir: string): CheckLinksResult {
+  const { config, variables } = loadContentConfig(docsDir, { gitVersions: true });
+  const redirects = compileRedirectRules(normalizeRedirectRules((config as { redirects?: unknown }).redirects));
+  const { languages } = buildSiteArtifacts(config, docsDir);
+
+  const routes = new Map<string, RouteTarget>();
+  const routeBySrc = new Map<string, string>();
+  const pagesToCheck = new Map<string, string>();
+
+  for (const { language, isDefault, artifacts } of languages) {
+    const prefix = isDefault ? "" : `/${language}`;
+    if (prefix) routes.set(prefix, {});
+    for (const mapping of artifacts.pageMap) {
+      const route = `${prefix}/${mapping.dest}`;
+      const srcPath = mapping.kind === "file" ? resolveSourcePath(docsDir, mapping.src) : undefined;
+      routes.set(route, { mapping, srcPath });
+      if (!routeBySrc.has(mapping.src)) routeBySrc.set(mapping.src, route);
+      if (srcPath && !pagesToCheck.has(srcPath)) pagesToCheck.set(srcPath, route);
+    }
+  }
+
+  const contentCache = new Map<string, string>();
+  const anchorCache = new Map<string, Set<string>>();
+
+  function readPage(srcPath: string): string {
+    let content = contentCache.get(srcPath);
+    if (content === undefined) {
+      content = replaceVariablesInString(readFileSync(srcPath, "utf-8"), variables, srcPath, false, false);
+      contentCache.set(srcPath, content);
+    }
+    return content;
+  }
+
+  function anchorsFor(srcPath: string): Set<string> {
+    let anchors = anchorCache.get(srcPath);
+    if (!anchors) {
+      anchors = collectSourceAnchors(readPage(srcPath));
+      anchorCache.set(srcPath, anchors);
+    }
+    return anchors;
+  }
+
+  function checkFragment(target: RouteTarget, fragment: string, route: string): string | null {
+    if (!fragment || !target.srcPath) return null;
+    return anchorsFor(target.srcPath).has(fragment) ? null : `Missing anchor #${fragment} on ${route}/`;
+  }
+
+  function checkRoute(pathname: string, fragment: string): string | null {
+    const target = routes.get(pathname);
+    if (target) return checkFragment(target, fragment, pathname);
+    if (BUILTIN_ROUTES.has(pathname)) return null;
+    if (pathname.endsWith(".md") && routes.has(pathname.slice(0, -3))) return null;
+    const feedPage = pathname.replace(FEED_FILE_PATTERN, "");
+    if (FEED_FILE_PATTERN.test(pathname) && routes.has(feedPage)) return null;
+    if (CHANGELOG_ARCHIVE_PATTERN.test(feedPage) && routes.has(feedPage.replace(CHANGELOG_ARCHIVE_PATTERN, ""))) return null;
+    if (extname(pathname) && isFile(join(docsDir, pathname))) return null;
+
+    const redirect = resolveRedirect(pathname, redirects);
+    if (redirect) {
+      if (isExternalDestination(redirect.destination)) return null;
+      const destination = routes.get(redirect.destination);
+      if (destination) return checkFragment(destination, fragment, redirect.destination);
+      return `Link to ${pathname}/ redirects to ${redirect.destination}/, which is not a page`;
+    }
+
+    const suggestion = routeBySrc.get(pathname.replace(/^\//, "").replace(/\.mdx?$/, ""));
+    return suggestion
+      ? `Broken link to ${pathname}/ (the page is served at ${suggestion}/)`
+      : `Broken link to ${pathname}/: no page or file at this path`;
+  }
+
+  const issues: LinkIssue[] = [];
+  let linkCount = 0;
+
+  for (const [srcPath, route] of pagesToCheck) {
+    const file = relative(docsDir, srcPath).replace(/\\/g, "/");
+    for (const link of collectSourceLinks(readPage(srcPath))) {
+      const url = link.url.trim();
+      if (isSkippedUrl(url)) continue;
+      linkCount += 1;
+      const malformed = malformedUrlMessage(url);
+      if (malformed) {
+        issues.push({ file, line: link.line, message: malformed });
+        continue;
+      }
+
+      if (link.kind === "image") {
+        const imagePath = url.split(/[?#]/)[0];
+        const resolved = imagePath.startsWith("/")
+          ? join(docsDir, decodeUrlPart(imagePath))
+          : resolve(dirname(srcPath), decodeUrlPart(imagePath));
+        if (!isFile(resolved)) {
+          issues.push({ file, line: link.line, message: `Missing image ${url}` });
+        }
+        continue;
+      }
+
+      const { pathname, fragment, samePage } = splitUrl(url, route);
+      const message = samePage
+        ? checkFragment(routes.get(route)!, fragment, route)
+        : checkRoute(pathname, fragment);
+      if (message) issues.push({ file, line: link.line, message });
+    }
+  }
+
+  return { issues, pages: pagesToCheck.size, links: linkCount };
+}
+
+// ── Offline mode (built HTML) ──────────────────────────────────────────────────
+
+function collectHtmlFiles(distDir: string): string[] {
+  const files: string[] = [];
+  function walk(dir: string) {
+    for (const entry of readdirSync(dir, { withFileTypes: true })) {
+      const path = join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (entry.name !== "_next" && entry.name !== "pagefind") walk(path);
+      } else if (entry.name.endsWith(".html")) {
+        files.push(path);
+      }
+    }
+  }
+  walk(distDir);
+  return files;
+}
+
+function routeForHtmlFile(distDir: string, htmlPath: string): string {
+  const rel = relative(distDir, htmlPath).replace(/\\/g, "/");
+  const withoutIndex = rel === "index.html" ? "" : rel.replace(/\/index\.html$/, "").replace(/\.html$/, "");
+  return normalizeRoute(`/${withoutIndex}`);
+}
+
+function decodeHtmlAttribute(value: string): string {
+  return value
+    .replace(/&amp;/g, "&")
+    .replace(/&quot;/g, '"')
+    .replace(/&#x27;|&#39;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">");
+}
+
+function lineAt(content: string, index: number): number {
+  let line = 1;
+  for (let i = 0; i < index; i += 1) {
+    if (content.charCodeAt(i) === 10) line += 1;
+  }
+  return line;
+}
+
+/**
+ * Check `<a href>` and `<img src>` in an already-built `dist/` directory
+ * against the files that were actually exported. With a `basePath` the HTML
+ * links carry it, so it is stripped before looking up files in `distDir`.
+ */
+function checkBuiltLinks(docsDir: string, distDir: string, basePath = ""): CheckLinksResult {
+  const { config } = loadContentConfig(docsDir);
+  const redirects = compileRedirectRules(normalizeRedirectRules((config as { redirects?: unknown }).redirects));
+  const htmlFiles = collectHtmlFiles(distDir);
+  const idCache = new Map<string, Set<string>>();
+
+  function idsFor(htmlPath: string): Set<string> {
+    let ids = idCache.get(htmlPath);
+    if (!ids) {
+      const html = readFileSync(htmlPath, "utf-8");
+      ids = new Set(Array.from(html.matchAll(/\sid="([^"]*)"/g), (match) => decodeHtmlAttribute(match[1])));
+      idCache.set(htmlPath, ids);
+    }
+    return ids;
+  }
+
+  function resolveExported(pathname: string): { path: string; html: boolean } | null {
+    const candidates = pathname === "/"
+      ? [join(distDir, "index.html")]
+      : [join(distDir, pathname), join(distDir, pathname, "index.html"), join(distDir, `${pathname}.html`)];
+    for (const candidate of candidates) {
+      if (isFile(candidate)) return { path: candidate, html: candidate.endsWith(".html") };
+    }
+    return null;
+  }
+
+  function checkTarget(pathname: string, fragment: string): string | null {
+    const exported = resolveExported(pathname);
+    if (exported) {
+      if (!fragment || !exported.html) return null;
+      return idsFor(exported.path).has(fragment) ? null : `Missing anchor #${fragment} on ${pathname}`;
+    }
+
+    const redirect = resolveRedirect(pathname, redirects);
+    if (redirect) {
+      if (isExternalDestination(redirect.destination)) return null;
+      if (resolveExported(redirect.destination)) return checkTarget(redirect.destination, fragment);
+      return `Link to ${pathname} redirects to ${redirect.destination}, which was not exported`;
+    }
+    return `Broken link to ${pathname}: not found in ${relative(docsDir, distDir) || distDir}`;
+  }
+
+  const issues: LinkIssue[] = [];
+  let linkCount = 0;
+
+  for (const htmlPath of htmlFiles) {
+    const html = readFileSync(htmlPath, "utf-8");
+    const route = routeForHtmlFile(distDir, htmlPath);
+    const hostRoute = basePath ? normalizeRoute(`${basePath}${route}`) : route;
+    const file = relative(docsDir, htmlPath).replace(/\\/g, "/");
+
+    for (const match of html.matchAll(/<(a|img)\s[^>]*?\b(href|src)="([^"]*)"/g)) {
+      const url = decodeHtmlAttribute(match[3]).trim();
+      if (isSkippedUrl(url) || url.startsWith(`${basePath}/_next/`)) continue;
+      linkCount += 1;
+      const malformed = malformedUrlMessage(url);
+      if (malformed) {
+        issues.push({ file, line: lineAt(html, match.index ?? 0), message: malformed });
+        continue;
+      }
+
+      const { pathname, fragment, samePage } = splitUrl(url, hostRoute);
+      const insideBase = !basePath || pathname === basePath || pathname.startsWith(`${basePath}/`);
+      const message = samePage
+        ? (fragment && !idsFor(htmlPath).has(fragment) ? `Missing anchor #${fragment} on ${route}` : null)
+        : insideBase
+          ? checkTarget(normalizeRoute(pathname.slice(basePath.length)), fragment)
+          : `Link to ${pathname} is outside the base path ${basePath}`;
+      if (message) issues.push({ file, line: lineAt(html, match.index ?? 0), message });
+    }
+  }
+
+  return { issues, pages: htmlFiles.length, links: linkCount };
+}
+
+export { checkLinks, checkBuiltLinks, type CheckLinksResult, type LinkIssue };
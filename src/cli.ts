@@ -1,8 +1,11 @@
-import { resolve, join, dirname, delimiter } from "node:path";
+import { resolve, join, dirname, delimiter, relative } from "node:path";
 import { existsSync, mkdirSync, writeFileSync, readdirSync, copyFileSync, rmSync, readFileSync, statSync, symlinkSync } from "node:fs";
 import { spawn } from "node:child_process";
-import { fileURLToPath } from "node:url";
+import { createRequire } from "node:module";
+import { fileURLToPath, pathToFileURL } from "node:url";
 import { tmpdir } from "node:os";
+import type { DiagnosticFormat } from "./diagnostics.js";
+import type { RedirectRule } from "./engine/lib/redirects.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const PACKAGE_ROOT = resolve(dirname(__filename), "..");
@@ -20,15 +23,22 @@ function resolveConfigPath(dir: string): string | null {
 }
 
 /** Build env that lets spawned processes resolve deps from the CLI's own node_modules */
-function engineEnv(docsDir?: string): NodeJS.ProcessEnv {
+function engineEnv(docsDir?: string, basePath?: string): NodeJS.ProcessEnv {
   const existing = process.env.NODE_PATH || "";
   return {
     ...process.env,
     NODE_PATH: existing ? `${NODE_MODULES_PATH}${delimiter}${existing}` : NODE_MODULES_PATH,
     ...(docsDir ? { VELU_DOCS_DIR: docsDir } : {}),
+    ...(basePath !== undefined ? { VELU_BASE_PATH: basePath } : {}),
   };
 }
 
+/** Node args that load tsx (from the CLI's own node_modules, like bin/velu.mjs) for engine scripts. */
+function engineNodeArgs(script: string, ...scriptArgs: string[]): string[] {
+  const require = createRequire(join(PACKAGE_ROOT, "package.json"));
+  return ["--import", pathToFileURL(require.resolve("tsx")).href, script, ...scriptArgs];
+}
+
 // ── Help ────────────────────────────────────────────────────────────────────────
 
 function printHelp() {
@@ -38,10 +48,19 @@ function printHelp() {
   Usage:
     velu version                Print Velu CLI version
     velu init                   Scaffold a new docs project with example files
-    velu lint                   Validate docs.json (or velu.json) and check referenced pages
-    velu run [--port N]         Build site and start dev server (default: 4321)
-    velu build                  Build a deployable static site (SSG)
+    velu lint [opts]            Validate docs.json (or velu.json) and check referenced pages
+    velu check-links [opts]     Check internal links, anchors and images in every page
+    velu changelog add [opts]   Draft an <Update> block from git history into a changelog page
+    velu version cut <v> [opts] Snapshot the current pages as version <v> in docs.json
+    velu i18n status [opts]     Report missing and outdated translations per language
+    velu i18n export [opts]     Export page text to translate as XLIFF or PO (needs --lang)
+    velu i18n import <file>     Write translated pages from an XLIFF or PO file
+    velu feedback export [opts] Export page feedback votes per page from the configured sink
+    velu search-report [opts]   Report top, zero-result and low-CTR search queries
+    velu run [opts]             Build site and start dev server (default: 4321)
+    velu build [opts]           Build a deployable static site (SSG)
     velu paths                  Output navigation paths and source files as JSON (grouped by language)
+    velu mcp                    Serve the docs as an MCP server over stdio (for local agents)
     velu preview-server [opts]  Start multi-tenant preview server (no docs.json needed)
 
   Options:
@@ -49,10 +68,54 @@ function printHelp() {
     --port <number>   Port for the dev server (default: 4321)
     --help            Show this help message
 
+  Build options:
+    --target <name>   Deploy target(s), comma-separated: netlify (default), cloudflare,
+                      vercel, github-pages, nginx, s3
+    --base-path <p>   Serve the site under a sub-path, e.g. /docs (also for run;
+                      overrides basePath in docs.json)
+    --force           Rebuild even when no inputs changed since the last build
+
+  Lint options:
+    --format <name>   Output format: text (default), json, sarif or github
+    --fix             Fix duplicate pages, missing titles and orphan pages in place
+    --dry-run         With --fix, print the changes as a diff without writing them
+
+  Check-links options:
+    --offline         Check the already-built site in .velu-out/dist instead of the sources
+    --base-path <p>   With --offline, the base path the site was built with
+
+  Changelog options:
+    --from <ref>      First commit (exclusive) to include (default: the previous tag)
+    --to <ref>        Last commit to include (default: HEAD)
+    --page <path>     Changelog page to add to (default: the only page with <Update> blocks)
+    --label <text>    Update label (default: the tag at --to, else the commit date)
+    --description <t> Update description (default: a count of changes per group)
+    --dry-run         Print the block instead of writing it
+
+  Version cut options:
+    --current <label> Name for the working tree's version when docs.json has none yet
+                      (default: latest)
+    --dry-run         Print the updated docs.json instead of writing files
+
+  I18n options:
+    --lang <code>     Language to report, export or import (import: default from the file)
+    --format <name>   status: text (default) or json; export: xliff (default) or po
+    --all             With export, include every page, not only missing and outdated ones
+    --output <file>   With status or export, write to a file instead of stdout
+
+  Feedback export options:
+    --format <name>   Output format: csv (default) or json
+    --output <file>   Write to a file instead of stdout
+
+  Search report options:
+    --format <name>   Output format: text (default) or json
+    --limit <n>       Queries per list (default: 20)
+    --output <file>   Write to a file instead of stdout
+
   Preview server options:
     --port <number>   Port for the preview server (default: 8080)
 
-  Run lint/run/build/paths from a directory containing docs.json (or velu.json).
+  Run lint/check-links/changelog/version/i18n/feedback/search-report/run/build/paths from a directory containing docs.json (or velu.json).
 `);
 }
 
@@ -161,21 +224,302 @@ function init(targetDir: string) {
 
 // ── lint ─────────────────────────────────────────────────────────────────────────
 
-async function lint(docsDir: string) {
+async function lintFix(docsDir: string, dryRun: boolean, quiet: boolean) {
+  const { runLintRules } = await import("./lint-rules.js");
+  const { applyLintFixes, duplicatePageFix, formatUnifiedDiff } = await import("./lint-fix.js");
+  const configPath = resolveConfigPath(docsDir)!;
+  const configFix = duplicatePageFix(relative(docsDir, configPath));
+
+  // A fix can surface new issues (an orphan added to navigation may lack a
+  // title), so keep going until a pass changes nothing. A dry run shows one pass.
+  const files = new Set<string>();
+  let fixCount = 0;
+  for (let pass = 0; pass < 5; pass += 1) {
+    const { fixes } = await runLintRules(docsDir, configPath);
+    const changes = applyLintFixes(docsDir, [configFix, ...fixes], { write: !dryRun });
+    if (dryRun) {
+      for (const change of changes) {
+        console.log(formatUnifiedDiff(change));
+      }
+      const count = changes.reduce((total, change) => total + change.fixes, 0);
+      console.log(changes.length > 0
+        ? `\n🔍 Dry run: would apply ${count} fix${count === 1 ? "" : "es"} in ${changes.length} file${changes.length === 1 ? "" : "s"}.`
+        : "🔍 Dry run: nothing to fix.");
+      return;
+    }
+    if (changes.length === 0) break;
+    changes.forEach((change) => files.add(change.file));
+    fixCount += changes.reduce((total, change) => total + change.fixes, 0);
+  }
+
+  // Keep stdout parseable for machine-readable formats.
+  if (fixCount > 0 && !quiet) {
+    console.log(`🔧 Applied ${fixCount} fix${fixCount === 1 ? "" : "es"} in ${files.size} file${files.size === 1 ? "" : "s"}.\n`);
+  }
+}
+
+async function lint(docsDir: string, format: DiagnosticFormat) {
   const { validateVeluConfig } = await import("./validate.js");
+  const { runLintRules } = await import("./lint-rules.js");
+  const { formatGithub, formatJson, formatLocation, formatSarif } = await import("./diagnostics.js");
   const result = validateVeluConfig(docsDir, SCHEMA_PATH);
+  const { diagnostics: ruleDiagnostics } = await runLintRules(docsDir, resolveConfigPath(docsDir)!);
+  const diagnostics = [...result.diagnostics, ...ruleDiagnostics];
+  const valid = result.valid && ruleDiagnostics.every((d) => d.severity !== "error");
+
+  if (format === "text") {
+    const describe = (d: (typeof diagnostics)[number]) => `${formatLocation(d)}  ${d.message} (${d.ruleId})`;
+    const warnings = ruleDiagnostics.filter((d) => d.severity === "warning");
+    if (warnings.length > 0) {
+      console.warn(`⚠️  ${warnings.length} warning${warnings.length === 1 ? "" : "s"}:\n`);
+      for (const warning of warnings) {
+        console.warn(`  • ${describe(warning)}`);
+      }
+      console.warn("");
+    }
+    if (valid) {
+      console.log("✅ docs.json/velu.json is valid. All referenced pages exist.");
+    } else {
+      console.error("❌ Validation failed:\n");
+      for (const err of result.errors) {
+        console.error(`  • ${err}`);
+      }
+      for (const err of ruleDiagnostics.filter((d) => d.severity === "error")) {
+        console.error(`  • ${describe(err)}`);
+      }
+      process.exit(1);
+    }
+    return;
+  }
+
+  if (format === "json") {
+    console.log(formatJson(diagnostics));
+  } else if (format === "sarif") {
+    console.log(formatSarif(diagnostics, getCliVersion()));
+  } else {
+    // Annotation paths are relative to the checkout, not the docs directory.
+    const workspace = process.env.GITHUB_WORKSPACE;
+    const rootDir = workspace ? relative(workspace, docsDir).replace(/\\/g, "/") : "";
+    if (diagnostics.length > 0) console.log(formatGithub(diagnostics, rootDir));
+  }
+  if (!valid) process.exit(1);
+}
+
+// ── check-links ─────────────────────────────────────────────────────────────────
 
-  if (result.valid) {
-    console.log("✅ docs.json/velu.json is valid. All referenced pages exist.");
+async function checkLinks(docsDir: string, offline: boolean, basePath: string) {
+  const checker = await import("./check-links.js");
+  let result: import("./check-links.js").CheckLinksResult;
+
+  if (offline) {
+    const distDir = join(docsDir, ".velu-out", "dist");
+    if (!existsSync(distDir)) {
+      console.error("❌ No built site found at .velu-out/dist. Run `velu build` first.");
+      process.exit(1);
+    }
+    result = checker.checkBuiltLinks(docsDir, distDir, basePath);
   } else {
-    console.error("❌ Validation failed:\n");
-    for (const err of result.errors) {
-      console.error(`  • ${err}`);
+    result = checker.checkLinks(docsDir);
+  }
+
+  if (result.issues.length === 0) {
+    console.log(`✅ Checked ${result.links} links in ${result.pages} pages. No broken links found.`);
+    return;
+  }
+
+  const count = result.issues.length;
+  console.error(`❌ Found ${count} broken link${count === 1 ? "" : "s"}:\n`);
+  for (const issue of result.issues) {
+    console.error(`  ${issue.file}:${issue.line}  ${issue.message}`);
+  }
+  process.exit(1);
+}
+
+// ── changelog ───────────────────────────────────────────────────────────────────
+
+interface ChangelogAddOptions {
+  from: string | null;
+  to: string;
+  page?: string;
+  label?: string;
+  description?: string;
+  dryRun: boolean;
+}
+
+function resolveChangelogPage(docsDir: string, page: string): string | null {
+  const candidates = [page, `${page}.mdx`, `${page}.md`].map((entry) => join(docsDir, entry.replace(/^\/+/, "")));
+  return candidates.find((candidate) => existsSync(candidate) && statSync(candidate).isFile()) ?? null;
+}
+
+async function changelogAdd(docsDir: string, options: ChangelogAddOptions) {
+  const { draftUpdate, findChangelogPages, formatUpdateBlock, insertUpdateBlock } = await import("./changelog-draft.js");
+
+  let pagePath: string | null = null;
+  if (options.page) {
+    pagePath = resolveChangelogPage(docsDir, options.page);
+    if (!pagePath) {
+      console.error(`❌ Changelog page not found: ${options.page}`);
+      process.exit(1);
+    }
+  } else {
+    const pages = findChangelogPages(docsDir);
+    if (pages.length === 1) {
+      pagePath = join(docsDir, pages[0]);
+    } else if (!options.dryRun) {
+      console.error(pages.length === 0
+        ? "❌ No page with <Update> blocks found. Pass --page to choose one."
+        : `❌ Several pages have <Update> blocks (${pages.join(", ")}). Pass --page to choose one.`);
+      process.exit(1);
+    }
+  }
+
+  try {
+    const draft = draftUpdate(docsDir, options);
+    const block = formatUpdateBlock(draft);
+    const source = pagePath ? readFileSync(pagePath, "utf-8") : "";
+    const updated = insertUpdateBlock(source, block, draft.label);
+    if (options.dryRun) {
+      console.log(block);
+      return;
+    }
+    writeFileSync(pagePath!, updated, "utf-8");
+    const count = draft.groups.reduce((total, group) => total + group.items.length, 0);
+    console.log(`📝 Added "${draft.label}" with ${count} change${count === 1 ? "" : "s"} to ${relative(docsDir, pagePath!)}`);
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+}
+
+// ── version ─────────────────────────────────────────────────────────────────────
+
+async function versionCut(docsDir: string, version: string, current: string | undefined, dryRun: boolean) {
+  const { cutVersion } = await import("./version-cut.js");
+  try {
+    const result = cutVersion(docsDir, resolveConfigPath(docsDir)!, version, { current, dryRun });
+    for (const ref of result.missing) console.warn(`⚠️  No file for page ${ref}; it stays in the navigation but is not copied.`);
+    if (dryRun) {
+      console.log(result.config);
+      return;
+    }
+    const specs = result.specs > 0 ? ` and ${result.specs} spec${result.specs === 1 ? "" : "s"}` : "";
+    console.log(`📚 Cut version ${version.trim()}: copied ${result.pages} page${result.pages === 1 ? "" : "s"}${specs} to ${result.dir}`);
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+}
+
+// ── i18n ────────────────────────────────────────────────────────────────────────
+
+async function i18nStatus(docsDir: string, language: string | undefined, format: "text" | "json", output: string | undefined) {
+  const { formatStatus, translationStatus } = await import("./i18n.js");
+  try {
+    const status = translationStatus(docsDir, resolveConfigPath(docsDir)!, language);
+    const text = format === "json" ? JSON.stringify(status, null, 2) : formatStatus(status);
+    if (!output) {
+      console.log(text);
+      return;
+    }
+    writeFileSync(resolve(docsDir, output), `${text}\n`, "utf-8");
+    console.log(`🌐 Wrote translation status for ${status.languages.length} language${status.languages.length === 1 ? "" : "s"} to ${output}`);
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+}
+
+async function i18nExport(docsDir: string, language: string, format: "xliff" | "po", all: boolean, output: string | undefined) {
+  const { exportTranslations } = await import("./i18n.js");
+  try {
+    const result = exportTranslations(docsDir, resolveConfigPath(docsDir)!, language, { format, all });
+    if (result.pages === 0) {
+      console.error(`✅ No missing or outdated ${language} pages. Pass --all to export every page.`);
+      return;
+    }
+    if (!output) {
+      process.stdout.write(result.text);
+      return;
     }
+    writeFileSync(resolve(docsDir, output), result.text, "utf-8");
+    console.log(`🌐 Exported ${result.units} segment${result.units === 1 ? "" : "s"} from ${result.pages} page${result.pages === 1 ? "" : "s"} to ${output}`);
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
     process.exit(1);
   }
 }
 
+async function i18nImport(docsDir: string, file: string, language: string | undefined) {
+  const { importTranslations } = await import("./i18n.js");
+  try {
+    const result = importTranslations(docsDir, resolveConfigPath(docsDir)!, resolve(docsDir, file), language);
+    for (const skipped of result.skipped) console.warn(`⚠️  ${skipped} is not a ${result.language} source page in docs.json; skipped.`);
+    for (const page of result.pages) {
+      const note = page.untranslated > 0 ? ` (${page.untranslated} segment${page.untranslated === 1 ? "" : "s"} left in the source language)` : "";
+      console.log(`🌐 ${page.file}${note}`);
+    }
+    for (const ref of result.unlisted) console.warn(`⚠️  Add ${ref} to the ${result.language} navigation in docs.json.`);
+    console.log(`🌐 Imported ${result.pages.length} ${result.language} page${result.pages.length === 1 ? "" : "s"}`);
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+}
+
+// ── feedback ────────────────────────────────────────────────────────────────────
+
+async function feedbackExport(docsDir: string, format: "csv" | "json", output: string | undefined) {
+  const feedback = await import("./engine/lib/feedback.js");
+  const config = JSON.parse(readFileSync(resolveConfigPath(docsDir)!, "utf-8")) as { feedback?: unknown };
+  const sinkConfig = feedback.resolveFeedbackConfig(config.feedback)?.sink
+    ?? { type: "jsonl" as const, path: feedback.DEFAULT_FEEDBACK_FILE };
+  const sink = feedback.createFeedbackSink(sinkConfig, docsDir);
+  if (!sink.read) {
+    console.error("❌ Feedback sent to a webhook is stored by the receiver. Export it from there.");
+    process.exit(1);
+  }
+
+  let entries: import("./engine/lib/feedback.js").FeedbackEntry[];
+  try {
+    entries = await sink.read();
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+
+  const summaries = feedback.summarizeFeedback(entries);
+  const text = format === "json" ? JSON.stringify(summaries, null, 2) : feedback.formatFeedbackCsv(summaries);
+  if (!output) {
+    console.log(text);
+    return;
+  }
+  writeFileSync(resolve(docsDir, output), `${text}\n`, "utf-8");
+  console.log(`📊 Exported ${entries.length} response${entries.length === 1 ? "" : "s"} for ${summaries.length} page${summaries.length === 1 ? "" : "s"} to ${output}`);
+}
+
+// ── search-report ───────────────────────────────────────────────────────────────
+
+async function searchReport(docsDir: string, format: "text" | "json", limit: number, output: string | undefined) {
+  const analytics = await import("./engine/lib/search-analytics.js");
+  const config = JSON.parse(readFileSync(resolveConfigPath(docsDir)!, "utf-8")) as { search?: { analytics?: unknown } };
+  const analyticsConfig = analytics.resolveSearchAnalyticsConfig(config.search?.analytics)
+    ?? { file: analytics.DEFAULT_SEARCH_ANALYTICS_FILE };
+  const file = analytics.resolveSearchAnalyticsFile(analyticsConfig, docsDir);
+  if (!existsSync(file)) {
+    console.error(`❌ No search events at ${relative(docsDir, file) || file}. Turn on search.analytics in docs.json and serve the site with \`velu run\`.`);
+    process.exit(1);
+  }
+
+  const report = analytics.buildSearchReport(await analytics.readSearchEvents(file), { limit });
+  const text = format === "json" ? JSON.stringify(report, null, 2) : analytics.formatSearchReport(report);
+  if (!output) {
+    console.log(text);
+    return;
+  }
+  writeFileSync(resolve(docsDir, output), `${text}\n`, "utf-8");
+  console.log(`📊 Reported ${report.searches} search${report.searches === 1 ? "" : "es"} for ${report.queries} quer${report.queries === 1 ? "y" : "ies"} to ${output}`);
+}
+
 // ── paths ───────────────────────────────────────────────────────────────────────
 
 interface PathEntry {
@@ -240,14 +584,25 @@ async function paths(docsDir: string) {
 
 // ── build ────────────────────────────────────────────────────────────────────────
 
-async function generateProject(docsDir: string): Promise<string> {
+async function generateProject(docsDir: string, basePath = ""): Promise<string> {
   const { build } = await import("./build.js");
   // Generate into the active docs project directory.
   const outDir = join(docsDir, ".velu-out");
-  build(docsDir, outDir);
+  build(docsDir, outDir, basePath);
   return outDir;
 }
 
+/** `--base-path`, else VELU_BASE_PATH, else `basePath` from docs.json. Exits on an invalid value. */
+async function resolveBasePathOption(docsDir: string, flag: string | undefined): Promise<string> {
+  const { resolveBasePath } = await import("./build.js");
+  const basePath = resolveBasePath(docsDir, flag);
+  if (basePath === null) {
+    console.error(`❌ Invalid base path: ${flag ?? process.env.VELU_BASE_PATH ?? "(docs.json basePath)"}. Use a plain path such as /docs.`);
+    process.exit(1);
+  }
+  return basePath;
+}
+
 function copyDirMerge(src: string, dest: string): void {
   mkdirSync(dest, { recursive: true });
   for (const entry of readdirSync(src)) {
@@ -274,26 +629,26 @@ function prepareRuntimeOutDir(docsOutDir: string): string {
   return runtimeOutDir;
 }
 
-async function buildStatic(outDir: string, docsDir: string) {
+async function buildStatic(outDir: string, docsDir: string, basePath: string) {
   await new Promise<void>((res, rej) => {
-    const child = spawn(process.execPath, ["_server.mjs", "build"], {
+    const child = spawn(process.execPath, engineNodeArgs("_server.mjs", "build"), {
       cwd: outDir,
       stdio: "inherit",
-      env: engineEnv(docsDir),
+      env: engineEnv(docsDir, basePath),
     });
     child.on("exit", (code) => (code === 0 ? res() : rej(new Error(`Build exited with ${code}`))));
   });
 }
 
-function exportMarkdownRoutes(outDir: string) {
-  const distDir = join(outDir, "dist");
-  const mdRouteRoot = join(distDir, "md-file");
-  if (!existsSync(mdRouteRoot)) return;
+/** Copy files exported under a rewrite-only route (`dist/<routeDir>/a/b.md`) to the URL they are served at (`dist/a/b.md`). */
+function exportRouteFiles(distDir: string, routeDir: string, accept: (name: string) => boolean): number {
+  const routeRoot = join(distDir, routeDir);
+  if (!existsSync(routeRoot)) return 0;
 
   let copied = 0;
 
   function walk(relDir: string) {
-    const absDir = join(mdRouteRoot, relDir);
+    const absDir = join(routeRoot, relDir);
     const entries = readdirSync(absDir, { withFileTypes: true });
 
     for (const entry of entries) {
@@ -302,9 +657,9 @@ function exportMarkdownRoutes(outDir: string) {
         walk(relPath);
         continue;
       }
-      if (!entry.isFile() || !entry.name.toLowerCase().endsWith(".md")) continue;
+      if (!entry.isFile() || !accept(entry.name)) continue;
 
-      const src = join(mdRouteRoot, relPath);
+      const src = join(routeRoot, relPath);
       const dest = join(distDir, relPath);
       mkdirSync(dirname(dest), { recursive: true });
       copyFileSync(src, dest);
@@ -313,7 +668,18 @@ function exportMarkdownRoutes(outDir: string) {
   }
 
   walk("");
-  console.log(`📝 Exported ${copied} markdown files to static route paths`);
+  return copied;
+}
+
+function exportMarkdownRoutes(outDir: string) {
+  const copied = exportRouteFiles(join(outDir, "dist"), "md-file", (name) => name.toLowerCase().endsWith(".md"));
+  if (copied > 0) console.log(`📝 Exported ${copied} markdown files to static route paths`);
+}
+
+function exportFeedRoutes(outDir: string) {
+  const feedFiles = new Set(["rss.xml", "atom.xml", "feed.json"]);
+  const copied = exportRouteFiles(join(outDir, "dist"), "feed-file", (name) => feedFiles.has(name));
+  if (copied > 0) console.log(`📰 Exported ${copied} changelog feeds`);
 }
 
 function collectStaticRoutePaths(distDir: string): string[] {
@@ -387,7 +753,7 @@ function addLlmsTextAliases(distDir: string): number {
   return added;
 }
 
-function addStaticRouteCompatibility(outDir: string) {
+async function addStaticRouteCompatibility(outDir: string, targets: string[], redirects: RedirectRule[], basePath: string) {
   const distDir = join(outDir, "dist");
   if (!existsSync(distDir)) return;
 
@@ -413,7 +779,7 @@ function addStaticRouteCompatibility(outDir: string) {
         '<script id="velu-noslash-fallback">',
         "(function(){",
         "  try {",
-        `    var routes = new Set(${JSON.stringify(routes)});`,
+        `    var routes = new Set(${JSON.stringify(routes.map((route) => `${basePath}${route}`))});`,
         "    var path = (window.location && window.location.pathname ? window.location.pathname : '/').replace(/\\/+$/, '');",
         "    if (!path || path === '/') return;",
         "    if (/\\.[a-zA-Z0-9]+$/.test(path)) return;",
@@ -430,72 +796,77 @@ function addStaticRouteCompatibility(outDir: string) {
     }
   }
 
-  const redirectsPath = join(distDir, "_redirects");
-  const existingRedirects = existsSync(redirectsPath) ? readFileSync(redirectsPath, "utf-8") : "";
-  const existingLines = new Set(existingRedirects.split(/\r?\n/).map((line) => line.trim()).filter(Boolean));
-  const redirectLines = routes.map((route) => `${route}  ${route}/  301`);
-  let redirectAdded = 0;
-  for (const line of redirectLines) {
-    if (existingLines.has(line)) continue;
-    existingLines.add(line);
-    redirectAdded += 1;
-  }
-  if (redirectAdded > 0) {
-    const merged = Array.from(existingLines).join("\n") + "\n";
-    writeFileSync(redirectsPath, merged, "utf-8");
-  }
-
-  const mdPaths = collectMarkdownPaths(distDir);
-  if (mdPaths.length > 0) {
-    const headersPath = join(distDir, "_headers");
-    let mergedHeaders = existsSync(headersPath) ? readFileSync(headersPath, "utf-8") : "";
-    let headerAdded = 0;
-
-    for (const mdPath of mdPaths) {
-      const block = [
-        mdPath,
-        "  Content-Type: text/markdown; charset=utf-8",
-        "  Content-Disposition: inline",
-        "  X-Content-Type-Options: nosniff",
-        "",
-      ].join("\n");
-      if (mergedHeaders.includes(block)) continue;
-      if (mergedHeaders.length > 0 && !mergedHeaders.endsWith("\n")) mergedHeaders += "\n";
-      if (mergedHeaders.length > 0) mergedHeaders += "\n";
-      mergedHeaders += block;
-      headerAdded += 1;
-    }
-
-    if (headerAdded > 0) {
-      writeFileSync(headersPath, mergedHeaders.replace(/\n{3,}/g, "\n\n").trimEnd() + "\n", "utf-8");
-    }
-    console.log(`📄 Added inline markdown headers for ${mdPaths.length} .md routes`);
-  }
+  const { emitDeployTargets } = await import("./deploy-targets.js");
+  const written = emitDeployTargets(targets, {
+    distDir,
+    deployDir: join(outDir, "deploy"),
+    routes,
+    markdownPaths: collectMarkdownPaths(distDir),
+    redirects,
+    basePath,
+  });
+  console.log(`🚀 Deploy artifacts for ${targets.join(", ")}: ${written.join(", ")}`);
 
   const llmsAliasesAdded = addLlmsTextAliases(distDir);
   if (llmsAliasesAdded > 0) {
     console.log(`🤖 Added ${llmsAliasesAdded} llms text aliases (.txt)`);
   }
 
-  console.log(`🔁 Added static compatibility for ${routes.length} routes (${aliasCount} .html aliases, ${redirectAdded} redirects)`);
+  console.log(`🔁 Added static compatibility for ${routes.length} routes (${aliasCount} .html aliases)`);
 }
 
-async function buildSite(docsDir: string) {
-  const docsOutDir = await generateProject(docsDir);
+async function buildSite(docsDir: string, targets: string[], basePath: string, force: boolean) {
+  const { engineSourceDirs, readRedirectRules, readVersionTagCommits } = await import("./build.js");
+  const manifests = await import("./build-manifest.js");
+  const manifestPath = join(docsDir, ".velu-out", manifests.BUILD_MANIFEST_FILE);
+  const staticOutDir = join(docsDir, ".velu-out", "dist");
+
+  // Hash the inputs before building so edits made during the build count next time.
+  const manifest = manifests.computeBuildManifest(docsDir, {
+    cliVersion: getCliVersion(),
+    engineDirs: engineSourceDirs(),
+    basePath,
+    targets,
+    versionTags: readVersionTagCommits(docsDir),
+  });
+  const previous = manifests.readBuildManifest(manifestPath);
+  if (!force && previous?.hash === manifest.hash && existsSync(staticOutDir)) {
+    console.log(`✅ No changes in ${Object.keys(manifest.files).length} inputs since the last build.`);
+    console.log(`\n📁 Static site output: ${staticOutDir}`);
+    return;
+  }
+  if (previous && !force) {
+    const diff = manifests.diffBuildManifests(previous, manifest);
+    const parts = [
+      diff.changed.length > 0 ? `${diff.changed.length} changed` : "",
+      diff.added.length > 0 ? `${diff.added.length} added` : "",
+      diff.removed.length > 0 ? `${diff.removed.length} removed` : "",
+      diff.versionTags.length > 0 ? `tag moved for ${diff.versionTags.join(", ")}` : "",
+      diff.toolchain ? "CLI, engine or build options changed" : "",
+    ].filter(Boolean);
+    console.log(`♻️  Rebuilding: ${parts.join(", ") || "previous output missing"}`);
+  }
+
+  const docsOutDir = await generateProject(docsDir, basePath);
   const runtimeOutDir = prepareRuntimeOutDir(docsOutDir);
-  await buildStatic(runtimeOutDir, docsDir);
+  await buildStatic(runtimeOutDir, docsDir, basePath);
   exportMarkdownRoutes(runtimeOutDir);
-  addStaticRouteCompatibility(runtimeOutDir);
+  exportFeedRoutes(runtimeOutDir);
+  await addStaticRouteCompatibility(runtimeOutDir, targets, readRedirectRules(docsDir), basePath);
 
   if (resolve(docsOutDir) !== resolve(runtimeOutDir)) {
-    const docsDistDir = join(docsOutDir, "dist");
-    const runtimeDistDir = join(runtimeOutDir, "dist");
-    try { rmSync(docsDistDir, { recursive: true, force: true }); } catch {}
-    copyDirMerge(runtimeDistDir, docsDistDir);
+    // Bring Next's cache back too: generateProject keeps it for the next build.
+    for (const dir of ["dist", "deploy", join(".next", "cache")]) {
+      const docsArtifactDir = join(docsOutDir, dir);
+      const runtimeArtifactDir = join(runtimeOutDir, dir);
+      try { rmSync(docsArtifactDir, { recursive: true, force: true }); } catch {}
+      if (existsSync(runtimeArtifactDir)) copyDirMerge(runtimeArtifactDir, docsArtifactDir);
+    }
   }
 
-  const staticOutDir = join(docsOutDir, "dist");
+  manifests.writeBuildManifest(manifestPath, manifest);
   console.log(`\n📁 Static site output: ${staticOutDir}`);
+  if (basePath) console.log(`   Serve it under ${basePath}/`);
 }
 
 // ── preview-server ───────────────────────────────────────────────────────────────
@@ -543,7 +914,7 @@ async function previewServer(port: number) {
 
   if (existsSync(previewDir)) {
     // Remove production-only routes that don't apply to preview
-    for (const dir of ["(docs)", "sitemap.xml", "robots.txt", "og", "llms-file", "llms-full-file", "md-file", "rss-file", "_md"]) {
+    for (const dir of ["(docs)", "sitemap.xml", "robots.txt", "og", "llms-file", "llms-full-file", "md-file", "feed-file", "_md", join("api", "mcp")]) {
       try { rmSync(join(appDir, dir), { recursive: true, force: true }); } catch {}
     }
     // Remove production root layout/page (preview has its own in _preview/)
@@ -629,11 +1000,11 @@ async function previewServer(port: number) {
 
 // ── run ──────────────────────────────────────────────────────────────────────────
 
-function spawnServer(outDir: string, command: string, port: number, docsDir: string) {
-  const child = spawn(process.execPath, ["_server.mjs", command, "--port", String(port)], {
+function spawnServer(outDir: string, command: string, port: number, docsDir: string, basePath: string) {
+  const child = spawn(process.execPath, engineNodeArgs("_server.mjs", command, "--port", String(port)), {
     cwd: outDir,
     stdio: "inherit",
-    env: engineEnv(docsDir),
+    env: engineEnv(docsDir, basePath),
   });
 
   child.on("exit", (code) => process.exit(code ?? 0));
@@ -643,10 +1014,38 @@ function spawnServer(outDir: string, command: string, port: number, docsDir: str
   process.on("SIGTERM", cleanup);
 }
 
-async function run(docsDir: string, port: number) {
+async function run(docsDir: string, port: number, basePath: string) {
+  const { checkFeedbackSink } = await import("./engine/lib/feedback.js");
+  const config = JSON.parse(readFileSync(resolveConfigPath(docsDir)!, "utf-8")) as { feedback?: unknown };
+  const feedbackError = checkFeedbackSink(config.feedback);
+  if (feedbackError) {
+    console.error(`❌ ${feedbackError}`);
+    process.exit(1);
+  }
+  const docsOutDir = await generateProject(docsDir, basePath);
+  const runtimeOutDir = prepareRuntimeOutDir(docsOutDir);
+  spawnServer(runtimeOutDir, "dev", port, docsDir, basePath);
+}
+
+// ── mcp ──────────────────────────────────────────────────────────────────────────
+
+async function mcp(docsDir: string) {
+  // stdout is the MCP transport — keep generator output on stderr.
+  console.log = console.error;
   const docsOutDir = await generateProject(docsDir);
   const runtimeOutDir = prepareRuntimeOutDir(docsOutDir);
-  spawnServer(runtimeOutDir, "dev", port, docsDir);
+
+  const child = spawn(process.execPath, engineNodeArgs("mcp-stdio.ts"), {
+    cwd: runtimeOutDir,
+    stdio: "inherit",
+    env: engineEnv(docsDir),
+  });
+
+  child.on("exit", (code) => process.exit(code ?? 0));
+
+  const cleanup = () => child.kill("SIGTERM");
+  process.on("SIGINT", cleanup);
+  process.on("SIGTERM", cleanup);
 }
 
 // ── Parse args ───────────────────────────────────────────────────────────────────
@@ -659,7 +1058,8 @@ if (!command || command === "--help" || command === "-h") {
   process.exit(0);
 }
 
-if (command === "version" || command === "--version" || command === "-v") {
+// `velu version` alone prints the CLI version; `velu version cut` edits docs.json.
+if ((command === "version" && args.length === 1) || command === "--version" || command === "-v") {
   printVersion();
   process.exit(0);
 }
@@ -692,17 +1092,150 @@ if (!resolveConfigPath(docsDir)) {
 }
 
 switch (command) {
-  case "lint":
-    await lint(docsDir);
+  case "lint": {
+    const { DIAGNOSTIC_FORMATS } = await import("./diagnostics.js");
+    const formatIdx = args.indexOf("--format");
+    const format = formatIdx !== -1 ? args[formatIdx + 1] : "text";
+    if (!DIAGNOSTIC_FORMATS.includes(format as DiagnosticFormat)) {
+      console.error(`❌ Invalid format: ${format ?? ""}. Use one of: ${DIAGNOSTIC_FORMATS.join(", ")}.`);
+      process.exit(1);
+    }
+    if (args.includes("--fix")) {
+      const dryRun = args.includes("--dry-run");
+      await lintFix(docsDir, dryRun, format !== "text");
+      if (dryRun) break;
+    }
+    await lint(docsDir, format as DiagnosticFormat);
+    break;
+  }
+
+  case "check-links": {
+    const basePathIdx = args.indexOf("--base-path");
+    const basePath = await resolveBasePathOption(docsDir, basePathIdx !== -1 ? args[basePathIdx + 1] ?? "" : undefined);
+    await checkLinks(docsDir, args.includes("--offline"), basePath);
+    break;
+  }
+
+  case "changelog": {
+    if (args[1] !== "add") {
+      console.error(`❌ Unknown changelog command: ${args[1] ?? "(none)"}. Use \`velu changelog add\`.`);
+      process.exit(1);
+    }
+    const option = (flag: string) => {
+      const idx = args.indexOf(flag);
+      return idx !== -1 ? args[idx + 1] : undefined;
+    };
+    await changelogAdd(docsDir, {
+      from: option("--from") ?? null,
+      to: option("--to") ?? "HEAD",
+      page: option("--page"),
+      label: option("--label"),
+      description: option("--description"),
+      dryRun: args.includes("--dry-run"),
+    });
     break;
+  }
+
+  case "version": {
+    if (args[1] !== "cut" || !args[2] || args[2].startsWith("--")) {
+      console.error("❌ Usage: velu version cut <version> [--current <label>] [--dry-run]");
+      process.exit(1);
+    }
+    const currentIdx = args.indexOf("--current");
+    await versionCut(docsDir, args[2], currentIdx !== -1 ? args[currentIdx + 1] : undefined, args.includes("--dry-run"));
+    break;
+  }
+
+  case "i18n": {
+    const option = (flag: string) => {
+      const idx = args.indexOf(flag);
+      return idx !== -1 ? args[idx + 1] : undefined;
+    };
+    const formatOption = option("--format");
+    if (args[1] === "status") {
+      const format = formatOption ?? "text";
+      if (format !== "text" && format !== "json") {
+        console.error(`❌ Invalid format: ${format}. Use text or json.`);
+        process.exit(1);
+      }
+      await i18nStatus(docsDir, option("--lang"), format, option("--output"));
+    } else if (args[1] === "export") {
+      const format = formatOption ?? "xliff";
+      if (format !== "xliff" && format !== "po") {
+        console.error(`❌ Invalid format: ${format}. Use xliff or po.`);
+        process.exit(1);
+      }
+      const language = option("--lang");
+      if (!language) {
+        console.error("❌ Pass the language to translate into, e.g. `velu i18n export --lang fr`.");
+        process.exit(1);
+      }
+      await i18nExport(docsDir, language, format, args.includes("--all"), option("--output"));
+    } else if (args[1] === "import") {
+      if (!args[2] || args[2].startsWith("--")) {
+        console.error("❌ Usage: velu i18n import <file> [--lang <code>]");
+        process.exit(1);
+      }
+      await i18nImport(docsDir, args[2], option("--lang"));
+    } else {
+      console.error(`❌ Unknown i18n command: ${args[1] ?? "(none)"}. Use \`velu i18n status\`, \`export\` or \`import\`.`);
+      process.exit(1);
+    }
+    break;
+  }
+
+  case "feedback": {
+    if (args[1] !== "export") {
+      console.error(`❌ Unknown feedback command: ${args[1] ?? "(none)"}. Use \`velu feedback export\`.`);
+      process.exit(1);
+    }
+    const formatIdx = args.indexOf("--format");
+    const format = formatIdx !== -1 ? args[formatIdx + 1] : "csv";
+    if (format !== "csv" && format !== "json") {
+      console.error(`❌ Invalid format: ${format ?? ""}. Use csv or json.`);
+      process.exit(1);
+    }
+    const outputIdx = args.indexOf("--output");
+    await feedbackExport(docsDir, format, outputIdx !== -1 ? args[outputIdx + 1] : undefined);
+    break;
+  }
+
+  case "search-report": {
+    const formatIdx = args.indexOf("--format");
+    const format = formatIdx !== -1 ? args[formatIdx + 1] : "text";
+    if (format !== "text" && format !== "json") {
+      console.error(`❌ Invalid format: ${format ?? ""}. Use text or json.`);
+      process.exit(1);
+    }
+    const limitIdx = args.indexOf("--limit");
+    const limit = limitIdx !== -1 ? parseInt(args[limitIdx + 1], 10) : 20;
+    if (isNaN(limit) || limit < 1) {
+      console.error("❌ Invalid limit. Use a positive number.");
+      process.exit(1);
+    }
+    const outputIdx = args.indexOf("--output");
+    await searchReport(docsDir, format, limit, outputIdx !== -1 ? args[outputIdx + 1] : undefined);
+    break;
+  }
 
   case "paths":
     await paths(docsDir);
     break;
 
-  case "build":
-    await buildSite(docsDir);
+  case "build": {
+    const { DEFAULT_DEPLOY_TARGET, DEPLOY_TARGETS } = await import("./deploy-targets.js");
+    const targetIdx = args.indexOf("--target");
+    const targets = (targetIdx !== -1 ? args[targetIdx + 1] ?? "" : DEFAULT_DEPLOY_TARGET).split(",").map((t) => t.trim()).filter(Boolean);
+    const unknown = targets.filter((target) => !(target in DEPLOY_TARGETS));
+    if (targets.length === 0 || unknown.length > 0) {
+      console.error(`❌ Unknown deploy target: ${unknown.join(", ") || "(none)"}. Use one of: ${Object.keys(DEPLOY_TARGETS).join(", ")}.`);
+      process.exit(1);
+    }
+    const basePathIdx = args.indexOf("--base-path");
+    const basePath = await resolveBasePathOption(docsDir, basePathIdx !== -1 ? args[basePathIdx + 1] ?? "" : undefined);
+    await buildSite(docsDir, targets, basePath, args.includes("--force"));
     break;
+  }
 
   case "run": {
     const portIdx = args.indexOf("--port");
@@ -711,10 +1244,16 @@ switch (command) {
       console.error("❌ Invalid port number.");
       process.exit(1);
     }
-    await run(docsDir, port);
+    const basePathIdx = args.indexOf("--base-path");
+    const basePath = await resolveBasePathOption(docsDir, basePathIdx !== -1 ? args[basePathIdx + 1] ?? "" : undefined);
+    await run(docsDir, port, basePath);
     break;
   }
 
+  case "mcp":
+    await mcp(docsDir);
+    break;
+
   default:
     console.error(`Unknown command: ${command}\n`);
     printHelp();
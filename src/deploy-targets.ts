@@ -0,0 +1,388 @@
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import {
+  compileRedirectRules,
+  isExternalDestination,
+  type RedirectRule,
+} from "./engine/lib/redirects.js";
+
+// ── Types ──────────────────────────────────────────────────────────────────────
+
+interface DeployContext {
+  /** Static export that gets uploaded to the host. */
+  distDir: string;
+  /** Host configuration that is applied out of band, not uploaded with the site. */
+  deployDir: string;
+  /** Page routes without a trailing slash, e.g. `/guides/setup`. */
+  routes: string[];
+  /** Exported markdown files, e.g. `/guides/setup.md`. */
+  markdownPaths: string[];
+  redirects: RedirectRule[];
+  /**
+   * URL path dist/ is served under, e.g. `/docs`, or `""` at the domain root.
+   * Routes, markdown paths and redirects above are relative to it.
+   */
+  basePath: string;
+}
+
+interface DeployTarget {
+  name: string;
+  description: string;
+  /** Write the host's artifacts and return the paths written, relative to `.velu-out`. */
+  emit(context: DeployContext): string[];
+}
+
+/** A redirect rule translated to a regular expression with `$n` backreferences. */
+interface RegexRedirect {
+  pattern: string;
+  replacement: string;
+  permanent: boolean;
+  exact: boolean;
+}
+
+const MARKDOWN_HEADERS: Array<[string, string]> = [
+  ["Content-Type", "text/markdown; charset=utf-8"],
+  ["Content-Disposition", "inline"],
+  ["X-Content-Type-Options", "nosniff"],
+];
+
+// ── Helpers ────────────────────────────────────────────────────────────────────
+
+function writeArtifact(path: string, content: string) {
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, content, "utf-8");
+}
+
+/**
+ * Translate a rule into the regex and `$n` replacement that match exactly what
+ * `resolveRedirect` does at runtime, for hosts that take regex rules.
+ */
+function toRegexRedirect(rule: RedirectRule): RegexRedirect {
+  const [compiled] = compileRedirectRules([rule]);
+  const named = new Map<string, number>();
+  const stars: number[] = [];
+  compiled.captures.forEach((capture, index) => {
+    if (capture.kind === "named") named.set(capture.key, index + 1);
+    else stars.push(index + 1);
+  });
+
+  let starIndex = 0;
+  const replacement = rule.destination
+    .replace(/:([A-Za-z_][A-Za-z0-9_-]*)\*?/g, (match, key: string) => (named.has(key) ? `$${named.get(key)}` : ""))
+    .replace(/\*/g, () => (starIndex < stars.length ? `$${stars[starIndex++]}` : ""));
+
+  return {
+    pattern: compiled.matcher.source,
+    replacement,
+    permanent: compiled.permanent,
+    exact: compiled.captures.length === 0,
+  };
+}
+
+/** A site-relative rule as the host sees it, with the base path on both ends. */
+function hostRedirect(rule: RedirectRule, basePath: string): RedirectRule {
+  if (!basePath) return rule;
+  return {
+    ...rule,
+    source: `${basePath}${rule.source}`,
+    destination: isExternalDestination(rule.destination) ? rule.destination : `${basePath}${rule.destination}`,
+  };
+}
+
+function hostRedirects(context: DeployContext): RedirectRule[] {
+  return context.redirects.map((rule) => hostRedirect(rule, context.basePath));
+}
+
+/** The matcher without anchors, optional trailing slash or escaped slashes. */
+function regexPath(pattern: string): string {
+  return pattern.replace(/^\^/, "").replace(/\\?\/\?\$$/, "").replace(/\\\//g, "/");
+}
+
+/** Destination for a pattern match; `$n` targets keep their shape so empty captures don't double slashes. */
+function redirectTarget(replacement: string): string {
+  return replacement.includes("$") ? replacement : withTrailingSlash(replacement);
+}
+
+function redirectStatus(rule: { permanent?: boolean }): 301 | 307 {
+  return rule.permanent === false ? 307 : 301;
+}
+
+function withTrailingSlash(path: string): string {
+  if (isExternalDestination(path) || path.endsWith("/") || /\.[A-Za-z0-9]+$/.test(path)) return path;
+  return `${path}/`;
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/**
+ * Hosts without server-side redirects get an HTML page at each exact source
+ * that forwards to the destination. Sources that are real pages are left alone.
+ */
+function writeRedirectStubs(context: DeployContext): string[] {
+  const written: string[] = [];
+  for (const rule of context.redirects) {
+    if (!toRegexRedirect(rule).exact) continue;
+    const rel = rule.source.replace(/^\/+/, "");
+    const stubPath = join(context.distDir, rel, "index.html");
+    if (!rel || existsSync(stubPath)) continue;
+
+    const target = escapeHtml(withTrailingSlash(hostRedirect(rule, context.basePath).destination));
+    writeArtifact(stubPath, [
+      "<!DOCTYPE html>",
+      `<html><head><meta charset="utf-8"><title>Redirecting…</title>`,
+      `<link rel="canonical" href="${target}">`,
+      `<meta name="robots" content="noindex">`,
+      `<meta http-equiv="refresh" content="0; url=${target}">`,
+      `</head><body><a href="${target}">${target}</a></body></html>`,
+      "",
+    ].join("\n"));
+    written.push(`dist/${rel}/index.html`);
+  }
+  return written;
+}
+
+// ── Targets ────────────────────────────────────────────────────────────────────
+
+const netlify: DeployTarget = {
+  name: "netlify",
+  description: "Netlify and Cloudflare Pages: _redirects and _headers",
+  emit(context) {
+    const redirectsPath = join(context.distDir, "_redirects");
+    const existing = existsSync(redirectsPath) ? readFileSync(redirectsPath, "utf-8") : "";
+    const lines = new Set(existing.split(/\r?\n/).map((line) => line.trim()).filter(Boolean));
+    for (const rule of hostRedirects(context)) {
+      lines.add(`${rule.source} ${rule.destination} ${redirectStatus(rule)}`);
+    }
+    for (const route of context.routes) {
+      const path = `${context.basePath}${route}`;
+      lines.add(`${path}  ${path}/  301`);
+    }
+    writeArtifact(redirectsPath, `${Array.from(lines).join("\n")}\n`);
+    const written = ["dist/_redirects"];
+
+    if (context.markdownPaths.length > 0) {
+      const headersPath = join(context.distDir, "_headers");
+      let merged = existsSync(headersPath) ? readFileSync(headersPath, "utf-8") : "";
+      for (const mdPath of context.markdownPaths) {
+        const block = [`${context.basePath}${mdPath}`, ...MARKDOWN_HEADERS.map(([key, value]) => `  ${key}: ${value}`), ""].join("\n");
+        if (merged.includes(block)) continue;
+        if (merged.length > 0 && !merged.endsWith("\n")) merged += "\n";
+        if (merged.length > 0) merged += "\n";
+        merged += block;
+      }
+      writeArtifact(headersPath, merged.replace(/\n{3,}/g, "\n\n").trimEnd() + "\n");
+      written.push("dist/_headers");
+    }
+    return written;
+  },
+};
+
+const cloudflare: DeployTarget = { ...netlify, name: "cloudflare" };
+
+const vercel: DeployTarget = {
+  name: "vercel",
+  description: "Vercel: vercel.json redirects and headers",
+  emit(context) {
+    const config = {
+      trailingSlash: true,
+      redirects: hostRedirects(context).map((rule) => {
+        const regex = toRegexRedirect(rule);
+        // Vercel sources are path-to-regexp patterns; inline groups carry the captures.
+        const source = regex.exact
+          ? rule.source
+          : regexPath(regex.pattern);
+        return { source, destination: regex.replacement, permanent: regex.permanent };
+      }),
+      headers: context.markdownPaths.length > 0
+        ? [{ source: `${context.basePath}/(.*)\\.md`, headers: MARKDOWN_HEADERS.map(([key, value]) => ({ key, value })) }]
+        : [],
+    };
+    writeArtifact(join(context.distDir, "vercel.json"), `${JSON.stringify(config, null, 2)}\n`);
+    return ["dist/vercel.json"];
+  },
+};
+
+const githubPages: DeployTarget = {
+  name: "github-pages",
+  description: "GitHub Pages: .nojekyll, 404.html and HTML redirect pages",
+  emit(context) {
+    writeArtifact(join(context.distDir, ".nojekyll"), "");
+    const written = ["dist/.nojekyll", ...writeRedirectStubs(context)];
+
+    // Pattern rules can only be followed client-side, from the 404 page.
+    const patterns = hostRedirects(context).map(toRegexRedirect).filter((rule) => !rule.exact);
+    const fallbackPath = join(context.distDir, "404.html");
+    if (patterns.length > 0 && existsSync(fallbackPath)) {
+      const html = readFileSync(fallbackPath, "utf-8");
+      if (!html.includes("velu-redirect-fallback")) {
+        const rules = patterns.map((rule) => [rule.pattern, rule.replacement]);
+        const script = [
+          '<script id="velu-redirect-fallback">',
+          "(function(){",
+          "  try {",
+          `    var rules = ${JSON.stringify(rules)};`,
+          "    var path = window.location.pathname || '/';",
+          "    for (var i = 0; i < rules.length; i++) {",
+          "      var re = new RegExp(rules[i][0]);",
+          "      if (!re.test(path)) continue;",
+          "      var target = path.replace(re, rules[i][1]);",
+          "      if (!/^[a-zA-Z][a-zA-Z0-9+.-]*:/.test(target)) {",
+          "        target = target.replace(/\\/{2,}/g, '/');",
+          "        if (!/\\.[a-zA-Z0-9]+$/.test(target) && target.slice(-1) !== '/') target += '/';",
+          "      }",
+          "      window.location.replace(target + (window.location.hash || ''));",
+          "      return;",
+          "    }",
+          "  } catch (_) {}",
+          "})();",
+          "</script>",
+        ].join("");
+        writeArtifact(fallbackPath, html.includes("</body>") ? html.replace("</body>", `${script}</body>`) : `${html}\n${script}\n`);
+        written.push("dist/404.html");
+      }
+    }
+    return written;
+  },
+};
+
+const nginx: DeployTarget = {
+  name: "nginx",
+  description: "nginx: server block with redirect map and location rules",
+  emit(context) {
+    const { basePath } = context;
+    const redirects = hostRedirects(context);
+    const exact = redirects.filter((rule) => toRegexRedirect(rule).exact);
+    const patterns = redirects.filter((rule) => !toRegexRedirect(rule).exact);
+    const quote = (value: string) => `"${value.replace(/(["\\])/g, "\\$1")}"`;
+    const mapEntries = (permanent: boolean) => [
+      ...exact
+        .filter((rule) => rule.permanent !== false === permanent)
+        .flatMap((rule) => [rule.source, `${rule.source}/`].map((source) => `    ${quote(source)} ${quote(withTrailingSlash(rule.destination))};`)),
+      ...(permanent ? context.routes.map((route) => `    ${quote(`${basePath}${route}`)} ${quote(`${basePath}${route}/`)};`) : []),
+    ];
+
+    const lines = [
+      "# Generated by `velu build --target nginx`. Include inside the http { } block",
+      basePath
+        ? `# and upload dist/ to /var/www${basePath}/ (\`root\` is its parent).`
+        : "# and point `root` at the uploaded dist/ directory.",
+      "",
+      "map $uri $velu_redirect_permanent {",
+      "    default \"\";",
+      ...mapEntries(true),
+      "}",
+      "",
+      "map $uri $velu_redirect_temporary {",
+      "    default \"\";",
+      ...mapEntries(false),
+      "}",
+      "",
+      "server {",
+      "    listen 80;",
+      basePath ? "    root /var/www;" : "    root /var/www/docs;",
+      "    index index.html;",
+      `    error_page 404 ${basePath}/404.html;`,
+      "",
+      "    if ($velu_redirect_permanent) { return 301 $velu_redirect_permanent; }",
+      "    if ($velu_redirect_temporary) { return 307 $velu_redirect_temporary; }",
+      "",
+      ...patterns.map((rule) => {
+        const regex = toRegexRedirect(rule);
+        return `    location ~ ^${regexPath(regex.pattern)}/?$ { return ${regex.permanent ? 301 : 307} ${redirectTarget(regex.replacement)}; }`;
+      }),
+      ...(patterns.length > 0 ? [""] : []),
+      "    location ~* \\.md$ {",
+      ...MARKDOWN_HEADERS.map(([key, value]) => key === "Content-Type"
+        ? "        types { } default_type \"text/markdown; charset=utf-8\";"
+        : `        add_header ${key} ${quote(value)};`),
+      "    }",
+      "",
+      `    location ${basePath}/ {`,
+      "        try_files $uri $uri/index.html $uri.html =404;",
+      "    }",
+      "}",
+      "",
+    ];
+    writeArtifact(join(context.deployDir, "nginx.conf"), lines.join("\n"));
+    return ["deploy/nginx.conf"];
+  },
+};
+
+const s3: DeployTarget = {
+  name: "s3",
+  description: "S3 + CloudFront: website configuration with routing rules",
+  emit(context) {
+    const written = writeRedirectStubs(context);
+    const routingRules: unknown[] = [];
+
+    for (const rule of hostRedirects(context)) {
+      const regex = toRegexRedirect(rule);
+      if (regex.exact) continue; // served by the redirect pages above
+
+      // S3 only matches key prefixes: `/old/:rest*` → `/new/:rest*`.
+      const prefixMatch = rule.source.match(/^(.*\/)(?::[A-Za-z_][A-Za-z0-9_-]*\*|\*)$/);
+      const destinationMatch = rule.destination.match(/^(.*\/)(?::[A-Za-z_][A-Za-z0-9_-]*\*|\*)$/);
+      const hasParams = (path: string) => /\*|(^|\/):/.test(path);
+      if (!prefixMatch || !destinationMatch || hasParams(prefixMatch[1]) || hasParams(destinationMatch[1])) {
+        console.warn(`⚠️  S3 routing rules only support prefix redirects; skipped ${rule.source} → ${rule.destination}`);
+        continue;
+      }
+
+      const redirect: Record<string, string> = { HttpRedirectCode: String(redirectStatus(rule)) };
+      const destination = destinationMatch[1];
+      if (isExternalDestination(destination)) {
+        const url = new URL(destination);
+        redirect.Protocol = url.protocol.replace(/:$/, "");
+        redirect.HostName = url.host;
+        redirect.ReplaceKeyPrefixWith = url.pathname.replace(/^\/+/, "");
+      } else {
+        redirect.ReplaceKeyPrefixWith = destination.replace(/^\/+/, "");
+      }
+      routingRules.push({ Condition: { KeyPrefixEquals: prefixMatch[1].replace(/^\/+/, "") }, Redirect: redirect });
+    }
+
+    if (routingRules.length > 50) {
+      console.warn(`⚠️  S3 allows at most 50 routing rules; ${routingRules.length} were generated`);
+    }
+
+    const website = {
+      IndexDocument: { Suffix: "index.html" },
+      ErrorDocument: { Key: `${context.basePath}/404.html`.replace(/^\/+/, "") },
+      ...(routingRules.length > 0 ? { RoutingRules: routingRules } : {}),
+    };
+    writeArtifact(join(context.deployDir, "s3-website.json"), `${JSON.stringify(website, null, 2)}\n`);
+    return [...written, "deploy/s3-website.json"];
+  },
+};
+
+const DEPLOY_TARGETS: Record<string, DeployTarget> = Object.fromEntries(
+  [netlify, cloudflare, vercel, githubPages, nginx, s3].map((target) => [target.name, target])
+);
+
+const DEFAULT_DEPLOY_TARGET = "netlify";
+
+/**
+ * Emit host artifacts for each target. `_redirects`, which the build always
+ * writes for the proxy, is dropped when no target reads it.
+ */
+function emitDeployTargets(targets: string[], context: DeployContext): string[] {
+  const written: string[] = [];
+  for (const name of targets) {
+    written.push(...DEPLOY_TARGETS[name].emit(context));
+  }
+  if (!targets.some((name) => name === "netlify" || name === "cloudflare")) {
+    rmSync(join(context.distDir, "_redirects"), { force: true });
+  }
+  return Array.from(new Set(written));
+}
+
+export {
+  DEFAULT_DEPLOY_TARGET,
+  DEPLOY_TARGETS,
+  emitDeployTargets,
+  toRegexRedirect,
+  type DeployContext,
+  type DeployTarget,
+};
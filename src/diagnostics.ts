@@ -0,0 +1,232 @@
+// ── Types ──────────────────────────────────────────────────────────────────────
+
+type DiagnosticSeverity = "error" | "warning";
+
+interface Diagnostic {
+  ruleId: string;
+  severity: DiagnosticSeverity;
+  /** Path relative to the docs directory, with forward slashes. */
+  file: string;
+  /** JSON pointer into `file` when the diagnostic points at config data. */
+  pointer?: string;
+  line?: number;
+  column?: number;
+  message: string;
+}
+
+type DiagnosticFormat = "text" | "json" | "sarif" | "github";
+
+const DIAGNOSTIC_FORMATS: DiagnosticFormat[] = ["text", "json", "sarif", "github"];
+
+// ── JSON pointer locations ─────────────────────────────────────────────────────
+
+function escapePointerSegment(segment: string | number): string {
+  return String(segment).replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+function pointerFromPath(path: Array<string | number>): string {
+  return path.map((segment) => `/${escapePointerSegment(segment)}`).join("");
+}
+
+interface JsonRange {
+  start: number;
+  /** Offset just past the value. */
+  end: number;
+}
+
+/**
+ * Map every JSON pointer in `source` to the span of its value.
+ * Returns an empty map when the source is not valid JSON.
+ */
+function indexJsonRanges(source: string): Map<string, JsonRange> {
+  const ranges = new Map<string, JsonRange>();
+  let index = 0;
+
+  function skipWhitespace() {
+    while (index < source.length && /\s/.test(source[index])) index += 1;
+  }
+
+  function readString(): string {
+    const start = index;
+    index += 1;
+    while (index < source.length && source[index] !== '"') {
+      index += source[index] === "\\" ? 2 : 1;
+    }
+    index += 1;
+    return JSON.parse(source.slice(start, index)) as string;
+  }
+
+  function readValue(pointer: string) {
+    skipWhitespace();
+    const start = index;
+    const char = source[index];
+
+    if (char === "{") {
+      index += 1;
+      skipWhitespace();
+      while (source[index] !== "}") {
+        if (source[index] !== '"') throw new Error("Expected key");
+        const key = readString();
+        skipWhitespace();
+        index += 1; // ':'
+        readValue(`${pointer}/${escapePointerSegment(key)}`);
+        skipWhitespace();
+        if (source[index] === ",") {
+          index += 1;
+          skipWhitespace();
+        }
+      }
+      index += 1;
+    } else if (char === "[") {
+      index += 1;
+      skipWhitespace();
+      let item = 0;
+      while (source[index] !== "]") {
+        readValue(`${pointer}/${item}`);
+        item += 1;
+        skipWhitespace();
+        if (source[index] === ",") index += 1;
+        skipWhitespace();
+      }
+      index += 1;
+    } else if (char === '"') {
+      readString();
+    } else {
+      while (index < source.length && !/[\s,\]}]/.test(source[index])) index += 1;
+    }
+    ranges.set(pointer, { start, end: index });
+  }
+
+  try {
+    readValue("");
+  } catch {
+    return new Map();
+  }
+  return ranges;
+}
+
+/** Map every JSON pointer in `source` to the offset where its value starts. */
+function indexJsonPointers(source: string): Map<string, number> {
+  return new Map(Array.from(indexJsonRanges(source), ([pointer, range]) => [pointer, range.start]));
+}
+
+function lineAndColumn(source: string, offset: number): { line: number; column: number } {
+  let line = 1;
+  let lineStart = 0;
+  for (let i = 0; i < offset; i += 1) {
+    if (source.charCodeAt(i) === 10) {
+      line += 1;
+      lineStart = i + 1;
+    }
+  }
+  return { line, column: offset - lineStart + 1 };
+}
+
+/**
+ * Resolve a JSON pointer to a 1-based line and column in `source`. Falls back
+ * to the nearest existing parent when the pointer names a missing property.
+ */
+function locateJsonPointer(source: string, pointer: string, index = indexJsonPointers(source)): { line: number; column: number } | null {
+  let current = pointer;
+  while (true) {
+    const offset = index.get(current);
+    if (offset !== undefined) return lineAndColumn(source, offset);
+    if (!current) return null;
+    current = current.slice(0, current.lastIndexOf("/"));
+  }
+}
+
+// ── Formatters ─────────────────────────────────────────────────────────────────
+
+function formatLocation(diagnostic: Diagnostic): string {
+  if (diagnostic.line === undefined) return diagnostic.file;
+  return diagnostic.column === undefined
+    ? `${diagnostic.file}:${diagnostic.line}`
+    : `${diagnostic.file}:${diagnostic.line}:${diagnostic.column}`;
+}
+
+function formatJson(diagnostics: Diagnostic[]): string {
+  const errorCount = diagnostics.filter((d) => d.severity === "error").length;
+  return JSON.stringify({
+    valid: errorCount === 0,
+    errorCount,
+    warningCount: diagnostics.length - errorCount,
+    diagnostics,
+  }, null, 2);
+}
+
+function formatSarif(diagnostics: Diagnostic[], toolVersion: string): string {
+  const ruleIds = Array.from(new Set(diagnostics.map((d) => d.ruleId))).sort();
+  const log = {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: "velu",
+            version: toolVersion,
+            informationUri: "https://github.com/aravindc26/velu-cli",
+            rules: ruleIds.map((id) => ({ id })),
+          },
+        },
+        results: diagnostics.map((diagnostic) => ({
+          ruleId: diagnostic.ruleId,
+          ruleIndex: ruleIds.indexOf(diagnostic.ruleId),
+          level: diagnostic.severity,
+          message: { text: diagnostic.message },
+          locations: [
+            {
+              physicalLocation: {
+                artifactLocation: { uri: diagnostic.file },
+                ...(diagnostic.line !== undefined
+                  ? { region: { startLine: diagnostic.line, ...(diagnostic.column !== undefined ? { startColumn: diagnostic.column } : {}) } }
+                  : {}),
+              },
+              ...(diagnostic.pointer !== undefined
+                ? { logicalLocations: [{ fullyQualifiedName: diagnostic.pointer || "/" }] }
+                : {}),
+            },
+          ],
+        })),
+      },
+    ],
+  };
+  return JSON.stringify(log, null, 2);
+}
+
+function escapeGithubData(value: string): string {
+  return value.replace(/%/g, "%25").replace(/\r/g, "%0D").replace(/\n/g, "%0A");
+}
+
+function escapeGithubProperty(value: string): string {
+  return escapeGithubData(value).replace(/:/g, "%3A").replace(/,/g, "%2C");
+}
+
+/** GitHub Actions workflow commands (`::error file=...::message`). */
+function formatGithub(diagnostics: Diagnostic[], rootDir = ""): string {
+  return diagnostics.map((diagnostic) => {
+    const file = rootDir ? `${rootDir.replace(/\/+$/, "")}/${diagnostic.file}` : diagnostic.file;
+    const properties = [`file=${escapeGithubProperty(file)}`];
+    if (diagnostic.line !== undefined) properties.push(`line=${diagnostic.line}`);
+    if (diagnostic.column !== undefined) properties.push(`col=${diagnostic.column}`);
+    properties.push(`title=${escapeGithubProperty(`velu(${diagnostic.ruleId})`)}`);
+    return `::${diagnostic.severity} ${properties.join(",")}::${escapeGithubData(diagnostic.message)}`;
+  }).join("\n");
+}
+
+export {
+  DIAGNOSTIC_FORMATS,
+  formatGithub,
+  formatJson,
+  formatLocation,
+  formatSarif,
+  indexJsonPointers,
+  indexJsonRanges,
+  locateJsonPointer,
+  pointerFromPath,
+  type Diagnostic,
+  type DiagnosticFormat,
+  type DiagnosticSeverity,
+  type JsonRange,
+};
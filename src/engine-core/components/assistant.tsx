@@ -2,7 +2,41 @@
 
 import { useEffect } from 'react';
 
-export function VeluAssistant() {
+type AssistantProtocol = 'velu-sse' | 'openai-chat' | 'custom';
+
+interface AssistantOptions {
+  endpoint: string;
+  protocol: AssistantProtocol;
+  suggestions: string[];
+  model?: string;
+}
+
+interface AssistantTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/** A source of an answer: `url` from the built-in route and OpenAI-style servers, `route_path` from the Velu API. */
+interface Citation {
+  title?: string;
+  url?: string;
+  route_path?: string;
+}
+
+/** The parts of an OpenAI chat completion chunk the widget reads. */
+interface ChatCompletionChunk {
+  citations?: unknown;
+  choices?: Array<{ delta?: { content?: unknown } }>;
+}
+
+const VELU_ASSISTANT_API = 'https://api.getvelu.com/api/v1/public/ai-assistant';
+
+export function VeluAssistant({
+  endpoint = VELU_ASSISTANT_API,
+  protocol = 'velu-sse',
+  suggestions = [],
+  model,
+}: Partial<AssistantOptions>) {
   useEffect(() => {
     // Guard against double-init
     if (document.getElementById('veluAskBar')) return;
@@ -12,6 +46,7 @@ export function VeluAssistant() {
     askBar.className = 'velu-ask-bar';
     askBar.id = 'veluAskBar';
     askBar.innerHTML = `
+      <div class="velu-ask-suggestions" id="veluAskSuggestions"></div>
       <div class="velu-ask-bar-inner">
         <input type="text" class="velu-ask-input" id="veluAskInput" placeholder="Ask a question..." autocomplete="off" />
         <button class="velu-ask-submit" id="veluAskSubmit" aria-label="Send">
@@ -39,6 +74,7 @@ export function VeluAssistant() {
         </div>
       </div>
       <div class="velu-assistant-messages" id="veluAssistantMessages"></div>
+      <div class="velu-assistant-suggestions" id="veluAssistantSuggestions"></div>
       <div class="velu-assistant-input-area">
         <input type="text" class="velu-assistant-chat-input" id="veluAssistantChatInput" placeholder="Ask a question..." autocomplete="off" />
         <button class="velu-assistant-send" id="veluAssistantSend" aria-label="Send">
@@ -48,7 +84,7 @@ export function VeluAssistant() {
     document.body.appendChild(panel);
 
     // ── Logic ──
-    initAssistant();
+    initAssistant({ endpoint, protocol, suggestions, model });
 
     return () => {
       askBar.remove();
@@ -59,13 +95,17 @@ export function VeluAssistant() {
   return null;
 }
 
-function initAssistant() {
-  const API_BASE = 'https://api.getvelu.com/api/v1/public/ai-assistant';
+function initAssistant(options: AssistantOptions) {
+  const API_BASE = options.endpoint;
+  // The Velu API keeps the conversation; other protocols get the whole history per question.
+  const stateless = options.protocol !== 'velu-sse';
   const state: {
     conversationId: string | null;
     conversationToken: string | null;
     lastSeq: number;
     eventSource: EventSource | null;
+    request: AbortController | null;
+    history: AssistantTurn[];
     expanded: boolean;
     bootstrapped: boolean;
     feedback: Record<string, 'up' | 'down'>;
@@ -74,6 +114,8 @@ function initAssistant() {
     conversationToken: null,
     lastSeq: 0,
     eventSource: null,
+    request: null,
+    history: [],
     expanded: false,
     bootstrapped: false,
     feedback: {},
@@ -86,6 +128,8 @@ function initAssistant() {
   const messagesEl = document.getElementById('veluAssistantMessages')!;
   const chatInput = document.getElementById('veluAssistantChatInput') as HTMLInputElement;
   const sendBtn = document.getElementById('veluAssistantSend')!;
+  const askSuggestions = document.getElementById('veluAskSuggestions')!;
+  const panelSuggestions = document.getElementById('veluAssistantSuggestions')!;
 
   function saveState() {
     try {
@@ -96,6 +140,7 @@ function initAssistant() {
       sessionStorage.setItem('velu-conv-token', state.conversationToken || '');
       sessionStorage.setItem('velu-last-seq', String(state.lastSeq));
       sessionStorage.setItem('velu-feedback', JSON.stringify(state.feedback));
+      sessionStorage.setItem('velu-chat-history', JSON.stringify(state.history));
     } catch {}
   }
 
@@ -121,8 +166,11 @@ function initAssistant() {
     state.conversationToken = null;
     state.lastSeq = 0;
     state.feedback = {};
+    state.history = [];
     if (state.eventSource) { state.eventSource.close(); state.eventSource = null; }
+    if (state.request) { state.request.abort(); state.request = null; }
     messagesEl.innerHTML = '';
+    syncSuggestions();
     chatInput.value = '';
     chatInput.focus();
     saveState();
@@ -140,7 +188,7 @@ function initAssistant() {
   }
 
   function bootstrap() {
-    if (state.bootstrapped) return Promise.resolve();
+    if (state.bootstrapped || stateless) return Promise.resolve();
     return fetch(API_BASE + '/bootstrap', { credentials: 'include' })
       .then((r) => r.json())
       .then(() => { state.bootstrapped = true; })
@@ -294,41 +342,10 @@ function initAssistant() {
           }
           if (lastUserText) {
             msgDiv.remove();
+            if (state.history[state.history.length - 1]?.role === 'assistant') state.history.pop();
             saveState();
             addThinking();
-            bootstrap()
-              .then(() =>
-                fetch(API_BASE + '/messages', {
-                  method: 'POST',
-                  headers: { 'Content-Type': 'application/json' },
-                  credentials: 'include',
-                  body: JSON.stringify({
-                    message: lastUserText,
-                    conversation_id: state.conversationId,
-                  }),
-                })
-              )
-              .then((r) => {
-                if (r.status === 429) {
-                  removeThinking();
-                  addMessage('assistant', 'Rate limited. Please wait a moment and try again.');
-                  return;
-                }
-                return r.json();
-              })
-              .then((data: any) => {
-                if (!data) return;
-                if (data.conversation_id) state.conversationId = data.conversation_id;
-                if (data.conversation_token) state.conversationToken = data.conversation_token;
-                saveState();
-                if (!state.eventSource || state.eventSource.readyState === 2) {
-                  connectSSE();
-                }
-              })
-              .catch(() => {
-                removeThinking();
-                addMessage('assistant', 'Failed to connect. Please try again.');
-              });
+            ask(lastUserText);
           }
         };
       }
@@ -336,6 +353,7 @@ function initAssistant() {
 
     messagesEl.appendChild(msgDiv);
     messagesEl.scrollTop = messagesEl.scrollHeight;
+    syncSuggestions();
     saveState();
     return bubble;
   }
@@ -381,11 +399,85 @@ function initAssistant() {
     state.eventSource.onerror = () => {};
   }
 
-  function sendMessage(text: string) {
-    if (!text.trim()) return;
-    addMessage('user', text);
-    addThinking();
+  function rateLimited(r: Response) {
+    if (r.status !== 429) return false;
+    removeThinking();
+    removePartial();
+    addMessage('assistant', 'Rate limited. Please wait a moment and try again.');
+    return true;
+  }
+
+  function failed(error: unknown) {
+    if (error instanceof DOMException && error.name === 'AbortError') return;
+    removeThinking();
+    removePartial();
+    addMessage('assistant', 'Failed to connect. Please try again.');
+  }
+
+  // Streamed text so far, shown in place of the thinking dots until the answer is complete.
+  function showPartial(content: string, citations: Citation[]) {
+    removeThinking();
+    let bubble = document.querySelector('#veluPartial .velu-msg-bubble');
+    if (!bubble) {
+      const div = document.createElement('div');
+      div.className = 'velu-msg velu-msg-assistant';
+      div.id = 'veluPartial';
+      div.innerHTML = '<div class="velu-msg-bubble velu-msg-bubble-assistant"></div>';
+      messagesEl.appendChild(div);
+      bubble = div.firstElementChild!;
+    }
+    bubble.innerHTML = formatContent(content, citations);
+    messagesEl.scrollTop = messagesEl.scrollHeight;
+  }
+
+  function removePartial() {
+    document.getElementById('veluPartial')?.remove();
+  }
+
+  function finishAnswer(content: string, citations: Citation[]) {
+    removeThinking();
+    removePartial();
+    state.request = null;
+    if (!content.trim()) {
+      addMessage('assistant', 'Something went wrong. Please try again.');
+      return;
+    }
+    state.history.push({ role: 'assistant', content });
+    addMessage('assistant', content, citations);
+  }
+
+  /** Read `data:` lines of a server-sent event stream until `[DONE]` or the end. */
+  async function readEventStream(response: Response, onData: (data: unknown) => void) {
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+      const lines = buffer.split('\n');
+      buffer = done ? '' : lines.pop()!;
+      for (const line of lines) {
+        if (!line.startsWith('data:')) continue;
+        const payload = line.slice(5).trim();
+        if (payload === '[DONE]') return;
+        try { onData(JSON.parse(payload)); } catch {}
+      }
+      if (done) return;
+    }
+  }
+
+  function postJson(body: unknown) {
+    state.request = new AbortController();
+    return fetch(API_BASE, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'same-origin',
+      signal: state.request.signal,
+      body: JSON.stringify(body),
+    });
+  }
 
+  function askVelu(text: string) {
     bootstrap()
       .then(() =>
         fetch(API_BASE + '/messages', {
@@ -399,11 +491,7 @@ function initAssistant() {
         })
       )
       .then((r) => {
-        if (r.status === 429) {
-          removeThinking();
-          addMessage('assistant', 'Rate limited. Please wait a moment and try again.');
-          return;
-        }
+        if (rateLimited(r)) return;
         return r.json();
       })
       .then((data: any) => {
@@ -415,12 +503,92 @@ function initAssistant() {
           connectSSE();
         }
       })
-      .catch(() => {
-        removeThinking();
-        addMessage('assistant', 'Failed to connect. Please try again.');
-      });
+      .catch(failed);
+  }
+
+  // OpenAI chat completions: streamed deltas, or one completion when the server doesn't stream.
+  // Sources come from a `citations` array on any chunk or on the completion.
+  function askOpenAiChat() {
+    postJson({
+      ...(options.model ? { model: options.model } : {}),
+      messages: state.history,
+      stream: true,
+    })
+      .then(async (r) => {
+        if (rateLimited(r)) return;
+        if (!r.ok) throw new Error('Assistant answered ' + r.status);
+        let content = '';
+        let citations: Citation[] = [];
+        if ((r.headers.get('content-type') || '').includes('text/event-stream')) {
+          await readEventStream(r, (data) => {
+            const chunk = (data ?? {}) as ChatCompletionChunk;
+            if (Array.isArray(chunk.citations)) citations = chunk.citations;
+            const delta = chunk.choices?.[0]?.delta?.content;
+            if (typeof delta === 'string' && delta) {
+              content += delta;
+              showPartial(content, citations);
+            }
+          });
+        } else {
+          const data = await r.json();
+          content = data.choices?.[0]?.message?.content || '';
+          if (Array.isArray(data.citations)) citations = data.citations;
+        }
+        finishAnswer(content, citations);
+      })
+      .catch(failed);
+  }
+
+  // Custom: `{ message, messages, page_url }` in, `{ content, citations? }` out.
+  function askCustom(text: string) {
+    postJson({ message: text, messages: state.history, page_url: window.location.href })
+      .then(async (r) => {
+        if (rateLimited(r)) return;
+        if (!r.ok) throw new Error('Assistant answered ' + r.status);
+        const data = await r.json();
+        finishAnswer(data.content || data.answer || '', Array.isArray(data.citations) ? data.citations : []);
+      })
+      .catch(failed);
   }
 
+  function ask(text: string) {
+    if (options.protocol === 'openai-chat') askOpenAiChat();
+    else if (options.protocol === 'custom') askCustom(text);
+    else askVelu(text);
+  }
+
+  function sendMessage(text: string) {
+    if (!text.trim()) return;
+    addMessage('user', text);
+    if (stateless) state.history.push({ role: 'user', content: text });
+    saveState();
+    addThinking();
+    ask(text);
+  }
+
+  // Suggested questions: under the ask bar while it has focus, and in the panel until the chat starts.
+  function renderSuggestions(container: HTMLElement, onPick: (question: string) => void) {
+    for (const question of options.suggestions) {
+      const button = document.createElement('button');
+      button.type = 'button';
+      button.className = 'velu-assistant-suggestion';
+      button.textContent = question;
+      // Keep focus in the ask bar so it stays open until the click lands.
+      button.onmousedown = (e) => e.preventDefault();
+      button.onclick = () => onPick(question);
+      container.appendChild(button);
+    }
+  }
+
+  function syncSuggestions() {
+    const empty = messagesEl.children.length === 0;
+    panelSuggestions.hidden = !empty || options.suggestions.length === 0;
+  }
+
+  askSuggestions.hidden = options.suggestions.length === 0;
+  renderSuggestions(askSuggestions, (question) => { askInput.blur(); openPanel(); sendMessage(question); });
+  renderSuggestions(panelSuggestions, sendMessage);
+
   // Event handlers
   askInput.onkeydown = (e) => { if (e.key === 'Enter') { const t = askInput.value.trim(); if (!t) return; askInput.value = ''; openPanel(); sendMessage(t); } };
   askSubmit.onclick = () => { const t = askInput.value.trim(); if (!t) return; askInput.value = ''; openPanel(); sendMessage(t); };
@@ -474,10 +642,12 @@ function initAssistant() {
     const savedConvToken = sessionStorage.getItem('velu-conv-token');
     const savedSeq = sessionStorage.getItem('velu-last-seq');
     const savedFeedback = sessionStorage.getItem('velu-feedback');
+    const savedHistory = sessionStorage.getItem('velu-chat-history');
     if (savedConvId) state.conversationId = savedConvId;
     if (savedConvToken) state.conversationToken = savedConvToken;
     if (savedSeq) state.lastSeq = parseInt(savedSeq, 10) || 0;
     if (savedFeedback) try { state.feedback = JSON.parse(savedFeedback); } catch {}
+    if (savedHistory && stateless) try { state.history = JSON.parse(savedHistory); } catch {}
     if (savedMessages) {
       messagesEl.innerHTML = savedMessages;
       // Re-bind action handlers on restored messages
@@ -541,6 +711,7 @@ function initAssistant() {
       if (state.conversationId) connectSSE();
     }
   } catch {}
+  syncSuggestions();
 
   bootstrap();
 }
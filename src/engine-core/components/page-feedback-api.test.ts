@@ -70,6 +70,28 @@ test('submitPublicFeedback posts the expected payload and headers', async () =>
   });
 });
 
+test('submitPublicFeedback posts to a self-hosted endpoint without credentials', async () => {
+  let receivedUrl = '';
+  let receivedInit: RequestInit | undefined;
+
+  const result = await submitPublicFeedback({
+    pageUrl: 'https://docs.example.com/page',
+    helpful: true,
+    reasonText: 'The documentation is up to date',
+    siteHost: 'docs.example.com',
+    endpoint: '/docs/api/feedback',
+    fetchImpl: async (input, init) => {
+      receivedUrl = String(input);
+      receivedInit = init;
+      return new Response(null, { status: 204 });
+    },
+  });
+
+  assert.deepEqual(result, { ok: true });
+  assert.equal(receivedUrl, '/docs/api/feedback');
+  assert.equal(receivedInit?.credentials, 'same-origin');
+});
+
 test('submitPublicFeedback reports non-2xx responses as request_failed', async () => {
   const result = await submitPublicFeedback({
     pageUrl: 'https://docs.example.com/page',
@@ -19,6 +19,8 @@ interface BuildPayloadInput {
 
 export interface SubmitPublicFeedbackInput extends BuildPayloadInput {
   siteHost: string;
+  /** Self-hosted endpoint from docs.json `feedback`; defaults to the Velu API. */
+  endpoint?: string;
   fetchImpl?: typeof fetch;
 }
 
@@ -64,9 +66,9 @@ export async function submitPublicFeedback(input: SubmitPublicFeedbackInput): Pr
 
   const fetchImpl = input.fetchImpl ?? fetch;
   try {
-    const response = await fetchImpl(resolvePublicFeedbackEndpoint(), {
+    const response = await fetchImpl(input.endpoint ?? resolvePublicFeedbackEndpoint(), {
       method: 'POST',
-      credentials: 'include',
+      credentials: input.endpoint ? 'same-origin' : 'include',
       headers: {
         'Content-Type': 'application/json',
         'x-velu-site-host': input.siteHost,
@@ -22,7 +22,7 @@ const NO_OPTIONS = [
   'Something else',
 ];
 
-export function PageFeedback() {
+export function PageFeedback({ endpoint }: { endpoint?: string }) {
   const [vote, setVote] = useState<Vote | null>(null);
   const [selectedReason, setSelectedReason] = useState<string>('');
   const [details, setDetails] = useState('');
@@ -71,6 +71,7 @@ export function PageFeedback() {
       email: showOptionalInputs ? email : undefined,
       pageUrl: window.location.href,
       siteHost: window.location.host,
+      endpoint,
     });
 
     if (result.ok) {
@@ -0,0 +1,34 @@
+// Opt-in search telemetry (`search.analytics` in docs.json), stored by
+// `/api/search-analytics` and summarized by `velu search-report`.
+
+export type SearchEventPayload = {
+  search_id: string;
+  query: string;
+  filters: Record<string, string>;
+  page_url: string;
+} & ({ type: 'search'; results: number } | { type: 'click'; url: string; position: number });
+
+export function createSearchId(): string {
+  return typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+/**
+ * Send without delaying navigation: `sendBeacon` survives the page unloading
+ * after a result click, and as text/plain it needs no CORS preflight.
+ */
+export function sendSearchEvent(endpoint: string, payload: SearchEventPayload): void {
+  const body = JSON.stringify(payload);
+  try {
+    if (typeof navigator !== 'undefined' && navigator.sendBeacon?.(endpoint, body)) return;
+  } catch {
+    // fall back to fetch
+  }
+  fetch(endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'text/plain;charset=UTF-8' },
+    body,
+    keepalive: true,
+  }).catch(() => {});
+}
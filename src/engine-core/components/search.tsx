@@ -1,6 +1,9 @@
 'use client';
 
 import { useEffect, useRef, useState, useCallback, type KeyboardEvent } from 'react';
+import { createSearchId, sendSearchEvent } from './search-analytics';
+import { expandSearchQuery, mergeSearchResults } from './search-synonyms';
+import { fuseResults, loadSemanticSearch, type SemanticSearch } from './semantic-search';
 
 interface PagefindResult {
   url: string;
@@ -13,12 +16,19 @@ interface PagefindResult {
   }>;
 }
 
+interface PagefindMatch {
+  id: string;
+  score: number;
+  data: () => Promise<PagefindResult>;
+}
+
 interface PagefindResponse {
-  results: Array<{ data: () => Promise<PagefindResult> }>;
+  results: PagefindMatch[];
 }
 
 interface PagefindInstance {
   init: () => Promise<void>;
+  options: (options: { baseUrl?: string }) => Promise<void>;
   search: (query: string, options?: { filters?: Record<string, string | string[]> }) => Promise<PagefindResponse>;
   destroy: () => void;
 }
@@ -29,6 +39,19 @@ interface SearchFilters {
   product?: string;
 }
 
+interface LoggedSearch {
+  id: string;
+  query: string;
+  results: number;
+  filters: Record<string, string>;
+  sent: boolean;
+}
+
+// A search is logged once typing pauses this long, or right away on a click or close.
+const SEARCH_EVENT_DELAY_MS = 1000;
+
+const NO_SYNONYMS: string[][] = [];
+
 function parseFilterAttribute(value: string | null): SearchFilters {
   const out: SearchFilters = {};
   if (!value) return out;
@@ -50,7 +73,8 @@ function parseFilterAttribute(value: string | null): SearchFilters {
 
 function getActiveFiltersFromPage(): SearchFilters {
   if (typeof document === 'undefined') return {};
-  const node = document.querySelector('[data-pagefind-body]');
+  // Pages left out of search (`searchable: false`) still carry their filters.
+  const node = document.querySelector('[data-pagefind-meta]');
   if (!node) return {};
   return parseFilterAttribute(node.getAttribute('data-pagefind-filter'));
 }
@@ -73,8 +97,7 @@ function detectSiteBasePath(): string {
   return '';
 }
 
-async function loadPagefindRuntime(): Promise<PagefindInstance | null> {
-  const basePath = detectSiteBasePath().replace(/\/+$/, '');
+async function loadPagefindRuntime(basePath: string): Promise<PagefindInstance | null> {
   const candidates = Array.from(
     new Set([
       basePath ? `${basePath}/pagefind/pagefind.js` : '',
@@ -86,6 +109,8 @@ async function loadPagefindRuntime(): Promise<PagefindInstance | null> {
     try {
       const moduleLoader = new Function('modulePath', 'return import(modulePath)');
       const mod = await moduleLoader(path) as unknown as PagefindInstance;
+      // Indexed URLs are relative to dist/; results need the site's base path.
+      if (basePath) await mod.options({ baseUrl: `${basePath}/` });
       await mod.init();
       return mod;
     } catch {
@@ -99,13 +124,23 @@ async function loadPagefindRuntime(): Promise<PagefindInstance | null> {
 export function PagefindSearch({
   open,
   onOpenChange,
+  analyticsEndpoint,
+  synonyms = NO_SYNONYMS,
 }: {
   open: boolean;
   onOpenChange: (open: boolean) => void;
+  analyticsEndpoint?: string;
+  /** `search.synonyms` from docs.json. */
+  synonyms?: string[][];
 }) {
   const inputRef = useRef<HTMLInputElement>(null);
   const dialogRef = useRef<HTMLDialogElement>(null);
   const pagefindRef = useRef<PagefindInstance | null>(null);
+  const semanticRef = useRef<SemanticSearch | null>(null);
+  const basePathRef = useRef('');
+  const queryRef = useRef('');
+  const loggedSearchRef = useRef<LoggedSearch | null>(null);
+  const searchEventTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const resultRefs = useRef<Array<HTMLAnchorElement | null>>([]);
   const [query, setQuery] = useState('');
   const [results, setResults] = useState<PagefindResult[]>([]);
@@ -127,27 +162,77 @@ export function PagefindSearch({
         setAvailable(false);
         return;
       }
+      basePathRef.current = detectSiteBasePath().replace(/\/+$/, '');
       try {
-        pagefindRef.current = await loadPagefindRuntime();
+        pagefindRef.current = await loadPagefindRuntime(basePathRef.current);
         if (!pagefindRef.current) setAvailable(false);
       } catch {
         setAvailable(false);
       }
+      // Only sites built with `search.semantic` have an index; the rest stay keyword-only.
+      semanticRef.current = await loadSemanticSearch(basePathRef.current).catch(() => null);
     }
     loadPagefind();
   }, []);
 
+  const flushSearchEvent = useCallback(() => {
+    if (searchEventTimerRef.current) clearTimeout(searchEventTimerRef.current);
+    searchEventTimerRef.current = null;
+    const logged = loggedSearchRef.current;
+    if (!analyticsEndpoint || !logged || logged.sent) return;
+    logged.sent = true;
+    sendSearchEvent(analyticsEndpoint, {
+      type: 'search',
+      search_id: logged.id,
+      query: logged.query,
+      results: logged.results,
+      filters: logged.filters,
+      page_url: window.location.href,
+    });
+  }, [analyticsEndpoint]);
+
+  const recordSearch = useCallback((q: string, results: number, filters: Record<string, string>) => {
+    if (!analyticsEndpoint) return;
+    const logged = loggedSearchRef.current;
+    // Semantic results re-rank the same query; that updates the count, not the search.
+    if (logged && logged.query === q) {
+      if (logged.sent) return;
+      logged.results = results;
+    } else {
+      loggedSearchRef.current = { id: createSearchId(), query: q, results, filters, sent: false };
+    }
+    if (searchEventTimerRef.current) clearTimeout(searchEventTimerRef.current);
+    searchEventTimerRef.current = setTimeout(flushSearchEvent, SEARCH_EVENT_DELAY_MS);
+  }, [analyticsEndpoint, flushSearchEvent]);
+
+  const recordClick = useCallback((url: string, position: number) => {
+    flushSearchEvent();
+    const logged = loggedSearchRef.current;
+    if (!analyticsEndpoint || !logged) return;
+    sendSearchEvent(analyticsEndpoint, {
+      type: 'click',
+      search_id: logged.id,
+      query: logged.query,
+      url,
+      position,
+      filters: logged.filters,
+      page_url: window.location.href,
+    });
+  }, [analyticsEndpoint, flushSearchEvent]);
+
   useEffect(() => {
     if (open) {
       dialogRef.current?.showModal();
       setTimeout(() => inputRef.current?.focus(), 50);
     } else {
       dialogRef.current?.close();
+      flushSearchEvent();
+      loggedSearchRef.current = null;
       setQuery('');
       setResults([]);
       setActiveIndex(-1);
     }
-  }, [open]);
+  }, [open, flushSearchEvent]);
 
   useEffect(() => {
     if (!results.length) {
@@ -168,6 +253,7 @@ export function PagefindSearch({
   const search = useCallback(
     async (q: string) => {
       setQuery(q);
+      queryRef.current = q;
       if (!q.trim() || !pagefindRef.current) {
         setResults([]);
         setActiveIndex(-1);
@@ -181,30 +267,48 @@ export function PagefindSearch({
         if (activeFilters.version) filters.version = activeFilters.version;
         if (activeFilters.product) filters.product = activeFilters.product;
 
-        const withFilters = Object.keys(filters).length > 0;
-        const response = await pagefindRef.current.search(
-          q,
-          withFilters ? { filters } : undefined,
+        const pagefind = pagefindRef.current;
+        const variants = expandSearchQuery(q, synonyms);
+        const searchVariants = async (options?: { filters: Record<string, string> }) => mergeSearchResults(
+          (await Promise.all(variants.map((variant) => pagefind.search(variant, options))))
+            .map((response) => response.results),
         );
 
+        const withFilters = Object.keys(filters).length > 0;
+        const matches = await searchVariants(withFilters ? { filters } : undefined);
+
         // If scoped filters return nothing, fall back to global results
         // to avoid false "No results" from stale/missing filter metadata.
-        const fallbackResponse = withFilters && response.results.length === 0
-          ? await pagefindRef.current.search(q)
-          : response;
+        const fallbackMatches = withFilters && matches.length === 0
+          ? await searchVariants()
+          : matches;
 
         const items = await Promise.all(
-          fallbackResponse.results.slice(0, 8).map((r) => r.data()),
+          fallbackMatches.slice(0, 8).map((r) => r.data()),
         );
         setResults(items);
         setActiveIndex(items.length > 0 ? 0 : -1);
+        recordSearch(q, items.length, filters);
+
+        // Keyword results show right away; semantic matches re-rank them once the query is embedded.
+        if (semanticRef.current) {
+          semanticRef.current.search(q, filters)
+            .then((hits) => {
+              if (queryRef.current !== q || hits.length === 0) return;
+              const fused = fuseResults(items, hits, basePathRef.current).slice(0, 8);
+              setResults(fused);
+              setActiveIndex(fused.length > 0 ? 0 : -1);
+              recordSearch(q, fused.length, filters);
+            })
+            .catch(() => {});
+        }
       } catch {
         setResults([]);
         setActiveIndex(-1);
       }
       setLoading(false);
     },
-    [activeFilters]
+    [activeFilters, recordSearch, synonyms]
   );
 
   const onInputKeyDown = useCallback((event: KeyboardEvent<HTMLInputElement>) => {
@@ -228,10 +332,11 @@ export function PagefindSearch({
     if (event.key === 'Enter' && activeIndex >= 0 && activeIndex < results.length) {
       event.preventDefault();
       const target = results[activeIndex];
+      recordClick(target.url, activeIndex);
       onOpenChange(false);
       window.location.href = target.url;
     }
-  }, [activeIndex, onOpenChange, results]);
+  }, [activeIndex, onOpenChange, recordClick, results]);
 
   return (
     <dialog
@@ -281,7 +386,10 @@ export function PagefindSearch({
               className={['fd-search-result', activeIndex === i ? 'is-active' : ''].join(' ')}
               aria-current={activeIndex === i ? 'true' : undefined}
               onMouseEnter={() => setActiveIndex(i)}
-              onClick={() => onOpenChange(false)}
+              onClick={() => {
+                recordClick(r.url, i);
+                onOpenChange(false);
+              }}
             >
               <span className="fd-search-result-title">
                 {r.meta?.title || r.url}
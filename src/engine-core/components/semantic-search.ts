@@ -0,0 +1,175 @@
+// Client side of the semantic index that `velu build` writes to `semantic/`
+// when docs.json has `search.semantic` (see lib/semantic-index.ts).
+
+export interface SemanticSection {
+  url: string;
+  title: string;
+  heading?: string;
+  excerpt: string;
+  filters: Record<string, string>;
+}
+
+export interface SemanticHit {
+  section: SemanticSection;
+  score: number;
+}
+
+export interface SemanticIndex {
+  model: string;
+  dimensions: number;
+  sections: SemanticSection[];
+  /** Int8 rows, one per section, scaled from normalized vectors by 127. */
+  vectors: Int8Array;
+}
+
+export interface SemanticSearch {
+  search: (query: string, filters: Record<string, string>) => Promise<SemanticHit[]>;
+}
+
+/** Just the Pagefind result fields ranking reads and writes. */
+export interface RankedResult {
+  url: string;
+  excerpt: string;
+  meta: { title?: string };
+}
+
+type Extractor = (text: string, options: { pooling: 'mean'; normalize: boolean }) => Promise<{ data: Float32Array }>;
+
+interface TransformersRuntime {
+  env: {
+    allowRemoteModels: boolean;
+    allowLocalModels: boolean;
+    localModelPath: string;
+    backends: { onnx: { wasm: { wasmPaths?: string } } };
+  };
+  pipeline: (task: 'feature-extraction', model: string, options?: { dtype?: string }) => Promise<Extractor>;
+}
+
+const SEMANTIC_LIMIT = 8;
+// Cosine similarity below which a section isn't worth showing on its own.
+const MIN_SEMANTIC_SCORE = 0.3;
+// Reciprocal rank fusion constant; 60 is the usual choice.
+const FUSION_K = 60;
+
+/**
+ * Best sections for a query vector. Filters narrow to the current
+ * language/version/product; when nothing matches, all sections are
+ * ranked, the same fallback the keyword search uses.
+ */
+export function rankSections(
+  index: SemanticIndex,
+  query: Float32Array,
+  filters: Record<string, string>,
+  limit = SEMANTIC_LIMIT,
+): SemanticHit[] {
+  const score = (row: number) => {
+    let sum = 0;
+    const offset = row * index.dimensions;
+    for (let i = 0; i < index.dimensions; i += 1) sum += index.vectors[offset + i] * query[i];
+    return sum / 127;
+  };
+  const matches = (section: SemanticSection) =>
+    Object.entries(filters).every(([key, value]) => section.filters[key] === value);
+
+  const rank = (rows: number[]) => rows
+    .map((row) => ({ section: index.sections[row], score: score(row) }))
+    .filter((hit) => hit.score >= MIN_SEMANTIC_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+
+  const all = index.sections.map((_, row) => row);
+  const scoped = rank(all.filter((row) => matches(index.sections[row])));
+  return scoped.length > 0 || Object.keys(filters).length === 0 ? scoped : rank(all);
+}
+
+function pageKey(url: string): string {
+  const path = url.replace(/[?#].*$/, '');
+  return path.endsWith('/') ? path : `${path}/`;
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Merge keyword and semantic results per page with reciprocal rank fusion.
+ * Pages Pagefind found keep its highlighted excerpt; the others link to the
+ * matching section. `basePath` prefixes semantic URLs like Pagefind's.
+ */
+export function fuseResults<T extends RankedResult>(
+  keyword: T[],
+  semantic: SemanticHit[],
+  basePath: string,
+): Array<T | RankedResult> {
+  const entries = new Map<string, { result: T | RankedResult; score: number }>();
+  keyword.forEach((result, rank) => {
+    entries.set(pageKey(result.url), { result, score: 1 / (FUSION_K + rank + 1) });
+  });
+
+  // Hits are best first; only a page's best section counts, so long pages don't win on volume.
+  const seen = new Set<string>();
+  for (const { section } of semantic) {
+    const url = `${basePath}${section.url}`;
+    const key = pageKey(url);
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const score = 1 / (FUSION_K + seen.size);
+    const existing = entries.get(key);
+    if (existing) {
+      existing.score += score;
+      continue;
+    }
+    entries.set(key, {
+      result: {
+        url,
+        excerpt: escapeHtml(section.excerpt),
+        meta: { title: section.heading ? `${section.title} › ${section.heading}` : section.title },
+      },
+      score,
+    });
+  }
+
+  return Array.from(entries.values())
+    .sort((a, b) => b.score - a.score)
+    .map((entry) => entry.result);
+}
+
+async function loadIndex(root: string): Promise<SemanticIndex | null> {
+  const response = await fetch(`${root}/index.json`);
+  if (!response.ok) return null;
+  const index = await response.json() as Omit<SemanticIndex, 'vectors'>;
+  const vectors = await fetch(`${root}/vectors.bin`);
+  if (!vectors.ok) return null;
+  return { ...index, vectors: new Int8Array(await vectors.arrayBuffer()) };
+}
+
+/**
+ * Null when the site was built without `search.semantic`. The model loads on
+ * the first query, from the files the build copied next to the index.
+ */
+export async function loadSemanticSearch(basePath: string): Promise<SemanticSearch | null> {
+  const root = `${basePath}/semantic`;
+  const index = await loadIndex(root).catch(() => null);
+  if (!index) return null;
+
+  let extractor: Promise<Extractor> | null = null;
+  const loadExtractor = async () => {
+    const moduleLoader = new Function('modulePath', 'return import(modulePath)');
+    const runtime = await moduleLoader(`${root}/runtime/transformers.js`) as TransformersRuntime;
+    runtime.env.allowRemoteModels = false;
+    runtime.env.allowLocalModels = true;
+    runtime.env.localModelPath = `${root}/models/`;
+    runtime.env.backends.onnx.wasm.wasmPaths = `${root}/runtime/`;
+    return runtime.pipeline('feature-extraction', index.model, { dtype: 'q8' });
+  };
+
+  return {
+    async search(query, filters) {
+      extractor ??= loadExtractor();
+      const embed = await extractor;
+      const output = await embed(query, { pooling: 'mean', normalize: true });
+      return rankSections(index, output.data, filters);
+    },
+  };
+}
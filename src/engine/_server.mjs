@@ -1,9 +1,12 @@
 ﻿import { spawn } from 'node:child_process';
 import { createRequire } from 'node:module';
 import { watch } from 'node:fs';
-import { copyFileSync, existsSync, mkdirSync, readFileSync, readdirSync, rmSync, writeFileSync } from 'node:fs';
+import { copyFileSync, existsSync, mkdirSync, readFileSync, readdirSync, rmSync, statSync, writeFileSync } from 'node:fs';
 import { dirname, extname, join, relative, resolve } from 'node:path';
-import { normalizeConfigNavigation } from './lib/navigation-normalize.mjs';
+import { loadContentConfig, renderPage, writeSiteContent } from './lib/content-pipeline.ts';
+import { buildPagefindConfig, resolveSearchRankingConfig } from './lib/search-ranking.ts';
+import { buildSemanticIndex, resolveSemanticSearchConfig } from './lib/semantic-index.ts';
+import { GIT_VERSIONS_DIR } from './lib/versions.ts';
 
 const require = createRequire(import.meta.url);
 const nextBinPath = require.resolve('next/dist/bin/next');
@@ -39,12 +42,6 @@ const SOURCE_MIRROR_EXTENSIONS = new Set([
 ]);
 const IMPORT_REWRITE_EXTENSIONS = new Set(['.md', '.mdx', '.jsx', '.js', '.tsx', '.ts']);
 
-function resolveConfigPath() {
-  const primary = join(docsDir, PRIMARY_CONFIG_NAME);
-  if (existsSync(primary)) return primary;
-  return join(docsDir, LEGACY_CONFIG_NAME);
-}
-
 function isStaticAsset(filename) {
   const ext = extname(filename).toLowerCase();
   return STATIC_EXTENSIONS.has(ext);
@@ -71,6 +68,9 @@ function copyStaticAssets() {
 
   mkdirSync(publicDir, { recursive: true });
   walk(docsDir);
+  // Versions built from git tags import their own snippets.
+  const versionsDir = join(docsDir, GIT_VERSIONS_DIR);
+  if (existsSync(versionsDir)) walk(versionsDir);
 }
 
 function escapeXml(value) {
@@ -179,10 +179,10 @@ function resolveSiteName(config) {
 }
 
 function readMetaInfo(pathSegments) {
-  const metaPath = join(contentDir, ...pathSegments, 'meta.json');
-  if (!existsSync(metaPath)) return null;
+  const raw = generatedFiles.get([...pathSegments, 'meta.json'].join('/'));
+  if (typeof raw !== 'string') return null;
   try {
-    const parsed = JSON.parse(readFileSync(metaPath, 'utf-8'));
+    const parsed = JSON.parse(raw);
     if (!parsed || typeof parsed !== 'object') return null;
     const title = typeof parsed.title === 'string' && parsed.title.trim() ? parsed.title.trim() : null;
     const root = parsed.root === true;
@@ -247,26 +247,6 @@ function splitTitleLines(value, maxChars = 34, maxLines = 2) {
   return lines;
 }
 
-function collectContentMarkdownFiles() {
-  const files = [];
-  function walk(dir) {
-    if (!existsSync(dir)) return;
-    for (const entry of readdirSync(dir, { withFileTypes: true })) {
-      if (entry.name.startsWith('.')) continue;
-      const fullPath = join(dir, entry.name);
-      if (entry.isDirectory()) {
-        walk(fullPath);
-        continue;
-      }
-      if (!entry.isFile()) continue;
-      if (!/\.(md|mdx)$/i.test(entry.name)) continue;
-      files.push(fullPath);
-    }
-  }
-  walk(contentDir);
-  return files;
-}
-
 function toOgOutputPath(routePath) {
   const normalized = routePath === '/' ? 'index' : routePath.replace(/^\/+/, '');
   return join(publicDir, 'og', `${normalized}.svg`);
@@ -310,29 +290,54 @@ function buildOgSvg({ title, section, description, logoHref, primaryColor }) {
   ].join('\n');
 }
 
+// OG images are keyed by what they render. Site-wide inputs (name, logo,
+// color) invalidate every image; otherwise only pages whose title,
+// description or section changed are redrawn.
+const ogImages = new Map();
+let ogSiteKey = null;
+
 function generateOgImages(config) {
   const ogRootDir = join(publicDir, 'og');
-  rmSync(ogRootDir, { recursive: true, force: true });
-  mkdirSync(ogRootDir, { recursive: true });
-
-  const files = collectContentMarkdownFiles();
   const siteName = resolveSiteName(config);
   const logoHref = resolveLogoReference(config);
   const primaryColor = resolvePrimaryColor(config);
+  const siteKey = JSON.stringify([siteName, logoHref, primaryColor]);
+
+  if (siteKey !== ogSiteKey) {
+    rmSync(ogRootDir, { recursive: true, force: true });
+    ogImages.clear();
+    ogSiteKey = siteKey;
+  }
+  mkdirSync(ogRootDir, { recursive: true });
+
+  const seenRoutes = new Set();
+  let written = 0;
 
-  for (const filePath of files) {
-    const relPath = toPosixPath(relative(contentDir, filePath));
+  for (const [relPath, markdown] of generatedFiles) {
+    if (!/\.(md|mdx)$/i.test(relPath)) continue;
     const routePath = normalizeRoutePathFromContentFile(relPath);
-    const markdown = readFileSync(filePath, 'utf-8');
-    const frontmatter = parseFrontmatterData(markdown);
+    seenRoutes.add(routePath);
+
+    const previous = ogImages.get(routePath);
     const routeSegments = routePath === '/' ? [] : routePath.replace(/^\/+/, '').split('/').filter(Boolean);
-    const fallbackTitle = humanizeSegment(routeSegments[routeSegments.length - 1] || 'overview');
-    const title = typeof frontmatter.title === 'string' && frontmatter.title.trim()
-      ? frontmatter.title.trim()
-      : fallbackTitle;
-    const rawDescription = typeof frontmatter.description === 'string' ? frontmatter.description.trim() : '';
-    const description = rawDescription.length > 120 ? `${rawDescription.slice(0, 119).trim()}…` : rawDescription;
+    let title = previous?.title;
+    let description = previous?.description;
+    if (previous?.markdown !== markdown) {
+      const frontmatter = parseFrontmatterData(markdown);
+      const fallbackTitle = humanizeSegment(routeSegments[routeSegments.length - 1] || 'overview');
+      title = typeof frontmatter.title === 'string' && frontmatter.title.trim()
+        ? frontmatter.title.trim()
+        : fallbackTitle;
+      const rawDescription = typeof frontmatter.description === 'string' ? frontmatter.description.trim() : '';
+      description = rawDescription.length > 120 ? `${rawDescription.slice(0, 119).trim()}…` : rawDescription;
+    }
     const section = resolveSectionLabel(routeSegments, siteName);
+
+    ogImages.set(routePath, { markdown, title, description, section });
+    if (previous && previous.title === title && previous.description === description && previous.section === section) {
+      continue;
+    }
+
     const svg = buildOgSvg({
       title,
       section,
@@ -344,7 +349,16 @@ function generateOgImages(config) {
     const outPath = toOgOutputPath(routePath);
     mkdirSync(dirname(outPath), { recursive: true });
     writeFileSync(outPath, svg, 'utf-8');
+    written += 1;
   }
+
+  for (const routePath of [...ogImages.keys()]) {
+    if (seenRoutes.has(routePath)) continue;
+    rmSync(toOgOutputPath(routePath), { force: true });
+    ogImages.delete(routePath);
+  }
+
+  return written;
 }
 
 function toPosixPath(value) {
@@ -557,9 +571,9 @@ function syncSourceMirrorFile(filename) {
   rmSync(destPath, { force: true });
 }
 
+/** The config without git-tag versions, for settings that don't need pages; it runs no git. */
 function loadConfig() {
-  const raw = readFileSync(resolveConfigPath(), 'utf-8');
-  return normalizeConfigNavigation(JSON.parse(raw));
+  return loadContentConfig(docsDir).config;
 }
 
 function isExternalDestination(value) {
@@ -606,10 +620,10 @@ function writeRedirectArtifacts(config) {
   const redirects = collectRedirectRules(config);
   const generatedDir = resolve('generated');
   mkdirSync(generatedDir, { recursive: true });
-  writeFileSync(
+  // Rewriting an identical module still makes Next recompile the proxy.
+  writeFileIfChanged(
     join(generatedDir, 'redirects.ts'),
     `const redirects: Array<{ source: string; destination: string; permanent: boolean }> = ${JSON.stringify(redirects, null, 2)};\n\nexport default redirects;\n`,
-    'utf-8'
   );
 
   const redirectsFilePath = join(publicDir, '_redirects');
@@ -621,1022 +635,113 @@ function writeRedirectArtifacts(config) {
   const netlifyBody = redirects
     .map((redirect) => `${redirect.source} ${redirect.destination} ${redirect.permanent ? 301 : 307}`)
     .join('\n');
-  writeFileSync(redirectsFilePath, `${netlifyBody}\n`, 'utf-8');
-}
-
-function pageBasename(page) {
-  return page.split('/').pop();
-}
-
-function pageLabelFromSlug(slug) {
-  const last = slug.split('/').pop() || slug;
-  return last.replace(/[-_]/g, ' ').replace(/\b\w/g, (c) => c.toUpperCase());
-}
-
-function isSeparator(item) {
-  return typeof item === 'object' && item !== null && 'separator' in item;
-}
-
-function isLink(item) {
-  return typeof item === 'object' && item !== null && 'href' in item && 'label' in item;
-}
-
-function isGroup(item) {
-  return typeof item === 'object' && item !== null && 'group' in item;
-}
-
-const HTTP_METHODS = new Set([
-  'GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS', 'HEAD', 'TRACE', 'CONNECT', 'WEBHOOK',
-]);
-const OPENAPI_PATH_METHODS = new Set(['get', 'post', 'put', 'patch', 'delete', 'options', 'head', 'trace']);
-const ASYNCAPI_OPERATION_ACTIONS = new Set(['publish', 'subscribe', 'send', 'receive']);
-
-function resolveDefaultOpenApiSpec(openapi) {
-  const source = extractOpenApiSource(openapi);
-  if (typeof source === 'string') {
-    const trimmed = source.trim();
-    return trimmed.length > 0 ? trimmed : undefined;
-  }
-  if (Array.isArray(source)) {
-    const first = source.find((entry) => typeof entry === 'string' && entry.trim().length > 0);
-    return typeof first === 'string' ? first.trim() : undefined;
-  }
-  return undefined;
-}
-
-function extractOpenApiSource(openapi) {
-  if (typeof openapi === 'string' || Array.isArray(openapi)) return openapi;
-  if (openapi && typeof openapi === 'object') {
-    const source = openapi.source;
-    if (typeof source === 'string' || Array.isArray(source)) return source;
-  }
-  return undefined;
-}
-
-function resolveOpenApiDirectory(openapi) {
-  if (!openapi || typeof openapi !== 'object' || Array.isArray(openapi)) return undefined;
-  const raw = openapi.directory;
-  if (typeof raw !== 'string') return undefined;
-  const trimmed = raw.trim().replace(/\\/g, '/').replace(/^\/+/, '').replace(/\/+$/, '');
-  return trimmed.length > 0 ? trimmed : undefined;
-}
-
-function resolveDefaultAsyncApiSpec(asyncapi) {
-  const source = extractOpenApiSource(asyncapi);
-  if (typeof source === 'string') {
-    const trimmed = source.trim();
-    return trimmed.length > 0 ? trimmed : undefined;
-  }
-  if (Array.isArray(source)) {
-    const first = source.find((entry) => typeof entry === 'string' && entry.trim().length > 0);
-    return typeof first === 'string' ? first.trim() : undefined;
-  }
-  return undefined;
-}
-
-function resolveAsyncApiSpecList(asyncapi) {
-  const source = extractOpenApiSource(asyncapi);
-  if (typeof source === 'string') {
-    const trimmed = source.trim();
-    return trimmed ? [trimmed] : [];
-  }
-  if (Array.isArray(source)) {
-    return source
-      .filter((entry) => typeof entry === 'string')
-      .map((entry) => entry.trim())
-      .filter((entry) => entry.length > 0);
-  }
-  return [];
-}
-
-function resolveAsyncApiDirectory(asyncapi) {
-  if (!asyncapi || typeof asyncapi !== 'object' || Array.isArray(asyncapi)) return undefined;
-  const raw = asyncapi.directory;
-  if (typeof raw !== 'string') return undefined;
-  const trimmed = raw.trim().replace(/\\/g, '/').replace(/^\/+/, '').replace(/\/+$/, '');
-  return trimmed.length > 0 ? trimmed : undefined;
-}
-
-function parseOpenApiOperationRef(value, inheritedSpec) {
-  const trimmed = String(value ?? '').trim();
-  if (!trimmed) return null;
-
-  const withSpec = trimmed.match(/^(\S+)\s+([A-Za-z]+)\s+(.+)$/);
-  if (withSpec) {
-    const method = withSpec[2].toUpperCase();
-    const endpoint = withSpec[3].trim();
-    if (!HTTP_METHODS.has(method)) return null;
-    if (method === 'WEBHOOK') {
-      if (!endpoint) return null;
-      return { spec: withSpec[1].trim(), method, endpoint, kind: 'webhook' };
-    }
-    if (!endpoint.startsWith('/')) return null;
-    return { spec: withSpec[1].trim(), method, endpoint, kind: 'path' };
-  }
-
-  const noSpec = trimmed.match(/^([A-Za-z]+)\s+(.+)$/);
-  if (!noSpec) return null;
-  const method = noSpec[1].toUpperCase();
-  const endpoint = noSpec[2].trim();
-  if (!HTTP_METHODS.has(method)) return null;
-  if (method === 'WEBHOOK') {
-    if (!endpoint) return null;
-    return { spec: inheritedSpec, method, endpoint, kind: 'webhook' };
-  }
-  if (!endpoint.startsWith('/')) return null;
-  return { spec: inheritedSpec, method, endpoint, kind: 'path' };
+  writeFileIfChanged(redirectsFilePath, `${netlifyBody}\n`);
 }
 
-function parseAsyncApiChannelRef(value, inheritedSpec) {
-  const trimmed = String(value ?? '').trim();
-  if (!trimmed) return null;
-
-  const withSpec = trimmed.match(/^(\S+)\s+(.+)$/);
-  if (withSpec) {
-    const maybeMethod = withSpec[1].toUpperCase();
-    if (HTTP_METHODS.has(maybeMethod)) return null;
-    const spec = withSpec[1].trim();
-    const channel = withSpec[2].trim();
-    if (!channel) return null;
-    return { spec, channel };
-  }
-
-  if (!inheritedSpec) return null;
-  return { spec: inheritedSpec, channel: trimmed };
-}
-
-function slugFromOpenApiOperation(method, endpoint) {
-  const cleaned = endpoint
-    .toLowerCase()
-    .replace(/^\/+/, '')
-    .replace(/[{}]/g, '')
-    .replace(/[^a-z0-9/._-]+/g, '-')
-    .replace(/\/+/g, '-')
-    .replace(/[-_.]{2,}/g, '-')
-    .replace(/^[-_.]+|[-_.]+$/g, '');
-  const body = cleaned || 'endpoint';
-  return `${method.toLowerCase()}-${body}`;
-}
-
-function resolveOpenApiSpecList(openapi) {
-  const source = extractOpenApiSource(openapi);
-  if (typeof source === 'string') {
-    const trimmed = source.trim();
-    return trimmed ? [trimmed] : [];
-  }
-  if (Array.isArray(source)) {
-    return source
-      .filter((entry) => typeof entry === 'string')
-      .map((entry) => entry.trim())
-      .filter((entry) => entry.length > 0);
-  }
-  return [];
+function writeFileIfChanged(filePath, content) {
+  if (existsSync(filePath) && readFileSync(filePath, 'utf-8') === content) return false;
+  writeFileSync(filePath, content, 'utf-8');
+  return true;
 }
 
-function parseOpenApiDocument(rawSource) {
-  const source = String(rawSource ?? '').trim();
-  if (!source) return null;
-  try {
-    const parsed = JSON.parse(source);
-    if (parsed && typeof parsed === 'object') return parsed;
-  } catch {}
-  try {
-    const parsed = parseYaml(source);
-    if (parsed && typeof parsed === 'object') return parsed;
-  } catch {}
-  return null;
-}
+// ── Incremental content output ───────────────────────────────────────────────
+// Every file under content/docs goes through writeContentFile so a rebuild
+// only touches files whose output changed, and files that are no longer
+// generated get pruned. Untouched files keep fumadocs-mdx from recompiling.
+const generatedFiles = new Map();
+const pageStamps = new Map();
+let generationFiles = null;
+let generationWrites = 0;
 
-function parseAsyncApiDocument(rawSource) {
-  return parseOpenApiDocument(rawSource);
+function contentRelPath(destPath) {
+  return toPosixPath(relative(contentDir, destPath));
 }
 
-function resolveRef(root, ref) {
-  const refText = String(ref ?? '');
-  if (!refText.startsWith('#/')) return undefined;
-  const parts = refText.slice(2).split('/').map((part) => part.replace(/~1/g, '/').replace(/~0/g, '~'));
-  let current = root;
-  for (const part of parts) {
-    if (!current || typeof current !== 'object') return undefined;
-    current = current[part];
-  }
-  return current;
+function writeContentFile(destPath, content) {
+  const rel = contentRelPath(destPath);
+  generationFiles?.add(rel);
+  if (generatedFiles.get(rel) === content) return false;
+  mkdirSync(dirname(destPath), { recursive: true });
+  writeFileSync(destPath, content, 'utf-8');
+  generatedFiles.set(rel, content);
+  if (generationFiles) generationWrites += 1;
+  return true;
 }
 
-function loadAsyncApiChannels(specSource) {
-  if (/^https?:\/\//i.test(specSource) || specSource.startsWith('file://')) return [];
-
-  const resolvedPath = specSource.startsWith('/')
-    ? join(docsDir, specSource.replace(/^\/+/, ''))
-    : resolve(docsDir, specSource);
-  if (!existsSync(resolvedPath)) return [];
-
-  const parsed = parseAsyncApiDocument(readFileSync(resolvedPath, 'utf-8'));
-  if (!parsed || typeof parsed !== 'object') return [];
-  const channels = parsed.channels;
-  if (!channels || typeof channels !== 'object') return [];
-
-  return Object.entries(channels)
-    .map(([channelName, rawChannel]) => {
-      const channel = rawChannel && typeof rawChannel === 'object' ? rawChannel : {};
-      const title = typeof channel.title === 'string' ? channel.title : undefined;
-      const description = typeof channel.description === 'string' ? channel.description : undefined;
-      return {
-        spec: specSource,
-        channel: channelName,
-        title: title ?? channelName,
-        description,
-      };
-    })
-    .filter((entry) => typeof entry.channel === 'string' && entry.channel.trim().length > 0);
+function beginContentGeneration() {
+  generationFiles = new Set();
+  generationWrites = 0;
 }
 
-function getAsyncApiChannelInfo(specSource, channelName) {
-  if (/^https?:\/\//i.test(specSource) || specSource.startsWith('file://')) return null;
-
-  const resolvedPath = specSource.startsWith('/')
-    ? join(docsDir, specSource.replace(/^\/+/, ''))
-    : resolve(docsDir, specSource);
-  if (!existsSync(resolvedPath)) return null;
-
-  const parsed = parseAsyncApiDocument(readFileSync(resolvedPath, 'utf-8'));
-  if (!parsed || typeof parsed !== 'object') return null;
-
-  const channels = parsed.channels;
-  if (!channels || typeof channels !== 'object') return null;
-
-  const channelObject = channels[channelName];
-  if (!channelObject || typeof channelObject !== 'object') {
-    const byAddress = Object.entries(channels).find(([, rawChannel]) => {
-      if (!rawChannel || typeof rawChannel !== 'object') return false;
-      const address = rawChannel.address;
-      return typeof address === 'string' && address === channelName;
-    });
-    if (!byAddress) return null;
-    const [, matched] = byAddress;
-    return {
-      channel: byAddress[0],
-      title: typeof matched.title === 'string' ? matched.title : byAddress[0],
-      description: typeof matched.description === 'string' ? matched.description : undefined,
-    };
+function finishContentGeneration() {
+  let removed = 0;
+  for (const rel of [...generatedFiles.keys()]) {
+    if (generationFiles.has(rel)) continue;
+    rmSync(join(contentDir, rel), { force: true });
+    generatedFiles.delete(rel);
+    pageStamps.delete(rel);
+    removed += 1;
   }
-
-  return {
-    channel: channelName,
-    title: typeof channelObject.title === 'string' ? channelObject.title : channelName,
-    description: typeof channelObject.description === 'string' ? channelObject.description : undefined,
-  };
-}
-
-function readMintMetadata(operation) {
-  const xMint = operation['x-mint'];
-  if (!xMint || typeof xMint !== 'object') return {};
-  const metadata = xMint.metadata;
-  const content = xMint.content;
-  const meta = metadata && typeof metadata === 'object' ? metadata : {};
-  return {
-    title: typeof meta.title === 'string' ? meta.title : undefined,
-    description: typeof meta.description === 'string' ? meta.description : undefined,
-    deprecated: typeof meta.deprecated === 'boolean' ? meta.deprecated : undefined,
-    version: typeof meta.version === 'string' ? meta.version : undefined,
-    content: typeof content === 'string' ? content : undefined,
-  };
-}
-
-function readVisibilityMetadata(operation) {
-  return {
-    hidden: operation['x-hidden'] === true,
-    excluded: operation['x-excluded'] === true,
-  };
+  generationFiles = null;
+  return { written: generationWrites, removed };
 }
 
-function normalizeWebhookKey(name) {
-  const value = String(name ?? '').trim();
-  if (!value) return value;
-  return value.startsWith('/') ? value : `/${value}`;
-}
+let contentVariables = {};
+let contentVariablesKey = '{}';
 
-function readOpenApiOperationInfo(operation) {
-  if (!operation || typeof operation !== 'object') return {};
-  const mintMeta = readMintMetadata(operation);
-  const visibility = readVisibilityMetadata(operation);
+function contentOptions() {
   return {
-    ...visibility,
-    title: mintMeta.title ?? (typeof operation.summary === 'string' ? operation.summary : undefined),
-    description: mintMeta.description ?? (typeof operation.description === 'string' ? operation.description : undefined),
-    deprecated: mintMeta.deprecated ?? (operation.deprecated === true),
-    version: mintMeta.version,
-    content: mintMeta.content,
+    docsDir,
+    contentDir,
+    variables: contentVariables,
+    transformPage: rewriteImportsInContent,
+    writeFile: writeContentFile,
+    writePage: processPage,
+    warn: (message) => console.warn(`  \x1b[33mWarning\x1b[0m  ${message}`),
   };
 }
 
-function resolveSpecPath(specSource) {
-  if (/^https?:\/\//i.test(specSource) || specSource.startsWith('file://')) return undefined;
-  const resolvedPath = specSource.startsWith('/')
-    ? join(docsDir, specSource.replace(/^\/+/, ''))
-    : resolve(docsDir, specSource);
-  return existsSync(resolvedPath) ? resolvedPath : undefined;
-}
-
-function loadOpenApiDocument(specSource) {
-  const resolvedPath = resolveSpecPath(specSource);
-  if (!resolvedPath) return null;
-  return parseOpenApiDocument(readFileSync(resolvedPath, 'utf-8'));
-}
-
-function getOpenApiOperationInfo(specSource, kind, method, endpoint) {
-  const parsed = loadOpenApiDocument(specSource);
-  if (!parsed) return null;
-
-  if (kind === 'webhook') {
-    const webhooks = parsed.webhooks;
-    if (!webhooks || typeof webhooks !== 'object') return null;
-    const target = normalizeWebhookKey(endpoint);
-    const entries = Object.entries(webhooks);
-    const resolvedEntry = entries.find(([name]) => name === endpoint || normalizeWebhookKey(name) === target);
-    if (!resolvedEntry) return null;
-    const pathItem = resolvedEntry[1];
-    if (!pathItem || typeof pathItem !== 'object') return null;
-    const methodKey = method === 'WEBHOOK' ? pickOperationMethod(pathItem)?.toLowerCase() : method.toLowerCase();
-    if (!methodKey) return null;
-    return readOpenApiOperationInfo(pathItem[methodKey]);
-  }
-
-  const paths = parsed.paths;
-  if (!paths || typeof paths !== 'object') return null;
-  const pathItem = paths[endpoint];
-  if (!pathItem || typeof pathItem !== 'object') return null;
-  return readOpenApiOperationInfo(pathItem[method.toLowerCase()]);
-}
-
-function pickOperationMethod(pathItem) {
-  for (const method of OPENAPI_PATH_METHODS) {
-    const operation = pathItem[method];
-    if (operation && typeof operation === 'object') return method.toUpperCase();
-  }
-  return undefined;
-}
-
-function loadOpenApiOperations(specSource) {
-  const parsed = loadOpenApiDocument(specSource);
-  if (!parsed) return [];
-  const paths = parsed.paths;
-  const webhooks = parsed.webhooks;
-
-  const output = [];
-  if (paths && typeof paths === 'object') {
-    for (const [endpoint, methods] of Object.entries(paths)) {
-      if (!endpoint.startsWith('/') || !methods || typeof methods !== 'object') continue;
-      for (const method of Object.keys(methods)) {
-        const normalized = method.toLowerCase();
-        if (!OPENAPI_PATH_METHODS.has(normalized)) continue;
-        const operation = methods[method];
-        if (!operation || typeof operation !== 'object') continue;
-        const operationInfo = readOpenApiOperationInfo(operation);
-        if (operationInfo.excluded) continue;
-        output.push({
-          kind: 'path',
-          spec: specSource,
-          method: normalized.toUpperCase(),
-          endpoint,
-          title: operationInfo.title,
-          description: operationInfo.description,
-          deprecated: operationInfo.deprecated,
-          version: operationInfo.version,
-          content: operationInfo.content,
-          hidden: operationInfo.hidden,
-        });
-      }
-    }
-  }
-
-  if (webhooks && typeof webhooks === 'object') {
-    for (const [webhookName, pathItem] of Object.entries(webhooks)) {
-      if (!pathItem || typeof pathItem !== 'object') continue;
-      const resolvedMethod = pickOperationMethod(pathItem);
-      if (!resolvedMethod) continue;
-      const operation = pathItem[resolvedMethod.toLowerCase()];
-      if (!operation || typeof operation !== 'object') continue;
-      const operationInfo = readOpenApiOperationInfo(operation);
-      if (operationInfo.excluded) continue;
-      output.push({
-        kind: 'webhook',
-        spec: specSource,
-        method: 'WEBHOOK',
-        endpoint: webhookName,
-        title: operationInfo.title,
-        description: operationInfo.description,
-        deprecated: operationInfo.deprecated,
-        version: operationInfo.version,
-        content: operationInfo.content,
-        hidden: operationInfo.hidden,
-      });
-    }
-  }
-  return output;
-}
-
-function normalizeOpenApiSpecForFrontmatter(spec) {
-  if (!spec) return undefined;
-  const trimmed = String(spec).trim();
-  if (!trimmed) return undefined;
-  if (/^https?:\/\//i.test(trimmed) || trimmed.startsWith('file://')) return trimmed;
-  if (trimmed.startsWith('/')) return trimmed;
-  return `/${trimmed.replace(/^\.?\/*/, '')}`;
-}
-
-function metaEntry(item) {
-  if (typeof item === 'string') return item;
-  if (isSeparator(item)) return `---${item.separator}---`;
-  if (isLink(item)) {
-    return item.icon
-      ? `[${item.icon}][${item.label}](${item.href})`
-      : `[${item.label}](${item.href})`;
-  }
-  return String(item);
-}
-
-function buildArtifacts(config) {
-  const pageMap = [];
-  const metaFiles = [];
-  const rootTabs = (config.navigation?.tabs || []).filter((tab) => !tab.href);
-  const rootPages = rootTabs.map((tab) => tab.slug);
-  const defaultOpenApiSpec = resolveDefaultOpenApiSpec(config.navigation?.openapi ?? config.openapi);
-  const defaultAsyncApiSpec = resolveDefaultAsyncApiSpec(config.navigation?.asyncapi ?? config.asyncapi);
-  let firstPage = 'quickstart';
-  let hasFirstPage = false;
-  let firstHiddenPageCandidate;
-  const usedDestinations = new Set();
-
-  function trackFirstPage(dest, hidden = false) {
-    if (!hidden && !hasFirstPage) {
-      firstPage = dest;
-      hasFirstPage = true;
-      return;
-    }
-    if (hidden && !hasFirstPage && !firstHiddenPageCandidate) {
-      firstHiddenPageCandidate = dest;
-    }
-  }
-
-  function uniqueDestination(dest) {
-    if (!usedDestinations.has(dest)) {
-      usedDestinations.add(dest);
-      return dest;
-    }
-    let count = 2;
-    while (usedDestinations.has(`${dest}-${count}`)) count += 1;
-    const candidate = `${dest}-${count}`;
-    usedDestinations.add(candidate);
-    return candidate;
-  }
-
-  function metaEntryForDestination(baseDir, destination) {
-    const fromParts = baseDir.split('/').filter(Boolean);
-    const toParts = destination.split('/').filter(Boolean);
-
-    let index = 0;
-    while (index < fromParts.length && index < toParts.length && fromParts[index] === toParts[index]) {
-      index += 1;
-    }
-
-    const up = Array(fromParts.length - index).fill('..');
-    const down = toParts.slice(index);
-    const rel = [...up, ...down].join('/');
-    return rel || pageBasename(destination);
-  }
-
-  function resolveGenerationDestination(openapi, fallback) {
-    const override = resolveOpenApiDirectory(openapi) ?? resolveAsyncApiDirectory(openapi);
-    if (!override) return fallback;
-    if (!fallback) return override;
-    if (override === fallback || override.startsWith(`${fallback}/`)) return override;
-    return `${fallback}/${override}`;
-  }
-
-  function toFilePageMapping(item, destDir) {
-    const basename = pageBasename(item);
-    const dest = uniqueDestination(`${destDir}/${basename}`);
-    return { src: item, dest, kind: 'file' };
-  }
-
-  function toPageMapping(item, destDir, inheritedSpec, mode = 'file-fallback') {
-    const parsedOpenApi = parseOpenApiOperationRef(item, inheritedSpec);
-    if (!parsedOpenApi) {
-      if (mode === 'operation-only') return undefined;
-      return toFilePageMapping(item, destDir);
-    }
-
-    const operationInfo = parsedOpenApi.spec
-      ? getOpenApiOperationInfo(parsedOpenApi.spec, parsedOpenApi.kind, parsedOpenApi.method, parsedOpenApi.endpoint)
-      : null;
-    if (operationInfo?.excluded) return null;
-
-    const slug = slugFromOpenApiOperation(parsedOpenApi.method, parsedOpenApi.endpoint);
-    const dest = uniqueDestination(`${destDir}/${slug}`);
-    return {
-      src: item,
-      dest,
-      kind: 'openapi-operation',
-      openapiSpec: parsedOpenApi.spec,
-      openapiMethod: parsedOpenApi.method,
-      openapiEndpoint: parsedOpenApi.endpoint,
-      openapiKind: parsedOpenApi.kind,
-      title: operationInfo?.title,
-      description: operationInfo?.description,
-      deprecated: operationInfo?.deprecated,
-      version: operationInfo?.version,
-      content: operationInfo?.content,
-      hidden: operationInfo?.hidden === true,
-    };
-  }
-
-  function toAsyncApiPageMapping(item, destDir, inheritedSpec, mode = 'channel-only') {
-    const parsedAsyncApi = parseAsyncApiChannelRef(item, inheritedSpec);
-    if (!parsedAsyncApi) return mode === 'channel-only' ? undefined : null;
-
-    const channelInfo = parsedAsyncApi.spec
-      ? getAsyncApiChannelInfo(parsedAsyncApi.spec, parsedAsyncApi.channel)
-      : null;
-    const resolvedChannel = channelInfo?.channel ?? parsedAsyncApi.channel;
-    const slug = slugFromOpenApiOperation('channel', resolvedChannel);
-    const dest = uniqueDestination(`${destDir}/${slug}`);
-    return {
-      src: item,
-      dest,
-      kind: 'asyncapi-channel',
-      asyncapiSpec: parsedAsyncApi.spec,
-      asyncapiChannel: resolvedChannel,
-      title: channelInfo?.title ?? parsedAsyncApi.channel,
-      description: channelInfo?.description,
-    };
-  }
-
-  function resolveInheritedVersion(value, inherited) {
-    if (typeof value === 'string' && value.trim().length > 0) return value.trim();
-    return inherited;
-  }
-
-  function toPageMappingWithVersion(item, destDir, inheritedSpec, inheritedVersion, mode = 'file-fallback') {
-    const mapping = toPageMapping(item, destDir, inheritedSpec, mode);
-    if (!mapping) return null;
-    if (mapping.kind === 'openapi-operation' && mapping.version === undefined) {
-      mapping.version = inheritedVersion;
-    }
-    return mapping;
-  }
-
-  function toAsyncApiPageMappingWithVersion(item, destDir, inheritedSpec, inheritedVersion, mode = 'channel-only') {
-    const mapping = toAsyncApiPageMapping(item, destDir, inheritedSpec, mode);
-    if (!mapping) return null;
-    if (mapping.version === undefined) mapping.version = inheritedVersion;
-    return mapping;
-  }
-
-  function toOperationMapping(ref, destDir, inheritedVersion) {
-    const slug = slugFromOpenApiOperation(ref.method, ref.endpoint);
-    const dest = uniqueDestination(`${destDir}/${slug}`);
-    return {
-      src: `${ref.spec ? `${ref.spec} ` : ''}${ref.method} ${ref.endpoint}`,
-      dest,
-      kind: 'openapi-operation',
-      openapiSpec: ref.spec,
-      openapiMethod: ref.method,
-      openapiEndpoint: ref.endpoint,
-      openapiKind: ref.kind,
-      title: ref.title,
-      description: ref.description,
-      deprecated: ref.deprecated,
-      version: ref.version ?? inheritedVersion,
-      content: ref.content,
-      hidden: ref.hidden === true,
-    };
-  }
-
-  function buildOpenApiMappings(openapi, destDir, fallbackSpec, inheritedVersion) {
-    const specs = resolveOpenApiSpecList(openapi);
-    if (specs.length === 0 && fallbackSpec) specs.push(fallbackSpec);
-    if (specs.length === 0) return [];
-
-    const output = [];
-    const seen = new Set();
-    for (const spec of specs) {
-      for (const operation of loadOpenApiOperations(spec)) {
-        const key = `${operation.spec ?? ''}::${operation.kind ?? 'path'}::${operation.method}::${operation.endpoint}`;
-        if (seen.has(key)) continue;
-        seen.add(key);
-        output.push(toOperationMapping(operation, destDir, inheritedVersion));
-      }
-    }
-    return output;
-  }
-
-  function buildAsyncApiMappings(asyncapi, destDir, fallbackSpec, inheritedVersion) {
-    const specs = resolveAsyncApiSpecList(asyncapi);
-    if (specs.length === 0 && fallbackSpec) specs.push(fallbackSpec);
-    if (specs.length === 0) return [];
-
-    const output = [];
-    const seen = new Set();
-    for (const spec of specs) {
-      for (const channel of loadAsyncApiChannels(spec)) {
-        const key = `${channel.spec ?? ''}::${channel.channel}`;
-        if (seen.has(key)) continue;
-        seen.add(key);
-        const slug = slugFromOpenApiOperation('channel', channel.channel);
-        const dest = uniqueDestination(`${destDir}/${slug}`);
-        output.push({
-          src: `${channel.spec ? `${channel.spec} ` : ''}${channel.channel}`,
-          dest,
-          kind: 'asyncapi-channel',
-          asyncapiSpec: channel.spec,
-          asyncapiChannel: channel.channel,
-          title: channel.title,
-          description: channel.description,
-          version: inheritedVersion,
-        });
-      }
-    }
-    return output;
-  }
-
-  function addGroup(group, parentDir, inheritedOpenApiSpec, inheritedVersion, inheritedAsyncApiSpec) {
-    const groupDir = `${parentDir}/${group.slug}`;
-    const pages = [];
-    const groupOpenApiSpec = resolveDefaultOpenApiSpec(group.openapi) ?? inheritedOpenApiSpec;
-    const groupAsyncApiSpec = resolveDefaultAsyncApiSpec(group.asyncapi) ?? inheritedAsyncApiSpec;
-    const groupVersion = resolveInheritedVersion(group.version, inheritedVersion);
-    const groupPageItems = Array.isArray(group.pages) ? group.pages : [];
-
-    for (const item of groupPageItems) {
-      if (typeof item === 'string') {
-        const parsedOpenApiRef = parseOpenApiOperationRef(item, groupOpenApiSpec);
-        if (parsedOpenApiRef) {
-          const openApiMapping = toPageMappingWithVersion(item, groupDir, groupOpenApiSpec, groupVersion, 'operation-only');
-          if (!openApiMapping) continue;
-          pageMap.push(openApiMapping);
-          const pageEntry = metaEntryForDestination(groupDir, openApiMapping.dest);
-          pages.push(openApiMapping.hidden ? `!${pageEntry}` : pageEntry);
-          trackFirstPage(openApiMapping.dest, openApiMapping.hidden);
-          continue;
-        }
-
-        const asyncMapping = toAsyncApiPageMappingWithVersion(item, groupDir, groupAsyncApiSpec, groupVersion, 'channel-only');
-        if (asyncMapping) {
-          pageMap.push(asyncMapping);
-          const pageEntry = metaEntryForDestination(groupDir, asyncMapping.dest);
-          pages.push(asyncMapping.hidden ? `!${pageEntry}` : pageEntry);
-          trackFirstPage(asyncMapping.dest, asyncMapping.hidden);
-          continue;
-        }
-
-        const fileMapping = toFilePageMapping(item, groupDir);
-        pageMap.push(fileMapping);
-        const pageEntry = metaEntryForDestination(groupDir, fileMapping.dest);
-        pages.push(pageEntry);
-        trackFirstPage(fileMapping.dest, false);
-      } else if (isGroup(item)) {
-        addGroup(item, groupDir, groupOpenApiSpec, groupVersion, groupAsyncApiSpec);
-        pages.push(item.hidden ? `!${item.slug}` : item.slug);
-      } else if (isSeparator(item)) {
-        pages.push(`---${item.separator}---`);
-      } else if (isLink(item)) {
-        pages.push(
-          item.icon
-            ? `[${item.icon}][${item.label}](${item.href})`
-            : `[${item.label}](${item.href})`
-        );
-      }
-    }
-
-    if (groupPageItems.length === 0 && group.openapi !== undefined) {
-      const generatedDestDir = resolveGenerationDestination(group.openapi, groupDir);
-      const generatedMappings = buildOpenApiMappings(group.openapi, generatedDestDir, groupOpenApiSpec, groupVersion);
-      for (const mapping of generatedMappings) {
-        pageMap.push(mapping);
-        const pageEntry = metaEntryForDestination(groupDir, mapping.dest);
-        pages.push(mapping.hidden ? `!${pageEntry}` : pageEntry);
-        trackFirstPage(mapping.dest, mapping.hidden);
-      }
-    }
-
-    if (groupPageItems.length === 0 && group.asyncapi !== undefined) {
-      const generatedDestDir = resolveGenerationDestination(group.asyncapi, groupDir);
-      const generatedMappings = buildAsyncApiMappings(group.asyncapi, generatedDestDir, groupAsyncApiSpec, groupVersion);
-      for (const mapping of generatedMappings) {
-        pageMap.push(mapping);
-        const pageEntry = metaEntryForDestination(groupDir, mapping.dest);
-        pages.push(mapping.hidden ? `!${pageEntry}` : pageEntry);
-        trackFirstPage(mapping.dest, mapping.hidden);
-      }
-    }
-
-    const groupMeta = {
-      title: group.group,
-      pages,
-      defaultOpen: group.expanded !== false,
-    };
-
-    if (group.icon) groupMeta.icon = group.icon;
-    if (group.iconType) groupMeta.iconType = group.iconType;
-    if (group.description) groupMeta.description = group.description;
-
-    metaFiles.push({ dir: groupDir, data: groupMeta });
-  }
-
-  for (const tab of rootTabs) {
-    const tabPages = [];
-    const tabOpenApiSpec = resolveDefaultOpenApiSpec(tab.openapi) ?? defaultOpenApiSpec;
-    const tabAsyncApiSpec = resolveDefaultAsyncApiSpec(tab.asyncapi) ?? defaultAsyncApiSpec;
-    const tabVersion = resolveInheritedVersion(tab.version);
-    const tabGroups = Array.isArray(tab.groups) ? tab.groups : [];
-    const tabPageItems = Array.isArray(tab.pages) ? tab.pages : [];
-
-    for (const group of tabGroups) {
-      addGroup(group, tab.slug, tabOpenApiSpec, tabVersion, tabAsyncApiSpec);
-      tabPages.push(group.hidden ? `!${group.slug}` : group.slug);
-    }
-
-    for (const item of tabPageItems) {
-      if (typeof item === 'string') {
-        const parsedOpenApiRef = parseOpenApiOperationRef(item, tabOpenApiSpec);
-        if (parsedOpenApiRef) {
-          const openApiMapping = toPageMappingWithVersion(item, tab.slug, tabOpenApiSpec, tabVersion, 'operation-only');
-          if (!openApiMapping) continue;
-          pageMap.push(openApiMapping);
-          const pageEntry = metaEntryForDestination(tab.slug, openApiMapping.dest);
-          tabPages.push(openApiMapping.hidden ? `!${pageEntry}` : pageEntry);
-          trackFirstPage(openApiMapping.dest, openApiMapping.hidden);
-          continue;
-        }
-
-        const asyncMapping = toAsyncApiPageMappingWithVersion(item, tab.slug, tabAsyncApiSpec, tabVersion, 'channel-only');
-        if (asyncMapping) {
-          pageMap.push(asyncMapping);
-          const pageEntry = metaEntryForDestination(tab.slug, asyncMapping.dest);
-          tabPages.push(asyncMapping.hidden ? `!${pageEntry}` : pageEntry);
-          trackFirstPage(asyncMapping.dest, asyncMapping.hidden);
-          continue;
-        }
-
-        const fileMapping = toFilePageMapping(item, tab.slug);
-        pageMap.push(fileMapping);
-        const pageEntry = metaEntryForDestination(tab.slug, fileMapping.dest);
-        tabPages.push(pageEntry);
-        trackFirstPage(fileMapping.dest, false);
-      } else {
-        tabPages.push(metaEntry(item));
-      }
-    }
-
-    if (tabGroups.length === 0 && tabPageItems.length === 0 && tab.openapi !== undefined) {
-      const generatedDestDir = resolveGenerationDestination(tab.openapi, tab.slug);
-      const generatedMappings = buildOpenApiMappings(tab.openapi, generatedDestDir, tabOpenApiSpec, tabVersion);
-      for (const mapping of generatedMappings) {
-        pageMap.push(mapping);
-        const pageEntry = metaEntryForDestination(tab.slug, mapping.dest);
-        tabPages.push(mapping.hidden ? `!${pageEntry}` : pageEntry);
-        trackFirstPage(mapping.dest, mapping.hidden);
-      }
-    }
-
-    if (tabGroups.length === 0 && tabPageItems.length === 0 && tab.asyncapi !== undefined) {
-      const generatedDestDir = resolveGenerationDestination(tab.asyncapi, tab.slug);
-      const generatedMappings = buildAsyncApiMappings(tab.asyncapi, generatedDestDir, tabAsyncApiSpec, tabVersion);
-      for (const mapping of generatedMappings) {
-        pageMap.push(mapping);
-        const pageEntry = metaEntryForDestination(tab.slug, mapping.dest);
-        tabPages.push(mapping.hidden ? `!${pageEntry}` : pageEntry);
-        trackFirstPage(mapping.dest, mapping.hidden);
-      }
-    }
-
-    const tabMeta = {
-      title: tab.tab,
-      root: true,
-      pages: tabPages,
-    };
-
-    if (tab.icon) tabMeta.icon = tab.icon;
-    if (tab.iconType) tabMeta.iconType = tab.iconType;
-
-    metaFiles.push({ dir: tab.slug, data: tabMeta });
-  }
-
-  if (rootPages.length > 0) {
-    metaFiles.push({ dir: '', data: { pages: rootPages } });
-  }
-
-  if (!hasFirstPage && firstHiddenPageCandidate) {
-    firstPage = firstHiddenPageCandidate;
-    hasFirstPage = true;
-  }
-
-  return { pageMap, metaFiles, firstPage };
-}
-
 function processPage(srcPath, destPath, slug) {
-  let content = readFileSync(srcPath, 'utf-8');
-  if (!content.startsWith('---')) {
-    const titleMatch = content.match(/^#\s+(.+)$/m);
-    const title = titleMatch ? titleMatch[1] : pageLabelFromSlug(slug);
-    if (titleMatch) {
-      content = content.replace(/^#\s+.+$/m, '').trimStart();
-    }
-    content = `---\ntitle: "${title}"\n---\n\n${content}`;
-  }
-  content = rewriteImportsInContent(content, srcPath, destPath);
-
-  mkdirSync(dirname(destPath), { recursive: true });
-  writeFileSync(destPath, content, 'utf-8');
-}
-
-function writeMetaFiles(metaFiles) {
-  for (const meta of metaFiles) {
-    const metaPath = join(contentDir, meta.dir, 'meta.json');
-    mkdirSync(dirname(metaPath), { recursive: true });
-    writeFileSync(metaPath, JSON.stringify(meta.data, null, 2) + '\n', 'utf-8');
+  // Page output depends only on its source file, slug and the variables, so
+  // an unchanged source skips the read entirely.
+  const rel = contentRelPath(destPath);
+  const stamp = `${slug}\0${srcPath}\0${statSync(srcPath).mtimeMs}\0${contentVariablesKey}`;
+  if (pageStamps.get(rel) === stamp && generatedFiles.has(rel)) {
+    generationFiles?.add(rel);
+    return false;
   }
-}
 
-function writeIndexPage(firstPage) {
-  writeFileSync(
-    join(contentDir, 'index.mdx'),
-    `---\ntitle: "Overview"\ndescription: Documentation powered by Velu\n---\n\nimport { Card, Cards } from "fumadocs-ui/components/card"\nimport { Callout } from "fumadocs-ui/components/callout"\n\n<Callout type="info">\n  Welcome to your documentation site.\n</Callout>\n\n## Start here\n\n<Cards>\n  <Card\n    title="Read the docs"\n    href="/${firstPage}/"\n    description="Begin with the first page in your configured navigation."\n  />\n</Cards>\n`,
-    'utf-8'
-  );
+  const content = renderPage(srcPath, destPath, slug, contentOptions());
+  pageStamps.set(rel, stamp);
+  return writeContentFile(destPath, content);
 }
 
-function writeLangContent(langCode, artifacts, isDefault, useLangFolders = false) {
-  const storagePrefix = useLangFolders ? langCode : (isDefault ? '' : langCode);
-  const urlPrefix = isDefault ? '' : langCode;
-
-  // Write meta files (prefixed for non-default)
-  const metaFiles = storagePrefix
-    ? artifacts.metaFiles.map((meta) => ({
-        dir: meta.dir ? `${storagePrefix}/${meta.dir}` : storagePrefix,
-        data: { ...meta.data },
-      }))
-    : artifacts.metaFiles;
-  writeMetaFiles(metaFiles);
-
-  function sanitizeFrontmatterValue(value) {
-    return String(value).replace(/\r?\n+/g, ' ').replace(/"/g, '\\"').trim();
-  }
-
-  // Copy pages using explicit source paths from docs.json/velu.json
-  for (const mapping of artifacts.pageMap) {
-    const destPath = join(
-      contentDir,
-      storagePrefix ? `${storagePrefix}/${mapping.dest}.mdx` : `${mapping.dest}.mdx`,
-    );
-
-    if (mapping.kind === 'openapi-operation') {
-      mkdirSync(dirname(destPath), { recursive: true });
-      const operationLabel = `${mapping.openapiMethod || 'GET'} ${mapping.openapiEndpoint || '/'}`;
-      const normalizedSpec = normalizeOpenApiSpecForFrontmatter(mapping.openapiSpec);
-      const openapiValue = normalizedSpec
-        ? `${normalizedSpec} ${operationLabel}`
-        : operationLabel;
-      const title = sanitizeFrontmatterValue(mapping.title ?? operationLabel);
-      const description = typeof mapping.description === 'string'
-        ? sanitizeFrontmatterValue(mapping.description)
-        : '';
-      const version = typeof mapping.version === 'string'
-        ? sanitizeFrontmatterValue(mapping.version)
-        : '';
-      const openapi = openapiValue.replace(/"/g, '\\"');
-      const warning = normalizedSpec
-        ? ''
-        : '\n> Warning: No OpenAPI spec source was resolved for this operation. Set `openapi` on this tab/group/navigation or at the top level.\n';
-      const descriptionLine = description ? `\ndescription: "${description}"` : '';
-      const deprecatedLine = mapping.deprecated === true ? `\ndeprecated: true` : '';
-      const statusLine = mapping.deprecated === true ? `\nstatus: "deprecated"` : '';
-      const versionLine = version ? `\nversion: "${version}"` : '';
-      const content = typeof mapping.content === 'string' ? `${mapping.content.trim()}\n` : '';
-      writeFileSync(
-        destPath,
-        `---\ntitle: "${title}"${descriptionLine}${deprecatedLine}${statusLine}${versionLine}\nopenapi: "${openapi}"\n---\n${warning}${content}`,
-        'utf-8',
-      );
-      continue;
-    }
-
-    if (mapping.kind === 'asyncapi-channel') {
-      mkdirSync(dirname(destPath), { recursive: true });
-      const channelLabel = `${mapping.asyncapiChannel || 'channel'}`;
-      const normalizedSpec = normalizeOpenApiSpecForFrontmatter(mapping.asyncapiSpec);
-      const asyncapiValue = normalizedSpec
-        ? `${normalizedSpec} ${channelLabel}`
-        : channelLabel;
-      const title = sanitizeFrontmatterValue(mapping.title ?? channelLabel);
-      const description = typeof mapping.description === 'string'
-        ? sanitizeFrontmatterValue(mapping.description)
-        : '';
-      const version = typeof mapping.version === 'string'
-        ? sanitizeFrontmatterValue(mapping.version)
-        : '';
-      const asyncapi = asyncapiValue.replace(/"/g, '\\"');
-      const warning = normalizedSpec
-        ? ''
-        : '\n> Warning: No AsyncAPI spec source was resolved for this channel. Set `asyncapi` on this tab/group/navigation or at the top level.\n';
-      const descriptionLine = description ? `\ndescription: "${description}"` : '';
-      const versionLine = version ? `\nversion: "${version}"` : '';
-      writeFileSync(
-        destPath,
-        `---\ntitle: "${title}"${descriptionLine}${versionLine}\nasyncapi: "${asyncapi}"\n---\n${warning}`,
-        'utf-8',
-      );
-      continue;
-    }
+function rebuildFromConfig(loaded = loadContentConfig(docsDir, { gitVersions: true })) {
+  const { config, variables } = loaded;
+  currentConfig = config;
+  contentVariables = variables;
+  contentVariablesKey = JSON.stringify(variables);
 
-    const src = mapping.src;
-    let srcPath = join(docsDir, `${src}.mdx`);
-    let ext = '.mdx';
-    if (!existsSync(srcPath)) {
-      srcPath = join(docsDir, `${src}.md`);
-      ext = '.md';
-    }
-    if (!existsSync(srcPath)) {
-      console.warn(`  \x1b[33mWarning\x1b[0m  Missing page source: ${src}${ext} (language: ${langCode})`);
-      continue;
-    }
-    processPage(srcPath, destPath, src);
+  // The first generation starts from a clean slate; later ones diff in place.
+  if (generatedFiles.size === 0) {
+    rmSync(contentDir, { recursive: true, force: true });
   }
-
-  // Index page
-  const href = urlPrefix ? `/${urlPrefix}/${artifacts.firstPage}/` : `/${artifacts.firstPage}/`;
-  const indexPath = storagePrefix ? join(contentDir, storagePrefix, 'index.mdx') : join(contentDir, 'index.mdx');
-  writeFileSync(
-    indexPath,
-    `---\ntitle: "Overview"\ndescription: Documentation powered by Velu\n---\n\nimport { Card, Cards } from "fumadocs-ui/components/card"\nimport { Callout } from "fumadocs-ui/components/callout"\n\n<Callout type="info">\n  Welcome to your documentation site.\n</Callout>\n\n## Start here\n\n<Cards>\n  <Card\n    title="Read the docs"\n    href="${href}"\n    description="Begin with the first page in your configured navigation."\n  />\n</Cards>\n`,
-    'utf-8'
-  );
-}
-
-function rebuildFromConfig() {
-  const config = loadConfig();
-  const navLanguages = config.navigation?.languages;
-  const simpleLanguages = config.languages || [];
-
-  rmSync(contentDir, { recursive: true, force: true });
   mkdirSync(contentDir, { recursive: true });
   writeRedirectArtifacts(config);
-  rebuildSourceMirror();
-
-  // â”€â”€ Mode 1: Per-language navigation (Mintlify-style) â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€
-  if (navLanguages && navLanguages.length > 0) {
-    const rootPages = [];
-
-    for (let i = 0; i < navLanguages.length; i++) {
-      const langEntry = navLanguages[i];
-      const langCode = langEntry.language;
-      const isDefault = i === 0;
-
-      // Build artifacts using this language's own tabs
-      const langConfig = { ...config, navigation: { ...config.navigation, tabs: langEntry.tabs } };
-      const artifacts = buildArtifacts(langConfig);
-
-      writeLangContent(langCode, artifacts, isDefault, true);
-      rootPages.push(`!${langCode}`);
-    }
-
-    // Write root meta with default tabs + hidden language folders
-    writeFileSync(
-      join(contentDir, 'meta.json'),
-      JSON.stringify({ pages: rootPages }, null, 2) + '\n',
-      'utf-8'
-    );
-
-    // Return the default language's page map for file watching
-    const defaultConfig = { ...config, navigation: { ...config.navigation, tabs: navLanguages[0].tabs } };
-    const generatedPageMap = buildArtifacts(defaultConfig).pageMap;
-    generateOgImages(config);
-    return generatedPageMap;
-  }
-
-  // â”€â”€ Mode 2: Simple multi-lang (same nav, content in docs/<lang>/) â”€
-  const artifacts = buildArtifacts(config);
-
-  const useLangFolders = simpleLanguages.length > 1;
-  writeLangContent(simpleLanguages[0] || 'en', artifacts, true, useLangFolders);
-
-  if (simpleLanguages.length > 1) {
-    const rootMetaPath = join(contentDir, 'meta.json');
-    const rootPages = [`!${simpleLanguages[0] || 'en'}`];
 
-    for (const lang of simpleLanguages.slice(1)) {
-      writeLangContent(lang, artifacts, false, true);
-      rootPages.push(`!${lang}`);
-    }
-
-    writeFileSync(rootMetaPath, JSON.stringify({ pages: rootPages }, null, 2) + '\n', 'utf-8');
-  }
+  beginContentGeneration();
+  const { pageMap: generatedPageMap } = writeSiteContent(config, contentOptions());
+  const { written, removed } = finishContentGeneration();
+  const ogWritten = generateOgImages(config);
 
-  generateOgImages(config);
-  return artifacts.pageMap;
+  lastRebuildStats = { written, removed, ogWritten };
+  return generatedPageMap;
 }
 
+let lastRebuildStats = { written: 0, removed: 0, ogWritten: 0 };
+/** The config of the last rebuild, git-tag versions included, reused when a page or asset changes. */
+let currentConfig;
+rebuildSourceMirror();
 let pageMap = rebuildFromConfig();
 copyStaticAssets();
 
@@ -1656,23 +761,27 @@ function syncMarkdownFile(filename) {
   const matches = pageMap.filter((entry) => entry.src === srcSlug);
   if (matches.length === 0) return;
 
+  let changed = false;
   for (const match of matches) {
     const destPath = join(contentDir, `${match.dest}.mdx`);
-    processPage(srcPath, destPath, srcSlug);
+    changed = processPage(srcPath, destPath, srcSlug) || changed;
   }
 
-  generateOgImages(loadConfig());
+  if (changed) generateOgImages(currentConfig);
 
   console.log('  \x1b[32mâ†»\x1b[0m  ' + srcSlug);
 }
 
 function syncConfig() {
-  const srcPath = resolveConfigPath();
-  copyFileSync(srcPath, resolve(PRIMARY_CONFIG_NAME));
-  copyFileSync(srcPath, resolve(LEGACY_CONFIG_NAME));
-  pageMap = rebuildFromConfig();
-  copyStaticAssets();
-  console.log('  \x1b[32mâ†»\x1b[0m  docs.json/velu.json updated (navigation/content synced)');
+  // Written like the initial build: variables applied and git-tag versions filled in.
+  const loaded = loadContentConfig(docsDir, { gitVersions: true });
+  const serializedConfig = `${JSON.stringify(loaded.rawConfig, null, 2)}\n`;
+  writeFileSync(resolve(PRIMARY_CONFIG_NAME), serializedConfig, 'utf-8');
+  writeFileSync(resolve(LEGACY_CONFIG_NAME), serializedConfig, 'utf-8');
+  // Static assets don't depend on the config; the watcher syncs them individually.
+  pageMap = rebuildFromConfig(loaded);
+  const { written, removed, ogWritten } = lastRebuildStats;
+  console.log(`  \x1b[32mâ†»\x1b[0m  docs.json/velu.json updated (${written} files written, ${removed} removed, ${ogWritten} OG images)`);
 }
 
 function startWatcher() {
@@ -1712,11 +821,11 @@ function startWatcher() {
             if (existsSync(src)) {
               mkdirSync(dirname(dest), { recursive: true });
               copyFileSync(src, dest);
-              generateOgImages(loadConfig());
+              generateOgImages(currentConfig);
               console.log('  \x1b[32m↻\x1b[0m  ' + filename);
             } else {
               rmSync(dest, { force: true });
-              generateOgImages(loadConfig());
+              generateOgImages(currentConfig);
               console.log('  \x1b[32m↻\x1b[0m  removed ' + filename);
             }
           }
@@ -1768,18 +877,42 @@ if (command === 'dev') {
   rmSync(resolve('app', 'api'), { recursive: true, force: true });
   await runNext('build', port, { VELU_STATIC_EXPORT: '1' });
 
-  // Run Pagefind to index the static output for search
+  // Run Pagefind to index the static output for search. It reads pagefind.json
+  // from its working directory; search weights and exclusions are already in the HTML.
   console.log('  Indexing for search...');
+  const searchRanking = resolveSearchRankingConfig(loadConfig().search);
+  writeFileSync(
+    resolve('pagefind.json'),
+    `${JSON.stringify(buildPagefindConfig(searchRanking, { site: 'dist', outputPath: 'dist/pagefind' }), null, 2)}\n`,
+    'utf-8',
+  );
   const pagefindBin = join(dirname(require.resolve('next/package.json')), '..', 'pagefind', 'lib', 'runner', 'bin.cjs');
   await new Promise((res, rej) => {
-    const pf = spawn(process.execPath, [pagefindBin, '--site', 'dist', '--output-path', 'dist/pagefind'], {
+    const pf = spawn(process.execPath, [pagefindBin], {
       cwd: '.',
       stdio: 'inherit',
     });
     pf.on('exit', (code) => (code === 0 ? res() : rej(new Error(`pagefind exited with ${code}`))));
   });
 
+  const semanticSearch = resolveSemanticSearchConfig(loadConfig().search?.semantic);
+  if (semanticSearch) {
+    console.log(`  Building semantic search index with ${semanticSearch.model}...`);
+    const { pages, sections } = await buildSemanticIndex({
+      distDir: resolve('dist'),
+      docsDir,
+      // Kept between builds with Next's cache, so the model downloads once.
+      cacheDir: resolve('.next', 'cache', 'velu-semantic'),
+      config: semanticSearch,
+    });
+    console.log(`  Embedded ${sections} sections from ${pages} pages`);
+  }
+
   console.log('\n  âœ… Site built successfully.\n');
+} else if (command === 'generate') {
+  // Content, redirects and OG images were generated above; stop before Next.
+  const { written, removed, ogWritten } = lastRebuildStats;
+  console.log(`  Generated content (${written} files written, ${removed} removed, ${ogWritten} OG images)`);
 } else {
   console.error(`Unknown server command: ${command}`);
   process.exit(1);
@@ -2,6 +2,8 @@ import type { Metadata } from 'next';
 import { notFound } from 'next/navigation';
 import { readFile, stat } from 'node:fs/promises';
 import { join } from 'node:path';
+import type { ComponentType } from 'react';
+import type { MDXComponents } from 'mdx/types';
 import { parse as parseYaml } from 'yaml';
 import { createRelativeLink } from 'fumadocs-ui/mdx';
 import {
@@ -17,15 +19,19 @@ import { VeluOpenAPI, VeluOpenAPISchema } from '@/components/openapi';
 import {
   getApiConfig,
   getContextualOptions,
+  getFeedbackEndpoint,
   getFooterSocials,
   getLanguages,
   getMetadataConfig,
+  getBasePath,
+  getPageSearchWeight,
   getVersionOptions,
   getProductOptions,
   getSeoConfig,
   getSiteDescription,
   getSiteName,
-  getSiteOrigin,
+  getSiteUrl,
+  withBasePath,
 } from '@/lib/velu';
 import { CopyPageButton } from '@/components/copy-page';
 import { ChangelogFilters } from '@/components/changelog-filters';
@@ -34,7 +40,18 @@ import { OpenApiTocSync } from '@/components/openapi-toc-sync';
 import { TocExamples } from '@/components/toc-examples';
 import { PageFeedback } from '@/components/page-feedback';
 import { VeluIcon } from '@/components/icon';
-import { parseChangelogFromMarkdown, parseFrontmatterBoolean } from '@/lib/changelog';
+import {
+  CHANGELOG_FEED_FILES,
+  CHANGELOG_FEED_TYPES,
+  formatChangelogArchiveLabel,
+  getChangelogArchives,
+  isUpdateInArchive,
+  parseChangelogFromMarkdown,
+  parseFrontmatterBoolean,
+  type ChangelogArchive,
+  type ChangelogFeedFormat,
+} from '@/lib/changelog';
+import { collectChangelogPages } from '@/lib/feeds';
 
 interface RouteParams {
   slug?: string[];
@@ -103,6 +120,39 @@ async function loadMarkdownForSlug(slug: string[], locale: string, hasI18n: bool
   return undefined;
 }
 
+interface ChangelogArchiveMatch {
+  /** Slug of the changelog page the archive belongs to. */
+  pageSlug: string[];
+  archive: ChangelogArchive;
+}
+
+/** `changelog/tags/api` or `changelog/2024/03`, when `changelog` has updates with that tag or month. */
+async function resolveChangelogArchive(pageSlug: string[], locale: string, hasI18n: boolean): Promise<ChangelogArchiveMatch | undefined> {
+  if (pageSlug.length < 3) return undefined;
+  const baseSlug = pageSlug.slice(0, -2);
+  const loaded = await loadMarkdownForSlug(baseSlug, locale, hasI18n);
+  const segments = pageSlug.slice(-2).join('/');
+  const archive = getChangelogArchives(parseChangelogFromMarkdown(loaded?.content))
+    .find((entry) => entry.segments.join('/') === segments);
+  return archive ? { pageSlug: baseSlug, archive } : undefined;
+}
+
+/** Renders only the `<Update>` blocks that belong to the archive. */
+function withChangelogArchiveFilter(components: MDXComponents, archive: ChangelogArchive): MDXComponents {
+  const Update = components.Update as ComponentType<Record<string, unknown>> | undefined;
+  if (!Update) return components;
+
+  return {
+    ...components,
+    Update: (props: Record<string, unknown>) => {
+      const date = props.date != null ? String(props.date) : undefined;
+      const tags = Array.isArray(props.tags) ? props.tags.map(String) : (props.tags ? [String(props.tags)] : []);
+      const update = { label: String(props.label ?? date ?? 'Update'), date, tags };
+      return isUpdateInArchive(update, archive) ? <Update {...props} /> : null;
+    },
+  };
+}
+
 function formatLastModifiedDate(value: Date): string {
   return new Intl.DateTimeFormat('en-US', {
     month: 'long',
@@ -367,7 +417,7 @@ function resolveCanonicalUrl(siteOrigin: string, pageUrl: string, canonicalMeta?
     try {
       const parsed = new URL(raw);
       const hasOnlyOriginPath = parsed.pathname === '/' && !parsed.search && !parsed.hash;
-      if (hasOnlyOriginPath) return `${parsed.origin}${normalizedPagePath}`;
+      if (hasOnlyOriginPath) return `${parsed.origin}${getBasePath()}${normalizedPagePath}`;
       return parsed.toString();
     } catch {
       return `${siteOrigin}${normalizedPagePath}`;
@@ -592,14 +642,17 @@ export default async function Page({ params }: PageProps) {
   const hasI18n = getLanguages().length > 1;
   const footerSocials = getFooterSocials();
 
-  const page = hasI18n ? source.getPage(pageSlug, locale) : source.getPage(pageSlug);
+  const directPage = hasI18n ? source.getPage(pageSlug, locale) : source.getPage(pageSlug);
+  const archiveMatch = directPage ? undefined : await resolveChangelogArchive(pageSlug, locale, hasI18n);
+  const contentSlug = archiveMatch?.pageSlug ?? pageSlug;
+  const page = directPage ?? (hasI18n ? source.getPage(contentSlug, locale) : source.getPage(contentSlug));
 
   if (!page) notFound();
 
   const pageDataRecord = (page.data as unknown) as Record<string, unknown>;
   const MDX = pageDataRecord.body as any;
   if (typeof MDX !== 'function') notFound();
-  const loadedMarkdown = await loadMarkdownForSlug(pageSlug, locale, hasI18n);
+  const loadedMarkdown = await loadMarkdownForSlug(contentSlug, locale, hasI18n);
   const sourceMarkdown = loadedMarkdown?.content;
   const lastModifiedLabel = metadataConfig.timestamp && loadedMarkdown?.modifiedAt
     ? formatLastModifiedDate(loadedMarkdown.modifiedAt)
@@ -647,7 +700,9 @@ export default async function Page({ params }: PageProps) {
     && /<(?:Panel|RequestExample|ResponseExample)(?:\s|>)/.test(effectiveMarkdown);
   const parsedChangelog = parseChangelogFromMarkdown(effectiveMarkdown);
   const hasChangelog = parsedChangelog.updates.length > 0;
-  const hasChangelogTags = parsedChangelog.tags.length > 0;
+  const changelogArchive = archiveMatch?.archive;
+  const changelogArchives = hasChangelog ? getChangelogArchives(parsedChangelog) : [];
+  const hasChangelogTags = parsedChangelog.tags.length > 0 && !changelogArchive;
   const isDeprecatedPage = parseFrontmatterBoolean(effectiveMarkdown, 'deprecated')
     || frontmatter.status?.trim().toLowerCase() === 'deprecated'
     || (pageDataRecord.deprecated === true)
@@ -658,7 +713,11 @@ export default async function Page({ params }: PageProps) {
   const pageUrl = (typeof sourcePageUrl === 'string' && sourcePageUrl.trim())
     ? sourcePageUrl
     : (fallbackPath === '' ? '/' : fallbackPath);
-  const rssHref = `${withTrailingSlashPath(pageUrl).replace(/\/$/, '') || ''}/rss.xml`;
+  const changelogBasePath = withTrailingSlashPath(pageUrl).replace(/\/$/, '') || '';
+  const rssFeedPath = changelogArchive?.kind === 'tag'
+    ? `${changelogBasePath}/${changelogArchive.segments.join('/')}`
+    : changelogBasePath;
+  const rssHref = withBasePath(`${rssFeedPath}/rss.xml`);
   const shouldReplaceTocWithApiExample = !hasExplicitApiRendering && Boolean(inlineApiDoc) && playgroundDisplay === 'interactive';
   const shouldShowOpenApiExampleInToc = !hasExplicitApiRendering && !parsedApiFrontmatter && Boolean(parsedOpenApiFrontmatter);
   const hasApiTocRail = shouldReplaceTocWithApiExample || shouldShowOpenApiExampleInToc;
@@ -669,7 +728,19 @@ export default async function Page({ params }: PageProps) {
   ) : undefined;
   const pageToc = pageDataRecord.toc as any;
   const pageFull = typeof pageDataRecord.full === 'boolean' ? pageDataRecord.full : undefined;
-  const toc = hasChangelog ? parsedChangelog.toc : pageToc;
+  const changelogToc = changelogArchive
+    ? parsedChangelog.updates
+      .filter((update) => isUpdateInArchive(update, changelogArchive))
+      .map((update) => parsedChangelog.toc.find((item) => item.url === `#${update.anchor}`))
+      .filter((item) => item !== undefined)
+    : parsedChangelog.toc;
+  const toc = hasChangelog ? changelogToc : pageToc;
+  const pageTitle = changelogArchive
+    ? `${page.data.title}: ${formatChangelogArchiveLabel(changelogArchive)}`
+    : page.data.title;
+  const mdxComponents = getMDXComponents({
+    a: createRelativeLink(source, page),
+  });
   const tableOfContentHeader = apiTocHeader ?? (hasPanelExamples ? <div className="velu-toc-panel-rail" /> : undefined);
   const orderedPages = hasI18n ? source.getPages(locale) : source.getPages();
   const currentPageUrl = (typeof sourcePageUrl === 'string' && sourcePageUrl.trim())
@@ -680,7 +751,7 @@ export default async function Page({ params }: PageProps) {
   const nextPage = currentIndex >= 0 && currentIndex < orderedPages.length - 1 ? orderedPages[currentIndex + 1] : undefined;
 
   // Build pagefind filter attributes
-  const metaAttrs: string[] = [`title:${page.data.title}`];
+  const metaAttrs: string[] = [`title:${pageTitle}`];
   const filterAttrs: string[] = [];
   if (hasI18n) {
     metaAttrs.push(`language:${filterLocale}`);
@@ -694,6 +765,11 @@ export default async function Page({ params }: PageProps) {
     metaAttrs.push(`product:${product}`);
     filterAttrs.push(`product:${product}`);
   }
+  // Pages without data-pagefind-body are left out of the index.
+  const searchable = !changelogArchive
+    && normalizeBoolean(frontmatter.searchable ?? pageDataRecord.searchable) !== false;
+  const isApiPage = hasExplicitApiRendering || Boolean(parsedApiFrontmatter || parsedOpenApiFrontmatter);
+  const searchWeight = getPageSearchWeight(pageUrl, isApiPage);
 
   return (
       <DocsPage
@@ -703,9 +779,10 @@ export default async function Page({ params }: PageProps) {
         footer={{ enabled: false }}
       >
       <div
-        data-pagefind-body
+        data-pagefind-body={searchable ? true : undefined}
         data-pagefind-meta={metaAttrs.join(',')}
         data-pagefind-filter={filterAttrs.length > 0 ? filterAttrs.join(',') : undefined}
+        data-pagefind-weight={searchable && searchWeight !== undefined ? searchWeight : undefined}
       >
         <TocExamples />
         <OpenApiTocSync enabled={hasApiTocRail} />
@@ -713,11 +790,11 @@ export default async function Page({ params }: PageProps) {
         <VeluImageZoomFallback />
         <div className="velu-title-row">
           <div className="velu-title-main">
-            <DocsTitle>{page.data.title}</DocsTitle>
+            <DocsTitle>{pageTitle}</DocsTitle>
             {isDeprecatedPage ? <span className="velu-pill velu-pill-deprecated velu-page-deprecated-badge">Deprecated</span> : null}
           </div>
           <div className="velu-title-actions">
-            <CopyPageButton options={getContextualOptions()} mcpUrl={getSiteOrigin() + '/mcp'} />
+            <CopyPageButton options={getContextualOptions()} mcpUrl={getSiteUrl() + '/mcp'} />
             {showRssButton ? (
               <a className="velu-rss-button" href={rssHref} aria-label="Subscribe to this changelog RSS feed">
                 <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" aria-hidden="true">
@@ -777,18 +854,46 @@ export default async function Page({ params }: PageProps) {
               schema={parsedOpenApiSchemaFrontmatter.schema}
             />
           ) : null}
-          <MDX
-            components={getMDXComponents({
-              a: createRelativeLink(source, page),
-            })}
-          />
+          <MDX components={changelogArchive ? withChangelogArchiveFilter(mdxComponents, changelogArchive) : mdxComponents} />
         </DocsBody>
+        {changelogArchives.length > 0 ? (
+          <nav className="velu-changelog-archives" aria-label="Changelog archives">
+            {changelogArchive ? (
+              <a className="velu-changelog-archive-all" href={withBasePath(withTrailingSlashPath(changelogBasePath || '/'))}>All updates</a>
+            ) : null}
+            {(['tag', 'month'] as const).map((kind) => {
+              const entries = changelogArchives.filter((archive) => archive.kind === kind);
+              if (entries.length === 0) return null;
+              return (
+                <div key={kind} className="velu-changelog-archive-group">
+                  <p className="velu-changelog-archive-heading">{kind === 'tag' ? 'Tags' : 'Archive'}</p>
+                  <ul>
+                    {entries.map((archive) => {
+                      const segments = archive.segments.join('/');
+                      const current = changelogArchive?.segments.join('/') === segments;
+                      return (
+                        <li key={segments}>
+                          <a
+                            href={withBasePath(withTrailingSlashPath(`${changelogBasePath}/${segments}`))}
+                            aria-current={current ? 'page' : undefined}
+                          >
+                            {formatChangelogArchiveLabel(archive)}
+                          </a>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </div>
+              );
+            })}
+          </nav>
+        ) : null}
         <section className="velu-page-feedback-wrap" aria-label="Page feedback">
-          <PageFeedback />
+          <PageFeedback endpoint={getFeedbackEndpoint()} />
           {(previousPage || nextPage) ? (
             <div className={['velu-page-nav-grid', previousPage && nextPage ? 'velu-page-nav-grid-two' : 'velu-page-nav-grid-one'].join(' ')}>
               {previousPage ? (
-                <a href={withTrailingSlashPath(previousPage.url)} className="velu-page-nav-card">
+                <a href={withBasePath(withTrailingSlashPath(previousPage.url))} className="velu-page-nav-card">
                   <p className="velu-page-nav-title">{previousPage.data.title}</p>
                   <p className="velu-page-nav-meta">
                     <svg viewBox="0 0 24 24" aria-hidden="true"><path d="M15 18l-6-6 6-6" /></svg>
@@ -797,7 +902,7 @@ export default async function Page({ params }: PageProps) {
                 </a>
               ) : null}
               {nextPage ? (
-                <a href={withTrailingSlashPath(nextPage.url)} className="velu-page-nav-card velu-page-nav-card-next">
+                <a href={withBasePath(withTrailingSlashPath(nextPage.url))} className="velu-page-nav-card velu-page-nav-card-next">
                   <p className="velu-page-nav-title">{nextPage.data.title}</p>
                   <p className="velu-page-nav-meta velu-page-nav-meta-next">
                     <span>{nextPage.data.description ?? 'Next'}</span>
@@ -856,7 +961,11 @@ export async function generateStaticParams() {
     return true;
   });
 
-  return nonRoot;
+  const archives = (await collectChangelogPages()).flatMap((page) => getChangelogArchives(page)
+    .map((archive) => ({ slug: [...page.slug, ...archive.segments] }))
+    .filter((entry) => !seen.has(entry.slug.join('/'))));
+
+  return [...nonRoot, ...archives];
 }
 
 export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
@@ -865,13 +974,17 @@ export async function generateMetadata({ params }: PageProps): Promise<Metadata>
   const hasI18n = getLanguages().length > 1;
   const seo = getSeoConfig();
   const siteName = getSiteName();
-  const siteOrigin = getSiteOrigin();
+  // Origin plus base path, so generated OG images and page URLs resolve under it.
+  const siteOrigin = getSiteUrl();
 
-  const page = hasI18n ? source.getPage(pageSlug, locale) : source.getPage(pageSlug);
+  const directPage = hasI18n ? source.getPage(pageSlug, locale) : source.getPage(pageSlug);
+  const archiveMatch = directPage ? undefined : await resolveChangelogArchive(pageSlug, locale, hasI18n);
+  const contentSlug = archiveMatch?.pageSlug ?? pageSlug;
+  const page = directPage ?? (hasI18n ? source.getPage(contentSlug, locale) : source.getPage(contentSlug));
 
   if (!page) notFound();
 
-  const loadedMarkdown = await loadMarkdownForSlug(pageSlug, locale, hasI18n);
+  const loadedMarkdown = await loadMarkdownForSlug(contentSlug, locale, hasI18n);
   const sourceMarkdown = loadedMarkdown?.content;
   const pageDataRecord = (page.data as unknown) as Record<string, unknown>;
   const dataMarkdown = typeof pageDataRecord.processedMarkdown === 'string'
@@ -892,7 +1005,19 @@ export async function generateMetadata({ params }: PageProps): Promise<Metadata>
     ? sourcePageUrl
     : (fallbackPath === '' ? '/' : fallbackPath);
 
-  const canonical = resolveCanonicalUrl(siteOrigin, pageUrl, mergedMetatags.canonical);
+  const changelogArchive = archiveMatch?.archive;
+  const archiveUrl = changelogArchive
+    ? `${normalizeDocPath(pageUrl).replace(/^\/$/, '')}/${changelogArchive.segments.join('/')}`
+    : undefined;
+  const canonical = archiveUrl
+    ? resolveCanonicalUrl(siteOrigin, archiveUrl, seo.metatags.canonical)
+    : resolveCanonicalUrl(siteOrigin, pageUrl, mergedMetatags.canonical);
+  const feedPath = changelogArchive?.kind === 'tag' ? archiveUrl! : normalizeDocPath(pageUrl).replace(/^\/$/, '');
+  const feedBaseUrl = `${siteOrigin}${feedPath}`;
+  const feedTypes = parseChangelogFromMarkdown(effectiveMarkdown).updates.length > 0
+    ? Object.fromEntries((Object.keys(CHANGELOG_FEED_FILES) as ChangelogFeedFormat[])
+      .map((format) => [CHANGELOG_FEED_TYPES[format], `${feedBaseUrl}/${CHANGELOG_FEED_FILES[format]}`]))
+    : undefined;
   const keywords = parseKeywords(frontmatterData, mergedMetatags.keywords);
   const robotsFromMetatag = parseRobotsDirectives(mergedMetatags.robots);
   const noindex = normalizeBoolean(frontmatterData.noindex) === true
@@ -901,8 +1026,11 @@ export async function generateMetadata({ params }: PageProps): Promise<Metadata>
     || parseFrontmatterBoolean(effectiveMarkdown, 'hidden')
     || (mergedMetatags.robots ?? '').toLowerCase().includes('noindex')
     || (mergedMetatags.robots ?? '').toLowerCase().includes('none');
-  const titleOverride = mergedMetatags.title?.trim();
-  const resolvedTitle = titleOverride || `${page.data.title} - ${siteName}`;
+  const titleOverride = changelogArchive ? undefined : mergedMetatags.title?.trim();
+  const pageTitle = changelogArchive
+    ? `${page.data.title}: ${formatChangelogArchiveLabel(changelogArchive)}`
+    : page.data.title;
+  const resolvedTitle = titleOverride || `${pageTitle} - ${siteName}`;
   const resolvedDescription = (mergedMetatags.description?.trim() || page.data.description || getSiteDescription() || '').trim() || undefined;
   const generatedSocialImage = buildGeneratedOgImagePath(pageUrl);
   const fallbackImage = mergedMetatags['og:image']
@@ -984,10 +1112,10 @@ export async function generateMetadata({ params }: PageProps): Promise<Metadata>
   }
 
   return {
-    ...(titleOverride ? { title: { absolute: titleOverride } } : { title: page.data.title }),
+    ...(titleOverride ? { title: { absolute: titleOverride } } : { title: pageTitle }),
     ...(resolvedDescription ? { description: resolvedDescription } : {}),
     ...(keywords && keywords.length > 0 ? { keywords } : {}),
-    alternates: { canonical },
+    alternates: { canonical, ...(feedTypes ? { types: feedTypes } : {}) },
     openGraph,
     twitter,
     ...(mergedMetatags.generator ? { generator: mergedMetatags.generator } : {}),
@@ -0,0 +1,90 @@
+import { NextRequest } from 'next/server';
+import {
+  addComment,
+  listComments,
+  parseCommentInput,
+  parseResolveInput,
+  setCommentResolved,
+} from '@/lib/preview-comments';
+import { authorizeApiRequest, verifyPreviewToken } from '@/lib/preview-auth';
+import { sessionExists } from '@/lib/preview-sessions';
+
+// `%5F%5Fcomments` serves `/{sessionId}/__comments` for the comments overlay. Like `__events`,
+// it sits under the session path, so the preview cookie (from an editor or a share link) authenticates it.
+// Anyone who can open the preview can read and add comments; resolving a thread takes the `sync`
+// scope, as on the API route, so read-only share links can't close reviewers' threads.
+// Ids with no session get a 404, so no comment files are written for them.
+
+export const dynamic = 'force-dynamic';
+
+/** Whether the caller's secret, token header or preview cookie grants `sync` on the session. */
+function canResolve(request: NextRequest, sessionId: string): boolean {
+  if (authorizeApiRequest(request, sessionId, 'sync')) return true;
+  const cookie = request.cookies.get(`__velu_preview_${sessionId}`);
+  return cookie !== undefined && verifyPreviewToken(cookie.value, sessionId, 'sync').valid;
+}
+
+function sessionNotFound(): Response {
+  return Response.json({ error: 'Preview session not found.' }, { status: 404 });
+}
+
+async function readJson(request: NextRequest): Promise<unknown> {
+  try {
+    return await request.json();
+  } catch {
+    return undefined;
+  }
+}
+
+/** Threads of one page: `GET /{sessionId}/__comments?page=/guides/intro`, and whether the caller may resolve them. */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> },
+) {
+  const { sessionId } = await params;
+  if (!sessionExists(sessionId)) return sessionNotFound();
+  const page = request.nextUrl.searchParams.get('page') ?? '/';
+  return Response.json({ threads: listComments(sessionId, { page }), canResolve: canResolve(request, sessionId) });
+}
+
+/** Start a thread (`{ page, heading, author, body }`) or reply to one (`{ threadId, author, body }`). */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> },
+) {
+  const { sessionId } = await params;
+  if (!sessionExists(sessionId)) return sessionNotFound();
+  const parsed = parseCommentInput(await readJson(request));
+  if ('error' in parsed) {
+    return Response.json({ error: parsed.error }, { status: 400 });
+  }
+
+  const thread = addComment(sessionId, parsed.value);
+  if (!thread) return Response.json({ error: 'Comment thread not found.' }, { status: 404 });
+  return Response.json({ thread }, { status: parsed.value.type === 'thread' ? 201 : 200 });
+}
+
+/** Resolve or reopen a thread: `{ threadId, resolved, author? }`. */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> },
+) {
+  const { sessionId } = await params;
+  if (!sessionExists(sessionId)) return sessionNotFound();
+  if (!canResolve(request, sessionId)) {
+    return Response.json({ error: 'Resolving threads needs a preview link with the sync scope.' }, { status: 403 });
+  }
+  const body = await readJson(request);
+  const threadId = typeof body === 'object' && body !== null ? (body as { threadId?: unknown }).threadId : undefined;
+  if (typeof threadId !== 'string' || !threadId) {
+    return Response.json({ error: '"threadId" must be a string.' }, { status: 400 });
+  }
+  const parsed = parseResolveInput(body);
+  if ('error' in parsed) {
+    return Response.json({ error: parsed.error }, { status: 400 });
+  }
+
+  const thread = setCommentResolved(sessionId, threadId, parsed.value.resolved, parsed.value.author);
+  if (!thread) return Response.json({ error: 'Comment thread not found.' }, { status: 404 });
+  return Response.json({ thread });
+}
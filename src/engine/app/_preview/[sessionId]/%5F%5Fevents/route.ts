@@ -0,0 +1,74 @@
+import { NextRequest } from 'next/server';
+import { readSessionEvent, watchSessionEvents, type PreviewEvent } from '@/lib/preview-events';
+import { touchSession } from '@/lib/preview-sessions';
+
+// `%5F%5Fevents` serves `/{sessionId}/__events`: folders starting with `_` are private in the app router.
+// It sits under the session path so the preview cookie (scoped to `/{sessionId}`) authenticates it.
+
+export const dynamic = 'force-dynamic';
+
+const HEARTBEAT_MS = 25_000;
+
+function formatEvent(event: PreviewEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * Server-sent events for a session: `updated` after content is synced or
+ * regenerated, `error` when that fails. A preview opened while the last
+ * sync failed gets that error right away. While the stream is open the
+ * session counts as in use, so an open preview never expires.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> },
+) {
+  const { sessionId } = await params;
+  const encoder = new TextEncoder();
+  let stop = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          stop();
+        }
+      };
+
+      const latest = readSessionEvent(sessionId);
+      send('retry: 2000\n\n');
+      if (latest?.type === 'error') send(formatEvent(latest));
+
+      const unwatch = watchSessionEvents(sessionId, latest?.at ?? 0, (event) => send(formatEvent(event)));
+      touchSession(sessionId);
+      const heartbeat = setInterval(() => {
+        touchSession(sessionId);
+        send(': ping\n\n');
+      }, HEARTBEAT_MS);
+      stop = () => {
+        clearInterval(heartbeat);
+        unwatch();
+      };
+      request.signal.addEventListener('abort', () => {
+        stop();
+        try {
+          controller.close();
+        } catch { /* already closed */ }
+      });
+    },
+    cancel() {
+      stop();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
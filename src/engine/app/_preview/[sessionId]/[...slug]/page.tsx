@@ -11,6 +11,7 @@ import {
 import { getSessionSource } from '@/lib/preview-source';
 import { getMDXComponents } from '@/mdx-components';
 import { loadSessionConfigSource } from '@/lib/preview-config';
+import { touchSession } from '@/lib/preview-sessions';
 import {
   getApiConfig,
   getContextualOptions,
@@ -140,6 +141,7 @@ function prefixMdxComponentLinks(
 
 export default async function PreviewPage({ params }: PageProps) {
   const { sessionId, slug } = await params;
+  touchSession(sessionId);
 
   const src = await getSessionSource(sessionId);
   const page = src.getPage(slug);
@@ -2,6 +2,8 @@ import type { ReactNode } from 'react';
 import { loadSessionConfigSource, getSessionThemeCss } from '@/lib/preview-config';
 import { getBannerConfig, getFontsConfig, getSiteFavicon } from '@/lib/velu';
 import { VeluBanner } from '@/components/banner';
+import { PreviewLiveUpdates } from '@/components/preview-live-updates';
+import { PreviewComments } from '@/components/preview-comments';
 
 interface LayoutProps {
   children: ReactNode;
@@ -9,7 +11,9 @@ interface LayoutProps {
 }
 
 /**
- * Session layout: injects per-session theme CSS, Google Fonts, and banner.
+ * Session layout: injects per-session theme CSS, Google Fonts, and banner,
+ * keeps the page in step with workspace edits (see PreviewLiveUpdates), and
+ * shows the review comments overlay.
  * Uses React 19 resource hoisting (<style precedence> / <link precedence>)
  * so tags are hoisted to <head> without creating body DOM elements
  * that would break fumadocs' sticky sidebar CSS grid.
@@ -51,6 +55,8 @@ export default async function SessionLayout({ children, params }: LayoutProps) {
       {faviconUrl ? <link rel="icon" href={faviconUrl} /> : null}
       {bannerConfig ? <VeluBanner content={bannerConfig.content} dismissible={bannerConfig.dismissible} /> : null}
       {children}
+      <PreviewLiveUpdates sessionId={sessionId} />
+      <PreviewComments sessionId={sessionId} />
     </>
   );
 }
@@ -2,6 +2,13 @@ import { NextRequest, NextResponse } from 'next/server';
 import { existsSync, readFileSync } from 'node:fs';
 import { join, extname } from 'node:path';
 import { getWorkspaceDir } from '@/lib/preview-config';
+import {
+  authorizeApiRequest,
+  getPreviewSecret,
+  unauthorizedResponse,
+  verifyAssetSignature,
+  verifyPreviewToken,
+} from '@/lib/preview-auth';
 
 const MIME_TYPES: Record<string, string> = {
   '.svg': 'image/svg+xml',
@@ -19,13 +26,28 @@ const MIME_TYPES: Record<string, string> = {
   '.js': 'application/javascript',
 };
 
+/**
+ * Readers of a session's assets: API callers with `read` access, browsers
+ * holding the preview cookie (set by the preview proxy), and signed URLs
+ * (see `signAssetUrl`).
+ */
+function canReadAsset(request: NextRequest, sessionId: string, assetPath: string): boolean {
+  if (authorizeApiRequest(request, sessionId, 'read')) return true;
+  const cookie = request.cookies.get(`__velu_preview_assets_${sessionId}`);
+  if (cookie && verifyPreviewToken(cookie.value, sessionId, 'read').valid) return true;
+  const { searchParams } = request.nextUrl;
+  return verifyAssetSignature(sessionId, assetPath, searchParams.get('exp'), searchParams.get('sig'));
+}
+
 export async function GET(
-  _req: NextRequest,
+  request: NextRequest,
   { params }: { params: Promise<{ sessionId: string; path: string[] }> },
 ) {
   const { sessionId, path: segments } = await params;
   const assetPath = segments.join('/');
 
+  if (!canReadAsset(request, sessionId, assetPath)) return unauthorizedResponse();
+
   // Prevent path traversal
   if (assetPath.includes('..')) {
     return NextResponse.json({ error: 'Invalid path' }, { status: 400 });
@@ -45,7 +67,8 @@ export async function GET(
   return new NextResponse(data, {
     headers: {
       'Content-Type': contentType,
-      'Cache-Control': 'public, max-age=60',
+      // Shared caches must not serve an authenticated asset to other clients
+      'Cache-Control': getPreviewSecret() ? 'private, max-age=60' : 'public, max-age=60',
     },
   });
 }
@@ -0,0 +1,32 @@
+import { NextRequest } from 'next/server';
+import { parseResolveInput, setCommentResolved } from '@/lib/preview-comments';
+import { authorizeApiRequest, unauthorizedResponse } from '@/lib/preview-auth';
+
+/**
+ * Resolve or reopen a comment thread:
+ *
+ *   PATCH /api/sessions/{id}/comments/{threadId}
+ *   { "resolved": true, "author": "Dana" }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string; threadId: string }> },
+) {
+  const { sessionId, threadId } = await params;
+  if (!authorizeApiRequest(request, sessionId, 'sync')) return unauthorizedResponse();
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: 'Expected a JSON body.' }, { status: 400 });
+  }
+  const parsed = parseResolveInput(body);
+  if ('error' in parsed) {
+    return Response.json({ error: parsed.error }, { status: 400 });
+  }
+
+  const thread = setCommentResolved(sessionId, threadId, parsed.value.resolved, parsed.value.author);
+  if (!thread) return Response.json({ error: 'Comment thread not found.' }, { status: 404 });
+  return Response.json({ thread });
+}
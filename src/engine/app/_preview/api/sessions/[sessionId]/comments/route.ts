@@ -0,0 +1,36 @@
+import { NextRequest } from 'next/server';
+import { listComments } from '@/lib/preview-comments';
+import { authorizeApiRequest, unauthorizedResponse } from '@/lib/preview-auth';
+
+const STATUSES = ['open', 'resolved', 'all'] as const;
+
+/**
+ * List a session's comment threads:
+ *
+ *   GET /api/sessions/{id}/comments?status=open&page=/guides/intro
+ *
+ * `status` is `open`, `resolved` or `all` (default); `page` limits the list
+ * to one page.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> },
+) {
+  const { sessionId } = await params;
+  if (!authorizeApiRequest(request, sessionId, 'read')) return unauthorizedResponse();
+
+  const { searchParams } = request.nextUrl;
+  const status = searchParams.get('status') ?? 'all';
+  if (!(STATUSES as readonly string[]).includes(status)) {
+    return Response.json({ error: `"status" must be one of ${STATUSES.join(', ')}.` }, { status: 400 });
+  }
+
+  const threads = listComments(sessionId, {
+    page: searchParams.get('page') ?? undefined,
+    status: status as (typeof STATUSES)[number],
+  });
+  return Response.json({
+    threads,
+    open: threads.filter((thread) => !thread.resolved).length,
+  });
+}
@@ -0,0 +1,99 @@
+import { NextRequest } from 'next/server';
+import { applySessionFiles, parseSessionFileChanges } from '@/lib/preview-content';
+import { touchSession } from '@/lib/preview-sessions';
+import { compileSessionPage, invalidateSessionSource } from '@/lib/preview-source';
+import { publishSessionEvent } from '@/lib/preview-events';
+import { authorizeApiRequest, unauthorizedResponse } from '@/lib/preview-auth';
+
+interface CompileError {
+  page: string;
+  /** Workspace file the page was generated from. */
+  file?: string;
+  message: string;
+}
+
+/**
+ * Apply a batch of workspace edits sent in the body, for editors without
+ * access to the shared workspace:
+ *
+ *   PATCH /api/sessions/{id}/files
+ *   { "files": [{ "path": "guides/intro.mdx", "content": "..." }, { "path": "old.mdx", "deleted": true }] }
+ *
+ * The files are written all-or-nothing, then only the pages whose output
+ * changed are regenerated and compiled. Each file's result lists its pages
+ * and their compile errors.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> },
+) {
+  const { sessionId } = await params;
+  if (!authorizeApiRequest(request, sessionId, 'sync')) return unauthorizedResponse();
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: 'Expected a JSON body.' }, { status: 400 });
+  }
+  const parsed = parseSessionFileChanges(body);
+  if ('error' in parsed) {
+    return Response.json({ error: parsed.error }, { status: 400 });
+  }
+
+  console.log(`[PREVIEW:files] START session=${sessionId} files=${parsed.changes.length}`);
+
+  let result: Awaited<ReturnType<typeof applySessionFiles>>;
+  try {
+    result = await applySessionFiles(sessionId, parsed.changes);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`[PREVIEW:files] FAILED session=${sessionId}:`, message);
+    return Response.json(
+      { status: 'error', error: `No files were changed: ${message}` },
+      { status: 500 },
+    );
+  }
+
+  // Over quota: the batch was undone, the session keeps serving its previous content
+  if (result.quotaError) {
+    console.error(`[PREVIEW:files] Over quota session=${sessionId}:`, result.quotaError);
+    return Response.json({ status: 'error', error: `No files were changed: ${result.quotaError}` }, { status: 413 });
+  }
+  touchSession(sessionId);
+
+  invalidateSessionSource(sessionId);
+
+  // Compile the changed pages now, so the caller gets MDX errors per file
+  const errors: CompileError[] = [];
+  for (const { page, source } of result.changedPages) {
+    try {
+      await compileSessionPage(sessionId, page);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[PREVIEW:files] Compile failed session=${sessionId} page=${page}:`, message);
+      errors.push({ page, file: source, message });
+    }
+  }
+
+  const firstError = result.configError
+    ? { file: 'docs.json', message: result.configError }
+    : errors[0] && { file: errors[0].file ?? errors[0].page, message: errors[0].message };
+  publishSessionEvent(sessionId, firstError ? { type: 'error', ...firstError } : { type: 'updated' });
+  console.log(`[PREVIEW:files] DONE session=${sessionId} changed=${result.changedPages.length} removed=${result.removedPages.length} errors=${errors.length}`);
+
+  return Response.json({
+    status: errors.length > 0 || result.configError ? 'error' : 'synced',
+    files: result.files.map((file) => ({
+      ...file,
+      errors: errors
+        .filter((error) => file.pages.includes(error.page))
+        .map(({ page, message }) => ({ page, message })),
+    })),
+    changedPages: result.changedPages.map((entry) => entry.page),
+    removedPages: result.removedPages,
+    // Every compile error, including pages changed by a docs.json or spec edit rather than their own file
+    errors,
+    ...(result.configError ? { configError: result.configError } : {}),
+  });
+}
@@ -1,15 +1,16 @@
 import { NextRequest } from 'next/server';
 import { generateSessionContent } from '@/lib/preview-content';
+import { touchSession } from '@/lib/preview-sessions';
 import { invalidateSessionSource } from '@/lib/preview-source';
-import { verifyApiSecret, unauthorizedResponse } from '@/lib/preview-auth';
+import { publishSessionEvent } from '@/lib/preview-events';
+import { authorizeApiRequest, unauthorizedResponse } from '@/lib/preview-auth';
 
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ sessionId: string }> },
 ) {
-  if (!verifyApiSecret(request)) return unauthorizedResponse();
-
   const { sessionId } = await params;
+  if (!authorizeApiRequest(request, sessionId, 'sync')) return unauthorizedResponse();
 
   console.log(`[PREVIEW:init] START session=${sessionId}`);
 
@@ -17,9 +18,17 @@ export async function POST(
     const result = generateSessionContent(sessionId);
     console.log(`[PREVIEW:init] generateSessionContent result:`, JSON.stringify(result));
 
+    // Over quota: nothing was written, the session keeps serving its previous content
+    if (result.quotaError) {
+      console.error(`[PREVIEW:init] Over quota session=${sessionId}:`, result.quotaError);
+      return Response.json({ status: 'error', error: result.quotaError }, { status: 413 });
+    }
+    touchSession(sessionId);
+
     // Invalidate the cached dynamic source so the next page request
     // re-scans the content directory and picks up the new files.
     invalidateSessionSource(sessionId);
+    publishSessionEvent(sessionId, { type: 'updated' });
     console.log(`[PREVIEW:init] DONE session=${sessionId}`);
 
     return Response.json({
@@ -31,6 +40,7 @@ export async function POST(
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Unknown error';
     console.error(`[PREVIEW:init] FAILED session=${sessionId}:`, message);
+    publishSessionEvent(sessionId, { type: 'error', message });
     return Response.json(
       { status: 'error', error: message },
       { status: 500 },
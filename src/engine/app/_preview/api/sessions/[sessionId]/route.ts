@@ -1,18 +1,19 @@
 import { NextRequest } from 'next/server';
-import { removeSessionContent } from '@/lib/preview-content';
+import { removeSession } from '@/lib/preview-sessions';
+import { removeSessionComments } from '@/lib/preview-comments';
 import { clearSessionCache } from '@/lib/preview-config';
-import { verifyApiSecret, unauthorizedResponse } from '@/lib/preview-auth';
+import { authorizeApiRequest, unauthorizedResponse } from '@/lib/preview-auth';
 
 export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ sessionId: string }> },
 ) {
-  if (!verifyApiSecret(request)) return unauthorizedResponse();
-
   const { sessionId } = await params;
+  if (!authorizeApiRequest(request, sessionId, 'delete')) return unauthorizedResponse();
 
   try {
-    removeSessionContent(sessionId);
+    removeSession(sessionId);
+    removeSessionComments(sessionId);
     clearSessionCache(sessionId);
     return Response.json({ status: 'removed', sessionId });
   } catch (error) {
@@ -0,0 +1,64 @@
+import { NextRequest } from 'next/server';
+import {
+  authorizedUntil,
+  createPreviewToken,
+  getPreviewSecret,
+  MAX_TOKEN_TTL_SECONDS,
+  unauthorizedResponse,
+} from '@/lib/preview-auth';
+
+const DEFAULT_SHARE_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+/**
+ * Create a share link for reviewers without editor credentials:
+ *
+ *   POST /api/sessions/{id}/share
+ *   { "ttlSeconds": 604800, "page": "/guides/intro" }
+ *
+ * The link carries a `read`-only token; the preview proxy exchanges it for a
+ * session cookie on first visit. Reviewers can read and comment, not sync
+ * or delete. A link made with a token expires no later than that token.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> },
+) {
+  const { sessionId } = await params;
+  const authorizedExpiry = authorizedUntil(request, sessionId, 'sync');
+  if (authorizedExpiry === null) return unauthorizedResponse();
+
+  let parsed: unknown = {};
+  try {
+    const text = await request.text();
+    if (text.trim()) parsed = JSON.parse(text);
+  } catch {
+    return Response.json({ error: 'Expected a JSON body.' }, { status: 400 });
+  }
+  const body = typeof parsed === 'object' && parsed !== null ? parsed as Record<string, unknown> : {};
+
+  const ttlSeconds = body.ttlSeconds ?? DEFAULT_SHARE_TTL_SECONDS;
+  if (typeof ttlSeconds !== 'number' || !Number.isInteger(ttlSeconds) || ttlSeconds <= 0 || ttlSeconds > MAX_TOKEN_TTL_SECONDS) {
+    return Response.json(
+      { error: `"ttlSeconds" must be a whole number from 1 to ${MAX_TOKEN_TTL_SECONDS}.` },
+      { status: 400 },
+    );
+  }
+  const page = body.page ?? '/';
+  if (typeof page !== 'string' || !page.startsWith('/') || page.includes('..')) {
+    return Response.json({ error: '"page" must be a path starting with /.' }, { status: 400 });
+  }
+
+  const expiry = Math.min(Math.floor(Date.now() / 1000) + ttlSeconds, authorizedExpiry);
+  const pagePath = `/${sessionId}${page === '/' ? '/' : page.replace(/\/?$/, '/')}`;
+  // Without a secret, previews are open and the link needs no token
+  const token = getPreviewSecret() ? createPreviewToken(sessionId, ['read'], expiry) : null;
+  const path = token ? `${pagePath}?token=${encodeURIComponent(token)}` : pagePath;
+
+  console.log(`[PREVIEW:share] session=${sessionId} expires=${expiry}`);
+
+  return Response.json({
+    url: new URL(path, request.nextUrl.origin).toString(),
+    path,
+    expiresAt: expiry,
+  });
+}
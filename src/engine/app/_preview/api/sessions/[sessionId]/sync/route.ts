@@ -1,15 +1,16 @@
 import { NextRequest } from 'next/server';
 import { syncSessionFile } from '@/lib/preview-content';
-import { invalidateSessionSource } from '@/lib/preview-source';
-import { verifyApiSecret, unauthorizedResponse } from '@/lib/preview-auth';
+import { touchSession } from '@/lib/preview-sessions';
+import { compileSessionPage, invalidateSessionSource } from '@/lib/preview-source';
+import { publishSessionEvent } from '@/lib/preview-events';
+import { authorizeApiRequest, unauthorizedResponse } from '@/lib/preview-auth';
 
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ sessionId: string }> },
 ) {
-  if (!verifyApiSecret(request)) return unauthorizedResponse();
-
   const { sessionId } = await params;
+  if (!authorizeApiRequest(request, sessionId, 'sync')) return unauthorizedResponse();
   const file = request.nextUrl.searchParams.get('file');
 
   console.log(`[PREVIEW:sync] START session=${sessionId} file=${file}`);
@@ -25,8 +26,29 @@ export async function POST(
     const result = syncSessionFile(sessionId, file);
     console.log(`[PREVIEW:sync] syncSessionFile result:`, JSON.stringify(result));
 
+    // Over quota: nothing was written, the session keeps serving its previous content
+    if (result.quotaError) {
+      console.error(`[PREVIEW:sync] Over quota session=${sessionId}:`, result.quotaError);
+      return Response.json({ status: 'error', error: result.quotaError }, { status: 413 });
+    }
+    touchSession(sessionId);
+
     // Invalidate cached source so next page request re-scans content
     invalidateSessionSource(sessionId);
+
+    // Compile the page now, so open previews get the error instead of a failed refresh
+    let compileError: string | undefined;
+    if (result.page) {
+      try {
+        await compileSessionPage(sessionId, result.page);
+      } catch (error) {
+        compileError = error instanceof Error ? error.message : String(error);
+        console.error(`[PREVIEW:sync] Compile failed session=${sessionId} file=${file}:`, compileError);
+      }
+    }
+    publishSessionEvent(sessionId, compileError
+      ? { type: 'error', file, message: compileError }
+      : { type: 'updated', file });
     console.log(`[PREVIEW:sync] DONE session=${sessionId} file=${file}`);
 
     return Response.json({
@@ -37,6 +59,7 @@ export async function POST(
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Unknown error';
     console.error(`[PREVIEW:sync] FAILED session=${sessionId} file=${file}:`, message);
+    publishSessionEvent(sessionId, { type: 'error', file, message });
     return Response.json(
       { status: 'error', error: message },
       { status: 500 },
@@ -0,0 +1,83 @@
+import { NextRequest } from 'next/server';
+import {
+  createPreviewToken,
+  getPreviewSecret,
+  MAX_TOKEN_TTL_SECONDS,
+  PREVIEW_SCOPES,
+  signAssetUrl,
+  verifyApiSecret,
+  unauthorizedResponse,
+  type PreviewScope,
+} from '@/lib/preview-auth';
+
+const DEFAULT_TTL_SECONDS = 60 * 60;
+
+interface TokenRequest {
+  scopes: PreviewScope[];
+  ttlSeconds: number;
+  assets: string[];
+}
+
+function parseTokenRequest(body: unknown): { value: TokenRequest } | { error: string } {
+  const record = typeof body === 'object' && body !== null ? body as Record<string, unknown> : {};
+
+  const scopes = record.scopes ?? ['read'];
+  if (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every((scope) => PREVIEW_SCOPES.includes(scope))) {
+    return { error: `"scopes" must be a non-empty array of ${PREVIEW_SCOPES.join(', ')}.` };
+  }
+
+  const ttlSeconds = record.ttlSeconds ?? DEFAULT_TTL_SECONDS;
+  if (typeof ttlSeconds !== 'number' || !Number.isInteger(ttlSeconds) || ttlSeconds <= 0 || ttlSeconds > MAX_TOKEN_TTL_SECONDS) {
+    return { error: `"ttlSeconds" must be a whole number from 1 to ${MAX_TOKEN_TTL_SECONDS}.` };
+  }
+
+  const assets = record.assets ?? [];
+  if (!Array.isArray(assets) || !assets.every((asset) => typeof asset === 'string' && asset && !asset.includes('..'))) {
+    return { error: '"assets" must be an array of workspace paths.' };
+  }
+
+  return { value: { scopes: [...new Set(scopes as PreviewScope[])], ttlSeconds, assets } };
+}
+
+/**
+ * Issue a token scoped to this session, and optionally signed URLs for
+ * workspace assets. Only callers holding a secret can issue tokens.
+ *
+ *   POST /api/sessions/{id}/tokens
+ *   { "scopes": ["read", "sync"], "ttlSeconds": 3600, "assets": ["images/logo.png"] }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> },
+) {
+  if (!verifyApiSecret(request)) return unauthorizedResponse();
+  if (!getPreviewSecret()) {
+    return Response.json({ error: 'PREVIEW_API_SECRET is not set, so tokens cannot be signed.' }, { status: 400 });
+  }
+
+  const { sessionId } = await params;
+
+  let body: unknown = {};
+  try {
+    const text = await request.text();
+    if (text.trim()) body = JSON.parse(text);
+  } catch {
+    return Response.json({ error: 'Expected a JSON body.' }, { status: 400 });
+  }
+  const parsed = parseTokenRequest(body);
+  if ('error' in parsed) {
+    return Response.json({ error: parsed.error }, { status: 400 });
+  }
+
+  const { scopes, ttlSeconds, assets } = parsed.value;
+  const expiry = Math.floor(Date.now() / 1000) + ttlSeconds;
+
+  return Response.json({
+    token: createPreviewToken(sessionId, scopes, expiry),
+    scopes,
+    expiresAt: expiry,
+    ...(assets.length > 0
+      ? { assetUrls: Object.fromEntries(assets.map((asset) => [asset, signAssetUrl(sessionId, asset, expiry)])) }
+      : {}),
+  });
+}
@@ -0,0 +1,34 @@
+import { NextRequest } from 'next/server';
+import { expireIdleSessions, getSessionLimits, listSessions } from '@/lib/preview-sessions';
+import { verifyApiSecret, unauthorizedResponse } from '@/lib/preview-auth';
+
+/**
+ * List the preview sessions with generated content: size, page count, last
+ * access and last error, plus the configured TTL and quotas. Idle sessions
+ * are expired first, so the listing never shows a session past its TTL.
+ */
+export async function GET(request: NextRequest) {
+  if (!verifyApiSecret(request)) return unauthorizedResponse();
+
+  try {
+    const expired = expireIdleSessions();
+    const sessions = listSessions();
+    return Response.json({
+      sessions,
+      totals: {
+        sessions: sessions.length,
+        pages: sessions.reduce((sum, session) => sum + session.pageCount, 0),
+        bytes: sessions.reduce((sum, session) => sum + session.bytes, 0),
+      },
+      limits: getSessionLimits(),
+      expired,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[PREVIEW:sessions] Listing failed:', message);
+    return Response.json(
+      { status: 'error', error: message },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,134 @@
+import {
+  buildAssistantContext,
+  parseAssistantMessages,
+  requestChatCompletion,
+  type AssistantCitation,
+} from '@/lib/assistant';
+import { collectLlmsPages, getSiteTitle } from '@/lib/llms';
+import { getAssistantConfig, withBasePath } from '@/lib/velu';
+
+export const dynamic = 'force-dynamic';
+
+const CORS_HEADERS = {
+  'access-control-allow-origin': '*',
+  'access-control-allow-methods': 'POST, OPTIONS',
+  'access-control-allow-headers': 'content-type, authorization',
+};
+
+const JSON_HEADERS = {
+  ...CORS_HEADERS,
+  'content-type': 'application/json; charset=utf-8',
+  'cache-control': 'no-store',
+};
+
+const encoder = new TextEncoder();
+
+function sseChunk(value: unknown): Uint8Array {
+  return encoder.encode(`data: ${JSON.stringify(value)}\n\n`);
+}
+
+/**
+ * An OpenAI chat completion stream with the sources in a leading chunk's
+ * `citations`, followed by the model's own chunks as they arrive.
+ */
+function streamWithCitations(upstream: Response, citations: AssistantCitation[]): ReadableStream<Uint8Array> {
+  const head = sseChunk({
+    object: 'chat.completion.chunk',
+    choices: [{ index: 0, delta: { role: 'assistant' }, finish_reason: null }],
+    citations,
+  });
+
+  // Servers that ignore `stream` answer with one JSON completion.
+  if (!upstream.headers.get('content-type')?.includes('text/event-stream')) {
+    return new ReadableStream({
+      async start(controller) {
+        controller.enqueue(head);
+        try {
+          const completion = await upstream.json() as { choices?: Array<{ message?: { content?: string } }> };
+          const content = completion.choices?.[0]?.message?.content ?? '';
+          controller.enqueue(sseChunk({ object: 'chat.completion.chunk', choices: [{ index: 0, delta: { content }, finish_reason: 'stop' }] }));
+        } catch {
+          // an empty answer is still a finished one
+        }
+        controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+        controller.close();
+      },
+    });
+  }
+
+  const reader = upstream.body!.getReader();
+  return new ReadableStream({
+    start(controller) {
+      controller.enqueue(head);
+    },
+    async pull(controller) {
+      const { done, value } = await reader.read();
+      if (done) controller.close();
+      else controller.enqueue(value);
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+}
+
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: 'Expected a JSON body.' }, { status: 400, headers: JSON_HEADERS });
+  }
+
+  const parsed = parseAssistantMessages(body);
+  if ('error' in parsed) {
+    return Response.json({ error: parsed.error }, { status: 400, headers: JSON_HEADERS });
+  }
+
+  const { model } = getAssistantConfig();
+  const question = parsed.messages[parsed.messages.length - 1].content;
+  const pages = await collectLlmsPages({ includeMarkdown: true });
+  const context = buildAssistantContext(pages, question, {
+    siteName: getSiteTitle(),
+    maxSources: model.maxSources,
+    toUrl: (path) => withBasePath(path),
+  });
+  const stream = (body as { stream?: unknown }).stream === true;
+
+  let upstream: Response;
+  try {
+    upstream = await requestChatCompletion(model, context, parsed.messages, stream);
+  } catch (error) {
+    console.error('[velu] Assistant request failed:', error instanceof Error ? error.message : error);
+    return Response.json({ error: 'The assistant is not available right now.' }, { status: 502, headers: JSON_HEADERS });
+  }
+
+  if (stream) {
+    return new Response(streamWithCitations(upstream, context.citations), {
+      headers: {
+        ...CORS_HEADERS,
+        'content-type': 'text/event-stream; charset=utf-8',
+        'cache-control': 'no-store',
+      },
+    });
+  }
+
+  let completion: Record<string, unknown>;
+  try {
+    completion = await upstream.json() as Record<string, unknown>;
+  } catch {
+    return Response.json({ error: 'The model sent an invalid response.' }, { status: 502, headers: JSON_HEADERS });
+  }
+  return Response.json({ ...completion, citations: context.citations }, { headers: JSON_HEADERS });
+}
+
+export function OPTIONS() {
+  return new Response(null, { status: 204, headers: CORS_HEADERS });
+}
+
+export function GET() {
+  return new Response('Method Not Allowed', {
+    status: 405,
+    headers: { allow: 'POST, OPTIONS', 'content-type': 'text/plain; charset=utf-8' },
+  });
+}
@@ -0,0 +1,58 @@
+import { createFeedbackSink, DEFAULT_FEEDBACK_FILE, parseFeedbackSubmission } from '@/lib/feedback';
+import { getBasePath, getFeedbackConfig } from '@/lib/velu';
+
+export const dynamic = 'force-dynamic';
+
+// Static sites on another host can post here, so the route answers CORS
+// preflights. The widget sends no credentials to custom endpoints.
+const CORS_HEADERS = {
+  'access-control-allow-origin': '*',
+  'access-control-allow-methods': 'POST, OPTIONS',
+  'access-control-allow-headers': 'content-type, x-velu-site-host',
+};
+
+const JSON_HEADERS = {
+  ...CORS_HEADERS,
+  'content-type': 'application/json; charset=utf-8',
+  'cache-control': 'no-store',
+};
+
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: 'Expected a JSON body.' }, { status: 400, headers: JSON_HEADERS });
+  }
+
+  const parsed = parseFeedbackSubmission(body, {
+    basePath: getBasePath(),
+    siteHost: request.headers.get('x-velu-site-host') ?? undefined,
+  });
+  if ('error' in parsed) {
+    return Response.json({ error: parsed.error }, { status: 400, headers: JSON_HEADERS });
+  }
+
+  // Without a `feedback` block (e.g. the preview server) entries go to the default JSONL file.
+  const sinkConfig = getFeedbackConfig()?.sink ?? { type: 'jsonl' as const, path: DEFAULT_FEEDBACK_FILE };
+  const docsDir = process.env.VELU_DOCS_DIR?.trim() || process.cwd();
+  try {
+    await createFeedbackSink(sinkConfig, docsDir).write(parsed.entry);
+  } catch (error) {
+    console.error('[velu] Failed to store feedback:', error instanceof Error ? error.message : error);
+    return Response.json({ error: 'Feedback could not be stored.' }, { status: 500, headers: JSON_HEADERS });
+  }
+
+  return new Response(null, { status: 204, headers: CORS_HEADERS });
+}
+
+export function OPTIONS() {
+  return new Response(null, { status: 204, headers: CORS_HEADERS });
+}
+
+export function GET() {
+  return new Response('Method Not Allowed', {
+    status: 405,
+    headers: { allow: 'POST, OPTIONS', 'content-type': 'text/plain; charset=utf-8' },
+  });
+}
@@ -0,0 +1,37 @@
+import { handleMcpPayload, mcpParseErrorResponse } from '@/lib/mcp';
+import { resolveRequestOrigin } from '@/lib/llms';
+import { getBasePath } from '@/lib/velu';
+
+export const dynamic = 'force-dynamic';
+
+const JSON_HEADERS = {
+  'content-type': 'application/json; charset=utf-8',
+  'cache-control': 'no-store',
+};
+
+// Streamable HTTP transport: every request is a JSON-RPC POST answered with a
+// single JSON body. The server never initiates messages, so GET (server-sent
+// stream) is not offered.
+export async function POST(request: Request) {
+  let payload: unknown;
+  try {
+    payload = await request.json();
+  } catch {
+    return Response.json(mcpParseErrorResponse(), { status: 400, headers: JSON_HEADERS });
+  }
+
+  const response = await handleMcpPayload(payload, { origin: `${resolveRequestOrigin(request)}${getBasePath()}` });
+  if (response === null) {
+    return new Response(null, { status: 202 });
+  }
+  return Response.json(response, { status: 200, headers: JSON_HEADERS });
+}
+
+export function GET() {
+  return new Response('Method Not Allowed', {
+    status: 405,
+    headers: { allow: 'POST', 'content-type': 'text/plain; charset=utf-8' },
+  });
+}
+
+export const DELETE = GET;
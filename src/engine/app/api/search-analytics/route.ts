@@ -0,0 +1,59 @@
+import { appendSearchEvent, parseSearchEvent, resolveSearchAnalyticsFile } from '@/lib/search-analytics';
+import { getSearchAnalyticsConfig } from '@/lib/velu';
+
+export const dynamic = 'force-dynamic';
+
+// The dialog sends events with `navigator.sendBeacon` as text/plain, which
+// needs no preflight, so the body is parsed as JSON whatever its type.
+const CORS_HEADERS = {
+  'access-control-allow-origin': '*',
+  'access-control-allow-methods': 'POST, OPTIONS',
+  'access-control-allow-headers': 'content-type',
+};
+
+const JSON_HEADERS = {
+  ...CORS_HEADERS,
+  'content-type': 'application/json; charset=utf-8',
+  'cache-control': 'no-store',
+};
+
+export async function POST(request: Request) {
+  // Off unless docs.json turns on `search.analytics`: nothing is stored
+  const config = getSearchAnalyticsConfig();
+  if (!config) {
+    return Response.json({ error: 'Search analytics is not enabled.' }, { status: 404, headers: JSON_HEADERS });
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(await request.text());
+  } catch {
+    return Response.json({ error: 'Expected a JSON body.' }, { status: 400, headers: JSON_HEADERS });
+  }
+
+  const parsed = parseSearchEvent(body);
+  if ('error' in parsed) {
+    return Response.json({ error: parsed.error }, { status: 400, headers: JSON_HEADERS });
+  }
+
+  const docsDir = process.env.VELU_DOCS_DIR?.trim() || process.cwd();
+  try {
+    await appendSearchEvent(resolveSearchAnalyticsFile(config, docsDir), parsed.event);
+  } catch (error) {
+    console.error('[velu] Failed to store search event:', error instanceof Error ? error.message : error);
+    return Response.json({ error: 'Search event could not be stored.' }, { status: 500, headers: JSON_HEADERS });
+  }
+
+  return new Response(null, { status: 204, headers: CORS_HEADERS });
+}
+
+export function OPTIONS() {
+  return new Response(null, { status: 204, headers: CORS_HEADERS });
+}
+
+export function GET() {
+  return new Response('Method Not Allowed', {
+    status: 405,
+    headers: { allow: 'POST, OPTIONS', 'content-type': 'text/plain; charset=utf-8' },
+  });
+}
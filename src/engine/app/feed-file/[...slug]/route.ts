@@ -0,0 +1,62 @@
+import {
+  CHANGELOG_FEED_FILES,
+  CHANGELOG_FEED_TYPES,
+  feedFormatForFile,
+} from '@/lib/changelog';
+import { listFeedSources, loadPageFeed, loadSiteFeed, loadTagFeed, renderFeed } from '@/lib/feeds';
+import { getLanguages } from '@/lib/velu';
+
+interface RouteParams {
+  slug?: string[];
+}
+
+export const dynamic = 'force-static';
+
+function notFound(): Response {
+  return new Response('Not Found', {
+    status: 404,
+    headers: { 'content-type': 'text/plain; charset=utf-8' },
+  });
+}
+
+// `/changelog/rss.xml` is served as `/feed-file/changelog/rss.xml`: the last
+// segment picks the format, the rest is the page. Without a page (`/rss.xml`,
+// or `/fr/rss.xml` with i18n) the feed merges every changelog page, and
+// `/changelog/tags/api/rss.xml` only has the page's updates tagged `api`.
+export async function generateStaticParams() {
+  const { pagePaths, tagPaths, locales } = await listFeedSources();
+  const languages = getLanguages();
+  const defaultLanguage = languages[0] ?? 'en';
+  const files = Object.values(CHANGELOG_FEED_FILES);
+  const feedRoots = [
+    ...[...pagePaths, ...tagPaths].map((path) => path.split('/').filter(Boolean)),
+    ...locales.map((locale) => (locale === defaultLanguage ? [] : [locale])),
+  ];
+
+  return feedRoots.flatMap((root) => files.map((file) => ({ slug: [...root, file] })));
+}
+
+export async function GET(_request: Request, { params }: { params: Promise<RouteParams> }) {
+  const resolvedParams = await params;
+  const slug = resolvedParams.slug ?? [];
+  const format = feedFormatForFile(slug[slug.length - 1] ?? '');
+  if (!format) return notFound();
+
+  const pageSlug = slug.slice(0, -1);
+  const languages = getLanguages();
+  const isSiteFeed = pageSlug.length === 0 || (languages.length > 1 && pageSlug.length === 1 && languages.includes(pageSlug[0]));
+  const isTagFeed = pageSlug.length > 2 && pageSlug[pageSlug.length - 2] === 'tags';
+  const feed = isSiteFeed
+    ? await loadSiteFeed(pageSlug[0] ?? languages[0] ?? 'en')
+    : (await loadPageFeed(pageSlug.join('/')))
+      ?? (isTagFeed ? await loadTagFeed(pageSlug.slice(0, -2).join('/'), pageSlug[pageSlug.length - 1]) : null);
+  if (!feed) return notFound();
+
+  return new Response(renderFeed(feed, format), {
+    status: 200,
+    headers: {
+      'content-type': `${CHANGELOG_FEED_TYPES[format]}; charset=utf-8`,
+      'cache-control': 'public, max-age=300',
+    },
+  });
+}
@@ -1,6 +1,6 @@
 import type { Metadata } from 'next';
 import type { ReactNode } from 'react';
-import { getAppearance, getBannerConfig, getCliVersion, getFontsConfig, getSeoConfig, getSiteDescription, getSiteFavicon, getSiteName, getSiteOrigin, getSitePrimaryColor } from '@/lib/velu';
+import { getAppearance, getAssistantClientConfig, getBannerConfig, getCliVersion, getFontsConfig, getSearchAnalyticsEndpoint, getSearchSynonyms, getSeoConfig, getSiteDescription, getSiteFavicon, getSiteName, getSitePrimaryColor, getSiteUrl, withBasePath } from '@/lib/velu';
 import { Providers } from '@/components/providers';
 import { VeluAssistant } from '@/components/assistant';
 import { VeluBanner } from '@/components/banner';
@@ -20,9 +20,10 @@ function toAbsoluteUrl(origin: string, value: string): string {
 
 const siteName = getSiteName();
 const siteDescription = getSiteDescription();
-const siteOrigin = getSiteOrigin();
+const siteOrigin = getSiteUrl();
 const seo = getSeoConfig();
-const favicon = getSiteFavicon();
+const siteFavicon = getSiteFavicon();
+const favicon = siteFavicon ? withBasePath(siteFavicon) : undefined;
 const primaryColor = getSitePrimaryColor();
 const bannerConfig = getBannerConfig();
 const fontsConfig = getFontsConfig();
@@ -97,10 +98,10 @@ export default function RootLayout({ children }: { children: ReactNode }) {
         })()}
       </head>
       <body className="min-h-screen" suppressHydrationWarning>
-        <Providers theme={theme}>
+        <Providers theme={theme} searchAnalyticsEndpoint={getSearchAnalyticsEndpoint()} searchSynonyms={getSearchSynonyms()}>
           {bannerConfig && <VeluBanner content={bannerConfig.content} dismissible={bannerConfig.dismissible} />}
           {children}
-          <VeluAssistant />
+          <VeluAssistant {...getAssistantClientConfig()} />
         </Providers>
       </body>
     </html>
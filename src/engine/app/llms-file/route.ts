@@ -4,7 +4,7 @@ import {
   normalizePath,
   readCustomLlmsFile,
 } from '@/lib/llms';
-import { getSiteOrigin } from '@/lib/velu';
+import { getSiteUrl } from '@/lib/velu';
 
 export const dynamic = 'force-static';
 
@@ -18,10 +18,10 @@ function toMarkdownPath(path: string): string {
   return `${normalized}.md`;
 }
 
-function toSpecUrl(origin: string, spec: string): string {
+function toSpecUrl(siteUrl: string, spec: string): string {
   const trimmed = spec.trim();
   if (/^https?:\/\//i.test(trimmed)) return trimmed;
-  return `${origin}${normalizePath(trimmed)}`;
+  return `${siteUrl}${normalizePath(trimmed)}`;
 }
 
 export async function GET() {
@@ -38,7 +38,7 @@ export async function GET() {
   }
 
   const siteTitle = getSiteTitle();
-  const origin = getSiteOrigin();
+  const siteUrl = getSiteUrl();
   const pages = await collectLlmsPages();
   const docsPages = pages.filter((page) => !page.noindex && !(page.sourceKind === 'generated' && page.isOpenApiOperation));
   const openApiSpecs = Array.from(
@@ -56,7 +56,7 @@ export async function GET() {
   lines.push('## Docs');
   lines.push('');
   for (const page of docsPages) {
-    const url = `${origin}${toMarkdownPath(page.path)}`;
+    const url = `${siteUrl}${toMarkdownPath(page.path)}`;
     const description = page.description ? cleanInlineText(page.description) : '';
     if (description) {
       lines.push(`- [${page.title}](${url}): ${description}`);
@@ -69,7 +69,7 @@ export async function GET() {
     lines.push('## OpenAPI Specs');
     lines.push('');
     for (const spec of openApiSpecs) {
-      const url = toSpecUrl(origin, spec);
+      const url = toSpecUrl(siteUrl, spec);
       lines.push(`- [${spec}](${url})`);
     }
   }
@@ -4,7 +4,7 @@ import {
   normalizePath,
   readCustomLlmsFile,
 } from '@/lib/llms';
-import { getSiteOrigin } from '@/lib/velu';
+import { getSiteUrl } from '@/lib/velu';
 
 export const dynamic = 'force-static';
 
@@ -22,7 +22,7 @@ export async function GET() {
   }
 
   const siteTitle = getSiteTitle();
-  const origin = getSiteOrigin();
+  const siteUrl = getSiteUrl();
   const pages = await collectLlmsPages({ includeMarkdown: true });
   const includedPages = pages.filter((page) => {
     if (page.noindex) return false;
@@ -37,7 +37,7 @@ export async function GET() {
   lines.push('');
 
   for (const page of includedPages) {
-    const url = `${origin}${normalizePath(page.path)}`;
+    const url = `${siteUrl}${normalizePath(page.path)}`;
     lines.push(`## ${page.title}`);
     lines.push('');
     lines.push(`Source: ${url}`);
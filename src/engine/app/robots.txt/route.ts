@@ -1,7 +1,7 @@
 import { existsSync } from 'node:fs';
 import { readFile } from 'node:fs/promises';
 import { join } from 'node:path';
-import { getSeoConfig, getSiteOrigin } from '@/lib/velu';
+import { getBasePath, getSeoConfig, getSiteUrl } from '@/lib/velu';
 
 export const dynamic = 'force-static';
 
@@ -45,13 +45,13 @@ export async function GET(): Promise<Response> {
   }
 
   const seo = getSeoConfig();
-  const origin = getSiteOrigin();
+  const basePath = getBasePath();
   const robotsTag = (seo.metatags.robots ?? '').toLowerCase();
   const blockAll = robotsTag.includes('noindex') || robotsTag.includes('none');
   const lines = [
     'User-agent: *',
-    blockAll ? 'Disallow: /' : 'Allow: /',
-    `Sitemap: ${origin}/sitemap.xml`,
+    blockAll ? `Disallow: ${basePath}/` : `Allow: ${basePath}/`,
+    `Sitemap: ${getSiteUrl()}/sitemap.xml`,
     '',
   ];
 
@@ -2,7 +2,7 @@ import { existsSync } from 'node:fs';
 import { readFile } from 'node:fs/promises';
 import { join } from 'node:path';
 import { collectLlmsPages, normalizePath } from '@/lib/llms';
-import { getSeoConfig, getSiteOrigin } from '@/lib/velu';
+import { getSeoConfig, getSiteUrl } from '@/lib/velu';
 
 export const dynamic = 'force-static';
 
@@ -55,14 +55,14 @@ export async function GET(): Promise<Response> {
   }
 
   const seo = getSeoConfig();
-  const origin = getSiteOrigin();
+  const siteUrl = getSiteUrl();
   const pages = await collectLlmsPages({ indexing: seo.indexing });
   const now = new Date().toISOString();
 
   const urls = pages
     .filter((page) => !page.noindex)
     .map((page) => {
-      const loc = escapeXml(`${origin}${normalizePath(page.path)}`);
+      const loc = escapeXml(`${siteUrl}${normalizePath(page.path)}`);
       return `  <url><loc>${loc}</loc><lastmod>${now}</lastmod></url>`;
     });
 
@@ -0,0 +1,235 @@
+'use client';
+
+import { useCallback, useEffect, useState, type FormEvent } from 'react';
+import { usePathname } from 'next/navigation';
+
+interface CommentReply {
+  id: string;
+  author: string;
+  body: string;
+  createdAt: number;
+}
+
+interface CommentThread {
+  id: string;
+  page: string;
+  heading: string;
+  author: string;
+  body: string;
+  createdAt: number;
+  resolved: boolean;
+  resolvedBy?: string;
+  replies: CommentReply[];
+}
+
+interface PageHeading {
+  id: string;
+  text: string;
+}
+
+interface PreviewCommentsProps {
+  sessionId: string;
+}
+
+const AUTHOR_STORAGE_KEY = 'velu-preview-comment-author';
+const HEADING_SELECTOR = '#nd-page :is(h1, h2, h3, h4)[id]';
+
+function readPageHeadings(): PageHeading[] {
+  return Array.from(document.querySelectorAll<HTMLElement>(HEADING_SELECTOR)).map((element) => ({
+    id: element.id,
+    text: element.textContent?.trim() || element.id,
+  }));
+}
+
+/** The last heading scrolled past, so a new comment defaults to the section being read. */
+function currentHeadingId(headings: PageHeading[]): string {
+  let current = '';
+  for (const { id } of headings) {
+    const element = document.getElementById(id);
+    if (element && element.getBoundingClientRect().top <= 120) current = id;
+  }
+  return current;
+}
+
+/**
+ * Review comments for the current page, anchored to heading ids. Headings
+ * with open threads get a count marker; the panel lists the threads and
+ * lets reviewers reply and start new ones. Resolving takes a preview link
+ * with the `sync` scope, so it is hidden for read-only share links.
+ */
+export function PreviewComments({ sessionId }: PreviewCommentsProps) {
+  const pathname = usePathname();
+  const sessionPrefix = `/${sessionId}`;
+  const page = (pathname.startsWith(sessionPrefix) ? pathname.slice(sessionPrefix.length) : pathname).replace(/\/+$/, '') || '/';
+  const endpoint = `/${encodeURIComponent(sessionId)}/__comments`;
+
+  const [open, setOpen] = useState(false);
+  const [threads, setThreads] = useState<CommentThread[]>([]);
+  const [canResolve, setCanResolve] = useState(false);
+  const [headings, setHeadings] = useState<PageHeading[]>([]);
+  const [showResolved, setShowResolved] = useState(false);
+  const [author, setAuthor] = useState('');
+  const [heading, setHeading] = useState('');
+  const [draft, setDraft] = useState('');
+  const [replies, setReplies] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const response = await fetch(`${endpoint}?page=${encodeURIComponent(page)}`, { cache: 'no-store' });
+      if (!response.ok) return;
+      const data = await response.json() as { threads?: CommentThread[]; canResolve?: boolean };
+      setThreads(data.threads ?? []);
+      setCanResolve(data.canResolve === true);
+    } catch { /* offline: keep the last list */ }
+  }, [endpoint, page]);
+
+  useEffect(() => {
+    setAuthor(window.localStorage.getItem(AUTHOR_STORAGE_KEY) ?? '');
+  }, []);
+
+  useEffect(() => {
+    setHeadings(readPageHeadings());
+    void load();
+  }, [load]);
+
+  // Count markers on headings with open threads
+  useEffect(() => {
+    const counts = new Map<string, number>();
+    for (const thread of threads) {
+      if (!thread.resolved && thread.heading) counts.set(thread.heading, (counts.get(thread.heading) ?? 0) + 1);
+    }
+    const marked = Array.from(document.querySelectorAll<HTMLElement>(HEADING_SELECTOR));
+    for (const element of marked) {
+      const count = counts.get(element.id);
+      if (count) element.dataset.veluComments = String(count);
+      else delete element.dataset.veluComments;
+    }
+    return () => {
+      for (const element of marked) delete element.dataset.veluComments;
+    };
+  }, [threads]);
+
+  const send = async (method: 'POST' | 'PATCH', body: Record<string, unknown>) => {
+    setError(null);
+    try {
+      const response = await fetch(endpoint, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json() as { error?: string };
+      if (!response.ok) {
+        setError(data.error ?? 'Could not save the comment.');
+        return false;
+      }
+      await load();
+      return true;
+    } catch {
+      setError('Could not reach the preview server.');
+      return false;
+    }
+  };
+
+  const rememberAuthor = () => window.localStorage.setItem(AUTHOR_STORAGE_KEY, author.trim());
+
+  const onOpen = () => {
+    const current = readPageHeadings();
+    setHeadings(current);
+    setHeading(currentHeadingId(current));
+    setOpen(true);
+  };
+
+  const onSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    rememberAuthor();
+    if (await send('POST', { page, heading, author, body: draft })) setDraft('');
+  };
+
+  const onReply = async (event: FormEvent, threadId: string) => {
+    event.preventDefault();
+    rememberAuthor();
+    if (await send('POST', { threadId, author, body: replies[threadId] ?? '' })) {
+      setReplies((current) => ({ ...current, [threadId]: '' }));
+    }
+  };
+
+  const headingLabel = (id: string) => (id ? headings.find((entry) => entry.id === id)?.text ?? `#${id}` : 'Top of page');
+  const openCount = threads.filter((thread) => !thread.resolved).length;
+  const visible = threads.filter((thread) => showResolved || !thread.resolved);
+
+  if (!open) {
+    return (
+      <button type="button" className="velu-comments-toggle" onClick={onOpen}>
+        Comments{openCount > 0 ? <span className="velu-comments-count">{openCount}</span> : null}
+      </button>
+    );
+  }
+
+  return (
+    <aside className="velu-comments-panel" aria-label="Comments">
+      <div className="velu-comments-header">
+        <p className="velu-comments-title">Comments</p>
+        <label className="velu-comments-filter">
+          <input type="checkbox" checked={showResolved} onChange={(event) => setShowResolved(event.target.checked)} />
+          Show resolved
+        </label>
+        <button type="button" className="velu-comments-close" aria-label="Close comments" onClick={() => setOpen(false)}>
+          <svg viewBox="0 0 24 24" aria-hidden="true"><path d="M18 6 6 18M6 6l12 12" /></svg>
+        </button>
+      </div>
+
+      <div className="velu-comments-list">
+        {visible.length === 0 ? <p className="velu-comments-empty">No comments on this page yet.</p> : null}
+        {visible.map((thread) => (
+          <article key={thread.id} className="velu-comments-thread" data-resolved={thread.resolved || undefined}>
+            <a className="velu-comments-anchor" href={thread.heading ? `#${thread.heading}` : '#'}>
+              {headingLabel(thread.heading)}
+            </a>
+            {[thread, ...thread.replies].map((comment) => (
+              <div key={comment.id} className="velu-comments-comment">
+                <p className="velu-comments-meta">
+                  <strong>{comment.author}</strong> · {new Date(comment.createdAt).toLocaleString()}
+                </p>
+                <p className="velu-comments-body">{comment.body}</p>
+              </div>
+            ))}
+            {thread.resolved ? (
+              <p className="velu-comments-meta">Resolved{thread.resolvedBy ? ` by ${thread.resolvedBy}` : ''}</p>
+            ) : (
+              <form className="velu-comments-form" onSubmit={(event) => onReply(event, thread.id)}>
+                <textarea
+                  rows={2}
+                  placeholder="Reply"
+                  value={replies[thread.id] ?? ''}
+                  onChange={(event) => setReplies((current) => ({ ...current, [thread.id]: event.target.value }))}
+                />
+                <button type="submit" disabled={!author.trim() || !(replies[thread.id] ?? '').trim()}>Reply</button>
+              </form>
+            )}
+            {canResolve ? (
+              <button
+                type="button"
+                className="velu-comments-resolve"
+                onClick={() => send('PATCH', { threadId: thread.id, resolved: !thread.resolved, ...(author.trim() ? { author } : {}) })}
+              >
+                {thread.resolved ? 'Reopen' : 'Resolve'}
+              </button>
+            ) : null}
+          </article>
+        ))}
+      </div>
+
+      <form className="velu-comments-form velu-comments-new" onSubmit={onSubmit}>
+        <input placeholder="Your name" value={author} onChange={(event) => setAuthor(event.target.value)} />
+        <select value={heading} onChange={(event) => setHeading(event.target.value)} aria-label="Section">
+          <option value="">Top of page</option>
+          {headings.map((entry) => <option key={entry.id} value={entry.id}>{entry.text}</option>)}
+        </select>
+        <textarea rows={3} placeholder="Add a comment" value={draft} onChange={(event) => setDraft(event.target.value)} />
+        {error ? <p className="velu-comments-error">{error}</p> : null}
+        <button type="submit" disabled={!author.trim() || !draft.trim()}>Comment</button>
+      </form>
+    </aside>
+  );
+}
@@ -0,0 +1,70 @@
+'use client';
+
+import { useEffect, useRef, useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+
+interface PreviewError {
+  file?: string;
+  message: string;
+}
+
+interface PreviewLiveUpdatesProps {
+  sessionId: string;
+}
+
+/**
+ * Listens to the session's `__events` stream. On `updated` it refreshes the
+ * server-rendered page in place (no reload, scroll position kept); on
+ * `error` it shows the compile error over the page until the next update.
+ */
+export function PreviewLiveUpdates({ sessionId }: PreviewLiveUpdatesProps) {
+  const router = useRouter();
+  const [error, setError] = useState<PreviewError | null>(null);
+  const [isPending, startTransition] = useTransition();
+  const scrollRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    const source = new EventSource(`/${encodeURIComponent(sessionId)}/__events`);
+
+    source.addEventListener('updated', () => {
+      setError(null);
+      scrollRef.current = window.scrollY;
+      startTransition(() => router.refresh());
+    });
+    source.addEventListener('error', (event) => {
+      // The EventSource also fires a plain `error` event when the connection drops; it reconnects by itself.
+      if (!(event instanceof MessageEvent)) return;
+      try {
+        const data = JSON.parse(event.data) as Partial<PreviewError>;
+        setError({ file: data.file, message: typeof data.message === 'string' ? data.message : 'Unknown error' });
+      } catch { /* ignore malformed events */ }
+    });
+
+    return () => source.close();
+  }, [router, sessionId]);
+
+  useEffect(() => {
+    if (isPending || scrollRef.current === null) return;
+    window.scrollTo({ top: scrollRef.current });
+    scrollRef.current = null;
+  }, [isPending]);
+
+  if (!error) return null;
+
+  return (
+    <div className="velu-preview-error" role="alertdialog" aria-labelledby="velu-preview-error-title">
+      <div className="velu-preview-error-panel">
+        <div className="velu-preview-error-header">
+          <p id="velu-preview-error-title" className="velu-preview-error-title">
+            {error.file ? `Failed to compile ${error.file}` : 'Failed to build the preview'}
+          </p>
+          <button type="button" className="velu-preview-error-close" aria-label="Dismiss" onClick={() => setError(null)}>
+            <svg viewBox="0 0 24 24" aria-hidden="true"><path d="M18 6 6 18M6 6l12 12" /></svg>
+          </button>
+        </div>
+        <pre className="velu-preview-error-message">{error.message}</pre>
+        <p className="velu-preview-error-hint">The page updates when the file is fixed.</p>
+      </div>
+    </div>
+  );
+}
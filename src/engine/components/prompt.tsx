@@ -78,8 +78,8 @@ export function VeluPrompt({
           ) : null}
           {showCursor ? (
             <button type="button" className="velu-prompt-open" onClick={onCursor}>
-              <img src="/icons/cursor-dark.svg" alt="" aria-hidden="true" className="velu-prompt-open-icon velu-prompt-open-icon-on-light" />
-              <img src="/icons/cursor-light.svg" alt="" aria-hidden="true" className="velu-prompt-open-icon velu-prompt-open-icon-on-dark" />
+              <img src={`${process.env.VELU_BASE_PATH ?? ''}/icons/cursor-dark.svg`} alt="" aria-hidden="true" className="velu-prompt-open-icon velu-prompt-open-icon-on-light" />
+              <img src={`${process.env.VELU_BASE_PATH ?? ''}/icons/cursor-light.svg`} alt="" aria-hidden="true" className="velu-prompt-open-icon velu-prompt-open-icon-on-dark" />
               Open in Cursor
             </button>
           ) : null}
@@ -1,6 +1,6 @@
 'use client';
 
-import type { ReactNode } from 'react';
+import { useMemo, type ComponentProps, type ReactNode } from 'react';
 import { RootProvider } from 'fumadocs-ui/provider/next';
 import { PagefindSearch } from '@/components/search';
 
@@ -10,11 +10,23 @@ interface ProvidersProps {
     defaultTheme: string;
     enableSystem: boolean;
   };
+  /** Opt-in search telemetry endpoint (`search.analytics` in docs.json). */
+  searchAnalyticsEndpoint?: string;
+  /** `search.synonyms` from docs.json. */
+  searchSynonyms?: string[][];
 }
 
-export function Providers({ children, theme }: ProvidersProps) {
+export function Providers({ children, theme, searchAnalyticsEndpoint, searchSynonyms }: ProvidersProps) {
+  // RootProvider only forwards the default dialog's props, so the site's search settings are bound here.
+  const SearchDialog = useMemo(() => {
+    if (!searchAnalyticsEndpoint && !searchSynonyms?.length) return PagefindSearch;
+    return function ConfiguredSearch(props: ComponentProps<typeof PagefindSearch>) {
+      return <PagefindSearch {...props} analyticsEndpoint={searchAnalyticsEndpoint} synonyms={searchSynonyms} />;
+    };
+  }, [searchAnalyticsEndpoint, searchSynonyms]);
+
   return (
-    <RootProvider theme={theme} search={{ SearchDialog: PagefindSearch }}>
+    <RootProvider theme={theme} search={{ SearchDialog }}>
       {children}
     </RootProvider>
   );
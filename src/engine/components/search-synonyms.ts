@@ -0,0 +1,38 @@
+// Pagefind has no synonym support, so the dialog searches each variant of the
+// query from `search.synonyms` in docs.json and merges the results.
+
+const MAX_VARIANTS = 4;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** The query first, then each variant with one term swapped for a synonym. */
+export function expandSearchQuery(query: string, synonyms: string[][]): string[] {
+  const normalized = query.toLowerCase().replace(/\s+/g, ' ').trim();
+  const variants = new Set([query]);
+  for (const group of synonyms) {
+    for (const term of group) {
+      const pattern = new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(term)}(?=$|[^\\p{L}\\p{N}])`, 'u');
+      if (!pattern.test(normalized)) continue;
+      for (const synonym of group) {
+        if (synonym === term) continue;
+        variants.add(normalized.replace(pattern, (_, prefix: string) => `${prefix}${synonym}`));
+        if (variants.size > MAX_VARIANTS) return Array.from(variants);
+      }
+    }
+  }
+  return Array.from(variants);
+}
+
+/** One entry per page, at its best score across the variants. */
+export function mergeSearchResults<T extends { id: string; score: number }>(lists: T[][]): T[] {
+  const best = new Map<string, T>();
+  for (const list of lists) {
+    for (const result of list) {
+      const current = best.get(result.id);
+      if (!current || result.score > current.score) best.set(result.id, result);
+    }
+  }
+  return Array.from(best.values()).sort((a, b) => b.score - a.score);
+}
@@ -28,6 +28,47 @@ function withTrailingSlashPath(path: string): string {
   return `${path}/`;
 }
 
+interface TabMatch {
+  index: number;
+  /** The tab slug without its version prefix, e.g. `guides` for `v2/guides`. */
+  name: string;
+  /** Path segments after the tab. */
+  rest: string[];
+}
+
+function tabName(slug: string, version: VeluVersionOption): string {
+  const parts = slug.split('/').filter(Boolean);
+  return parts[0] === version.slug ? parts.slice(1).join('/') : parts.join('/');
+}
+
+/** The version tab a path is under, preferring the longest matching slug. */
+function matchTab(segments: string[], version: VeluVersionOption): TabMatch | null {
+  let best: TabMatch | null = null;
+  let bestLength = 0;
+  for (const [index, slug] of version.tabSlugs.entries()) {
+    const parts = slug.split('/').filter(Boolean);
+    if (parts.length <= bestLength || parts.some((part: string, i: number) => segments[i] !== part)) continue;
+    best = { index, name: tabName(slug, version), rest: segments.slice(parts.length) };
+    bestLength = parts.length;
+  }
+  return best;
+}
+
+/** A site path with the configured `basePath` in front. */
+function withBasePath(path: string): string {
+  return `${process.env.VELU_BASE_PATH ?? ''}${path}`;
+}
+
+async function pageExists(path: string): Promise<boolean> {
+  try {
+    const response = await fetch(path, { method: 'HEAD' });
+    return response.ok;
+  } catch {
+    // Offline or blocked: navigate and let the server decide.
+    return true;
+  }
+}
+
 export function VersionSwitcher({ versions }: { versions: VeluVersionOption[] }) {
   const pathname = usePathname();
   const [open, setOpen] = useState(false);
@@ -36,8 +77,8 @@ export function VersionSwitcher({ versions }: { versions: VeluVersionOption[] })
   const fallback = useMemo(() => versions.find((v) => v.isDefault) ?? versions[0], [versions]);
 
   const current = useMemo(() => {
-    const firstSeg = pathname.split('/').filter(Boolean)[0] ?? '';
-    return versions.find((version) => version.tabSlugs.includes(firstSeg)) ?? fallback;
+    const segments = pathname.split('/').filter(Boolean);
+    return versions.find((version) => matchTab(segments, version)) ?? fallback;
   }, [pathname, versions, fallback]);
 
   useEffect(() => {
@@ -50,23 +91,27 @@ export function VersionSwitcher({ versions }: { versions: VeluVersionOption[] })
 
   if (!fallback || versions.length <= 1) return null;
 
-  function switchTo(target: VeluVersionOption) {
+  async function switchTo(target: VeluVersionOption) {
     setOpen(false);
 
-    const segments = pathname.split('/').filter(Boolean);
-    const firstSeg = segments[0] ?? '';
-
-    if (current && current.tabSlugs.includes(firstSeg)) {
-      const index = current.tabSlugs.indexOf(firstSeg);
-      const targetTab = target.tabSlugs[index] ?? target.tabSlugs[0];
+    // The same page in the target version: the tab with the same name (else
+    // position) and the same path below it. Pages that don't exist there,
+    // like ones added after a version was cut, land on the version root.
+    const match = current ? matchTab(pathname.split('/').filter(Boolean), current) : null;
+    if (match) {
+      const targetTab = target.tabSlugs.find((slug: string) => tabName(slug, target) === match.name)
+        ?? target.tabSlugs[match.index]
+        ?? target.tabSlugs[0];
       if (targetTab) {
-        const rest = segments.slice(1);
-        window.location.href = withTrailingSlashPath('/' + [targetTab, ...rest].join('/'));
-        return;
+        const candidate = withBasePath(withTrailingSlashPath('/' + [targetTab, ...match.rest].join('/')));
+        if (await pageExists(candidate)) {
+          window.location.href = candidate;
+          return;
+        }
       }
     }
 
-    window.location.href = withTrailingSlashPath(target.defaultPath);
+    window.location.href = withBasePath(withTrailingSlashPath(target.defaultPath));
   }
 
   return (
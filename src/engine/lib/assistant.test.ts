@@ -0,0 +1,85 @@
+import assert from 'node:assert/strict';
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import test from 'node:test';
+import {
+  buildAssistantContext,
+  parseAssistantMessages,
+  requestChatCompletion,
+  resolveAssistantConfig,
+} from './assistant';
+
+const PAGES = [
+  {
+    path: '/install',
+    title: 'Installation',
+    markdown: 'Intro.\n\n## Install the CLI\n\nRun `npm install -g acme`.\n\n## Upgrade\n\nRun `acme upgrade`.',
+  },
+  { path: '/auth', title: 'Authentication', description: 'API tokens', markdown: 'Create a token in the dashboard.' },
+];
+
+test('resolveAssistantConfig keeps the hosted assistant without a config block', () => {
+  assert.equal(resolveAssistantConfig(undefined).protocol, 'velu-sse');
+
+  process.env.VELU_TEST_ASSISTANT_KEY = 'secret';
+  const config = resolveAssistantConfig({
+    suggestions: [' How do I install? ', ''],
+    model: { baseUrl: 'http://localhost:11434/v1/', name: 'llama', apiKey: '${VELU_TEST_ASSISTANT_KEY}' },
+  });
+  assert.equal(config.protocol, 'openai-chat');
+  assert.deepEqual(config.suggestions, ['How do I install?']);
+  assert.equal(config.model.baseUrl, 'http://localhost:11434/v1');
+  assert.equal(config.model.apiKey, 'secret');
+  assert.equal(config.model.maxSources, 4);
+});
+
+test('buildAssistantContext numbers the best matching sections by page', () => {
+  const context = buildAssistantContext(PAGES, 'How do I install the CLI?', {
+    siteName: 'Acme',
+    maxSources: 2,
+    toUrl: (path) => `/docs${path}`,
+  });
+
+  assert.deepEqual(context.citations, [{ title: 'Installation', url: '/docs/install' }]);
+  assert.match(context.prompt, /\[1\] Installation › Install the CLI\n## Install the CLI/);
+  assert.doesNotMatch(context.prompt, /Authentication/);
+});
+
+test('parseAssistantMessages requires a trailing user message', () => {
+  assert.deepEqual(parseAssistantMessages({ messages: [{ role: 'system', content: 'x' }, { role: 'user', content: ' hi ' }] }), {
+    messages: [{ role: 'user', content: 'hi' }],
+  });
+  assert.ok('error' in parseAssistantMessages({ messages: [{ role: 'assistant', content: 'hi' }] }));
+  assert.ok('error' in parseAssistantMessages({}));
+});
+
+test('requestChatCompletion posts the sources and history to an OpenAI-compatible server', async () => {
+  let received: { path?: string; authorization?: string; body?: any } = {};
+  const server = createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk) => { raw += chunk; });
+    req.on('end', () => {
+      received = { path: req.url, authorization: req.headers.authorization, body: JSON.parse(raw) };
+      res.writeHead(200, { 'content-type': 'application/json' });
+      res.end(JSON.stringify({ choices: [{ message: { role: 'assistant', content: 'Run npm install [1].' } }] }));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+  try {
+    const { port } = server.address() as AddressInfo;
+    const model = resolveAssistantConfig({ model: { baseUrl: `http://127.0.0.1:${port}/v1`, name: 'stub', apiKey: 'key' } }).model;
+    const context = buildAssistantContext(PAGES, 'install', { siteName: 'Acme', maxSources: 4, toUrl: (path) => path });
+    const response = await requestChatCompletion(model, context, [{ role: 'user', content: 'install' }], false);
+
+    assert.equal((await response.json()).choices[0].message.content, 'Run npm install [1].');
+    assert.equal(received.path, '/v1/chat/completions');
+    assert.equal(received.authorization, 'Bearer key');
+    assert.equal(received.body.model, 'stub');
+    assert.equal(received.body.stream, false);
+    assert.deepEqual(received.body.messages.map((message: { role: string }) => message.role), ['system', 'user']);
+    assert.equal(received.body.messages[0].content, context.prompt);
+  } finally {
+    server.close();
+  }
+});
@@ -0,0 +1,279 @@
+export type AssistantProtocol = 'velu-sse' | 'openai-chat' | 'custom';
+
+export interface AssistantModelConfig {
+  /** OpenAI-compatible API root, e.g. `http://localhost:11434/v1`. */
+  baseUrl?: string;
+  name?: string;
+  apiKey?: string;
+  temperature?: number;
+  /** Page sections passed to the model per question. */
+  maxSources: number;
+}
+
+export interface AssistantConfig {
+  /** Where the widget sends questions; undefined picks the default for the protocol. */
+  endpoint?: string;
+  protocol: AssistantProtocol;
+  suggestions: string[];
+  model: AssistantModelConfig;
+}
+
+/** What the `VeluAssistant` widget needs; never includes the API key. */
+export interface AssistantClientConfig {
+  endpoint: string;
+  protocol: AssistantProtocol;
+  suggestions: string[];
+  model?: string;
+}
+
+export interface AssistantMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface AssistantCitation {
+  title: string;
+  url: string;
+}
+
+/** The subset of `LlmsPageEntry` retrieval reads, so this module stays free of docs loading. */
+export interface AssistantPage {
+  path: string;
+  title: string;
+  description?: string;
+  markdown?: string;
+}
+
+export interface AssistantContext {
+  citations: AssistantCitation[];
+  /** The system prompt with the numbered sources. */
+  prompt: string;
+}
+
+export const ASSISTANT_ROUTE = '/api/assistant';
+export const VELU_ASSISTANT_API = 'https://api.getvelu.com/api/v1/public/ai-assistant';
+
+const PROTOCOLS: AssistantProtocol[] = ['velu-sse', 'openai-chat', 'custom'];
+const DEFAULT_MAX_SOURCES = 4;
+const MAX_HISTORY_MESSAGES = 10;
+const MAX_MESSAGE_LENGTH = 4000;
+const MAX_SECTION_LENGTH = 2500;
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'how', 'i', 'if', 'in',
+  'is', 'it', 'me', 'my', 'of', 'on', 'or', 'so', 'that', 'the', 'this', 'to', 'use', 'was', 'we', 'what',
+  'when', 'where', 'which', 'who', 'why', 'with', 'you', 'your',
+]);
+
+// ── Config ─────────────────────────────────────────────────────────────────────
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+function trimString(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : undefined;
+}
+
+/** `${NAME}` reads the environment, so keys stay out of docs.json. */
+function expandEnv(value: string): string {
+  return value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (_match, name: string) => process.env[name] ?? '');
+}
+
+function resolveModelConfig(raw: unknown): AssistantModelConfig {
+  const model = isRecord(raw) ? raw : {};
+  const apiKey = trimString(model.apiKey);
+  const maxSources = typeof model.maxSources === 'number' && model.maxSources >= 1
+    ? Math.floor(model.maxSources)
+    : DEFAULT_MAX_SOURCES;
+  return {
+    baseUrl: trimString(model.baseUrl)?.replace(/\/+$/, ''),
+    name: trimString(model.name),
+    apiKey: apiKey ? expandEnv(apiKey) || undefined : undefined,
+    temperature: typeof model.temperature === 'number' ? model.temperature : undefined,
+    maxSources,
+  };
+}
+
+/**
+ * The `assistant` object from docs.json, with defaults. Without one the
+ * widget keeps the hosted Velu assistant.
+ */
+export function resolveAssistantConfig(raw: unknown): AssistantConfig {
+  const assistant = isRecord(raw) ? raw : null;
+  const protocol = PROTOCOLS.find((entry) => entry === assistant?.protocol);
+  return {
+    endpoint: trimString(assistant?.endpoint),
+    // A block without a protocol is there to use the built-in route.
+    protocol: protocol ?? (assistant ? 'openai-chat' : 'velu-sse'),
+    suggestions: Array.isArray(assistant?.suggestions)
+      ? assistant.suggestions.map(trimString).filter((entry): entry is string => Boolean(entry))
+      : [],
+    model: resolveModelConfig(assistant?.model),
+  };
+}
+
+// ── Retrieval ──────────────────────────────────────────────────────────────────
+
+interface PageSection {
+  page: AssistantPage;
+  heading?: string;
+  text: string;
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((term) => term.length > 1 && !STOP_WORDS.has(term));
+}
+
+/** Pages split at `##`/`###` headings, so long pages contribute only the part that answers. */
+function splitSections(page: AssistantPage): PageSection[] {
+  const sections: PageSection[] = [];
+  let heading: string | undefined;
+  let lines: string[] = [];
+  const flush = () => {
+    const text = lines.join('\n').trim();
+    if (text) sections.push({ page, heading, text });
+  };
+
+  for (const line of (page.markdown ?? '').split('\n')) {
+    const match = line.match(/^#{2,3}\s+(.+?)\s*#*$/);
+    if (match) {
+      flush();
+      heading = match[1];
+      lines = [line];
+    } else {
+      lines.push(line);
+    }
+  }
+  flush();
+  return sections;
+}
+
+function countOccurrences(haystack: string, needle: string): number {
+  let count = 0;
+  let index = haystack.indexOf(needle);
+  while (index !== -1 && count < 20) {
+    count += 1;
+    index = haystack.indexOf(needle, index + needle.length);
+  }
+  return count;
+}
+
+/**
+ * Unlike `search_pages`, a section doesn't need every term: questions carry
+ * words the docs never use. Each distinct term that matches adds a bonus so
+ * broad matches beat repeats of one word.
+ */
+function scoreSection(section: PageSection, terms: string[]): number {
+  const title = section.page.title.toLowerCase();
+  const description = (section.page.description ?? '').toLowerCase();
+  const heading = (section.heading ?? '').toLowerCase();
+  const body = section.text.toLowerCase();
+  let score = 0;
+
+  for (const term of terms) {
+    const termScore = (title.includes(term) ? 6 : 0)
+      + (heading.includes(term) ? 6 : 0)
+      + (description.includes(term) ? 3 : 0)
+      + Math.min(countOccurrences(body, term), 5);
+    if (termScore > 0) score += termScore + 5;
+  }
+
+  return score;
+}
+
+/**
+ * The sections that best match the latest question, numbered as sources in
+ * a system prompt. `toUrl` turns a page path into the link the reader gets.
+ */
+export function buildAssistantContext(
+  pages: AssistantPage[],
+  question: string,
+  options: { siteName: string; maxSources: number; toUrl: (path: string) => string },
+): AssistantContext {
+  const terms = Array.from(new Set(tokenize(question)));
+  const ranked = pages
+    .flatMap(splitSections)
+    .map((section) => ({ section, score: scoreSection(section, terms) }))
+    .filter((entry) => entry.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, options.maxSources);
+
+  const citations: AssistantCitation[] = [];
+  const sources = ranked.map(({ section }) => {
+    const url = options.toUrl(section.page.path);
+    let index = citations.findIndex((citation) => citation.url === url);
+    if (index === -1) {
+      citations.push({ title: section.page.title, url });
+      index = citations.length - 1;
+    }
+    const text = section.text.length > MAX_SECTION_LENGTH
+      ? `${section.text.slice(0, MAX_SECTION_LENGTH)}…`
+      : section.text;
+    return `[${index + 1}] ${section.page.title}${section.heading ? ` › ${section.heading}` : ''}\n${text}`;
+  });
+
+  const prompt = [
+    `You answer questions about the ${options.siteName} documentation.`,
+    'Answer only from the sources below and cite them inline as [1], [2] and so on.',
+    'If the sources don\'t cover the question, say so instead of guessing.',
+    '',
+    sources.length > 0 ? `Sources:\n\n${sources.join('\n\n---\n\n')}` : 'No page in the documentation matches this question.',
+  ].join('\n');
+
+  return { citations, prompt };
+}
+
+// ── Requests ───────────────────────────────────────────────────────────────────
+
+/**
+ * Validate an OpenAI-style `messages` array from the widget. Only `user` and
+ * `assistant` turns are kept (the system prompt is ours), newest last.
+ */
+export function parseAssistantMessages(body: unknown): { messages: AssistantMessage[] } | { error: string } {
+  if (!isRecord(body) || !Array.isArray(body.messages)) return { error: '`messages` must be an array.' };
+  const messages: AssistantMessage[] = [];
+  for (const entry of body.messages) {
+    if (!isRecord(entry) || (entry.role !== 'user' && entry.role !== 'assistant')) continue;
+    const content = trimString(entry.content);
+    if (!content) continue;
+    if (content.length > MAX_MESSAGE_LENGTH) return { error: `A message is longer than ${MAX_MESSAGE_LENGTH} characters.` };
+    messages.push({ role: entry.role, content });
+  }
+  if (messages[messages.length - 1]?.role !== 'user') return { error: 'The last message must be from the user.' };
+  return { messages: messages.slice(-MAX_HISTORY_MESSAGES) };
+}
+
+/**
+ * Ask the OpenAI-compatible model. With `stream` the response body is the
+ * upstream `text/event-stream`; otherwise it is the chat completion JSON.
+ */
+export async function requestChatCompletion(
+  model: AssistantModelConfig,
+  context: AssistantContext,
+  messages: AssistantMessage[],
+  stream: boolean,
+): Promise<Response> {
+  if (!model.baseUrl || !model.name) {
+    throw new Error('The assistant needs `assistant.model.baseUrl` and `assistant.model.name` in docs.json.');
+  }
+  const response = await fetch(`${model.baseUrl}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'content-type': 'application/json',
+      ...(model.apiKey ? { authorization: `Bearer ${model.apiKey}` } : {}),
+    },
+    body: JSON.stringify({
+      model: model.name,
+      messages: [{ role: 'system', content: context.prompt }, ...messages],
+      stream,
+      ...(model.temperature !== undefined ? { temperature: model.temperature } : {}),
+    }),
+  });
+  if (!response.ok) throw new Error(`The model answered ${response.status}.`);
+  return response;
+}
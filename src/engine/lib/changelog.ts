@@ -34,6 +34,88 @@ interface ParsedRssProp {
 
 const STRING_LITERAL = /"(.*?)"|'(.*?)'/;
 
+export type ChangelogFeedFormat = 'rss' | 'atom' | 'json';
+
+/** Feed file names served next to every changelog page, and at the site root. */
+export const CHANGELOG_FEED_FILES: Record<ChangelogFeedFormat, string> = {
+  rss: 'rss.xml',
+  atom: 'atom.xml',
+  json: 'feed.json',
+};
+
+export const CHANGELOG_FEED_TYPES: Record<ChangelogFeedFormat, string> = {
+  rss: 'application/rss+xml',
+  atom: 'application/atom+xml',
+  json: 'application/feed+json',
+};
+
+export function feedFormatForFile(fileName: string): ChangelogFeedFormat | undefined {
+  return (Object.keys(CHANGELOG_FEED_FILES) as ChangelogFeedFormat[])
+    .find((format) => CHANGELOG_FEED_FILES[format] === fileName);
+}
+
+export type ChangelogArchive =
+  | { kind: 'tag'; tag: string; segments: string[] }
+  | { kind: 'month'; year: number; month: number; segments: string[] };
+
+/** URL segment for a tag, e.g. `Breaking Changes` → `breaking-changes`. */
+export function slugifyChangelogTag(tag: string): string {
+  return tag
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '') || 'tag';
+}
+
+/** `<Update date>` (or a date-like label) as a Date, when it parses. */
+export function parseUpdateDate(update: Pick<ChangelogUpdateEntry, 'date' | 'label'>): Date | undefined {
+  const value = update.date ?? update.label;
+  if (!value) return undefined;
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? undefined : parsed;
+}
+
+/**
+ * Archive pages under a changelog page: `tags/<tag>` for every tag and
+ * `<yyyy>/<mm>` for every month with a dated update, newest month first.
+ */
+export function getChangelogArchives(data: Pick<ParsedChangelogData, 'tags' | 'updates'>): ChangelogArchive[] {
+  const tags = new Map<string, string>();
+  for (const tag of data.tags) {
+    const slug = slugifyChangelogTag(tag);
+    if (!tags.has(slug)) tags.set(slug, tag);
+  }
+
+  const months = new Set<string>();
+  for (const update of data.updates) {
+    const date = parseUpdateDate(update);
+    if (date) months.add(`${date.getUTCFullYear()}/${String(date.getUTCMonth() + 1).padStart(2, '0')}`);
+  }
+
+  return [
+    ...Array.from(tags, ([slug, tag]): ChangelogArchive => ({ kind: 'tag', tag, segments: ['tags', slug] })),
+    ...Array.from(months).sort().reverse().map((key): ChangelogArchive => {
+      const [year, month] = key.split('/');
+      return { kind: 'month', year: Number(year), month: Number(month), segments: [year, month] };
+    }),
+  ];
+}
+
+export function isUpdateInArchive(update: Pick<ChangelogUpdateEntry, 'date' | 'label' | 'tags'>, archive: ChangelogArchive): boolean {
+  if (archive.kind === 'tag') {
+    const slug = slugifyChangelogTag(archive.tag);
+    return update.tags.some((tag) => slugifyChangelogTag(tag) === slug);
+  }
+  const date = parseUpdateDate(update);
+  return Boolean(date && date.getUTCFullYear() === archive.year && date.getUTCMonth() + 1 === archive.month);
+}
+
+export function formatChangelogArchiveLabel(archive: ChangelogArchive): string {
+  if (archive.kind === 'tag') return archive.tag;
+  return new Intl.DateTimeFormat('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' })
+    .format(new Date(Date.UTC(archive.year, archive.month - 1, 1)));
+}
+
 export function slugifyUpdateLabel(value: string): string {
   const base = value
     .toLowerCase()
@@ -208,6 +290,7 @@ export function getUpdateRssEntries(update: ChangelogUpdateEntry): Array<{
   title: string;
   anchor: string;
   description: string;
+  contentMarkdown: string;
 }> {
   if (update.rssTitle || update.rssDescription) {
     return [
@@ -215,6 +298,7 @@ export function getUpdateRssEntries(update: ChangelogUpdateEntry): Array<{
         title: update.rssTitle?.trim() || update.label,
         anchor: update.anchor,
         description: toRssDescription(update),
+        contentMarkdown: update.contentMarkdown,
       },
     ];
   }
@@ -225,6 +309,7 @@ export function getUpdateRssEntries(update: ChangelogUpdateEntry): Array<{
       title: heading.title,
       anchor: heading.anchor,
       description: markdownToPlainText(heading.contentMarkdown) || toRssDescription(update),
+      contentMarkdown: heading.contentMarkdown,
     }));
   }
 
@@ -233,6 +318,7 @@ export function getUpdateRssEntries(update: ChangelogUpdateEntry): Array<{
       title: update.label,
       anchor: update.anchor,
       description: toRssDescription(update),
+      contentMarkdown: update.contentMarkdown,
     },
   ];
 }
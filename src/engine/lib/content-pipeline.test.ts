@@ -0,0 +1,212 @@
+import assert from 'node:assert/strict';
+import { spawnSync } from 'node:child_process';
+import { mkdirSync, mkdtempSync, readdirSync, readFileSync, rmSync, symlinkSync, writeFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { tmpdir } from 'node:os';
+import { dirname, join, relative, resolve } from 'node:path';
+import test, { after } from 'node:test';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+
+// Parity suite: the same fixture goes through `velu build` (src/build.ts),
+// the dev server (`_server.mjs generate`) and preview sessions
+// (preview-content.ts); the generated content trees must be identical.
+
+const PACKAGE_ROOT = resolve(dirname(fileURLToPath(import.meta.url)), '..', '..', '..');
+const require = createRequire(import.meta.url);
+const TSX_IMPORT = pathToFileURL(require.resolve('tsx')).href;
+
+const root = mkdtempSync(join(tmpdir(), 'velu-parity-'));
+const workspaceDir = join(root, 'workspace');
+const previewContentDir = join(root, 'preview');
+
+after(() => rmSync(root, { recursive: true, force: true }));
+
+type Fixture = Record<string, string | object>;
+
+const OPENAPI_SPEC = `openapi: 3.1.0
+info:
+  title: Pets
+  version: 1.0.0
+paths:
+  /pets:
+    get:
+      summary: List pets
+      description: "Returns every \\"pet\\"."
+    post:
+      summary: Create pet
+      deprecated: true
+  /pets/{petId}:
+    get:
+      summary: Get pet
+      x-hidden: true
+    delete:
+      summary: Delete pet
+      x-excluded: true
+webhooks:
+  petAdopted:
+    post:
+      summary: Pet adopted
+      x-mint:
+        metadata:
+          title: Adoption webhook
+        content: Sent for {{product}} adoptions.
+`;
+
+const ASYNCAPI_SPEC = JSON.stringify({
+  asyncapi: '3.0.0',
+  info: { title: 'Events', version: '1.0.0' },
+  channels: {
+    petEvents: { address: 'pets/events', title: 'Pet events', description: 'Lifecycle events' },
+    'orders/{id}': {},
+  },
+});
+
+const PAGES: Fixture = {
+  'quickstart.mdx': '# Welcome to {{product}}\n\nStart with {{tagline}}.\n',
+  'guides/setup.md': '---\ntitle: Setup\ndescription: Install {{product}}\n---\n\nRun the installer.\n',
+  'guides/advanced_usage.mdx': 'No heading here.\n',
+  'guides/hidden.mdx': '# Hidden "page"\n',
+};
+
+const FIXTURES: Record<string, Fixture> = {
+  'single-language': {
+    ...PAGES,
+    'openapi.yaml': OPENAPI_SPEC,
+    'asyncapi.json': ASYNCAPI_SPEC,
+    'docs.json': {
+      name: 'Parity',
+      variables: { product: 'Acme', tagline: '{{product}} <docs>' },
+      navigation: {
+        tabs: [
+          {
+            tab: 'Guides',
+            groups: [
+              {
+                group: '{{product}} basics',
+                openapi: 'openapi.yaml',
+                pages: [
+                  'quickstart',
+                  'guides/setup',
+                  'POST /pets',
+                  'GET /pets/{petId}',
+                  'DELETE /pets/{petId}',
+                  { group: 'Advanced', expanded: false, pages: ['guides/advanced_usage'] },
+                  { href: 'https://example.com', label: 'Website' },
+                ],
+              },
+              { group: 'Internal', hidden: true, pages: ['guides/hidden', 'guides/missing'] },
+            ],
+          },
+          { tab: 'API Reference', openapi: { source: 'openapi.yaml', directory: 'reference' } },
+          { tab: 'Events', asyncapi: 'asyncapi.json' },
+          { tab: 'Blog', href: 'https://example.com/blog' },
+        ],
+      },
+    },
+  },
+  'multi-language': {
+    ...PAGES,
+    'fr/quickstart.mdx': '# Bienvenue\n',
+    'docs.json': {
+      name: 'Parity',
+      variables: { product: 'Acme', tagline: 'docs' },
+      navigation: {
+        languages: [
+          { language: 'en', tabs: [{ tab: 'Guides', pages: ['quickstart', 'guides/setup'] }] },
+          { language: 'fr', tabs: [{ tab: 'Guides', pages: ['fr/quickstart'] }] },
+        ],
+      },
+    },
+  },
+};
+
+function writeFixture(name: string, files: Fixture): string {
+  const docsDir = join(workspaceDir, name);
+  for (const [file, content] of Object.entries(files)) {
+    const path = join(docsDir, file);
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(path, typeof content === 'string' ? content : JSON.stringify(content, null, 2));
+  }
+  return docsDir;
+}
+
+function readTree(dir: string): Record<string, string> {
+  const output: Record<string, string> = {};
+  function walk(current: string) {
+    for (const entry of readdirSync(current, { withFileTypes: true })) {
+      const path = join(current, entry.name);
+      if (entry.isDirectory()) walk(path);
+      else output[relative(dir, path).replace(/\\/g, '/')] = readFileSync(path, 'utf-8');
+    }
+  }
+  walk(dir);
+  return output;
+}
+
+async function generateWithBuild(docsDir: string, outDir: string): Promise<void> {
+  // Keep the static import graph inside the engine; build.ts lives in the CLI.
+  const { build } = await import(pathToFileURL(join(PACKAGE_ROOT, 'src', 'build.ts')).href);
+  const log = console.log;
+  const warn = console.warn;
+  console.log = console.warn = () => {};
+  try {
+    build(docsDir, outDir);
+  } finally {
+    console.log = log;
+    console.warn = warn;
+  }
+}
+
+async function generateAll(name: string) {
+  const docsDir = writeFixture(name, FIXTURES[name]);
+
+  const buildOut = join(root, 'build', name);
+  await generateWithBuild(docsDir, buildOut);
+
+  const devOut = join(root, 'dev', name);
+  await generateWithBuild(docsDir, devOut);
+  symlinkSync(join(PACKAGE_ROOT, 'node_modules'), join(devOut, 'node_modules'), 'junction');
+  const dev = spawnSync(process.execPath, ['--import', TSX_IMPORT, '_server.mjs', 'generate'], {
+    cwd: devOut,
+    env: { ...process.env, VELU_DOCS_DIR: docsDir },
+    encoding: 'utf-8',
+    timeout: 60_000,
+  });
+  assert.equal(dev.status, 0, dev.stderr);
+
+  process.env.WORKSPACE_DIR = workspaceDir;
+  process.env.PREVIEW_CONTENT_DIR = previewContentDir;
+  process.chdir(root);
+  const { generateSessionContent } = await import('./preview-content');
+  generateSessionContent(name);
+
+  return {
+    build: readTree(join(buildOut, 'content', 'docs')),
+    dev: readTree(join(devOut, 'content', 'docs')),
+    preview: readTree(join(previewContentDir, name)),
+  };
+}
+
+for (const name of Object.keys(FIXTURES)) {
+  test(`build, dev server and preview generate identical content (${name})`, async () => {
+    const trees = await generateAll(name);
+    assert.ok(Object.keys(trees.build).length > 0);
+    assert.deepEqual(trees.dev, trees.build);
+    assert.deepEqual(trees.preview, trees.build);
+  });
+}
+
+test('generated content covers API pages, hidden entries and variables', async () => {
+  const tree = readTree(join(root, 'build', 'single-language', 'content', 'docs'));
+  const groupMeta = JSON.parse(tree['guides/acme-basics/meta.json']);
+
+  assert.equal(groupMeta.title, 'Acme basics');
+  assert.ok(groupMeta.pages.includes('!get-pets-petid'));
+  assert.ok(!groupMeta.pages.some((page: string) => page.includes('delete-pets')));
+  assert.match(tree['guides/acme-basics/quickstart.mdx'], /^---\ntitle: "Welcome to Acme"\n---\n\nStart with Acme &lt;docs&gt;\./);
+  assert.match(tree['guides/acme-basics/advanced/advanced_usage.mdx'], /title: "Advanced Usage"/);
+  assert.match(tree['guides/internal/hidden.mdx'], /title: "Hidden \\"page\\""/);
+  assert.match(tree['api-reference/reference/webhook-petadopted.mdx'], /Sent for Acme adoptions\./);
+  assert.match(tree['events/channel-petevents.mdx'], /asyncapi: "\/asyncapi.json petEvents"/);
+  assert.equal(tree['guides/internal/missing.mdx'], undefined);
+});
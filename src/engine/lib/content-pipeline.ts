@@ -0,0 +1,1083 @@
+/**
+ * Content generation shared by `velu build` (src/build.ts), the dev server
+ * (_server.mjs) and preview sessions (preview-content.ts).
+ *
+ * Turns docs.json navigation into page mappings + fumadocs meta files
+ * (`buildArtifacts`) and writes them under a content directory
+ * (`writeSiteContent`). What differs per entry point — import rewriting,
+ * session asset URLs, incremental writes — is passed in as hooks on
+ * `ContentWriterOptions`, so the generated tree is otherwise identical.
+ */
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join, relative, resolve } from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import { normalizeConfigNavigation } from './navigation-normalize';
+import { resolveGitVersions } from './versions';
+
+export const PRIMARY_CONFIG_NAME = 'docs.json';
+export const LEGACY_CONFIG_NAME = 'velu.json';
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+type ApiSourceValue = string | string[] | { source?: string | string[]; directory?: string };
+
+interface NavSeparator {
+  separator: string;
+}
+
+interface NavLink {
+  href: string;
+  label: string;
+  icon?: string;
+}
+
+type NavPageItem = string | NavSeparator | NavLink;
+
+export interface ContentGroup {
+  group: string;
+  slug: string;
+  icon?: string;
+  iconType?: string;
+  version?: string;
+  expanded?: boolean;
+  description?: string;
+  hidden?: boolean;
+  openapi?: ApiSourceValue;
+  asyncapi?: ApiSourceValue;
+  pages?: Array<NavPageItem | ContentGroup>;
+}
+
+export interface ContentTab {
+  tab: string;
+  slug: string;
+  icon?: string;
+  iconType?: string;
+  version?: string;
+  href?: string;
+  openapi?: ApiSourceValue;
+  asyncapi?: ApiSourceValue;
+  pages?: NavPageItem[];
+  groups?: ContentGroup[];
+}
+
+export interface ContentConfig {
+  navigation?: {
+    tabs?: ContentTab[];
+    languages?: Array<{ language: string; tabs: ContentTab[] }>;
+    openapi?: ApiSourceValue;
+    asyncapi?: ApiSourceValue;
+  };
+  languages?: string[];
+  openapi?: ApiSourceValue;
+  asyncapi?: ApiSourceValue;
+  variables?: Record<string, string>;
+}
+
+export interface PageMapping {
+  src: string;   // original page reference
+  dest: string;  // destination path under content/docs (without extension)
+  kind: 'file' | 'openapi-operation' | 'asyncapi-channel';
+  openapiSpec?: string;
+  openapiMethod?: string;
+  openapiEndpoint?: string;
+  openapiKind?: 'path' | 'webhook';
+  asyncapiSpec?: string;
+  asyncapiChannel?: string;
+  title?: string;
+  description?: string;
+  deprecated?: boolean;
+  version?: string;
+  content?: string;
+  hidden?: boolean;
+}
+
+export interface MetaFile {
+  dir: string;
+  data: Record<string, unknown>;
+}
+
+export interface BuildArtifacts {
+  pageMap: PageMapping[];
+  metaFiles: MetaFile[];
+  firstPage: string;
+}
+
+export interface LoadedContentConfig<T extends ContentConfig> {
+  config: T;
+  rawConfig: T;
+  variables: Record<string, string>;
+}
+
+export interface ContentWriterOptions {
+  docsDir: string;
+  contentDir: string;
+  variables: Record<string, string>;
+  /** Throw on `{{name}}` references that have no definition (default true). */
+  strictVariables?: boolean;
+  /** Applied to every page after variables and title frontmatter. */
+  transformPage?: (content: string, srcPath: string, destPath: string) => string;
+  writeFile?: (destPath: string, content: string) => void;
+  /** Replaces render + write for source pages, e.g. to skip unchanged sources. */
+  writePage?: (srcPath: string, destPath: string, slug: string) => void;
+  warn?: (message: string) => void;
+}
+
+export interface SiteContentResult {
+  /** Page map of the default language, used for file watching. */
+  pageMap: PageMapping[];
+  firstPage: string;
+  pageCount: number;
+  metaCount: number;
+}
+
+// ── Config loading ─────────────────────────────────────────────────────────
+
+export function resolveConfigPath(docsDir: string): string {
+  const primary = join(docsDir, PRIMARY_CONFIG_NAME);
+  if (existsSync(primary)) return primary;
+  const legacy = join(docsDir, LEGACY_CONFIG_NAME);
+  if (existsSync(legacy)) return legacy;
+  throw new Error(`No ${PRIMARY_CONFIG_NAME} or ${LEGACY_CONFIG_NAME} found in ${docsDir}`);
+}
+
+export const VARIABLE_TOKEN_PATTERN = /\{\{\s*([A-Za-z0-9.-]+)\s*\}\}/g;
+const VARIABLE_NAME_PATTERN = /^[A-Za-z0-9.-]+$/;
+
+function sanitizeVariableValue(value: string): string {
+  return value.replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function extractVariables(input: unknown): Record<string, string> {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) return {};
+
+  const output: Record<string, string> = {};
+  for (const [rawKey, rawValue] of Object.entries(input as Record<string, unknown>)) {
+    const key = rawKey.trim();
+    if (!key) continue;
+    if (!VARIABLE_NAME_PATTERN.test(key)) {
+      throw new Error(`Invalid variable name '${rawKey}'. Variable names can only contain letters, numbers, periods, and hyphens.`);
+    }
+    if (typeof rawValue !== 'string') {
+      throw new Error(`Invalid value for variable '${rawKey}'. Variables must be strings.`);
+    }
+    output[key] = rawValue;
+  }
+  return output;
+}
+
+function resolveVariableMap(rawVariables: Record<string, string>, strict: boolean): Record<string, string> {
+  const cache = new Map<string, string>();
+  const activeStack = new Set<string>();
+
+  function resolveOne(name: string): string | undefined {
+    const cached = cache.get(name);
+    if (cached !== undefined) return cached;
+
+    if (activeStack.has(name)) {
+      if (!strict) return undefined;
+      throw new Error(`Circular variable reference detected for '{{${name}}}'.`);
+    }
+
+    const raw = rawVariables[name];
+    if (raw === undefined) {
+      if (!strict) return undefined;
+      throw new Error(`Undefined variable '{{${name}}}' referenced in variable definitions.`);
+    }
+
+    activeStack.add(name);
+    const resolved = raw.replace(VARIABLE_TOKEN_PATTERN, (match, token: string) => resolveOne(token) ?? match);
+    activeStack.delete(name);
+    cache.set(name, resolved);
+    return resolved;
+  }
+
+  const output: Record<string, string> = {};
+  for (const name of Object.keys(rawVariables)) {
+    output[name] = resolveOne(name) ?? rawVariables[name];
+  }
+  return output;
+}
+
+/**
+ * Replace `{{name}}` tokens. Strict mode throws on undefined names; lenient
+ * mode (preview sessions, where the config may be mid-edit) leaves them as is.
+ */
+export function replaceVariablesInString(
+  value: string,
+  variables: Record<string, string>,
+  context: string,
+  sanitizeValues: boolean,
+  strict = true,
+): string {
+  const undefinedVariables = new Set<string>();
+  const replaced = value.replace(VARIABLE_TOKEN_PATTERN, (match, rawName: string) => {
+    const name = rawName.trim();
+    const resolved = variables[name];
+    if (resolved === undefined) {
+      undefinedVariables.add(name);
+      return match;
+    }
+    return sanitizeValues ? sanitizeVariableValue(resolved) : resolved;
+  });
+
+  if (strict && undefinedVariables.size > 0) {
+    throw new Error(
+      `Undefined variable(s) ${Array.from(undefinedVariables).map((name) => `'{{${name}}}'`).join(', ')} in ${context}.`
+    );
+  }
+
+  return replaced;
+}
+
+function applyVariablesToConfig(
+  value: unknown,
+  variables: Record<string, string>,
+  strict: boolean,
+  path = PRIMARY_CONFIG_NAME,
+): unknown {
+  if (typeof value === 'string') return replaceVariablesInString(value, variables, path, false, strict);
+  if (Array.isArray(value)) {
+    return value.map((entry, index) => applyVariablesToConfig(entry, variables, strict, `${path}[${index}]`));
+  }
+  if (!value || typeof value !== 'object') return value;
+
+  const output: Record<string, unknown> = {};
+  for (const [key, entry] of Object.entries(value as Record<string, unknown>)) {
+    output[key] = applyVariablesToConfig(entry, variables, strict, `${path}.${key}`);
+  }
+  return output;
+}
+
+/**
+ * Read docs.json (or legacy velu.json), resolve `variables` into the config
+ * and normalize navigation. `rawConfig` is the config before normalization,
+ * which is what gets copied into the generated project.
+ *
+ * With `gitVersions`, versions built from git tags are checked out and filled
+ * in. Only `velu build`, the dev server and `velu check-links` turn it on: it
+ * runs git in `docsDir`.
+ */
+export function loadContentConfig<T extends ContentConfig = ContentConfig>(
+  docsDir: string,
+  options: { strictVariables?: boolean; gitVersions?: boolean } = {},
+): LoadedContentConfig<T> {
+  const strict = options.strictVariables !== false;
+  const parsed = JSON.parse(readFileSync(resolveConfigPath(docsDir), 'utf-8')) as Record<string, unknown>;
+  const variables = resolveVariableMap(extractVariables(parsed.variables), strict);
+  const resolved = applyVariablesToConfig(parsed, variables, strict) as T;
+  const withVariables = options.gitVersions ? resolveGitVersions(resolved, docsDir) : resolved;
+  withVariables.variables = variables;
+  return {
+    config: normalizeConfigNavigation(withVariables),
+    rawConfig: withVariables,
+    variables,
+  };
+}
+
+// ── Navigation helpers ─────────────────────────────────────────────────────
+
+function pageBasename(page: string): string {
+  return page.split('/').pop() || page;
+}
+
+function pageLabelFromSlug(slug: string): string {
+  return pageBasename(slug).replace(/[-_]/g, ' ').replace(/\b\w/g, (c) => c.toUpperCase());
+}
+
+function isSeparator(item: unknown): item is NavSeparator {
+  return typeof item === 'object' && item !== null && 'separator' in item;
+}
+
+function isLink(item: unknown): item is NavLink {
+  return typeof item === 'object' && item !== null && 'href' in item && 'label' in item;
+}
+
+function isGroup(item: unknown): item is ContentGroup {
+  return typeof item === 'object' && item !== null && 'group' in item;
+}
+
+function metaEntry(item: NavPageItem): string {
+  if (typeof item === 'string') return item;
+  if (isSeparator(item)) return `---${item.separator}---`;
+  if (isLink(item)) {
+    return item.icon
+      ? `[${item.icon}][${item.label}](${item.href})`
+      : `[${item.label}](${item.href})`;
+  }
+  return String(item);
+}
+
+// ── OpenAPI / AsyncAPI helpers ─────────────────────────────────────────────
+
+const HTTP_METHODS = new Set([
+  'GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS', 'HEAD', 'TRACE', 'CONNECT', 'WEBHOOK',
+]);
+const OPENAPI_PATH_METHODS = new Set(['get', 'post', 'put', 'patch', 'delete', 'options', 'head', 'trace']);
+
+interface OpenApiOperationRef {
+  spec?: string;
+  method: string;
+  endpoint: string;
+  kind: 'path' | 'webhook';
+}
+
+interface AsyncApiChannelRef {
+  spec: string;
+  channel: string;
+}
+
+interface OperationInfo {
+  hidden: boolean;
+  excluded: boolean;
+  title?: string;
+  description?: string;
+  deprecated?: boolean;
+  version?: string;
+  content?: string;
+}
+
+interface ChannelInfo {
+  channel: string;
+  title: string;
+  description?: string;
+}
+
+type SpecDocument = Record<string, unknown>;
+
+function asRecord(value: unknown): Record<string, unknown> | undefined {
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? value as Record<string, unknown>
+    : undefined;
+}
+
+function extractApiSource(value: ApiSourceValue | undefined): string | string[] | undefined {
+  if (typeof value === 'string' || Array.isArray(value)) return value;
+  if (value && typeof value === 'object') {
+    const source = value.source;
+    if (typeof source === 'string' || Array.isArray(source)) return source;
+  }
+  return undefined;
+}
+
+function resolveApiSpecList(value: ApiSourceValue | undefined): string[] {
+  const source = extractApiSource(value);
+  if (typeof source === 'string') {
+    const trimmed = source.trim();
+    return trimmed ? [trimmed] : [];
+  }
+  if (Array.isArray(source)) {
+    return source
+      .filter((entry): entry is string => typeof entry === 'string')
+      .map((entry) => entry.trim())
+      .filter((entry) => entry.length > 0);
+  }
+  return [];
+}
+
+function resolveDefaultApiSpec(value: ApiSourceValue | undefined): string | undefined {
+  return resolveApiSpecList(value)[0];
+}
+
+function resolveApiDirectory(value: ApiSourceValue | undefined): string | undefined {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return undefined;
+  const raw = value.directory;
+  if (typeof raw !== 'string') return undefined;
+  const trimmed = raw.trim().replace(/\\/g, '/').replace(/^\/+/, '').replace(/\/+$/, '');
+  return trimmed.length > 0 ? trimmed : undefined;
+}
+
+function parseOpenApiOperationRef(value: string, inheritedSpec?: string): OpenApiOperationRef | null {
+  const trimmed = String(value ?? '').trim();
+  if (!trimmed) return null;
+
+  const withSpec = trimmed.match(/^(\S+)\s+([A-Za-z]+)\s+(.+)$/);
+  const match = withSpec
+    ? { spec: withSpec[1].trim(), method: withSpec[2], endpoint: withSpec[3] }
+    : (() => {
+        const noSpec = trimmed.match(/^([A-Za-z]+)\s+(.+)$/);
+        return noSpec ? { spec: inheritedSpec, method: noSpec[1], endpoint: noSpec[2] } : null;
+      })();
+  if (!match) return null;
+
+  const method = match.method.toUpperCase();
+  const endpoint = match.endpoint.trim();
+  if (!HTTP_METHODS.has(method)) return null;
+  if (method === 'WEBHOOK') {
+    if (!endpoint) return null;
+    return { spec: match.spec, method, endpoint, kind: 'webhook' };
+  }
+  if (!endpoint.startsWith('/')) return null;
+  return { spec: match.spec, method, endpoint, kind: 'path' };
+}
+
+function parseAsyncApiChannelRef(value: string, inheritedSpec?: string): AsyncApiChannelRef | null {
+  const trimmed = String(value ?? '').trim();
+  if (!trimmed) return null;
+
+  const withSpec = trimmed.match(/^(\S+)\s+(.+)$/);
+  if (withSpec) {
+    if (HTTP_METHODS.has(withSpec[1].toUpperCase())) return null;
+    const channel = withSpec[2].trim();
+    if (!channel) return null;
+    return { spec: withSpec[1].trim(), channel };
+  }
+
+  if (!inheritedSpec) return null;
+  return { spec: inheritedSpec, channel: trimmed };
+}
+
+function slugFromOpenApiOperation(method: string, endpoint: string): string {
+  const cleaned = endpoint
+    .toLowerCase()
+    .replace(/^\/+/, '')
+    .replace(/[{}]/g, '')
+    .replace(/[^a-z0-9/._-]+/g, '-')
+    .replace(/\/+/g, '-')
+    .replace(/[-_.]{2,}/g, '-')
+    .replace(/^[-_.]+|[-_.]+$/g, '');
+  const body = cleaned || 'endpoint';
+  return `${method.toLowerCase()}-${body}`;
+}
+
+function parseSpecDocument(rawSource: string): SpecDocument | null {
+  const source = String(rawSource ?? '').trim();
+  if (!source) return null;
+  try {
+    const parsed = JSON.parse(source);
+    if (parsed && typeof parsed === 'object') return parsed;
+  } catch {}
+  try {
+    const parsed = parseYaml(source);
+    if (parsed && typeof parsed === 'object') return parsed;
+  } catch {}
+  return null;
+}
+
+function loadSpecDocument(specSource: string, docsDir: string): SpecDocument | null {
+  if (/^https?:\/\//i.test(specSource) || specSource.startsWith('file://')) return null;
+  const resolvedPath = specSource.startsWith('/')
+    ? join(docsDir, specSource.replace(/^\/+/, ''))
+    : resolve(docsDir, specSource);
+  if (!existsSync(resolvedPath)) return null;
+  return parseSpecDocument(readFileSync(resolvedPath, 'utf-8'));
+}
+
+function readOperationInfo(value: unknown): OperationInfo {
+  const operation = asRecord(value);
+  if (!operation) return { hidden: false, excluded: false };
+  const xMint = asRecord(operation['x-mint']);
+  const meta = asRecord(xMint?.metadata) ?? {};
+  const mintString = (field: string) => (typeof meta[field] === 'string' ? meta[field] as string : undefined);
+  return {
+    hidden: operation['x-hidden'] === true,
+    excluded: operation['x-excluded'] === true,
+    title: mintString('title') ?? (typeof operation.summary === 'string' ? operation.summary : undefined),
+    description: mintString('description') ?? (typeof operation.description === 'string' ? operation.description : undefined),
+    deprecated: typeof meta.deprecated === 'boolean' ? meta.deprecated : operation.deprecated === true,
+    version: mintString('version'),
+    content: typeof xMint?.content === 'string' ? xMint.content : undefined,
+  };
+}
+
+function normalizeWebhookKey(name: string): string {
+  const value = String(name ?? '').trim();
+  if (!value) return value;
+  return value.startsWith('/') ? value : `/${value}`;
+}
+
+function pickOperationMethod(pathItem: Record<string, unknown>): string | undefined {
+  for (const method of OPENAPI_PATH_METHODS) {
+    if (asRecord(pathItem[method])) return method.toUpperCase();
+  }
+  return undefined;
+}
+
+function getOperationInfo(ref: OpenApiOperationRef, docsDir: string): OperationInfo | null {
+  if (!ref.spec) return null;
+  const parsed = loadSpecDocument(ref.spec, docsDir);
+  if (!parsed) return null;
+
+  if (ref.kind === 'webhook') {
+    const webhooks = asRecord(parsed.webhooks);
+    if (!webhooks) return null;
+    const target = normalizeWebhookKey(ref.endpoint);
+    const entry = Object.entries(webhooks)
+      .find(([name]) => name === ref.endpoint || normalizeWebhookKey(name) === target);
+    const pathItem = asRecord(entry?.[1]);
+    if (!pathItem) return null;
+    const methodKey = ref.method === 'WEBHOOK' ? pickOperationMethod(pathItem)?.toLowerCase() : ref.method.toLowerCase();
+    if (!methodKey) return null;
+    return readOperationInfo(pathItem[methodKey]);
+  }
+
+  const pathItem = asRecord(asRecord(parsed.paths)?.[ref.endpoint]);
+  if (!pathItem) return null;
+  return readOperationInfo(pathItem[ref.method.toLowerCase()]);
+}
+
+function loadOpenApiOperations(specSource: string, docsDir: string): Array<OpenApiOperationRef & OperationInfo> {
+  const parsed = loadSpecDocument(specSource, docsDir);
+  if (!parsed) return [];
+
+  const output: Array<OpenApiOperationRef & OperationInfo> = [];
+  for (const [endpoint, rawMethods] of Object.entries(asRecord(parsed.paths) ?? {})) {
+    const methods = asRecord(rawMethods);
+    if (!endpoint.startsWith('/') || !methods) continue;
+    for (const method of Object.keys(methods)) {
+      const normalized = method.toLowerCase();
+      if (!OPENAPI_PATH_METHODS.has(normalized)) continue;
+      if (!asRecord(methods[method])) continue;
+      const info = readOperationInfo(methods[method]);
+      if (info.excluded) continue;
+      output.push({ kind: 'path', spec: specSource, method: normalized.toUpperCase(), endpoint, ...info });
+    }
+  }
+
+  for (const [webhookName, rawPathItem] of Object.entries(asRecord(parsed.webhooks) ?? {})) {
+    const pathItem = asRecord(rawPathItem);
+    if (!pathItem) continue;
+    const resolvedMethod = pickOperationMethod(pathItem);
+    if (!resolvedMethod) continue;
+    const info = readOperationInfo(pathItem[resolvedMethod.toLowerCase()]);
+    if (info.excluded) continue;
+    output.push({ kind: 'webhook', spec: specSource, method: 'WEBHOOK', endpoint: webhookName, ...info });
+  }
+  return output;
+}
+
+function readChannelInfo(channelName: string, value: unknown): ChannelInfo {
+  const channel = asRecord(value) ?? {};
+  return {
+    channel: channelName,
+    title: typeof channel.title === 'string' ? channel.title : channelName,
+    description: typeof channel.description === 'string' ? channel.description : undefined,
+  };
+}
+
+function loadAsyncApiChannels(specSource: string, docsDir: string): ChannelInfo[] {
+  const channels = asRecord(loadSpecDocument(specSource, docsDir)?.channels);
+  if (!channels) return [];
+  return Object.entries(channels)
+    .filter(([channelName]) => channelName.trim().length > 0)
+    .map(([channelName, channel]) => readChannelInfo(channelName, channel));
+}
+
+function getChannelInfo(ref: AsyncApiChannelRef, docsDir: string): ChannelInfo | null {
+  const channels = asRecord(loadSpecDocument(ref.spec, docsDir)?.channels);
+  if (!channels) return null;
+  if (asRecord(channels[ref.channel])) return readChannelInfo(ref.channel, channels[ref.channel]);
+
+  const byAddress = Object.entries(channels)
+    .find(([, channel]) => asRecord(channel)?.address === ref.channel);
+  return byAddress ? readChannelInfo(byAddress[0], byAddress[1]) : null;
+}
+
+function normalizeSpecForFrontmatter(spec: string | undefined): string | undefined {
+  if (!spec) return undefined;
+  const trimmed = String(spec).trim();
+  if (!trimmed) return undefined;
+  if (/^https?:\/\//i.test(trimmed) || trimmed.startsWith('file://')) return trimmed;
+  if (trimmed.startsWith('/')) return trimmed;
+  return `/${trimmed.replace(/^\.?\/*/, '')}`;
+}
+
+// ── Artifacts ──────────────────────────────────────────────────────────────
+
+/**
+ * Map the configured navigation to content pages and meta.json files.
+ * Spec files referenced by `openapi`/`asyncapi` are resolved against docsDir.
+ */
+export function buildArtifacts(config: ContentConfig, docsDir: string): BuildArtifacts {
+  const pageMap: PageMapping[] = [];
+  const metaFiles: MetaFile[] = [];
+  const rootTabs = (config.navigation?.tabs || []).filter((tab) => !tab.href);
+  const rootPages = rootTabs.map((tab) => tab.slug);
+  const defaultOpenApiSpec = resolveDefaultApiSpec(config.navigation?.openapi ?? config.openapi);
+  const defaultAsyncApiSpec = resolveDefaultApiSpec(config.navigation?.asyncapi ?? config.asyncapi);
+  let firstPage = 'quickstart';
+  let hasFirstPage = false;
+  let firstHiddenPageCandidate: string | undefined;
+  const usedDestinations = new Set<string>();
+
+  function trackFirstPage(dest: string, hidden = false) {
+    if (!hidden && !hasFirstPage) {
+      firstPage = dest;
+      hasFirstPage = true;
+      return;
+    }
+    if (hidden && !hasFirstPage && !firstHiddenPageCandidate) {
+      firstHiddenPageCandidate = dest;
+    }
+  }
+
+  function uniqueDestination(dest: string): string {
+    if (!usedDestinations.has(dest)) {
+      usedDestinations.add(dest);
+      return dest;
+    }
+    let count = 2;
+    while (usedDestinations.has(`${dest}-${count}`)) count += 1;
+    const candidate = `${dest}-${count}`;
+    usedDestinations.add(candidate);
+    return candidate;
+  }
+
+  function metaEntryForDestination(baseDir: string, destination: string): string {
+    const fromParts = baseDir.split('/').filter(Boolean);
+    const toParts = destination.split('/').filter(Boolean);
+
+    let index = 0;
+    while (index < fromParts.length && index < toParts.length && fromParts[index] === toParts[index]) {
+      index += 1;
+    }
+
+    const up = Array(fromParts.length - index).fill('..');
+    const down = toParts.slice(index);
+    const rel = [...up, ...down].join('/');
+    return rel || pageBasename(destination);
+  }
+
+  function resolveGenerationDestination(source: ApiSourceValue, fallback: string): string {
+    const override = resolveApiDirectory(source);
+    if (!override) return fallback;
+    if (!fallback) return override;
+    if (override === fallback || override.startsWith(`${fallback}/`)) return override;
+    return `${fallback}/${override}`;
+  }
+
+  function resolveInheritedVersion(value: unknown, inherited?: string): string | undefined {
+    if (typeof value === 'string' && value.trim().length > 0) return value.trim();
+    return inherited;
+  }
+
+  function toOperationMapping(
+    src: string,
+    ref: OpenApiOperationRef,
+    info: Partial<OperationInfo> | null,
+    destDir: string,
+    inheritedVersion?: string,
+  ): PageMapping {
+    const dest = uniqueDestination(`${destDir}/${slugFromOpenApiOperation(ref.method, ref.endpoint)}`);
+    return {
+      src,
+      dest,
+      kind: 'openapi-operation',
+      openapiSpec: ref.spec,
+      openapiMethod: ref.method,
+      openapiEndpoint: ref.endpoint,
+      openapiKind: ref.kind,
+      title: info?.title,
+      description: info?.description,
+      deprecated: info?.deprecated,
+      version: info?.version ?? inheritedVersion,
+      content: info?.content,
+      hidden: info?.hidden === true,
+    };
+  }
+
+  function toChannelMapping(
+    src: string,
+    spec: string,
+    info: ChannelInfo,
+    destDir: string,
+    inheritedVersion?: string,
+  ): PageMapping {
+    const dest = uniqueDestination(`${destDir}/${slugFromOpenApiOperation('channel', info.channel)}`);
+    return {
+      src,
+      dest,
+      kind: 'asyncapi-channel',
+      asyncapiSpec: spec,
+      asyncapiChannel: info.channel,
+      title: info.title,
+      description: info.description,
+      version: inheritedVersion,
+    };
+  }
+
+  /** Map a page string to a file, OpenAPI operation or AsyncAPI channel; null when excluded. */
+  function toPageMapping(
+    item: string,
+    destDir: string,
+    openApiSpec: string | undefined,
+    asyncApiSpec: string | undefined,
+    version: string | undefined,
+  ): PageMapping | null {
+    const operationRef = parseOpenApiOperationRef(item, openApiSpec);
+    if (operationRef) {
+      const info = getOperationInfo(operationRef, docsDir);
+      if (info?.excluded) return null;
+      return toOperationMapping(item, operationRef, info, destDir, version);
+    }
+
+    const channelRef = parseAsyncApiChannelRef(item, asyncApiSpec);
+    if (channelRef) {
+      const info = getChannelInfo(channelRef, docsDir) ?? { channel: channelRef.channel, title: channelRef.channel };
+      return toChannelMapping(item, channelRef.spec, info, destDir, version);
+    }
+
+    return { src: item, dest: uniqueDestination(`${destDir}/${pageBasename(item)}`), kind: 'file' };
+  }
+
+  function buildSpecMappings(
+    source: ApiSourceValue,
+    kind: 'openapi' | 'asyncapi',
+    destDir: string,
+    fallbackSpec: string | undefined,
+    version: string | undefined,
+  ): PageMapping[] {
+    const specs = resolveApiSpecList(source);
+    if (specs.length === 0 && fallbackSpec) specs.push(fallbackSpec);
+
+    const output: PageMapping[] = [];
+    const seen = new Set<string>();
+    for (const spec of specs) {
+      if (kind === 'openapi') {
+        for (const operation of loadOpenApiOperations(spec, docsDir)) {
+          const key = `${spec}::${operation.kind}::${operation.method}::${operation.endpoint}`;
+          if (seen.has(key)) continue;
+          seen.add(key);
+          output.push(toOperationMapping(`${spec} ${operation.method} ${operation.endpoint}`, operation, operation, destDir, version));
+        }
+        continue;
+      }
+      for (const channel of loadAsyncApiChannels(spec, docsDir)) {
+        const key = `${spec}::${channel.channel}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        output.push(toChannelMapping(`${spec} ${channel.channel}`, spec, channel, destDir, version));
+      }
+    }
+    return output;
+  }
+
+  function pushMapping(mapping: PageMapping, baseDir: string, pages: string[]) {
+    pageMap.push(mapping);
+    const pageEntry = metaEntryForDestination(baseDir, mapping.dest);
+    pages.push(mapping.hidden ? `!${pageEntry}` : pageEntry);
+    trackFirstPage(mapping.dest, mapping.hidden === true);
+  }
+
+  function addGeneratedMappings(
+    owner: { openapi?: ApiSourceValue; asyncapi?: ApiSourceValue },
+    baseDir: string,
+    pages: string[],
+    openApiSpec: string | undefined,
+    asyncApiSpec: string | undefined,
+    version: string | undefined,
+  ) {
+    if (owner.openapi !== undefined) {
+      const destDir = resolveGenerationDestination(owner.openapi, baseDir);
+      for (const mapping of buildSpecMappings(owner.openapi, 'openapi', destDir, openApiSpec, version)) {
+        pushMapping(mapping, baseDir, pages);
+      }
+    }
+    if (owner.asyncapi !== undefined) {
+      const destDir = resolveGenerationDestination(owner.asyncapi, baseDir);
+      for (const mapping of buildSpecMappings(owner.asyncapi, 'asyncapi', destDir, asyncApiSpec, version)) {
+        pushMapping(mapping, baseDir, pages);
+      }
+    }
+  }
+
+  function addGroup(
+    group: ContentGroup,
+    parentDir: string,
+    inheritedOpenApiSpec: string | undefined,
+    inheritedVersion: string | undefined,
+    inheritedAsyncApiSpec: string | undefined,
+  ) {
+    const groupDir = `${parentDir}/${group.slug}`;
+    const pages: string[] = [];
+    const groupOpenApiSpec = resolveDefaultApiSpec(group.openapi) ?? inheritedOpenApiSpec;
+    const groupAsyncApiSpec = resolveDefaultApiSpec(group.asyncapi) ?? inheritedAsyncApiSpec;
+    const groupVersion = resolveInheritedVersion(group.version, inheritedVersion);
+    const groupPageItems = Array.isArray(group.pages) ? group.pages : [];
+
+    for (const item of groupPageItems) {
+      if (typeof item === 'string') {
+        const mapping = toPageMapping(item, groupDir, groupOpenApiSpec, groupAsyncApiSpec, groupVersion);
+        if (mapping) pushMapping(mapping, groupDir, pages);
+      } else if (isGroup(item)) {
+        addGroup(item, groupDir, groupOpenApiSpec, groupVersion, groupAsyncApiSpec);
+        pages.push(item.hidden ? `!${item.slug}` : item.slug);
+      } else if (isSeparator(item) || isLink(item)) {
+        pages.push(metaEntry(item));
+      }
+    }
+
+    if (groupPageItems.length === 0) {
+      addGeneratedMappings(group, groupDir, pages, groupOpenApiSpec, groupAsyncApiSpec, groupVersion);
+    }
+
+    const groupMeta: Record<string, unknown> = {
+      title: group.group,
+      pages,
+      defaultOpen: group.expanded !== false,
+    };
+
+    if (group.icon) groupMeta.icon = group.icon;
+    if (group.iconType) groupMeta.iconType = group.iconType;
+    if (group.description) groupMeta.description = group.description;
+
+    metaFiles.push({ dir: groupDir, data: groupMeta });
+  }
+
+  for (const tab of rootTabs) {
+    const tabPages: string[] = [];
+    const tabOpenApiSpec = resolveDefaultApiSpec(tab.openapi) ?? defaultOpenApiSpec;
+    const tabAsyncApiSpec = resolveDefaultApiSpec(tab.asyncapi) ?? defaultAsyncApiSpec;
+    const tabVersion = resolveInheritedVersion(tab.version);
+    const tabGroups = Array.isArray(tab.groups) ? tab.groups : [];
+    const tabPageItems = Array.isArray(tab.pages) ? tab.pages : [];
+
+    for (const group of tabGroups) {
+      addGroup(group, tab.slug, tabOpenApiSpec, tabVersion, tabAsyncApiSpec);
+      tabPages.push(group.hidden ? `!${group.slug}` : group.slug);
+    }
+
+    for (const item of tabPageItems) {
+      if (typeof item === 'string') {
+        const mapping = toPageMapping(item, tab.slug, tabOpenApiSpec, tabAsyncApiSpec, tabVersion);
+        if (mapping) pushMapping(mapping, tab.slug, tabPages);
+      } else {
+        tabPages.push(metaEntry(item));
+      }
+    }
+
+    if (tabGroups.length === 0 && tabPageItems.length === 0) {
+      addGeneratedMappings(tab, tab.slug, tabPages, tabOpenApiSpec, tabAsyncApiSpec, tabVersion);
+    }
+
+    const tabMeta: Record<string, unknown> = {
+      title: tab.tab,
+      root: true,
+      pages: tabPages,
+    };
+
+    if (tab.icon) tabMeta.icon = tab.icon;
+    if (tab.iconType) tabMeta.iconType = tab.iconType;
+
+    metaFiles.push({ dir: tab.slug, data: tabMeta });
+  }
+
+  if (rootPages.length > 0) {
+    metaFiles.push({ dir: '', data: { pages: rootPages } });
+  }
+
+  if (!hasFirstPage && firstHiddenPageCandidate) {
+    firstPage = firstHiddenPageCandidate;
+  }
+
+  return { pageMap, metaFiles, firstPage };
+}
+
+// ── Writing ────────────────────────────────────────────────────────────────
+
+export function sanitizeFrontmatterValue(value: string): string {
+  return String(value).replace(/\r?\n+/g, ' ').replace(/"/g, '\\"').trim();
+}
+
+function defaultWriteFile(destPath: string, content: string) {
+  mkdirSync(dirname(destPath), { recursive: true });
+  writeFileSync(destPath, content, 'utf-8');
+}
+
+function renderIndexPage(href: string): string {
+  return `---\ntitle: "Overview"\ndescription: Documentation powered by Velu\n---\n\nimport { Card, Cards } from "fumadocs-ui/components/card"\nimport { Callout } from "fumadocs-ui/components/callout"\n\n<Callout type="info">\n  Welcome to your documentation site.\n</Callout>\n\n## Start here\n\n<Cards>\n  <Card\n    title="Read the docs"\n    href="${href}"\n    description="Begin with the first page in your configured navigation."\n  />\n</Cards>\n`;
+}
+
+/** Resolve a page reference to its .mdx/.md source, or undefined when missing. */
+function resolvePageSource(docsDir: string, src: string): string | undefined {
+  for (const ext of ['.mdx', '.md']) {
+    const srcPath = join(docsDir, `${src}${ext}`);
+    if (existsSync(srcPath)) return srcPath;
+  }
+  return undefined;
+}
+
+/**
+ * Title for a page without one: its first `# heading`, which is then dropped
+ * from the body, else a label derived from the slug.
+ */
+export function extractPageTitle(body: string, slug: string): { title: string; body: string } {
+  const titleMatch = body.match(/^#\s+(.+)$/m);
+  if (!titleMatch) return { title: pageLabelFromSlug(slug), body };
+  return { title: titleMatch[1], body: body.replace(/^#\s+.+$/m, '').trimStart() };
+}
+
+/**
+ * Render a source page: substitute variables, add title frontmatter (from the
+ * first `# heading`, else the slug) when missing, then apply `transformPage`.
+ */
+export function renderPage(srcPath: string, destPath: string, slug: string, options: ContentWriterOptions): string {
+  let content = readFileSync(srcPath, 'utf-8');
+  content = replaceVariablesInString(
+    content,
+    options.variables,
+    relative(options.docsDir, srcPath),
+    true,
+    options.strictVariables !== false,
+  );
+  if (!content.startsWith('---')) {
+    const { title, body } = extractPageTitle(content, slug);
+    content = `---\ntitle: "${sanitizeFrontmatterValue(title)}"\n---\n\n${body}`;
+  }
+  return options.transformPage ? options.transformPage(content, srcPath, destPath) : content;
+}
+
+function renderOperationPage(mapping: PageMapping, options: ContentWriterOptions): string {
+  const operationLabel = `${mapping.openapiMethod || 'GET'} ${mapping.openapiEndpoint || '/'}`;
+  const normalizedSpec = normalizeSpecForFrontmatter(mapping.openapiSpec);
+  const openapi = (normalizedSpec ? `${normalizedSpec} ${operationLabel}` : operationLabel).replace(/"/g, '\\"');
+  const title = sanitizeFrontmatterValue(mapping.title ?? operationLabel);
+  const description = typeof mapping.description === 'string' ? sanitizeFrontmatterValue(mapping.description) : '';
+  const version = typeof mapping.version === 'string' ? sanitizeFrontmatterValue(mapping.version) : '';
+  const warning = normalizedSpec
+    ? ''
+    : '\n> Warning: No OpenAPI spec source was resolved for this operation. Set `openapi` on this tab/group/navigation or at the top level.\n';
+  const descriptionLine = description ? `\ndescription: "${description}"` : '';
+  const deprecatedLine = mapping.deprecated === true ? `\ndeprecated: true` : '';
+  const statusLine = mapping.deprecated === true ? `\nstatus: "deprecated"` : '';
+  const versionLine = version ? `\nversion: "${version}"` : '';
+  const content = typeof mapping.content === 'string'
+    ? `${replaceVariablesInString(
+        mapping.content.trim(),
+        options.variables,
+        `openapi:${mapping.dest}`,
+        true,
+        options.strictVariables !== false,
+      )}\n`
+    : '';
+  return `---\ntitle: "${title}"${descriptionLine}${deprecatedLine}${statusLine}${versionLine}\nopenapi: "${openapi}"\n---\n${warning}${content}`;
+}
+
+function renderChannelPage(mapping: PageMapping): string {
+  const channelLabel = `${mapping.asyncapiChannel || 'channel'}`;
+  const normalizedSpec = normalizeSpecForFrontmatter(mapping.asyncapiSpec);
+  const asyncapi = (normalizedSpec ? `${normalizedSpec} ${channelLabel}` : channelLabel).replace(/"/g, '\\"');
+  const title = sanitizeFrontmatterValue(mapping.title ?? channelLabel);
+  const description = typeof mapping.description === 'string' ? sanitizeFrontmatterValue(mapping.description) : '';
+  const version = typeof mapping.version === 'string' ? sanitizeFrontmatterValue(mapping.version) : '';
+  const warning = normalizedSpec
+    ? ''
+    : '\n> Warning: No AsyncAPI spec source was resolved for this channel. Set `asyncapi` on this tab/group/navigation or at the top level.\n';
+  const descriptionLine = description ? `\ndescription: "${description}"` : '';
+  const versionLine = version ? `\nversion: "${version}"` : '';
+  return `---\ntitle: "${title}"${descriptionLine}${versionLine}\nasyncapi: "${asyncapi}"\n---\n${warning}`;
+}
+
+/**
+ * Write one language's meta files, pages and index page. Non-default
+ * languages (and every language when `useLangFolders`) live under
+ * content/<lang>/.
+ */
+function writeLangContent(
+  langCode: string,
+  artifacts: BuildArtifacts,
+  isDefault: boolean,
+  useLangFolders: boolean,
+  options: ContentWriterOptions,
+) {
+  const writeFile = options.writeFile ?? defaultWriteFile;
+  const storagePrefix = useLangFolders ? langCode : (isDefault ? '' : langCode);
+  const urlPrefix = isDefault ? '' : langCode;
+
+  for (const meta of artifacts.metaFiles) {
+    const dir = storagePrefix ? (meta.dir ? `${storagePrefix}/${meta.dir}` : storagePrefix) : meta.dir;
+    writeFile(join(options.contentDir, dir, 'meta.json'), JSON.stringify(meta.data, null, 2) + '\n');
+  }
+
+  for (const mapping of artifacts.pageMap) {
+    const destPath = join(
+      options.contentDir,
+      storagePrefix ? `${storagePrefix}/${mapping.dest}.mdx` : `${mapping.dest}.mdx`,
+    );
+
+    if (mapping.kind === 'openapi-operation') {
+      writeFile(destPath, renderOperationPage(mapping, options));
+      continue;
+    }
+    if (mapping.kind === 'asyncapi-channel') {
+      writeFile(destPath, renderChannelPage(mapping));
+      continue;
+    }
+
+    const srcPath = resolvePageSource(options.docsDir, mapping.src);
+    if (!srcPath) {
+      options.warn?.(`Missing page source: ${mapping.src}.md(x) (language: ${langCode})`);
+      continue;
+    }
+    if (options.writePage) {
+      options.writePage(srcPath, destPath, mapping.src);
+    } else {
+      writeFile(destPath, renderPage(srcPath, destPath, mapping.src, options));
+    }
+  }
+
+  const href = urlPrefix ? `/${urlPrefix}/${artifacts.firstPage}/` : `/${artifacts.firstPage}/`;
+  const indexPath = storagePrefix ? join(options.contentDir, storagePrefix, 'index.mdx') : join(options.contentDir, 'index.mdx');
+  writeFile(indexPath, renderIndexPage(href));
+}
+
+export interface LanguageArtifacts {
+  language: string;
+  isDefault: boolean;
+  artifacts: BuildArtifacts;
+}
+
+export interface SiteArtifacts {
+  languages: LanguageArtifacts[];
+  /** Every language is stored under content/<lang>/ behind a root meta.json. */
+  useLangFolders: boolean;
+}
+
+/**
+ * Resolve the artifacts for every language:
+ * - Mode 1: per-language navigation (`navigation.languages`), each language
+ *   built from its own tabs.
+ * - Mode 2: one navigation, content duplicated per entry in `languages`.
+ * The first language is the default one and is served without a URL prefix.
+ */
+export function buildSiteArtifacts(config: ContentConfig, docsDir: string): SiteArtifacts {
+  const navLanguages = config.navigation?.languages;
+  if (navLanguages && navLanguages.length > 0) {
+    return {
+      languages: navLanguages.map((langEntry, index) => ({
+        language: langEntry.language,
+        isDefault: index === 0,
+        artifacts: buildArtifacts({ ...config, navigation: { ...config.navigation, tabs: langEntry.tabs } }, docsDir),
+      })),
+      useLangFolders: true,
+    };
+  }
+
+  const simpleLanguages = config.languages && config.languages.length > 0 ? config.languages : ['en'];
+  const artifacts = buildArtifacts(config, docsDir);
+  return {
+    languages: simpleLanguages.map((language, index) => ({ language, isDefault: index === 0, artifacts })),
+    useLangFolders: simpleLanguages.length > 1,
+  };
+}
+
+/** Generate the whole content tree for a config (see `buildSiteArtifacts`). */
+export function writeSiteContent(config: ContentConfig, options: ContentWriterOptions): SiteContentResult {
+  const writeFile = options.writeFile ?? defaultWriteFile;
+  const { languages, useLangFolders } = buildSiteArtifacts(config, options.docsDir);
+  let pageCount = 0;
+  let metaCount = 0;
+
+  for (const { language, isDefault, artifacts } of languages) {
+    writeLangContent(language, artifacts, isDefault, useLangFolders, options);
+    pageCount += artifacts.pageMap.length;
+    metaCount += artifacts.metaFiles.length;
+  }
+
+  if (useLangFolders) {
+    const rootPages = languages.map(({ language }) => `!${language}`);
+    writeFile(join(options.contentDir, 'meta.json'), JSON.stringify({ pages: rootPages }, null, 2) + '\n');
+  }
+
+  const { artifacts } = languages[0];
+  return { pageMap: artifacts.pageMap, firstPage: artifacts.firstPage, pageCount, metaCount };
+}
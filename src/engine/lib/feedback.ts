@@ -0,0 +1,325 @@
+import { randomUUID } from 'node:crypto';
+import { existsSync } from 'node:fs';
+import { appendFile, mkdir, readFile } from 'node:fs/promises';
+import { dirname, isAbsolute, join } from 'node:path';
+
+export type FeedbackSinkConfig =
+  | { type: 'jsonl'; path: string }
+  | { type: 'sqlite'; path: string }
+  | { type: 'webhook'; url: string; headers: Record<string, string> };
+
+export interface FeedbackConfig {
+  /** Where the page widget posts; undefined keeps the hosted Velu API. */
+  endpoint?: string;
+  /** Where `/api/feedback` stores submissions. */
+  sink: FeedbackSinkConfig;
+}
+
+export interface FeedbackEntry {
+  id: string;
+  receivedAt: string;
+  pageUrl: string;
+  /** Site-relative page path without base path or trailing slash, e.g. `/guides/setup`. */
+  pagePath: string;
+  helpful: boolean;
+  reason: string;
+  details?: string;
+  email?: string;
+  siteHost?: string;
+}
+
+export interface FeedbackSink {
+  write(entry: FeedbackEntry): Promise<void>;
+  /** Stored entries, for `velu feedback export`. Sinks that hand entries off elsewhere have none. */
+  read?(): Promise<FeedbackEntry[]>;
+}
+
+export interface FeedbackPageSummary {
+  path: string;
+  total: number;
+  helpful: number;
+  unhelpful: number;
+  /** Share of helpful votes, 0 to 1. */
+  helpfulRate: number;
+  /** Reason text → count, most frequent first. */
+  reasons: Record<string, number>;
+}
+
+export const FEEDBACK_ROUTE = '/api/feedback';
+export const DEFAULT_FEEDBACK_FILE = '.velu-feedback/feedback.jsonl';
+
+const MAX_REASON_LENGTH = 500;
+const MAX_DETAILS_LENGTH = 5000;
+const MAX_EMAIL_LENGTH = 320;
+const SQLITE_UNAVAILABLE = 'The sqlite feedback sink needs node:sqlite: Node.js 22.13 or later, or 22.5 or later with --experimental-sqlite.';
+
+// ── Config ─────────────────────────────────────────────────────────────────────
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+function trimString(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : undefined;
+}
+
+/** `${NAME}` in header values reads the environment, so tokens stay out of docs.json. */
+function expandEnv(value: string): string {
+  return value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (_match, name: string) => process.env[name] ?? '');
+}
+
+function resolveSinkConfig(raw: unknown): FeedbackSinkConfig {
+  if (!isRecord(raw)) return { type: 'jsonl', path: DEFAULT_FEEDBACK_FILE };
+
+  if (raw.type === 'sqlite') {
+    return { type: 'sqlite', path: trimString(raw.path) ?? '.velu-feedback/feedback.db' };
+  }
+  if (raw.type === 'webhook') {
+    const headers = isRecord(raw.headers)
+      ? Object.fromEntries(Object.entries(raw.headers)
+        .filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+        .map(([name, value]) => [name, expandEnv(value)]))
+      : {};
+    return { type: 'webhook', url: trimString(raw.url) ?? '', headers };
+  }
+  return { type: 'jsonl', path: trimString(raw.path) ?? DEFAULT_FEEDBACK_FILE };
+}
+
+/** The `feedback` object from docs.json, with defaults. Null when it is absent. */
+export function resolveFeedbackConfig(raw: unknown): FeedbackConfig | null {
+  if (!isRecord(raw)) return null;
+  return {
+    endpoint: trimString(raw.endpoint),
+    sink: resolveSinkConfig(raw.sink),
+  };
+}
+
+/**
+ * Null when this Node.js can run the configured sink, else why not. `velu run`
+ * checks it when it loads docs.json, so a missing `node:sqlite` stops the
+ * server at start rather than failing the first vote.
+ */
+export function checkFeedbackSink(raw: unknown): string | null {
+  const config = resolveFeedbackConfig(raw);
+  if (config?.sink.type !== 'sqlite') return null;
+  return process.getBuiltinModule?.('node:sqlite') ? null : SQLITE_UNAVAILABLE;
+}
+
+// ── Sinks ──────────────────────────────────────────────────────────────────────
+
+function resolveSinkPath(path: string, baseDir: string): string {
+  return isAbsolute(path) ? path : join(baseDir, path);
+}
+
+function jsonlSink(path: string): FeedbackSink {
+  return {
+    async write(entry) {
+      await mkdir(dirname(path), { recursive: true });
+      await appendFile(path, `${JSON.stringify(entry)}\n`, 'utf-8');
+    },
+    async read() {
+      if (!existsSync(path)) return [];
+      const lines = (await readFile(path, 'utf-8')).split('\n');
+      return lines.flatMap((line) => {
+        if (!line.trim()) return [];
+        try {
+          return [JSON.parse(line) as FeedbackEntry];
+        } catch {
+          return [];
+        }
+      });
+    },
+  };
+}
+
+async function openSqlite(path: string) {
+  let sqlite: typeof import('node:sqlite');
+  try {
+    sqlite = await import('node:sqlite');
+  } catch {
+    throw new Error(SQLITE_UNAVAILABLE);
+  }
+  await mkdir(dirname(path), { recursive: true });
+  const db = new sqlite.DatabaseSync(path);
+  db.exec(`CREATE TABLE IF NOT EXISTS feedback (
+    id TEXT PRIMARY KEY,
+    received_at TEXT NOT NULL,
+    page_url TEXT NOT NULL,
+    page_path TEXT NOT NULL,
+    helpful INTEGER NOT NULL,
+    reason TEXT NOT NULL,
+    details TEXT,
+    email TEXT,
+    site_host TEXT
+  )`);
+  return db;
+}
+
+function sqliteSink(path: string): FeedbackSink {
+  return {
+    async write(entry) {
+      const db = await openSqlite(path);
+      try {
+        db.prepare(`INSERT INTO feedback
+          (id, received_at, page_url, page_path, helpful, reason, details, email, site_host)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`)
+          .run(
+            entry.id,
+            entry.receivedAt,
+            entry.pageUrl,
+            entry.pagePath,
+            entry.helpful ? 1 : 0,
+            entry.reason,
+            entry.details ?? null,
+            entry.email ?? null,
+            entry.siteHost ?? null,
+          );
+      } finally {
+        db.close();
+      }
+    },
+    async read() {
+      if (!existsSync(path)) return [];
+      const db = await openSqlite(path);
+      try {
+        const rows = db.prepare('SELECT * FROM feedback ORDER BY received_at').all() as Array<Record<string, unknown>>;
+        return rows.map((row) => ({
+          id: String(row.id),
+          receivedAt: String(row.received_at),
+          pageUrl: String(row.page_url),
+          pagePath: String(row.page_path),
+          helpful: Number(row.helpful) === 1,
+          reason: String(row.reason),
+          ...(row.details != null ? { details: String(row.details) } : {}),
+          ...(row.email != null ? { email: String(row.email) } : {}),
+          ...(row.site_host != null ? { siteHost: String(row.site_host) } : {}),
+        }));
+      } finally {
+        db.close();
+      }
+    },
+  };
+}
+
+function webhookSink(url: string, headers: Record<string, string>): FeedbackSink {
+  return {
+    async write(entry) {
+      if (!url) throw new Error('The webhook feedback sink needs a `url`.');
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', ...headers },
+        body: JSON.stringify(entry),
+      });
+      if (!response.ok) throw new Error(`Feedback webhook answered ${response.status}.`);
+    },
+  };
+}
+
+/** File paths are relative to `baseDir`, the docs directory. */
+export function createFeedbackSink(config: FeedbackSinkConfig, baseDir: string): FeedbackSink {
+  switch (config.type) {
+    case 'sqlite':
+      return sqliteSink(resolveSinkPath(config.path, baseDir));
+    case 'webhook':
+      return webhookSink(config.url, config.headers);
+    default:
+      return jsonlSink(resolveSinkPath(config.path, baseDir));
+  }
+}
+
+// ── Submissions ────────────────────────────────────────────────────────────────
+
+function toPagePath(pageUrl: string, basePath: string): string {
+  let pathname: string;
+  try {
+    pathname = decodeURI(new URL(pageUrl, 'http://velu.local').pathname);
+  } catch {
+    pathname = pageUrl;
+  }
+  if (basePath && (pathname === basePath || pathname.startsWith(`${basePath}/`))) {
+    pathname = pathname.slice(basePath.length);
+  }
+  const collapsed = pathname.replace(/\/{2,}/g, '/').replace(/\/+$/, '');
+  return collapsed.startsWith('/') ? collapsed : `/${collapsed}`;
+}
+
+/**
+ * Validate a widget submission (`PublicFeedbackPayload`: `page_url`,
+ * `helpful`, `reason_text`, optional `details` and `email`).
+ */
+export function parseFeedbackSubmission(
+  body: unknown,
+  options: { basePath: string; siteHost?: string },
+): { entry: FeedbackEntry } | { error: string } {
+  if (!isRecord(body)) return { error: 'Expected a JSON object.' };
+  const pageUrl = trimString(body.page_url);
+  const reason = trimString(body.reason_text);
+  if (!pageUrl) return { error: '`page_url` is required.' };
+  if (typeof body.helpful !== 'boolean') return { error: '`helpful` must be true or false.' };
+  if (!reason) return { error: '`reason_text` is required.' };
+
+  const details = trimString(body.details);
+  const email = trimString(body.email);
+  if (reason.length > MAX_REASON_LENGTH) return { error: `\`reason_text\` is longer than ${MAX_REASON_LENGTH} characters.` };
+  if (details && details.length > MAX_DETAILS_LENGTH) return { error: `\`details\` is longer than ${MAX_DETAILS_LENGTH} characters.` };
+  if (email && (email.length > MAX_EMAIL_LENGTH || !email.includes('@'))) return { error: '`email` is not an email address.' };
+
+  return {
+    entry: {
+      id: randomUUID(),
+      receivedAt: new Date().toISOString(),
+      pageUrl,
+      pagePath: toPagePath(pageUrl, options.basePath),
+      helpful: body.helpful,
+      reason,
+      ...(details ? { details } : {}),
+      ...(email ? { email } : {}),
+      ...(options.siteHost ? { siteHost: options.siteHost } : {}),
+    },
+  };
+}
+
+// ── Reporting ──────────────────────────────────────────────────────────────────
+
+/** Votes per page, least helpful first so pages that need work lead the report. */
+export function summarizeFeedback(entries: FeedbackEntry[]): FeedbackPageSummary[] {
+  const pages = new Map<string, FeedbackPageSummary>();
+  for (const entry of entries) {
+    const summary = pages.get(entry.pagePath)
+      ?? { path: entry.pagePath, total: 0, helpful: 0, unhelpful: 0, helpfulRate: 0, reasons: {} };
+    summary.total += 1;
+    if (entry.helpful) summary.helpful += 1;
+    else summary.unhelpful += 1;
+    summary.reasons[entry.reason] = (summary.reasons[entry.reason] ?? 0) + 1;
+    pages.set(entry.pagePath, summary);
+  }
+
+  return Array.from(pages.values())
+    .map((summary) => ({
+      ...summary,
+      helpfulRate: summary.total > 0 ? summary.helpful / summary.total : 0,
+      reasons: Object.fromEntries(Object.entries(summary.reasons).sort((a, b) => b[1] - a[1])),
+    }))
+    .sort((a, b) => a.helpfulRate - b.helpfulRate || b.total - a.total || a.path.localeCompare(b.path));
+}
+
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function formatFeedbackCsv(summaries: FeedbackPageSummary[]): string {
+  const rows = summaries.map((summary) => [
+    summary.path,
+    summary.total,
+    summary.helpful,
+    summary.unhelpful,
+    summary.helpfulRate.toFixed(3),
+    Object.keys(summary.reasons)[0] ?? '',
+  ]);
+  return [['page', 'responses', 'helpful', 'unhelpful', 'helpful_rate', 'top_reason'], ...rows]
+    .map((row) => row.map(csvField).join(','))
+    .join('\n');
+}
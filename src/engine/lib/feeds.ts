@@ -0,0 +1,307 @@
+import type { Nodes } from 'hast';
+import { toHtml } from 'hast-util-to-html';
+import remarkGfm from 'remark-gfm';
+import remarkParse from 'remark-parse';
+import remarkRehype from 'remark-rehype';
+import { unified } from 'unified';
+import {
+  CHANGELOG_FEED_FILES,
+  CHANGELOG_FEED_TYPES,
+  getChangelogArchives,
+  getUpdateRssEntries,
+  parseChangelogFromMarkdown,
+  parseUpdateDate,
+  slugifyChangelogTag,
+  type ChangelogFeedFormat,
+  type ChangelogUpdateEntry,
+} from '@/lib/changelog';
+import { collectLlmsPages, normalizePath } from '@/lib/llms';
+import { getLanguages, getSiteDescription, getSiteName, getSiteUrl } from '@/lib/velu';
+
+export interface FeedItem {
+  /** Stable across builds: page URL plus the update (and heading) anchor. */
+  id: string;
+  url: string;
+  title: string;
+  summary: string;
+  html: string;
+  date?: Date;
+  tags: string[];
+}
+
+export interface Feed {
+  title: string;
+  description: string;
+  homeUrl: string;
+  /** Absolute URL the feed files live under, e.g. `https://example.com/changelog`. */
+  feedBaseUrl: string;
+  items: FeedItem[];
+}
+
+export interface ChangelogPage {
+  /** Route slug, with the language prefix for non-default languages. */
+  slug: string[];
+  path: string;
+  locale: string;
+  title: string;
+  description?: string;
+  noindex: boolean;
+  tags: string[];
+  updates: ChangelogUpdateEntry[];
+}
+
+const DEFAULT_FEED_DESCRIPTION = 'Product updates and announcements';
+
+// ── Collecting ─────────────────────────────────────────────────────────────
+
+export async function collectChangelogPages(): Promise<ChangelogPage[]> {
+  const pages = await collectLlmsPages({ includeMarkdown: true, indexing: 'all' });
+  return pages.flatMap((page) => {
+    const parsed = parseChangelogFromMarkdown(page.markdown);
+    if (parsed.updates.length === 0) return [];
+    return [{
+      slug: page.slug,
+      path: normalizePath(page.path),
+      locale: page.locale,
+      title: page.title,
+      description: page.description,
+      noindex: page.noindex,
+      tags: parsed.tags,
+      updates: parsed.updates,
+    }];
+  });
+}
+
+function absolutizeUrls(node: Nodes, siteUrl: string) {
+  const absolute = (value: string) => (value.startsWith('/') && !value.startsWith('//') ? `${siteUrl}${value}` : value);
+  if (node.type === 'element') {
+    for (const key of ['href', 'src']) {
+      const value = node.properties[key];
+      if (typeof value === 'string') node.properties[key] = absolute(value);
+    }
+  } else if (node.type === 'raw') {
+    node.value = node.value.replace(/\b(href|src)="(\/[^/"][^"]*|\/)"/g, (_match, name: string, value: string) => `${name}="${absolute(value)}"`);
+  }
+  if ('children' in node) {
+    for (const child of node.children) absolutizeUrls(child, siteUrl);
+  }
+}
+
+const markdownProcessor = unified()
+  .use(remarkParse)
+  .use(remarkGfm)
+  .use(remarkRehype, { allowDangerousHtml: true });
+
+/** Feed readers get plain HTML: MDX imports and comments are dropped, components pass through as tags. */
+function renderItemHtml(markdown: string, siteUrl: string): string {
+  const cleaned = markdown
+    .replace(/^(?:import|export)\s.*$/gm, '')
+    .replace(/\{\/\*[\s\S]*?\*\/\}/g, '')
+    .trim();
+  if (!cleaned) return '';
+  const tree = markdownProcessor.runSync(markdownProcessor.parse(cleaned));
+  absolutizeUrls(tree, siteUrl);
+  return toHtml(tree, { allowDangerousHtml: true });
+}
+
+function pageFeedItems(page: ChangelogPage, siteUrl: string): FeedItem[] {
+  const pageUrl = `${siteUrl}${page.path}`;
+  const seen = new Map<string, number>();
+
+  return page.updates.flatMap((update) => {
+    const date = parseUpdateDate(update);
+    return getUpdateRssEntries(update).map((entry) => {
+      // Heading anchors repeat across updates ("Fixes"), so ids nest them under the update.
+      const key = entry.anchor === update.anchor ? update.anchor : `${update.anchor}/${entry.anchor}`;
+      const count = seen.get(key) ?? 0;
+      seen.set(key, count + 1);
+      return {
+        id: `${pageUrl}#${count === 0 ? key : `${key}-${count}`}`,
+        url: `${pageUrl}#${entry.anchor || update.anchor}`,
+        title: entry.title,
+        summary: entry.description,
+        html: renderItemHtml(entry.contentMarkdown, siteUrl) || `<p>${escapeXml(entry.description)}</p>`,
+        date,
+        tags: update.tags,
+      };
+    });
+  });
+}
+
+/** Newest first; undated items keep their page order after the dated ones. */
+function sortByDate(items: FeedItem[]): FeedItem[] {
+  return [...items].sort((a, b) => (b.date?.getTime() ?? -Infinity) - (a.date?.getTime() ?? -Infinity));
+}
+
+/** Feed for one changelog page, e.g. `/changelog`. Null when the page has no `<Update>` blocks. */
+export async function loadPageFeed(path: string): Promise<Feed | null> {
+  const normalized = normalizePath(path);
+  const page = (await collectChangelogPages()).find((entry) => entry.path === normalized);
+  if (!page) return null;
+
+  const siteUrl = getSiteUrl();
+  return {
+    title: page.title,
+    description: page.description ?? DEFAULT_FEED_DESCRIPTION,
+    homeUrl: `${siteUrl}${page.path}`,
+    feedBaseUrl: `${siteUrl}${page.path}`,
+    items: pageFeedItems(page, siteUrl),
+  };
+}
+
+/**
+ * Feed of one changelog page's updates with a tag, e.g. `/changelog/tags/api`.
+ * `tagSlug` is matched against slugified tags, so `API` and `api` are the same.
+ */
+export async function loadTagFeed(path: string, tagSlug: string): Promise<Feed | null> {
+  const normalized = normalizePath(path);
+  const page = (await collectChangelogPages()).find((entry) => entry.path === normalized);
+  const tag = page?.tags.find((entry) => slugifyChangelogTag(entry) === tagSlug);
+  if (!page || !tag) return null;
+
+  const siteUrl = getSiteUrl();
+  const archiveUrl = `${siteUrl}${page.path}/tags/${tagSlug}`;
+  const tagged = { ...page, updates: page.updates.filter((update) => update.tags.some((entry) => slugifyChangelogTag(entry) === tagSlug)) };
+  return {
+    title: `${page.title}: ${tag}`,
+    description: page.description ?? DEFAULT_FEED_DESCRIPTION,
+    homeUrl: archiveUrl,
+    feedBaseUrl: archiveUrl,
+    items: pageFeedItems(tagged, siteUrl),
+  };
+}
+
+/** Every indexed changelog page of one language merged into a single feed. */
+export async function loadSiteFeed(locale: string): Promise<Feed | null> {
+  const pages = (await collectChangelogPages()).filter((page) => page.locale === locale && !page.noindex);
+  if (pages.length === 0) return null;
+
+  const siteUrl = getSiteUrl();
+  const defaultLanguage = getLanguages()[0] ?? 'en';
+  const localeBaseUrl = locale === defaultLanguage ? siteUrl : `${siteUrl}/${locale}`;
+  return {
+    title: `${getSiteName()} Changelog`,
+    description: getSiteDescription() ?? DEFAULT_FEED_DESCRIPTION,
+    homeUrl: pages.length === 1 ? `${siteUrl}${pages[0].path}` : `${localeBaseUrl}/`,
+    feedBaseUrl: localeBaseUrl,
+    items: sortByDate(pages.flatMap((page) => pageFeedItems(page, siteUrl))),
+  };
+}
+
+/** Paths of all changelog pages, their tag feeds and the languages that have one, for static export. */
+export async function listFeedSources(): Promise<{ pagePaths: string[]; tagPaths: string[]; locales: string[] }> {
+  const pages = await collectChangelogPages();
+  return {
+    pagePaths: pages.map((page) => page.path),
+    tagPaths: pages.flatMap((page) => getChangelogArchives(page)
+      .filter((archive) => archive.kind === 'tag')
+      .map((archive) => `${page.path}/${archive.segments.join('/')}`)),
+    locales: Array.from(new Set(pages.filter((page) => !page.noindex).map((page) => page.locale))),
+  };
+}
+
+// ── Rendering ──────────────────────────────────────────────────────────────
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function cdata(value: string): string {
+  return `<![CDATA[${value.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+}
+
+function feedUrl(feed: Feed, format: ChangelogFeedFormat): string {
+  return `${feed.feedBaseUrl}/${CHANGELOG_FEED_FILES[format]}`;
+}
+
+function latestDate(feed: Feed): Date {
+  const dates = feed.items.flatMap((item) => (item.date ? [item.date.getTime()] : []));
+  return dates.length > 0 ? new Date(Math.max(...dates)) : new Date();
+}
+
+function renderRss(feed: Feed): string {
+  const items = feed.items.map((item) => [
+    '<item>',
+    `      <title>${cdata(item.title)}</title>`,
+    `      <description>${cdata(item.summary)}</description>`,
+    `      <content:encoded>${cdata(item.html)}</content:encoded>`,
+    `      <link>${escapeXml(item.url)}</link>`,
+    `      <guid isPermaLink="false">${escapeXml(item.id)}</guid>`,
+    ...(item.date ? [`      <pubDate>${item.date.toUTCString()}</pubDate>`] : []),
+    ...item.tags.map((tag) => `      <category>${cdata(tag)}</category>`),
+    '    </item>',
+  ].join('\n'));
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" version="2.0">
+  <channel>
+    <title>${cdata(feed.title)}</title>
+    <description>${cdata(feed.description)}</description>
+    <link>${escapeXml(feed.homeUrl)}</link>
+    <generator>Velu</generator>
+    <lastBuildDate>${latestDate(feed).toUTCString()}</lastBuildDate>
+    <atom:link href="${escapeXml(feedUrl(feed, 'rss'))}" rel="self" type="${CHANGELOG_FEED_TYPES.rss}"/>
+    ${items.join('\n    ')}
+  </channel>
+</rss>
+`;
+}
+
+function renderAtom(feed: Feed): string {
+  const updated = latestDate(feed).toISOString();
+  const entries = feed.items.map((item) => [
+    '<entry>',
+    `    <title>${escapeXml(item.title)}</title>`,
+    `    <id>${escapeXml(item.id)}</id>`,
+    `    <link href="${escapeXml(item.url)}" rel="alternate" type="text/html"/>`,
+    `    <updated>${item.date?.toISOString() ?? updated}</updated>`,
+    ...(item.date ? [`    <published>${item.date.toISOString()}</published>`] : []),
+    `    <summary>${escapeXml(item.summary)}</summary>`,
+    `    <content type="html">${escapeXml(item.html)}</content>`,
+    ...item.tags.map((tag) => `    <category term="${escapeXml(tag)}"/>`),
+    '  </entry>',
+  ].join('\n'));
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>${escapeXml(feed.title)}</title>
+  <subtitle>${escapeXml(feed.description)}</subtitle>
+  <id>${escapeXml(feedUrl(feed, 'atom'))}</id>
+  <link href="${escapeXml(feedUrl(feed, 'atom'))}" rel="self" type="${CHANGELOG_FEED_TYPES.atom}"/>
+  <link href="${escapeXml(feed.homeUrl)}" rel="alternate" type="text/html"/>
+  <updated>${updated}</updated>
+  <generator>Velu</generator>
+  ${entries.join('\n  ')}
+</feed>
+`;
+}
+
+function renderJsonFeed(feed: Feed): string {
+  return `${JSON.stringify({
+    version: 'https://jsonfeed.org/version/1.1',
+    title: feed.title,
+    description: feed.description,
+    home_page_url: feed.homeUrl,
+    feed_url: feedUrl(feed, 'json'),
+    items: feed.items.map((item) => ({
+      id: item.id,
+      url: item.url,
+      title: item.title,
+      summary: item.summary,
+      content_html: item.html,
+      ...(item.date ? { date_published: item.date.toISOString() } : {}),
+      ...(item.tags.length > 0 ? { tags: item.tags } : {}),
+    })),
+  }, null, 2)}\n`;
+}
+
+export function renderFeed(feed: Feed, format: ChangelogFeedFormat): string {
+  if (format === 'atom') return renderAtom(feed);
+  if (format === 'json') return renderJsonFeed(feed);
+  return renderRss(feed);
+}
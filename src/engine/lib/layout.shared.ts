@@ -1,7 +1,7 @@
 import type { BaseLayoutProps } from 'fumadocs-ui/layouts/shared';
 import { createElement } from 'react';
 import { VersionSwitcher } from '@/components/version-switcher';
-import { getExternalTabs, getNavbarAnchors, getSiteLogoAsset, getSiteName, getVersionOptions, type VeluConfigSource } from '@/lib/velu';
+import { getExternalTabs, getNavbarAnchors, getSiteLogoAsset, getSiteName, getVersionOptions, withBasePath, type VeluConfigSource } from '@/lib/velu';
 
 export function baseOptions(src?: VeluConfigSource): BaseLayoutProps {
   const externalTabs = getExternalTabs(src);
@@ -9,8 +9,10 @@ export function baseOptions(src?: VeluConfigSource): BaseLayoutProps {
   const versions = getVersionOptions(src);
   const siteName = getSiteName(src);
   const logo = getSiteLogoAsset(src);
-  const lightLogo = logo.light ?? logo.dark;
-  const darkLogo = logo.dark ?? logo.light;
+  const lightLogoPath = logo.light ?? logo.dark;
+  const darkLogoPath = logo.dark ?? logo.light;
+  const lightLogo = lightLogoPath ? withBasePath(lightLogoPath, src) : undefined;
+  const darkLogo = darkLogoPath ? withBasePath(darkLogoPath, src) : undefined;
   const logoHref = typeof logo.href === 'string' && logo.href.trim().length > 0 ? logo.href.trim() : '/';
 
   const navTitle =
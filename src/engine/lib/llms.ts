@@ -15,6 +15,8 @@ export interface LlmsPageEntry {
   markdown?: string;
   sourceKind: 'source' | 'generated';
   openapiSpec?: string;
+  openapiMethod?: string;
+  openapiEndpoint?: string;
   isOpenApiOperation: boolean;
   noindex: boolean;
 }
@@ -134,7 +136,14 @@ const HTTP_METHODS = new Set([
   'GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS', 'HEAD', 'TRACE', 'CONNECT', 'WEBHOOK',
 ]);
 
-function parseOpenApiFrontmatter(rawValue: string | undefined, defaultSpec?: string): { spec?: string; isOperation: boolean } {
+interface ParsedOpenApiFrontmatter {
+  spec?: string;
+  method?: string;
+  endpoint?: string;
+  isOperation: boolean;
+}
+
+function parseOpenApiFrontmatter(rawValue: string | undefined, defaultSpec?: string): ParsedOpenApiFrontmatter {
   if (!rawValue) return { spec: undefined, isOperation: false };
   const trimmed = rawValue.trim();
   if (!trimmed) return { spec: undefined, isOperation: false };
@@ -145,7 +154,7 @@ function parseOpenApiFrontmatter(rawValue: string | undefined, defaultSpec?: str
     const endpoint = withSpec[3].trim();
     if (!HTTP_METHODS.has(method) || !endpoint) return { spec: undefined, isOperation: false };
     if (method !== 'WEBHOOK' && !endpoint.startsWith('/')) return { spec: undefined, isOperation: false };
-    return { spec: withSpec[1].trim(), isOperation: true };
+    return { spec: withSpec[1].trim(), method, endpoint, isOperation: true };
   }
 
   const noSpec = trimmed.match(/^([A-Za-z]+)\s+(.+)$/);
@@ -154,7 +163,7 @@ function parseOpenApiFrontmatter(rawValue: string | undefined, defaultSpec?: str
     const endpoint = noSpec[2].trim();
     if (!HTTP_METHODS.has(method) || !endpoint) return { spec: undefined, isOperation: false };
     if (method !== 'WEBHOOK' && !endpoint.startsWith('/')) return { spec: undefined, isOperation: false };
-    return { spec: defaultSpec?.trim(), isOperation: true };
+    return { spec: defaultSpec?.trim(), method, endpoint, isOperation: true };
   }
 
   return { spec: undefined, isOperation: false };
@@ -361,6 +370,8 @@ export async function collectLlmsPages(options: CollectLlmsPagesOptions = {}): P
       markdown: content,
       sourceKind,
       openapiSpec: openapi.spec,
+      openapiMethod: openapi.method,
+      openapiEndpoint: openapi.endpoint,
       isOpenApiOperation: openapi.isOperation,
       noindex,
     });
@@ -0,0 +1,470 @@
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+import { collectLlmsPages, getSiteTitle, normalizePath, type LlmsPageEntry } from '@/lib/llms';
+import { getBasePath, getCliVersion } from '@/lib/velu';
+
+export interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: string | number | null;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+export interface McpContext {
+  /** Origin plus base path, used to build absolute page URLs in tool results. */
+  origin: string;
+}
+
+interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id?: string | number | null;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+interface McpToolResult {
+  content: Array<{ type: 'text'; text: string }>;
+  isError?: boolean;
+}
+
+interface McpTool {
+  name: string;
+  description: string;
+  inputSchema: Record<string, unknown>;
+  run: (args: Record<string, unknown>, context: McpContext) => Promise<McpToolResult>;
+}
+
+const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+const DEFAULT_SEARCH_LIMIT = 10;
+const MAX_SEARCH_LIMIT = 50;
+const SNIPPET_RADIUS = 120;
+const OPENAPI_METHODS = ['get', 'post', 'put', 'patch', 'delete', 'options', 'head', 'trace'] as const;
+
+const JSON_RPC_PARSE_ERROR = -32700;
+const JSON_RPC_INVALID_REQUEST = -32600;
+const JSON_RPC_METHOD_NOT_FOUND = -32601;
+const JSON_RPC_INVALID_PARAMS = -32602;
+const JSON_RPC_INTERNAL_ERROR = -32603;
+
+class McpParamsError extends Error {}
+
+// ── Pages ──────────────────────────────────────────────────────────────────
+
+async function loadPages(): Promise<LlmsPageEntry[]> {
+  return collectLlmsPages({ includeMarkdown: true });
+}
+
+function toPageUrl(origin: string, path: string): string {
+  return `${origin}${normalizePath(path)}`;
+}
+
+function toMarkdownUrl(origin: string, path: string): string {
+  return `${toPageUrl(origin, path)}.md`;
+}
+
+function normalizePageInput(value: string): string {
+  let path = value.trim();
+  if (/^https?:\/\//i.test(path)) {
+    try {
+      path = new URL(path).pathname;
+      const basePath = getBasePath();
+      if (basePath && (path === basePath || path.startsWith(`${basePath}/`))) {
+        path = path.slice(basePath.length);
+      }
+    } catch {
+      // keep the raw value
+    }
+  }
+  path = path.replace(/[?#].*$/, '').replace(/\.md$/i, '');
+  return normalizePath(path);
+}
+
+function findPage(pages: LlmsPageEntry[], value: string): LlmsPageEntry | undefined {
+  const path = normalizePageInput(value);
+  return pages.find((page) => page.path === path);
+}
+
+function tokenizeQuery(query: string): string[] {
+  return query
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((term) => term.length > 0);
+}
+
+function countOccurrences(haystack: string, needle: string): number {
+  let count = 0;
+  let index = haystack.indexOf(needle);
+  while (index !== -1 && count < 20) {
+    count += 1;
+    index = haystack.indexOf(needle, index + needle.length);
+  }
+  return count;
+}
+
+function scorePage(page: LlmsPageEntry, terms: string[]): number {
+  const title = page.title.toLowerCase();
+  const description = (page.description ?? '').toLowerCase();
+  const path = page.path.toLowerCase();
+  const body = (page.markdown ?? '').toLowerCase();
+  let score = 0;
+
+  for (const term of terms) {
+    const termScore = (title.includes(term) ? 10 : 0)
+      + (description.includes(term) ? 4 : 0)
+      + (path.includes(term) ? 3 : 0)
+      + countOccurrences(body, term);
+    // Every term must match somewhere for the page to qualify.
+    if (termScore === 0) return 0;
+    score += termScore;
+  }
+
+  return score;
+}
+
+function buildSnippet(markdown: string | undefined, terms: string[]): string | undefined {
+  if (!markdown) return undefined;
+  const text = markdown.replace(/\s+/g, ' ').trim();
+  if (!text) return undefined;
+
+  const lower = text.toLowerCase();
+  const hit = terms
+    .map((term) => lower.indexOf(term))
+    .filter((index) => index !== -1)
+    .sort((a, b) => a - b)[0];
+  const start = Math.max(0, (hit ?? 0) - SNIPPET_RADIUS);
+  const end = Math.min(text.length, (hit ?? 0) + SNIPPET_RADIUS);
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+  return `${prefix}${text.slice(start, end).trim()}${suffix}`;
+}
+
+// ── OpenAPI ────────────────────────────────────────────────────────────────
+
+function asRecord(value: unknown): Record<string, unknown> | undefined {
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : undefined;
+}
+
+function parseOpenApiDocument(rawSource: string): Record<string, unknown> | null {
+  const sourceText = rawSource.trim();
+  if (!sourceText) return null;
+
+  try {
+    const parsed = JSON.parse(sourceText);
+    if (parsed && typeof parsed === 'object') return parsed as Record<string, unknown>;
+  } catch {
+    // Fall through to YAML parse.
+  }
+
+  try {
+    const parsed = parseYaml(sourceText);
+    if (parsed && typeof parsed === 'object') return parsed as Record<string, unknown>;
+  } catch {
+    // ignore
+  }
+
+  return null;
+}
+
+async function loadOpenApiDocument(specSource: string): Promise<Record<string, unknown> | null> {
+  const sourceText = specSource.trim();
+  if (!sourceText) return null;
+
+  if (/^https?:\/\//i.test(sourceText)) {
+    try {
+      const response = await fetch(sourceText);
+      if (!response.ok) return null;
+      return parseOpenApiDocument(await response.text());
+    } catch {
+      return null;
+    }
+  }
+
+  const relative = sourceText.replace(/^\/+/, '');
+  const candidates = [
+    join(process.cwd(), 'public', relative),
+    join(process.cwd(), relative),
+    join(process.cwd(), 'content', 'docs', relative),
+  ];
+
+  for (const candidate of candidates) {
+    try {
+      const parsed = parseOpenApiDocument(await readFile(candidate, 'utf-8'));
+      if (parsed) return parsed;
+    } catch {
+      // ignore and continue
+    }
+  }
+
+  return null;
+}
+
+function resolveOperation(
+  document: Record<string, unknown>,
+  method: string,
+  endpoint: string,
+): { endpoint: string; method: string; operation: Record<string, unknown> } | null {
+  const isWebhook = method.toUpperCase() === 'WEBHOOK';
+  const container = asRecord(isWebhook ? document.webhooks : document.paths);
+  if (!container) return null;
+
+  const trimmed = endpoint.replace(/^\/+/, '');
+  for (const candidate of [endpoint, `/${trimmed}`, trimmed]) {
+    const pathItem = asRecord(container[candidate]);
+    if (!pathItem) continue;
+    const methods = isWebhook ? [...OPENAPI_METHODS] : [method.toLowerCase()];
+    for (const candidateMethod of methods) {
+      const operation = asRecord(pathItem[candidateMethod]);
+      if (operation) return { endpoint: candidate, method: candidateMethod, operation };
+    }
+  }
+
+  return null;
+}
+
+function describeOperation(page: LlmsPageEntry, origin: string) {
+  return {
+    method: page.openapiMethod,
+    endpoint: page.openapiEndpoint,
+    title: page.title,
+    description: page.description,
+    spec: page.openapiSpec,
+    path: page.path,
+    url: toPageUrl(origin, page.path),
+  };
+}
+
+// ── Tools ──────────────────────────────────────────────────────────────────
+
+function textResult(text: string, isError = false): McpToolResult {
+  return isError ? { content: [{ type: 'text', text }], isError } : { content: [{ type: 'text', text }] };
+}
+
+function jsonResult(value: unknown): McpToolResult {
+  return textResult(JSON.stringify(value, null, 2));
+}
+
+function readStringArg(args: Record<string, unknown>, key: string, required: true): string;
+function readStringArg(args: Record<string, unknown>, key: string, required?: false): string | undefined;
+function readStringArg(args: Record<string, unknown>, key: string, required = false): string | undefined {
+  const value = args[key];
+  if (typeof value === 'string' && value.trim().length > 0) return value.trim();
+  if (required) throw new McpParamsError(`Missing required argument: ${key}`);
+  return undefined;
+}
+
+const TOOLS: McpTool[] = [
+  {
+    name: 'search_pages',
+    description: 'Search the documentation by keyword. Returns matching pages with their URLs and a short excerpt.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Keywords to search for' },
+        limit: { type: 'number', description: `Maximum number of results (default ${DEFAULT_SEARCH_LIMIT}, max ${MAX_SEARCH_LIMIT})` },
+        locale: { type: 'string', description: 'Only return pages in this language' },
+      },
+      required: ['query'],
+    },
+    async run(args, context) {
+      const query = readStringArg(args, 'query', true);
+      const locale = readStringArg(args, 'locale');
+      const rawLimit = typeof args.limit === 'number' && Number.isFinite(args.limit) ? Math.floor(args.limit) : DEFAULT_SEARCH_LIMIT;
+      const limit = Math.min(Math.max(rawLimit, 1), MAX_SEARCH_LIMIT);
+      const terms = tokenizeQuery(query);
+      if (terms.length === 0) return jsonResult([]);
+
+      const pages = (await loadPages()).filter((page) => !page.noindex && (!locale || page.locale === locale));
+      const results = pages
+        .map((page) => ({ page, score: scorePage(page, terms) }))
+        .filter((entry) => entry.score > 0)
+        .sort((a, b) => b.score - a.score || a.page.path.localeCompare(b.page.path))
+        .slice(0, limit)
+        .map(({ page }) => ({
+          title: page.title,
+          description: page.description,
+          section: page.section,
+          path: page.path,
+          url: toPageUrl(context.origin, page.path),
+          markdownUrl: toMarkdownUrl(context.origin, page.path),
+          excerpt: buildSnippet(page.markdown, terms),
+        }));
+
+      return jsonResult(results);
+    },
+  },
+  {
+    name: 'get_page',
+    description: 'Fetch the full markdown of a documentation page by its path or URL.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: { type: 'string', description: 'Page path (e.g. /guides/quickstart) or full page URL' },
+      },
+      required: ['path'],
+    },
+    async run(args) {
+      const input = readStringArg(args, 'path', true);
+      const page = findPage(await loadPages(), input);
+      if (!page) return textResult(`Page not found: ${input}`, true);
+
+      const lines = [`# ${page.title}`, ''];
+      if (page.description) lines.push(`> ${page.description}`, '');
+      const body = (page.markdown ?? '').replace(/^#\s+.+\r?\n+/, '').trim();
+      if (body) lines.push(body, '');
+      return textResult(lines.join('\n'));
+    },
+  },
+  {
+    name: 'list_openapi_operations',
+    description: 'List the API operations documented on this site, with their HTTP method, endpoint and page path.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        spec: { type: 'string', description: 'Only list operations from this OpenAPI spec' },
+      },
+    },
+    async run(args, context) {
+      const spec = readStringArg(args, 'spec');
+      const operations = (await loadPages())
+        .filter((page) => page.isOpenApiOperation && !page.noindex)
+        .filter((page) => !spec || page.openapiSpec === spec)
+        .map((page) => describeOperation(page, context.origin));
+      return jsonResult(operations);
+    },
+  },
+  {
+    name: 'get_openapi_operation',
+    description: 'Inspect a single API operation: returns its OpenAPI definition (parameters, request body, responses) as YAML.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: { type: 'string', description: 'Page path of the operation, as returned by list_openapi_operations' },
+        method: { type: 'string', description: 'HTTP method (used with endpoint when path is not given)' },
+        endpoint: { type: 'string', description: 'Endpoint path such as /users/{id} (used with method when path is not given)' },
+      },
+    },
+    async run(args) {
+      const pathArg = readStringArg(args, 'path');
+      const methodArg = readStringArg(args, 'method');
+      const endpointArg = readStringArg(args, 'endpoint');
+      if (!pathArg && !(methodArg && endpointArg)) {
+        throw new McpParamsError('Provide either path, or both method and endpoint');
+      }
+
+      const operations = (await loadPages()).filter((page) => page.isOpenApiOperation);
+      const page = pathArg
+        ? findPage(operations, pathArg)
+        : operations.find((entry) => entry.openapiMethod === methodArg!.toUpperCase() && entry.openapiEndpoint === endpointArg);
+      const label = pathArg ?? `${methodArg!.toUpperCase()} ${endpointArg}`;
+      if (!page || !page.openapiMethod || !page.openapiEndpoint) return textResult(`Operation not found: ${label}`, true);
+      if (!page.openapiSpec) return textResult(`No OpenAPI spec configured for: ${label}`, true);
+
+      const document = await loadOpenApiDocument(page.openapiSpec);
+      if (!document) return textResult(`Could not load OpenAPI spec: ${page.openapiSpec}`, true);
+      const resolved = resolveOperation(document, page.openapiMethod, page.openapiEndpoint);
+      if (!resolved) return textResult(`Operation not found in ${page.openapiSpec}: ${label}`, true);
+
+      const isWebhook = page.openapiMethod === 'WEBHOOK';
+      const snippet: Record<string, unknown> = {
+        ...(Array.isArray(document.servers) ? { servers: document.servers } : {}),
+        ...(Array.isArray(document.security) ? { security: document.security } : {}),
+        [isWebhook ? 'webhooks' : 'paths']: { [resolved.endpoint]: { [resolved.method]: resolved.operation } },
+        ...(asRecord(document.components) ? { components: document.components } : {}),
+      };
+      const heading = isWebhook ? `webhook ${resolved.endpoint}` : `${resolved.method.toUpperCase()} ${resolved.endpoint}`;
+      return textResult(`# ${page.title}\n\n${heading}\n\n\`\`\`yaml\n${stringifyYaml(snippet).trimEnd()}\n\`\`\`\n`);
+    },
+  },
+];
+
+// ── JSON-RPC ───────────────────────────────────────────────────────────────
+
+function errorResponse(id: string | number | null, code: number, message: string): JsonRpcResponse {
+  return { jsonrpc: '2.0', id, error: { code, message } };
+}
+
+export function mcpParseErrorResponse(): JsonRpcResponse {
+  return errorResponse(null, JSON_RPC_PARSE_ERROR, 'Parse error');
+}
+
+function isJsonRpcRequest(value: unknown): value is JsonRpcRequest {
+  const record = asRecord(value);
+  return !!record && record.jsonrpc === '2.0' && typeof record.method === 'string';
+}
+
+function negotiateProtocolVersion(requested: unknown): string {
+  if (typeof requested === 'string' && SUPPORTED_PROTOCOL_VERSIONS.includes(requested)) return requested;
+  return SUPPORTED_PROTOCOL_VERSIONS[0];
+}
+
+async function dispatch(request: JsonRpcRequest, context: McpContext): Promise<unknown> {
+  const params = request.params ?? {};
+
+  switch (request.method) {
+    case 'initialize':
+      return {
+        protocolVersion: negotiateProtocolVersion(params.protocolVersion),
+        capabilities: { tools: { listChanged: false } },
+        serverInfo: { name: getSiteTitle(), version: getCliVersion() },
+        instructions: `Documentation for ${getSiteTitle()}. Use search_pages to find relevant pages, then get_page to read them.`,
+      };
+    case 'ping':
+      return {};
+    case 'tools/list':
+      return {
+        tools: TOOLS.map(({ name, description, inputSchema }) => ({ name, description, inputSchema })),
+      };
+    case 'tools/call': {
+      const tool = TOOLS.find((entry) => entry.name === params.name);
+      if (!tool) throw new McpParamsError(`Unknown tool: ${String(params.name)}`);
+      return tool.run(asRecord(params.arguments) ?? {}, context);
+    }
+    default:
+      return undefined;
+  }
+}
+
+async function handleMessage(message: unknown, context: McpContext): Promise<JsonRpcResponse | null> {
+  if (!isJsonRpcRequest(message)) {
+    return errorResponse(null, JSON_RPC_INVALID_REQUEST, 'Invalid Request');
+  }
+
+  // Notifications (no id) never get a response.
+  const isNotification = message.id === undefined;
+  const id = message.id ?? null;
+
+  try {
+    const result = await dispatch(message, context);
+    if (isNotification) return null;
+    if (result === undefined) return errorResponse(id, JSON_RPC_METHOD_NOT_FOUND, `Method not found: ${message.method}`);
+    return { jsonrpc: '2.0', id, result };
+  } catch (error) {
+    if (isNotification) return null;
+    if (error instanceof McpParamsError) return errorResponse(id, JSON_RPC_INVALID_PARAMS, error.message);
+    const detail = error instanceof Error ? error.message : String(error);
+    return errorResponse(id, JSON_RPC_INTERNAL_ERROR, detail);
+  }
+}
+
+/**
+ * Handle a decoded JSON-RPC payload (single message or batch).
+ * Returns null when the payload only contained notifications.
+ */
+export async function handleMcpPayload(
+  payload: unknown,
+  context: McpContext,
+): Promise<JsonRpcResponse | JsonRpcResponse[] | null> {
+  if (Array.isArray(payload)) {
+    if (payload.length === 0) return errorResponse(null, JSON_RPC_INVALID_REQUEST, 'Invalid Request');
+    const responses: JsonRpcResponse[] = [];
+    for (const message of payload) {
+      const response = await handleMessage(message, context);
+      if (response) responses.push(response);
+    }
+    return responses.length > 0 ? responses : null;
+  }
+  return handleMessage(payload, context);
+}
@@ -0,0 +1,108 @@
+import assert from 'node:assert/strict';
+import { createHmac } from 'node:crypto';
+import test from 'node:test';
+import { NextRequest } from 'next/server';
+
+process.env.PREVIEW_API_SECRET = 'current-secret';
+process.env.PREVIEW_API_PREVIOUS_SECRETS = 'rotated-secret, ';
+const {
+  authorizeApiRequest,
+  authorizedUntil,
+  createPreviewToken,
+  signAssetUrl,
+  verifyAssetSignature,
+  verifyPreviewToken,
+} = await import('./preview-auth');
+
+const now = () => Math.floor(Date.now() / 1000);
+const sign = (secret: string, payload: string) => createHmac('sha256', secret).update(payload).digest('base64url');
+
+/** A v2 token signed with any secret, as an older deployment would have issued it. */
+function tokenSignedWith(secret: string, claims: object): string {
+  const payload = `v2.${Buffer.from(JSON.stringify(claims)).toString('base64url')}`;
+  return `${payload}.${sign(secret, payload)}`;
+}
+
+function request(headers: Record<string, string>): NextRequest {
+  return new NextRequest('http://localhost/api/sessions/abc/files', { headers });
+}
+
+test('a v2 token is valid for its session and scopes until it expires', () => {
+  const expiry = now() + 60;
+  const token = createPreviewToken('abc', ['read', 'sync'], expiry);
+
+  assert.deepEqual(verifyPreviewToken(token, 'abc', 'sync'), { valid: true, expiry });
+  assert.equal(verifyPreviewToken(token, 'other', 'read').valid, false);
+  assert.equal(verifyPreviewToken(createPreviewToken('abc', ['read'], now() - 1), 'abc').valid, false);
+});
+
+test('a token does not grant scopes it was not issued with', () => {
+  const readOnly = createPreviewToken('abc', ['read'], now() + 60);
+  assert.equal(verifyPreviewToken(readOnly, 'abc', 'read').valid, true);
+  assert.equal(verifyPreviewToken(readOnly, 'abc', 'sync').valid, false);
+  assert.equal(verifyPreviewToken(readOnly, 'abc', 'delete').valid, false);
+
+  // Editing the claims breaks the signature
+  const [, claims, signature] = readOnly.split('.');
+  const upgraded = JSON.parse(Buffer.from(claims, 'base64url').toString('utf-8')) as Record<string, unknown>;
+  upgraded.scp = ['read', 'sync', 'delete'];
+  const forged = `v2.${Buffer.from(JSON.stringify(upgraded)).toString('base64url')}.${signature}`;
+  assert.equal(verifyPreviewToken(forged, 'abc', 'sync').valid, false);
+});
+
+test('tokens signed with a previous secret stay valid; others are rejected', () => {
+  const claims = { sid: 'abc', scp: ['read', 'sync'], exp: now() + 60 };
+  assert.equal(verifyPreviewToken(tokenSignedWith('rotated-secret', claims), 'abc', 'sync').valid, true);
+  assert.equal(verifyPreviewToken(tokenSignedWith('retired-secret', claims), 'abc', 'sync').valid, false);
+});
+
+test('v1 tokens grant read only', () => {
+  const payload = `abc:${now() + 60}`;
+  const token = `${sign('rotated-secret', payload)}.${payload}`;
+  assert.equal(verifyPreviewToken(token, 'abc', 'read').valid, true);
+  assert.equal(verifyPreviewToken(token, 'abc', 'sync').valid, false);
+  assert.equal(verifyPreviewToken(token, 'other', 'read').valid, false);
+
+  const expired = `abc:${now() - 1}`;
+  assert.equal(verifyPreviewToken(`${sign('current-secret', expired)}.${expired}`, 'abc', 'read').valid, false);
+});
+
+test('authorizeApiRequest accepts any active secret or a token with the scope', () => {
+  const token = createPreviewToken('abc', ['read', 'sync'], now() + 60);
+
+  assert.equal(authorizeApiRequest(request({ 'x-preview-secret': 'current-secret' }), 'abc', 'delete'), true);
+  assert.equal(authorizeApiRequest(request({ 'x-preview-secret': 'rotated-secret' }), 'abc', 'delete'), true);
+  assert.equal(authorizeApiRequest(request({ 'x-preview-secret': 'wrong' }), 'abc', 'read'), false);
+  assert.equal(authorizeApiRequest(request({}), 'abc', 'read'), false);
+
+  assert.equal(authorizeApiRequest(request({ authorization: `Bearer ${token}` }), 'abc', 'sync'), true);
+  assert.equal(authorizeApiRequest(request({ 'x-preview-token': token }), 'abc', 'sync'), true);
+  assert.equal(authorizeApiRequest(request({ authorization: `Bearer ${token}` }), 'abc', 'delete'), false);
+  assert.equal(authorizeApiRequest(request({ authorization: `Bearer ${token}` }), 'other', 'read'), false);
+});
+
+test('authorizedUntil ends a token caller\'s access with their token', () => {
+  const expiry = now() + 60;
+  const token = createPreviewToken('abc', ['read', 'sync'], expiry);
+
+  assert.equal(authorizedUntil(request({ authorization: `Bearer ${token}` }), 'abc', 'sync'), expiry);
+  assert.equal(authorizedUntil(request({ 'x-preview-secret': 'current-secret' }), 'abc', 'sync'), Infinity);
+  assert.equal(authorizedUntil(request({ authorization: `Bearer ${token}` }), 'abc', 'delete'), null);
+});
+
+test('signed asset URLs are checked against the session, path and expiry', () => {
+  const expiry = now() + 60;
+  const url = new URL(signAssetUrl('abc', '/images/logo one.png', expiry), 'http://localhost');
+  assert.equal(url.pathname, '/api/sessions/abc/assets/images/logo%20one.png');
+  const signature = url.searchParams.get('sig');
+
+  assert.equal(verifyAssetSignature('abc', 'images/logo one.png', String(expiry), signature), true);
+  assert.equal(verifyAssetSignature('abc', 'images/other.png', String(expiry), signature), false);
+  assert.equal(verifyAssetSignature('other', 'images/logo one.png', String(expiry), signature), false);
+  assert.equal(verifyAssetSignature('abc', 'images/logo one.png', String(expiry + 60), signature), false);
+  assert.equal(verifyAssetSignature('abc', 'images/logo one.png', String(expiry), `${signature}x`), false);
+  assert.equal(verifyAssetSignature('abc', 'images/logo one.png', String(expiry), null), false);
+
+  const expired = new URL(signAssetUrl('abc', 'images/logo.png', now() - 1), 'http://localhost');
+  assert.equal(verifyAssetSignature('abc', 'images/logo.png', expired.searchParams.get('exp'), expired.searchParams.get('sig')), false);
+});
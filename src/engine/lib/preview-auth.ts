@@ -1,36 +1,147 @@
 /**
  * Shared API authentication via PREVIEW_API_SECRET.
+ *
+ * PREVIEW_API_SECRET signs new tokens and asset URLs. To rotate it, move the
+ * old value to PREVIEW_API_PREVIOUS_SECRETS (comma-separated): it is still
+ * accepted for verification until it is removed from there.
+ *
+ * Callers authenticate with either a secret (`x-preview-secret`, full access
+ * to every session) or a token scoped to one session and a set of operations
+ * (`Authorization: Bearer <token>` or `x-preview-token`).
  */
-import { createHmac, timingSafeEqual } from 'crypto';
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
 import { NextRequest } from 'next/server';
 
 const PREVIEW_API_SECRET = process.env.PREVIEW_API_SECRET || '';
+const PREVIEW_API_SECRETS = [
+  PREVIEW_API_SECRET,
+  ...(process.env.PREVIEW_API_PREVIOUS_SECRETS || '').split(',').map((secret) => secret.trim()),
+].filter(Boolean);
+
+/** Operations a token can be scoped to. */
+export type PreviewScope = 'read' | 'sync' | 'delete';
+
+export const PREVIEW_SCOPES: readonly PreviewScope[] = ['read', 'sync', 'delete'];
+
+/** Longest lifetime of an issued token or signed URL. */
+export const MAX_TOKEN_TTL_SECONDS = 30 * 24 * 60 * 60;
 
 export function getPreviewSecret(): string {
   return PREVIEW_API_SECRET;
 }
 
+/** Constant-time string comparison; hashing first hides the length too. */
+function safeEqual(a: string, b: string): boolean {
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(a), digest(b));
+}
+
+function sign(secret: string, payload: string): string {
+  // Unpadded, to match Python's rstrip(b"=")
+  return createHmac('sha256', secret).update(payload).digest('base64url').replace(/=+$/, '');
+}
+
+/** Whether `signature` is the signature of `payload` under any active secret. */
+function verifySignature(payload: string, signature: string): boolean {
+  let valid = false;
+  // Check every secret, so the time taken doesn't tell which one matched
+  for (const secret of PREVIEW_API_SECRETS) {
+    if (safeEqual(sign(secret, payload), signature)) valid = true;
+  }
+  return valid;
+}
+
+/** Whether the request carries one of the active secrets in `x-preview-secret`. */
 export function verifyApiSecret(request: NextRequest): boolean {
-  if (!PREVIEW_API_SECRET) return true; // No secret configured — allow all
+  if (PREVIEW_API_SECRETS.length === 0) return true; // No secret configured — allow all
   const header = request.headers.get('x-preview-secret') || '';
-  return header === PREVIEW_API_SECRET;
+  let valid = false;
+  for (const secret of PREVIEW_API_SECRETS) {
+    if (safeEqual(header, secret)) valid = true;
+  }
+  return header !== '' && valid;
+}
+
+function getRequestToken(request: NextRequest): string | null {
+  const authorization = request.headers.get('authorization') || '';
+  const bearer = authorization.match(/^Bearer\s+(\S+)$/i);
+  return bearer ? bearer[1] : request.headers.get('x-preview-token');
+}
+
+/**
+ * Authorize an API call on one session: a secret allows everything, a token
+ * must be for this session and include `scope`.
+ */
+export function authorizeApiRequest(request: NextRequest, sessionId: string, scope: PreviewScope): boolean {
+  return authorizedUntil(request, sessionId, scope) !== null;
+}
+
+/**
+ * Until when (unix seconds) the request is authorized, as for
+ * `authorizeApiRequest`: `Infinity` for a secret, the token's expiry for a
+ * token, null when it is not authorized.
+ */
+export function authorizedUntil(request: NextRequest, sessionId: string, scope: PreviewScope): number | null {
+  if (verifyApiSecret(request)) return Infinity;
+  const token = getRequestToken(request);
+  if (token === null) return null;
+  const result = verifyPreviewToken(token, sessionId, scope);
+  return result.valid ? result.expiry : null;
+}
+
+/**
+ * Create a preview token for one session, signed with the current secret.
+ *
+ * Token format (v2): `v2.{base64url_claims}.{base64url_hmac}`, where the
+ * claims are `{ "sid": sessionId, "scp": scopes, "exp": unix_expiry }`.
+ */
+export function createPreviewToken(sessionId: string, scopes: PreviewScope[], expiry: number): string {
+  const claims = Buffer.from(JSON.stringify({ sid: sessionId, scp: scopes, exp: expiry })).toString('base64url');
+  const payload = `v2.${claims}`;
+  return `${payload}.${sign(PREVIEW_API_SECRET, payload)}`;
+}
+
+function parseV2Claims(encoded: string): { sid: string; scp: PreviewScope[]; exp: number } | null {
+  try {
+    const claims = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf-8')) as Record<string, unknown>;
+    if (typeof claims.sid !== 'string' || typeof claims.exp !== 'number' || !Array.isArray(claims.scp)) return null;
+    const scopes = claims.scp.filter((scope): scope is PreviewScope => PREVIEW_SCOPES.includes(scope as PreviewScope));
+    return { sid: claims.sid, scp: scopes, exp: claims.exp };
+  } catch {
+    return null;
+  }
 }
 
 /**
  * Verify an HMAC-signed preview token.
  *
- * Token format: `{base64url_hmac}.{sessionId}:{unix_expiry}`
+ * Token formats:
+ *  - v2: `v2.{base64url_claims}.{base64url_hmac}` (see `createPreviewToken`)
+ *  - v1: `{base64url_hmac}.{sessionId}:{unix_expiry}`, which grants `read` only
  *
  * Returns `{ valid: true, expiry }` when the token is authentic, matches the
- * expected session ID, and has not expired. Returns `{ valid: false, expiry: 0 }`
- * otherwise.
+ * expected session ID, includes `scope`, and has not expired. Returns
+ * `{ valid: false, expiry: 0 }` otherwise.
  */
 export function verifyPreviewToken(
   token: string,
   expectedSessionId: string,
+  scope: PreviewScope = 'read',
 ): { valid: boolean; expiry: number } {
   const fail = { valid: false, expiry: 0 };
-  if (!PREVIEW_API_SECRET) return { valid: true, expiry: 0 }; // No secret — allow all
+  if (PREVIEW_API_SECRETS.length === 0) return { valid: true, expiry: 0 }; // No secret — allow all
+
+  const now = Math.floor(Date.now() / 1000);
+
+  if (token.startsWith('v2.')) {
+    const sigIdx = token.lastIndexOf('.');
+    const payload = token.slice(0, sigIdx);
+    if (!verifySignature(payload, token.slice(sigIdx + 1))) return fail;
+    const claims = parseV2Claims(payload.slice(3));
+    if (!claims || claims.sid !== expectedSessionId || claims.exp < now) return fail;
+    if (!claims.scp.includes(scope)) return fail;
+    return { valid: true, expiry: claims.exp };
+  }
 
   const dotIdx = token.indexOf('.');
   if (dotIdx === -1) return fail;
@@ -45,26 +156,39 @@ export function verifyPreviewToken(
   const sessionId = payload.slice(0, colonIdx);
   const expiryStr = payload.slice(colonIdx + 1);
 
-  if (sessionId !== expectedSessionId) return fail;
+  if (sessionId !== expectedSessionId || scope !== 'read') return fail;
 
   const expiry = parseInt(expiryStr, 10);
-  if (isNaN(expiry) || expiry < Math.floor(Date.now() / 1000)) return fail;
+  if (isNaN(expiry) || expiry < now) return fail;
 
-  // Recompute HMAC and compare in constant time
-  const expectedSig = createHmac('sha256', PREVIEW_API_SECRET)
-    .update(payload)
-    .digest('base64url')
-    // Strip padding to match Python's rstrip(b"=")
-    .replace(/=+$/, '');
+  if (!verifySignature(payload, sigB64)) return fail;
 
-  // Ensure both are the same length before timingSafeEqual
-  const sigBuf = Buffer.from(sigB64, 'utf8');
-  const expectedBuf = Buffer.from(expectedSig, 'utf8');
-  if (sigBuf.length !== expectedBuf.length) return fail;
+  return { valid: true, expiry };
+}
 
-  if (!timingSafeEqual(sigBuf, expectedBuf)) return fail;
+// ── Signed asset URLs ──────────────────────────────────────────────────────
 
-  return { valid: true, expiry };
+function assetPayload(sessionId: string, assetPath: string, expiry: number): string {
+  return `asset:${sessionId}:${expiry}:${assetPath}`;
+}
+
+/**
+ * URL of a workspace asset that works without a cookie or header until
+ * `expiry` (unix seconds), e.g. for an editor thumbnail or an embed.
+ */
+export function signAssetUrl(sessionId: string, assetPath: string, expiry: number): string {
+  const path = assetPath.replace(/^\/+/, '');
+  const url = `/api/sessions/${sessionId}/assets/${path.split('/').map(encodeURIComponent).join('/')}`;
+  if (!PREVIEW_API_SECRET) return url;
+  const signature = sign(PREVIEW_API_SECRET, assetPayload(sessionId, path, expiry));
+  return `${url}?exp=${expiry}&sig=${signature}`;
+}
+
+export function verifyAssetSignature(sessionId: string, assetPath: string, expiry: string | null, signature: string | null): boolean {
+  if (!expiry || !signature) return false;
+  const exp = Number(expiry);
+  if (!Number.isInteger(exp) || exp < Math.floor(Date.now() / 1000)) return false;
+  return verifySignature(assetPayload(sessionId, assetPath, exp), signature);
 }
 
 export function unauthorizedResponse() {
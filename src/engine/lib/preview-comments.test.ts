@@ -0,0 +1,57 @@
+import assert from 'node:assert/strict';
+import { mkdirSync, mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import test, { after } from 'node:test';
+
+const contentDir = mkdtempSync(join(tmpdir(), 'velu-comments-'));
+process.env.PREVIEW_CONTENT_DIR = contentDir;
+process.env.WORKSPACE_DIR = join(contentDir, 'workspace');
+const { addComment, listComments, parseCommentInput, removeSessionComments, setCommentResolved } = await import('./preview-comments');
+
+after(() => rmSync(contentDir, { recursive: true, force: true }));
+
+test('parseCommentInput validates threads and replies', () => {
+  assert.deepEqual(parseCommentInput({ page: 'guides/intro/', heading: 'setup', author: ' Dana ', body: 'Typo here' }), {
+    value: { type: 'thread', page: '/guides/intro', heading: 'setup', author: 'Dana', body: 'Typo here' },
+  });
+  assert.deepEqual(parseCommentInput({ threadId: 'abc', author: 'Sam', body: 'Fixed' }), {
+    value: { type: 'reply', threadId: 'abc', author: 'Sam', body: 'Fixed' },
+  });
+  assert.deepEqual(parseCommentInput({ page: '/', author: 'Dana' }), { error: '"body" is required.' });
+  assert.deepEqual(parseCommentInput({ page: '../x', author: 'Dana', body: 'x' }), { error: '"page" must be a page path.' });
+});
+
+test('threads are stored per session and can be replied to, resolved and reopened', () => {
+  mkdirSync(join(contentDir, '1'));
+  mkdirSync(join(contentDir, 'workspace', '2'), { recursive: true });
+  const thread = addComment('1', { type: 'thread', page: '/guides/intro', heading: 'setup', author: 'Dana', body: 'Typo' })!;
+  addComment('1', { type: 'thread', page: '/', heading: '', author: 'Sam', body: 'Intro is long' });
+  addComment('2', { type: 'thread', page: '/guides/intro', heading: '', author: 'Lee', body: 'Other session' });
+
+  assert.equal(addComment('1', { type: 'reply', threadId: 'missing', author: 'Sam', body: 'x' }), null);
+  assert.equal(addComment('1', { type: 'reply', threadId: thread.id, author: 'Sam', body: 'Fixed' })?.replies.length, 1);
+
+  assert.deepEqual(listComments('1', { page: '/guides/intro/' }).map((entry) => entry.body), ['Typo']);
+  assert.equal(listComments('1').length, 2);
+
+  assert.equal(setCommentResolved('1', thread.id, true, 'Dana')?.resolvedBy, 'Dana');
+  assert.deepEqual(listComments('1', { status: 'open' }).map((entry) => entry.body), ['Intro is long']);
+  assert.deepEqual(listComments('1', { status: 'resolved' }).map((entry) => entry.id), [thread.id]);
+
+  const reopened = setCommentResolved('1', thread.id, false);
+  assert.equal(reopened?.resolved, false);
+  assert.equal(reopened?.resolvedAt, undefined);
+
+  removeSessionComments('1');
+  assert.deepEqual(listComments('1'), []);
+  assert.equal(listComments('2').length, 1);
+});
+
+test('comments need a numeric session with content or a workspace', () => {
+  const input = { type: 'thread', page: '/', heading: '', author: 'Dana', body: 'Hi' } as const;
+  assert.equal(addComment('404', input), null);
+  assert.equal(addComment('anything', input), null);
+  assert.equal(addComment('../1', input), null);
+  assert.deepEqual(listComments('404'), []);
+});
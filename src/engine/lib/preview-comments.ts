@@ -0,0 +1,184 @@
+/**
+ * Review comments on preview sessions.
+ *
+ * Each thread is anchored to a page (its path inside the session, e.g.
+ * `/guides/intro`) and a heading id on that page. A session's threads are
+ * stored in one JSON file under the content directory. The file sits outside
+ * the session's content dir, so comments survive idle expiry and `init`. They
+ * are removed with the session, or by the idle sweep once its workspace is
+ * gone.
+ */
+import { randomUUID } from 'node:crypto';
+import { mkdirSync, readFileSync, renameSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { sessionExists } from './preview-sessions';
+
+const PREVIEW_CONTENT_DIR = process.env.PREVIEW_CONTENT_DIR || './content';
+const COMMENTS_DIR = join(PREVIEW_CONTENT_DIR, '.comments');
+
+const MAX_BODY_LENGTH = 5000;
+const MAX_AUTHOR_LENGTH = 100;
+
+export interface CommentReply {
+  id: string;
+  author: string;
+  body: string;
+  createdAt: number;
+}
+
+export interface CommentThread {
+  id: string;
+  /** Page path inside the session, without the session prefix (`/` for the index). */
+  page: string;
+  /** Id of the heading the thread is attached to; empty for the top of the page. */
+  heading: string;
+  author: string;
+  body: string;
+  createdAt: number;
+  resolved: boolean;
+  resolvedAt?: number;
+  resolvedBy?: string;
+  replies: CommentReply[];
+}
+
+export type CommentInput =
+  | { type: 'thread'; page: string; heading: string; author: string; body: string }
+  | { type: 'reply'; threadId: string; author: string; body: string };
+
+function getCommentsPath(sessionId: string): string {
+  return join(COMMENTS_DIR, `${sessionId}.json`);
+}
+
+function readThreads(sessionId: string): CommentThread[] {
+  try {
+    const parsed = JSON.parse(readFileSync(getCommentsPath(sessionId), 'utf-8')) as unknown;
+    return Array.isArray(parsed) ? parsed as CommentThread[] : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeThreads(sessionId: string, threads: CommentThread[]): void {
+  mkdirSync(COMMENTS_DIR, { recursive: true });
+  const path = getCommentsPath(sessionId);
+  const tmpPath = `${path}.${process.pid}.tmp`;
+  writeFileSync(tmpPath, JSON.stringify(threads, null, 2), 'utf-8');
+  renameSync(tmpPath, path);
+}
+
+/** Normalize a page path: leading slash, no trailing slash. */
+export function normalizeCommentPage(page: string): string {
+  const trimmed = page.trim().replace(/\/+$/, '');
+  return trimmed.startsWith('/') ? trimmed || '/' : `/${trimmed}`;
+}
+
+function readText(value: unknown, field: string, maxLength: number): string | { error: string } {
+  if (typeof value !== 'string' || !value.trim()) return { error: `"${field}" is required.` };
+  if (value.length > maxLength) return { error: `"${field}" is longer than ${maxLength} characters.` };
+  return value.trim();
+}
+
+/**
+ * Validate a new comment: `{ page, heading, author, body }` starts a thread,
+ * `{ threadId, author, body }` replies to one.
+ */
+export function parseCommentInput(body: unknown): { value: CommentInput } | { error: string } {
+  const record = typeof body === 'object' && body !== null ? body as Record<string, unknown> : {};
+  const author = readText(record.author, 'author', MAX_AUTHOR_LENGTH);
+  if (typeof author !== 'string') return author;
+  const text = readText(record.body, 'body', MAX_BODY_LENGTH);
+  if (typeof text !== 'string') return text;
+
+  if (record.threadId !== undefined) {
+    if (typeof record.threadId !== 'string' || !record.threadId) return { error: '"threadId" must be a string.' };
+    return { value: { type: 'reply', threadId: record.threadId, author, body: text } };
+  }
+
+  if (typeof record.page !== 'string' || record.page.includes('..')) return { error: '"page" must be a page path.' };
+  const heading = record.heading ?? '';
+  if (typeof heading !== 'string' || heading.length > 200) return { error: '"heading" must be a heading id.' };
+  return { value: { type: 'thread', page: normalizeCommentPage(record.page), heading, author, body: text } };
+}
+
+/** Threads of a session, oldest first; `page` limits them to one page. */
+export function listComments(
+  sessionId: string,
+  filter: { page?: string; status?: 'open' | 'resolved' | 'all' } = {},
+): CommentThread[] {
+  const page = filter.page === undefined ? undefined : normalizeCommentPage(filter.page);
+  const status = filter.status ?? 'all';
+  return readThreads(sessionId).filter((thread) => {
+    if (page !== undefined && thread.page !== page) return false;
+    if (status === 'open') return !thread.resolved;
+    if (status === 'resolved') return thread.resolved;
+    return true;
+  });
+}
+
+/**
+ * Add a thread or a reply. Returns the thread, or null when the session or
+ * the thread replied to doesn't exist.
+ */
+export function addComment(sessionId: string, input: CommentInput): CommentThread | null {
+  if (!sessionExists(sessionId)) return null;
+  const threads = readThreads(sessionId);
+  const now = Date.now();
+
+  if (input.type === 'reply') {
+    const thread = threads.find((entry) => entry.id === input.threadId);
+    if (!thread) return null;
+    thread.replies.push({ id: randomUUID(), author: input.author, body: input.body, createdAt: now });
+    writeThreads(sessionId, threads);
+    return thread;
+  }
+
+  const thread: CommentThread = {
+    id: randomUUID(),
+    page: input.page,
+    heading: input.heading,
+    author: input.author,
+    body: input.body,
+    createdAt: now,
+    resolved: false,
+    replies: [],
+  };
+  threads.push(thread);
+  writeThreads(sessionId, threads);
+  return thread;
+}
+
+/** Resolve or reopen a thread. Returns null when it doesn't exist. */
+export function setCommentResolved(
+  sessionId: string,
+  threadId: string,
+  resolved: boolean,
+  resolvedBy?: string,
+): CommentThread | null {
+  const threads = readThreads(sessionId);
+  const thread = threads.find((entry) => entry.id === threadId);
+  if (!thread) return null;
+  thread.resolved = resolved;
+  if (resolved) {
+    thread.resolvedAt = Date.now();
+    if (resolvedBy) thread.resolvedBy = resolvedBy;
+  } else {
+    delete thread.resolvedAt;
+    delete thread.resolvedBy;
+  }
+  writeThreads(sessionId, threads);
+  return thread;
+}
+
+/** Validate a resolve request: `{ resolved: boolean, author? }`. */
+export function parseResolveInput(body: unknown): { value: { resolved: boolean; author?: string } } | { error: string } {
+  const record = typeof body === 'object' && body !== null ? body as Record<string, unknown> : {};
+  if (typeof record.resolved !== 'boolean') return { error: '"resolved" must be true or false.' };
+  if (record.author === undefined) return { value: { resolved: record.resolved } };
+  const author = readText(record.author, 'author', MAX_AUTHOR_LENGTH);
+  if (typeof author !== 'string') return author;
+  return { value: { resolved: record.resolved, author } };
+}
+
+export function removeSessionComments(sessionId: string): void {
+  rmSync(getCommentsPath(sessionId), { force: true });
+}
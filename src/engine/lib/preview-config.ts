@@ -33,6 +33,10 @@ export function loadSessionConfigSource(sessionId: string): VeluConfigSource | n
   if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) {
     return cached.configSource;
   }
+  // Drop other expired entries too, so sessions that are no longer used don't stay cached
+  for (const [id, entry] of sessionCache) {
+    if (Date.now() - entry.loadedAt >= CACHE_TTL_MS) sessionCache.delete(id);
+  }
 
   const configPath = resolveWorkspaceConfigPath(sessionId);
   if (!configPath) return null;
@@ -0,0 +1,104 @@
+import assert from 'node:assert/strict';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import test, { after } from 'node:test';
+
+const root = mkdtempSync(join(tmpdir(), 'velu-preview-batch-'));
+process.env.WORKSPACE_DIR = join(root, 'workspace');
+process.env.PREVIEW_CONTENT_DIR = join(root, 'content');
+process.env.PREVIEW_MAX_SESSION_PAGES = '6';
+// Specs are copied to ./public
+process.chdir(root);
+const { applySessionFiles, generateSessionContent, parseSessionFileChanges } = await import('./preview-content');
+
+after(() => rmSync(root, { recursive: true, force: true }));
+
+function createSession(sessionId: string, files: Record<string, string>) {
+  for (const [path, content] of Object.entries(files)) {
+    mkdirSync(join(root, 'workspace', sessionId, path, '..'), { recursive: true });
+    writeFileSync(join(root, 'workspace', sessionId, path), content);
+  }
+  generateSessionContent(sessionId);
+}
+
+const readWorkspace = (sessionId: string, path: string) => readFileSync(join(root, 'workspace', sessionId, path), 'utf-8');
+const readContent = (sessionId: string, path: string) => readFileSync(join(root, 'content', sessionId, path), 'utf-8');
+
+const docsJson = (pages: string[]) => JSON.stringify({ navigation: { pages } });
+
+test('parseSessionFileChanges limits the batch size', () => {
+  const files = (count: number) => ({ files: Array.from({ length: count }, (_, index) => ({ path: `p${index}.mdx`, content: '' })) });
+  assert.equal('changes' in parseSessionFileChanges(files(500)), true);
+  assert.deepEqual(parseSessionFileChanges(files(501)), { error: 'At most 500 files per request.' });
+});
+
+test('a batch renders only the pages it affects', async () => {
+  createSession('render', {
+    'docs.json': docsJson(['a', 'b', 'c']),
+    'a.mdx': '# A\n',
+    'b.mdx': 'import Note from "./snippets/note.mdx"\n\n# B\n\n<Note />\n',
+    'c.mdx': '# C\n',
+    'snippets/note.mdx': 'Note\n',
+  });
+  // Marks a page that is not rendered again: the marker survives
+  writeFileSync(join(root, 'content', 'render', 'documentation/c.mdx'), 'untouched');
+
+  const result = await applySessionFiles('render', [
+    { path: 'a.mdx', content: '# A2\n' },
+    { path: 'snippets/note.mdx', content: 'Changed note\n' },
+  ]);
+
+  assert.deepEqual(result.changedPages.map((entry) => entry.page).sort(), ['documentation/a.mdx', 'documentation/b.mdx']);
+  assert.match(readContent('render', 'documentation/a.mdx'), /title: "A2"/);
+  assert.equal(readContent('render', 'documentation/c.mdx'), 'untouched');
+  assert.equal(readContent('render', 'snippets/note.mdx').includes('Changed note'), true);
+});
+
+test('a failed batch puts the workspace and the content back', async () => {
+  createSession('rollback', { 'docs.json': docsJson(['index']), 'index.mdx': '# Hi\n' });
+  const content = readContent('rollback', 'documentation/index.mdx');
+
+  // `x.mdx` becomes a directory, so rendering the new page fails after the workspace was written
+  await assert.rejects(applySessionFiles('rollback', [
+    { path: 'index.mdx', content: '# Changed\n' },
+    { path: 'docs.json', content: docsJson(['index', 'x']) },
+    { path: 'x.mdx/notes.txt', content: 'not a page' },
+  ]), /EISDIR/);
+
+  assert.equal(readWorkspace('rollback', 'index.mdx'), '# Hi\n');
+  assert.equal(readWorkspace('rollback', 'docs.json'), docsJson(['index']));
+  assert.equal(existsSync(join(root, 'workspace', 'rollback', 'x.mdx')), false);
+  assert.equal(readContent('rollback', 'documentation/index.mdx'), content);
+});
+
+test('a batch over the quota is undone', async () => {
+  createSession('quota', { 'docs.json': docsJson(['index']), 'index.mdx': '# Hi\n' });
+
+  const pages = ['p1', 'p2', 'p3', 'p4', 'p5', 'p6'];
+  const result = await applySessionFiles('quota', [
+    { path: 'docs.json', content: docsJson(['index', ...pages]) },
+    ...pages.map((page) => ({ path: `${page}.mdx`, content: `# ${page}\n` })),
+  ]);
+
+  assert.match(result.quotaError ?? '', /limit is 6/);
+  assert.equal(readWorkspace('quota', 'docs.json'), docsJson(['index']));
+  assert.equal(existsSync(join(root, 'workspace', 'quota', 'p1.mdx')), false);
+  assert.equal(existsSync(join(root, 'content', 'quota', 'documentation/p1.mdx')), false);
+});
+
+test('batches of one session run one at a time, in order, after a failed one too', async () => {
+  createSession('queue', { 'docs.json': docsJson(['index']), 'index.mdx': '# Hi\n' });
+
+  const failing = applySessionFiles('queue', [
+    { path: 'docs.json', content: docsJson(['index', 'x']) },
+    { path: 'x.mdx/notes.txt', content: 'not a page' },
+  ]);
+  const first = applySessionFiles('queue', [{ path: 'index.mdx', content: '# One\n' }]);
+  const second = applySessionFiles('queue', [{ path: 'index.mdx', content: '# Two\n' }]);
+
+  await assert.rejects(failing);
+  assert.deepEqual((await first).changedPages.map((entry) => entry.page), ['documentation/index.mdx']);
+  assert.deepEqual((await second).changedPages.map((entry) => entry.page), ['documentation/index.mdx']);
+  assert.match(readContent('queue', 'documentation/index.mdx'), /title: "Two"/);
+});
@@ -3,25 +3,35 @@
  *
  * Reads a workspace directory (docs.json + MDX source files) and writes
  * processed content to an output directory that fumadocs-mdx scans.
+ * Generation itself lives in content-pipeline.ts; this module adds the
+ * session layout, spec copying and asset URL rewriting.
  */
 import {
   copyFileSync,
   existsSync,
   mkdirSync,
-  readFileSync,
   readdirSync,
+  readFileSync,
   rmSync,
   writeFileSync,
 } from 'node:fs';
-import { basename, dirname, extname, join, relative, resolve } from 'node:path';
-import { normalizeConfigNavigation } from './navigation-normalize';
+import { dirname, extname, join, posix, relative, resolve } from 'node:path';
+import {
+  buildArtifacts,
+  LEGACY_CONFIG_NAME,
+  loadContentConfig,
+  PRIMARY_CONFIG_NAME,
+  renderPage,
+  writeSiteContent,
+  type ContentConfig,
+  type ContentWriterOptions,
+  type LoadedContentConfig,
+} from './content-pipeline';
+import { checkSessionQuota, type PendingContent } from './preview-sessions';
 
 const PREVIEW_CONTENT_DIR = process.env.PREVIEW_CONTENT_DIR || './content';
 const WORKSPACE_DIR = process.env.WORKSPACE_DIR || '/mnt/nfs_share/editor_sessions';
 
-const PRIMARY_CONFIG_NAME = 'docs.json';
-const LEGACY_CONFIG_NAME = 'velu.json';
-
 /**
  * Copy only spec files (JSON/YAML) from workspace to public/ so the
  * OpenAPI component can resolve them. Images and other assets are served
@@ -57,453 +67,6 @@ function copySpecFiles(docsDir: string): void {
   walk(docsDir);
 }
 
-// ── Types ──────────────────────────────────────────────────────────────────
-
-interface VeluConfig {
-  navigation: {
-    tabs?: VeluTab[];
-    languages?: Array<{ language: string; tabs: VeluTab[] }>;
-    anchors?: any[];
-    [key: string]: unknown;
-  };
-  languages?: string[];
-  openapi?: unknown;
-  variables?: Record<string, string>;
-  [key: string]: unknown;
-}
-
-interface VeluTab {
-  tab: string;
-  slug?: string;
-  href?: string;
-  pages?: Array<string | VeluSeparator | VeluLink>;
-  groups?: VeluGroup[];
-  openapi?: unknown;
-  [key: string]: unknown;
-}
-
-interface VeluGroup {
-  group: string;
-  slug?: string;
-  pages: Array<string | VeluGroup | VeluSeparator | VeluLink>;
-  description?: string;
-  openapi?: unknown;
-  [key: string]: unknown;
-}
-
-interface VeluSeparator { separator: string }
-interface VeluLink { href: string; label: string; icon?: string }
-
-interface PageMapping {
-  src: string;
-  dest: string;
-  kind: 'file' | 'openapi-operation';
-  title?: string;
-  description?: string;
-  openapiSpec?: string;
-  openapiMethod?: string;
-  openapiEndpoint?: string;
-  deprecated?: boolean;
-  version?: string;
-  content?: string;
-}
-
-interface MetaFile {
-  dir: string;
-  data: { pages: string[]; title?: string; description?: string; [key: string]: unknown };
-}
-
-interface BuildArtifacts {
-  pageMap: PageMapping[];
-  metaFiles: MetaFile[];
-  firstPage: string;
-}
-
-// ── Config loading ─────────────────────────────────────────────────────────
-
-function resolveConfigPath(docsDir: string): string | null {
-  const primary = join(docsDir, PRIMARY_CONFIG_NAME);
-  if (existsSync(primary)) return primary;
-  const legacy = join(docsDir, LEGACY_CONFIG_NAME);
-  if (existsSync(legacy)) return legacy;
-  return null;
-}
-
-function resolveVariables(
-  variables: Record<string, string> | undefined,
-): Record<string, string> {
-  if (!variables) return {};
-  const resolved: Record<string, string> = {};
-  const MAX_DEPTH = 10;
-
-  for (const [key, rawValue] of Object.entries(variables)) {
-    let value = rawValue;
-    for (let depth = 0; depth < MAX_DEPTH; depth++) {
-      const replaced = value.replace(
-        /\{\{(\w+)\}\}/g,
-        (_, name) => variables[name] ?? `{{${name}}}`,
-      );
-      if (replaced === value) break;
-      value = replaced;
-    }
-    resolved[key] = value;
-  }
-  return resolved;
-}
-
-function replaceVariablesInString(
-  content: string,
-  variables: Record<string, string>,
-): string {
-  if (!content || Object.keys(variables).length === 0) return content;
-  return content.replace(
-    /\{\{(\w+)\}\}/g,
-    (match, name) => variables[name] ?? match,
-  );
-}
-
-function loadConfig(docsDir: string): {
-  config: VeluConfig;
-  variables: Record<string, string>;
-} {
-  const configPath = resolveConfigPath(docsDir);
-  if (!configPath) {
-    throw new Error(`No docs.json or velu.json found in ${docsDir}`);
-  }
-  const parsed = JSON.parse(readFileSync(configPath, 'utf-8'));
-  const raw = normalizeConfigNavigation(parsed) as VeluConfig;
-  const variables = resolveVariables(raw.variables);
-  return { config: raw, variables };
-}
-
-// ── Helpers ────────────────────────────────────────────────────────────────
-
-function isSeparator(item: unknown): item is VeluSeparator {
-  return typeof item === 'object' && item !== null && 'separator' in item;
-}
-
-function isLink(item: unknown): item is VeluLink {
-  return typeof item === 'object' && item !== null && 'href' in item && 'label' in item;
-}
-
-function isGroup(item: unknown): item is VeluGroup {
-  return typeof item === 'object' && item !== null && 'group' in item;
-}
-
-function pageBasename(page: string): string {
-  const parts = page.split('/').filter(Boolean);
-  return parts[parts.length - 1] ?? page;
-}
-
-function pageLabelFromSlug(slug: string): string {
-  const base = pageBasename(slug);
-  return base
-    .replace(/[-_]+/g, ' ')
-    .replace(/\b\w/g, (c) => c.toUpperCase());
-}
-
-function sanitizeFrontmatterValue(value: string): string {
-  return value.replace(/\r?\n+/g, ' ').replace(/"/g, '\\"').trim();
-}
-
-// ── OpenAPI helpers ───────────────────────────────────────────────────────
-
-const OPENAPI_PATH_METHODS = new Set(['get', 'post', 'put', 'patch', 'delete', 'options', 'head', 'trace']);
-
-function extractOpenApiSource(openapi: unknown): string | string[] | undefined {
-  if (typeof openapi === 'string' || Array.isArray(openapi)) return openapi;
-  if (openapi && typeof openapi === 'object') {
-    const source = (openapi as Record<string, unknown>).source;
-    if (typeof source === 'string' || Array.isArray(source)) return source;
-  }
-  return undefined;
-}
-
-function resolveOpenApiSpecList(openapi: unknown): string[] {
-  const source = extractOpenApiSource(openapi);
-  if (typeof source === 'string') {
-    const trimmed = source.trim();
-    return trimmed ? [trimmed] : [];
-  }
-  if (Array.isArray(source)) {
-    return source.filter((e): e is string => typeof e === 'string' && e.trim().length > 0).map(e => e.trim());
-  }
-  return [];
-}
-
-function normalizeOpenApiSpecForFrontmatter(spec: string | undefined): string | undefined {
-  if (!spec) return undefined;
-  const trimmed = String(spec).trim();
-  if (!trimmed) return undefined;
-  if (/^https?:\/\//i.test(trimmed) || trimmed.startsWith('file://')) return trimmed;
-  if (trimmed.startsWith('/')) return trimmed;
-  return `/${trimmed.replace(/^\.?\/*/, '')}`;
-}
-
-function slugFromOpenApiOperation(method: string, endpoint: string): string {
-  const cleaned = endpoint
-    .toLowerCase()
-    .replace(/^\/+/, '')
-    .replace(/[{}]/g, '')
-    .replace(/[^a-z0-9/._-]+/g, '-')
-    .replace(/\/+/g, '-')
-    .replace(/[-_.]{2,}/g, '-')
-    .replace(/^[-_.]+|[-_.]+$/g, '');
-  return `${method.toLowerCase()}-${cleaned || 'endpoint'}`;
-}
-
-interface OpenApiOperation {
-  spec: string;
-  method: string;
-  endpoint: string;
-  title?: string;
-  description?: string;
-  deprecated?: boolean;
-}
-
-function loadOpenApiOperations(specSource: string, docsDir: string): OpenApiOperation[] {
-  const resolvedPath = /^https?:\/\//i.test(specSource)
-    ? undefined
-    : join(docsDir, specSource.replace(/^\/+/, ''));
-  if (!resolvedPath || !existsSync(resolvedPath)) return [];
-
-  let parsed: Record<string, unknown>;
-  try {
-    parsed = JSON.parse(readFileSync(resolvedPath, 'utf-8'));
-  } catch {
-    return [];
-  }
-
-  const output: OpenApiOperation[] = [];
-  const paths = parsed.paths;
-  if (paths && typeof paths === 'object') {
-    for (const [endpoint, methods] of Object.entries(paths as Record<string, unknown>)) {
-      if (!endpoint.startsWith('/') || !methods || typeof methods !== 'object') continue;
-      for (const method of Object.keys(methods as Record<string, unknown>)) {
-        if (!OPENAPI_PATH_METHODS.has(method.toLowerCase())) continue;
-        const operation = (methods as Record<string, unknown>)[method];
-        if (!operation || typeof operation !== 'object') continue;
-        const op = operation as Record<string, unknown>;
-        output.push({
-          spec: specSource,
-          method: method.toUpperCase(),
-          endpoint,
-          title: typeof op.summary === 'string' ? op.summary : undefined,
-          description: typeof op.description === 'string' ? op.description : undefined,
-          deprecated: op.deprecated === true,
-        });
-      }
-    }
-  }
-
-  // Webhooks
-  const webhooks = parsed.webhooks;
-  if (webhooks && typeof webhooks === 'object') {
-    for (const [webhookName, pathItem] of Object.entries(webhooks as Record<string, unknown>)) {
-      if (!pathItem || typeof pathItem !== 'object') continue;
-      // Pick the first valid HTTP method from the webhook path item
-      const pi = pathItem as Record<string, unknown>;
-      const resolvedMethod = Array.from(OPENAPI_PATH_METHODS).find(m => pi[m] && typeof pi[m] === 'object');
-      if (!resolvedMethod) continue;
-      const operation = pi[resolvedMethod] as Record<string, unknown>;
-      output.push({
-        spec: specSource,
-        method: 'WEBHOOK',
-        endpoint: webhookName,
-        title: typeof operation.summary === 'string' ? operation.summary : undefined,
-        description: typeof operation.description === 'string' ? operation.description : undefined,
-        deprecated: operation.deprecated === true,
-      });
-    }
-  }
-
-  return output;
-}
-
-// ── Build artifacts ────────────────────────────────────────────────────────
-
-function buildArtifacts(config: VeluConfig, docsDir?: string): BuildArtifacts {
-  const pageMap: PageMapping[] = [];
-  const metaFiles: MetaFile[] = [];
-  const rootTabs = (config.navigation?.tabs || []).filter((tab) => !tab.href);
-  const rootPages = rootTabs.map((tab) => tab.slug);
-  let firstPage = 'quickstart';
-  let hasFirstPage = false;
-  const usedDestinations = new Set<string>();
-
-  function trackFirstPage(dest: string) {
-    if (!hasFirstPage) {
-      firstPage = dest;
-      hasFirstPage = true;
-    }
-  }
-
-  function metaEntry(item: string | VeluSeparator | VeluLink): string {
-    if (typeof item === 'string') return item;
-    if (isSeparator(item)) return `---${item.separator}---`;
-    if (isLink(item)) {
-      return item.icon
-        ? `[${item.icon}][${item.label}](${item.href})`
-        : `[${item.label}](${item.href})`;
-    }
-    return String(item);
-  }
-
-  function uniqueDestination(dest: string): string {
-    if (!usedDestinations.has(dest)) {
-      usedDestinations.add(dest);
-      return dest;
-    }
-    let count = 2;
-    while (usedDestinations.has(`${dest}-${count}`)) count += 1;
-    const candidate = `${dest}-${count}`;
-    usedDestinations.add(candidate);
-    return candidate;
-  }
-
-  function processGroup(
-    group: VeluGroup,
-    parentDir: string,
-    inheritedSpec?: string,
-  ) {
-    const groupSlug = group.slug || pageBasename(group.group).toLowerCase().replace(/[^a-z0-9]+/g, '-');
-    const groupDir = `${parentDir}/${groupSlug}`;
-    const groupMetaPages: string[] = [];
-    const groupSpec = typeof group.openapi === 'string' ? group.openapi : inheritedSpec;
-
-    for (const item of group.pages) {
-      if (typeof item === 'string') {
-        const dest = uniqueDestination(`${groupDir}/${pageBasename(item)}`);
-        pageMap.push({ src: item, dest, kind: 'file' });
-        groupMetaPages.push(pageBasename(item));
-        trackFirstPage(dest);
-      } else if (isGroup(item)) {
-        const nestedSlug = item.slug || pageBasename(item.group).toLowerCase().replace(/[^a-z0-9]+/g, '-');
-        groupMetaPages.push(nestedSlug);
-        processGroup(item, groupDir, groupSpec);
-      } else if (isSeparator(item) || isLink(item)) {
-        groupMetaPages.push(metaEntry(item));
-      }
-    }
-
-    // Auto-generate pages from OpenAPI spec when group has no explicit pages
-    if (group.pages.length === 0 && groupSpec && docsDir) {
-      const specs = resolveOpenApiSpecList(group.openapi ?? groupSpec);
-      if (specs.length === 0 && groupSpec) specs.push(groupSpec);
-      const seen = new Set<string>();
-      for (const spec of specs) {
-        for (const op of loadOpenApiOperations(spec, docsDir)) {
-          const key = `${op.method}::${op.endpoint}`;
-          if (seen.has(key)) continue;
-          seen.add(key);
-          const slug = slugFromOpenApiOperation(op.method, op.endpoint);
-          const dest = uniqueDestination(`${groupDir}/${slug}`);
-          pageMap.push({
-            src: `${op.spec} ${op.method} ${op.endpoint}`,
-            dest,
-            kind: 'openapi-operation',
-            openapiSpec: op.spec,
-            openapiMethod: op.method,
-            openapiEndpoint: op.endpoint,
-            title: op.title,
-            description: op.description,
-            deprecated: op.deprecated,
-          });
-          groupMetaPages.push(slug);
-          trackFirstPage(dest);
-        }
-      }
-    }
-
-    const groupMetaData: MetaFile['data'] = {
-      title: group.group,
-      pages: groupMetaPages,
-      defaultOpen: group.expanded !== false,
-    };
-    if (group.description) groupMetaData.description = group.description;
-    if (group.icon) groupMetaData.icon = group.icon;
-    if (group.iconType) groupMetaData.iconType = group.iconType;
-
-    metaFiles.push({
-      dir: groupDir,
-      data: groupMetaData,
-    });
-  }
-
-  function processTab(tab: VeluTab) {
-    const tabSlug = tab.slug || tab.tab.toLowerCase().replace(/[^a-z0-9]+/g, '-');
-    const tabDir = tabSlug;
-    const tabMetaPages: string[] = [];
-    const tabSpec = typeof tab.openapi === 'string' ? tab.openapi : undefined;
-
-    if (tab.pages) {
-      for (const item of tab.pages) {
-        if (typeof item === 'string') {
-          const dest = uniqueDestination(`${tabDir}/${pageBasename(item)}`);
-          pageMap.push({ src: item, dest, kind: 'file' });
-          tabMetaPages.push(pageBasename(item));
-          trackFirstPage(dest);
-        } else if (isSeparator(item) || isLink(item)) {
-          tabMetaPages.push(metaEntry(item));
-        }
-      }
-    }
-
-    if (tab.groups) {
-      for (const group of tab.groups) {
-        const groupSlug = group.slug || pageBasename(group.group).toLowerCase().replace(/[^a-z0-9]+/g, '-');
-        tabMetaPages.push(groupSlug);
-        processGroup(group, tabDir, tabSpec);
-      }
-    }
-
-    // Auto-generate pages from OpenAPI spec when tab has no explicit pages/groups
-    if (!tab.pages?.length && !tab.groups?.length && tab.openapi !== undefined && docsDir) {
-      const specs = resolveOpenApiSpecList(tab.openapi);
-      if (specs.length === 0 && tabSpec) specs.push(tabSpec);
-      const seen = new Set<string>();
-      for (const spec of specs) {
-        for (const op of loadOpenApiOperations(spec, docsDir)) {
-          const key = `${op.method}::${op.endpoint}`;
-          if (seen.has(key)) continue;
-          seen.add(key);
-          const slug = slugFromOpenApiOperation(op.method, op.endpoint);
-          const dest = uniqueDestination(`${tabDir}/${slug}`);
-          pageMap.push({
-            src: `${op.spec} ${op.method} ${op.endpoint}`,
-            dest,
-            kind: 'openapi-operation',
-            openapiSpec: op.spec,
-            openapiMethod: op.method,
-            openapiEndpoint: op.endpoint,
-            title: op.title,
-            description: op.description,
-            deprecated: op.deprecated,
-          });
-          tabMetaPages.push(slug);
-          trackFirstPage(dest);
-        }
-      }
-    }
-
-    metaFiles.push({
-      dir: tabDir,
-      data: { title: tab.tab, pages: tabMetaPages },
-    });
-  }
-
-  for (const tab of rootTabs) {
-    processTab(tab);
-  }
-
-  metaFiles.push({
-    dir: '',
-    data: { pages: rootPages.filter((p): p is string => typeof p === 'string') },
-  });
-
-  return { pageMap, metaFiles, firstPage };
-}
-
 // ── Image path rewriting ────────────────────────────────────────────────────
 
 /**
@@ -562,122 +125,86 @@ function rewriteImagePaths(
   return content;
 }
 
-// ── Page processing ────────────────────────────────────────────────────────
+// ── Public API ─────────────────────────────────────────────────────────────
 
-function processPage(
-  srcPath: string,
-  destPath: string,
-  slug: string,
+function sessionContentOptions(
+  sessionId: string,
   variables: Record<string, string>,
-  sessionId?: string,
-): void {
-  let content = readFileSync(srcPath, 'utf-8');
-  content = replaceVariablesInString(content, variables);
-
-  // Rewrite image paths to use the assets API
-  if (sessionId) {
-    content = rewriteImagePaths(content, sessionId, srcPath);
-  }
-
-  if (!content.startsWith('---')) {
-    const titleMatch = content.match(/^#\s+(.+)$/m);
-    const title = titleMatch ? titleMatch[1] : pageLabelFromSlug(slug);
-    if (titleMatch) {
-      content = content.replace(/^#\s+.+$/m, '').trimStart();
-    }
-    content = `---\ntitle: "${sanitizeFrontmatterValue(title)}"\n---\n\n${content}`;
-  }
-
-  mkdirSync(dirname(destPath), { recursive: true });
-  writeFileSync(destPath, content, 'utf-8');
+): ContentWriterOptions {
+  return {
+    docsDir: join(WORKSPACE_DIR, sessionId),
+    contentDir: join(PREVIEW_CONTENT_DIR, sessionId),
+    variables,
+    // The workspace is edited live; leave unknown {{variables}} in place.
+    strictVariables: false,
+    transformPage: (content, srcPath) => rewriteImagePaths(content, sessionId, srcPath),
+  };
 }
 
-// ── Content writing ────────────────────────────────────────────────────────
-
-function writeLangContent(
-  docsDir: string,
-  contentDir: string,
-  langCode: string,
-  artifacts: BuildArtifacts,
-  variables: Record<string, string>,
-  isDefault: boolean,
-  useLangFolders = false,
-  sessionId?: string,
-) {
-  const storagePrefix = useLangFolders ? langCode : (isDefault ? '' : langCode);
-
-  const metas = storagePrefix
-    ? artifacts.metaFiles.map((m) => ({
-        dir: m.dir ? `${storagePrefix}/${m.dir}` : storagePrefix,
-        data: { ...m.data },
-      }))
-    : artifacts.metaFiles;
-
-  for (const meta of metas) {
-    const metaPath = join(contentDir, meta.dir, 'meta.json');
-    mkdirSync(dirname(metaPath), { recursive: true });
-    writeFileSync(metaPath, JSON.stringify(meta.data, null, 2) + '\n', 'utf-8');
-  }
-
-  for (const mapping of artifacts.pageMap) {
-    const destPath = join(
-      contentDir,
-      storagePrefix ? `${storagePrefix}/${mapping.dest}.mdx` : `${mapping.dest}.mdx`,
-    );
+/** `path` relative to a session's content dir, with forward slashes. */
+function toContentPath(outputDir: string, path: string): string {
+  return relative(outputDir, path).replace(/\\/g, '/');
+}
 
-    if (mapping.kind === 'openapi-operation') {
-      mkdirSync(dirname(destPath), { recursive: true });
-      const operationLabel = `${mapping.openapiMethod ?? 'GET'} ${mapping.openapiEndpoint ?? '/'}`;
-      const normalizedSpec = normalizeOpenApiSpecForFrontmatter(mapping.openapiSpec);
-      const openapiValue = normalizedSpec
-        ? `${normalizedSpec} ${operationLabel}`
-        : operationLabel;
-      const title = sanitizeFrontmatterValue(mapping.title ?? operationLabel);
-      const openapi = openapiValue.replace(/"/g, '\\"');
-      const descriptionLine = mapping.description
-        ? `\ndescription: "${sanitizeFrontmatterValue(mapping.description)}"`
-        : '';
-      const deprecatedLine = mapping.deprecated === true ? `\ndeprecated: true` : '';
-      writeFileSync(
-        destPath,
-        `---\ntitle: "${title}"${descriptionLine}${deprecatedLine}\nopenapi: "${openapi}"\n---\n`,
-        'utf-8',
-      );
-      continue;
+/**
+ * Write (or, for null, delete) files relative to `dir`, all or none: when
+ * one fails, the files already touched get their previous contents back.
+ * Returns a function that puts the previous contents back later.
+ */
+function writeFiles(dir: string, files: PendingContent): () => void {
+  const applied: Array<{ path: string; previous: Buffer | null }> = [];
+  const createdDirs: string[] = [];
+  const restore = () => {
+    for (const { path, previous } of [...applied].reverse()) {
+      try {
+        if (previous) writeFileSync(path, previous);
+        else rmSync(path, { force: true });
+      } catch { /* best effort */ }
     }
-
-    const src = mapping.src;
-    let srcPath = join(docsDir, `${src}.mdx`);
-    if (!existsSync(srcPath)) {
-      srcPath = join(docsDir, `${src}.md`);
+    // Only files written here can be in them
+    for (const created of createdDirs) rmSync(created, { recursive: true, force: true });
+  };
+  try {
+    for (const [rel, content] of files) {
+      const path = join(dir, rel);
+      applied.push({ path, previous: existsSync(path) ? readFileSync(path) : null });
+      if (content === null) {
+        rmSync(path, { force: true });
+      } else {
+        const created = mkdirSync(dirname(path), { recursive: true });
+        if (created) createdDirs.push(created);
+        writeFileSync(path, content);
+      }
     }
-    if (!existsSync(srcPath)) continue;
-
-    processPage(srcPath, destPath, src, variables, sessionId);
+  } catch (error) {
+    restore();
+    throw error;
   }
-
-  const indexPath = storagePrefix
-    ? join(contentDir, storagePrefix, 'index.mdx')
-    : join(contentDir, 'index.mdx');
-  writeFileSync(
-    indexPath,
-    `---\ntitle: "Overview"\n---\n\nWelcome to the documentation.\n`,
-    'utf-8',
-  );
+  return restore;
 }
 
-// ── Public API ─────────────────────────────────────────────────────────────
-
 /**
- * Generate all content for a session from its workspace.
+ * Generate all content for a session from its workspace. Everything is
+ * rendered before anything is written: when the result would be over the
+ * session's quota, `quotaError` is set and the previous content stays.
  */
 export function generateSessionContent(sessionId: string): {
   firstPage: string;
   pageCount: number;
+  quotaError?: string;
 } {
   const workspaceDir = join(WORKSPACE_DIR, sessionId);
   const outputDir = join(PREVIEW_CONTENT_DIR, sessionId);
 
+  const { config, variables } = loadContentConfig(workspaceDir, { strictVariables: false });
+  const files: PendingContent = new Map();
+  const { firstPage, pageCount } = writeSiteContent(config, {
+    ...sessionContentOptions(sessionId, variables),
+    writeFile: (destPath, content) => files.set(toContentPath(outputDir, destPath), content),
+  });
+  const quotaError = checkSessionQuota(sessionId, files, { replace: true });
+  if (quotaError) return { firstPage, pageCount, quotaError };
+
   if (existsSync(outputDir)) {
     rmSync(outputDir, { recursive: true, force: true });
   }
@@ -686,89 +213,37 @@ export function generateSessionContent(sessionId: string): {
   // Copy spec files (JSON/YAML) to public/ so the OpenAPI component can resolve them
   copySpecFiles(workspaceDir);
 
-  const { config, variables } = loadConfig(workspaceDir);
-  const navLanguages = config.navigation?.languages;
-  const simpleLanguages = config.languages || [];
-
-  if (navLanguages && navLanguages.length > 0) {
-    const rootPages: string[] = [];
-    let totalPages = 0;
-    let firstPage = 'quickstart';
-
-    for (let i = 0; i < navLanguages.length; i++) {
-      const langEntry = navLanguages[i];
-      const isDefault = i === 0;
-      const langConfig = {
-        ...config,
-        navigation: { ...config.navigation, tabs: langEntry.tabs },
-      } as VeluConfig;
-      const artifacts = buildArtifacts(langConfig, workspaceDir);
-      writeLangContent(workspaceDir, outputDir, langEntry.language, artifacts, variables, isDefault, true, sessionId);
-      totalPages += artifacts.pageMap.length;
-      if (i === 0) firstPage = artifacts.firstPage;
-      rootPages.push(`!${langEntry.language}`);
-    }
-
-    writeFileSync(
-      join(outputDir, 'meta.json'),
-      JSON.stringify({ pages: rootPages }, null, 2) + '\n',
-      'utf-8',
-    );
-
-    return { firstPage, pageCount: totalPages };
-  }
-
-  const artifacts = buildArtifacts(config, workspaceDir);
-  const useLangFolders = simpleLanguages.length > 1;
-  writeLangContent(
-    workspaceDir, outputDir,
-    simpleLanguages[0] || 'en', artifacts, variables,
-    true, useLangFolders, sessionId,
-  );
-
-  let totalPages = artifacts.pageMap.length;
-
-  if (simpleLanguages.length > 1) {
-    const rootPages = [`!${simpleLanguages[0] || 'en'}`];
-    for (const lang of simpleLanguages.slice(1)) {
-      writeLangContent(workspaceDir, outputDir, lang, artifacts, variables, false, true, sessionId);
-      rootPages.push(`!${lang}`);
-      totalPages += artifacts.pageMap.length;
-    }
-    writeFileSync(
-      join(outputDir, 'meta.json'),
-      JSON.stringify({ pages: rootPages }, null, 2) + '\n',
-      'utf-8',
-    );
-  }
-
-  return { firstPage: artifacts.firstPage, pageCount: totalPages };
+  writeFiles(outputDir, files);
+  return { firstPage, pageCount };
 }
 
 /**
- * Sync a single file after an edit in the workspace.
+ * Sync a single file after an edit in the workspace. `page` is the generated
+ * page, relative to the session's content dir, when the file is a page.
+ * When the page would take the session over its quota, nothing is written
+ * and `quotaError` is set.
  */
 export function syncSessionFile(
   sessionId: string,
   filePath: string,
-): { synced: boolean } {
+): { synced: boolean; page?: string; quotaError?: string } {
   const workspaceDir = join(WORKSPACE_DIR, sessionId);
   const outputDir = join(PREVIEW_CONTENT_DIR, sessionId);
 
   console.log(`[PREVIEW:syncFile] session=${sessionId} file=${filePath}`);
 
   if (filePath === PRIMARY_CONFIG_NAME || filePath === LEGACY_CONFIG_NAME) {
-    generateSessionContent(sessionId);
-    return { synced: true };
+    const { quotaError } = generateSessionContent(sessionId);
+    return quotaError ? { synced: false, quotaError } : { synced: true };
   }
 
-  let variables: Record<string, string> = {};
+  let loaded: LoadedContentConfig<ContentConfig> | undefined;
   try {
-    const result = loadConfig(workspaceDir);
-    variables = result.variables;
+    loaded = loadContentConfig(workspaceDir, { strictVariables: false });
   } catch {
     // Config might not exist yet
   }
+  const options = sessionContentOptions(sessionId, loaded?.variables ?? {});
 
   const stripped = filePath.replace(/\.(mdx?|md)$/, '');
   let srcPath = join(workspaceDir, filePath);
@@ -782,25 +257,26 @@ export function syncSessionFile(
     return { synced: false };
   }
 
+  // A navigation page goes to its mapped destination; anything else is copied as is
+  let page = `${stripped}.mdx`;
   try {
-    const { config } = loadConfig(workspaceDir);
-    const artifacts = buildArtifacts(config, workspaceDir);
-    const mapping = artifacts.pageMap.find((m) => {
-      return m.src === stripped || m.src === filePath;
-    });
-
-    if (mapping) {
-      const destPath = join(outputDir, `${mapping.dest}.mdx`);
-      processPage(srcPath, destPath, stripped, variables, sessionId);
-      return { synced: true };
+    if (loaded) {
+      const artifacts = buildArtifacts(loaded.config, workspaceDir);
+      const mapping = artifacts.pageMap.find((m) => {
+        return m.src === stripped || m.src === filePath;
+      });
+      if (mapping) page = `${mapping.dest}.mdx`;
     }
   } catch {
     // Fall through to direct copy
   }
 
-  const destPath = join(outputDir, `${stripped}.mdx`);
-  processPage(srcPath, destPath, stripped, variables, sessionId);
-  return { synced: true };
+  const content = renderPage(srcPath, join(outputDir, page), stripped, options);
+  const files: PendingContent = new Map([[page, content]]);
+  const quotaError = checkSessionQuota(sessionId, files);
+  if (quotaError) return { synced: false, quotaError };
+  writeFiles(outputDir, files);
+  return { synced: true, page };
 }
 
 /**
@@ -812,3 +288,297 @@ export function removeSessionContent(sessionId: string): void {
     rmSync(outputDir, { recursive: true, force: true });
   }
 }
+
+// ── Batch file updates ─────────────────────────────────────────────────────
+
+export interface SessionFileChange {
+  /** Path relative to the workspace, e.g. `guides/intro.mdx`. */
+  path: string;
+  content?: string;
+  /** `base64` for binary files such as images (default `utf-8`). */
+  encoding?: 'utf-8' | 'base64';
+  deleted?: boolean;
+}
+
+export interface SessionFileResult {
+  path: string;
+  status: 'written' | 'deleted';
+  /** Generated pages (relative to the session's content dir) rendered from this file. */
+  pages: string[];
+}
+
+export interface SessionBatchResult {
+  files: SessionFileResult[];
+  /** Generated pages whose content or imports changed, with the workspace file each came from. */
+  changedPages: Array<{ page: string; source?: string }>;
+  /** Generated pages removed because the navigation no longer has them. */
+  removedPages: string[];
+  /** Set when docs.json can't be loaded; the files are applied, but no pages are regenerated from it. */
+  configError?: string;
+  /** Set when the batch would take the session over its quota; nothing is applied then. */
+  quotaError?: string;
+}
+
+const MAX_BATCH_FILES = 500;
+
+function normalizeWorkspacePath(value: unknown): string | null {
+  if (typeof value !== 'string' || !value.trim() || value.includes('\\') || value.includes('\0')) return null;
+  const normalized = posix.normalize(value.trim().replace(/^\/+/, ''));
+  if (normalized === '.' || normalized === '..' || normalized.startsWith('../') || normalized.endsWith('/')) return null;
+  return normalized;
+}
+
+/** Validate a `PATCH /files` body: `{ files: [{ path, content | deleted }] }`. */
+export function parseSessionFileChanges(body: unknown): { changes: SessionFileChange[] } | { error: string } {
+  const files = typeof body === 'object' && body !== null ? (body as { files?: unknown }).files : undefined;
+  if (!Array.isArray(files) || files.length === 0) return { error: 'Expected a non-empty "files" array.' };
+  if (files.length > MAX_BATCH_FILES) return { error: `At most ${MAX_BATCH_FILES} files per request.` };
+
+  const changes: SessionFileChange[] = [];
+  const seen = new Set<string>();
+  for (const [index, entry] of files.entries()) {
+    const record = typeof entry === 'object' && entry !== null ? entry as Record<string, unknown> : {};
+    const path = normalizeWorkspacePath(record.path);
+    if (!path) return { error: `files[${index}]: "path" must be a relative path inside the workspace.` };
+    if (seen.has(path)) return { error: `files[${index}]: ${path} appears more than once.` };
+    seen.add(path);
+
+    if (record.deleted === true) {
+      if (record.content !== undefined) return { error: `files[${index}]: pass either "content" or "deleted", not both.` };
+      changes.push({ path, deleted: true });
+      continue;
+    }
+    if (typeof record.content !== 'string') return { error: `files[${index}]: expected "content" (a string) or "deleted": true.` };
+    const encoding = record.encoding ?? 'utf-8';
+    if (encoding !== 'utf-8' && encoding !== 'base64') return { error: `files[${index}]: "encoding" must be utf-8 or base64.` };
+    changes.push({ path, content: record.content, encoding });
+  }
+  return { changes };
+}
+
+/** Write (or delete) every change in the workspace, all or none. Returns a function that undoes them. */
+function applyWorkspaceChanges(workspaceDir: string, changes: SessionFileChange[]): () => void {
+  const files: PendingContent = new Map(changes.map((change) => [
+    change.path,
+    change.deleted ? null : Buffer.from(change.content!, change.encoding === 'base64' ? 'base64' : 'utf-8'),
+  ]));
+  return writeFiles(workspaceDir, files);
+}
+
+interface ContentPass {
+  /** Every generated file (relative to the content dir) and the workspace page it comes from. */
+  outputs: Map<string, string | undefined>;
+  /** Generated files whose content differs from what is on disk, not written yet. */
+  pending: PendingContent;
+  changed: Array<{ page: string; source?: string }>;
+}
+
+/**
+ * Run the content pipeline for a session without writing anything. With
+ * `render`, files whose content changed are collected in `pending`; without
+ * it, the pass just lists the outputs. `shouldRenderPage` limits which
+ * workspace pages are read and rendered; the others are assumed unchanged.
+ * Meta files and API pages come from the config alone and are always compared.
+ */
+function runContentPass(
+  sessionId: string,
+  loaded: LoadedContentConfig<ContentConfig>,
+  render: boolean,
+  shouldRenderPage: (source: string, page: string) => boolean = () => true,
+): ContentPass {
+  const workspaceDir = join(WORKSPACE_DIR, sessionId);
+  const outputDir = join(PREVIEW_CONTENT_DIR, sessionId);
+  const pass: ContentPass = { outputs: new Map(), pending: new Map(), changed: [] };
+  const base = sessionContentOptions(sessionId, loaded.variables);
+
+  const collect = (destPath: string, content: string, source?: string) => {
+    const rel = toContentPath(outputDir, destPath);
+    pass.outputs.set(rel, source);
+    if (!render) return;
+    if (existsSync(destPath) && readFileSync(destPath, 'utf-8') === content) return;
+    pass.pending.set(rel, content);
+    if (rel.endsWith('.mdx')) pass.changed.push({ page: rel, source });
+  };
+
+  writeSiteContent(loaded.config, {
+    ...base,
+    writeFile: (destPath, content) => collect(destPath, content),
+    writePage: (srcPath, destPath, slug) => {
+      const source = relative(workspaceDir, srcPath).replace(/\\/g, '/');
+      const page = toContentPath(outputDir, destPath);
+      if (!render || !shouldRenderPage(source, page)) {
+        pass.outputs.set(page, source);
+        return;
+      }
+      collect(destPath, renderPage(srcPath, destPath, slug, base), source);
+    },
+  });
+  return pass;
+}
+
+const IMPORT_PATTERN = /^\s*(?:import|export)\b[^\n]*?\bfrom\s*['"]([^'"]+)['"]/gm;
+const IMPORT_EXTENSIONS = ['', '.mdx', '.md', '.jsx', '.js', '.tsx', '.ts'];
+
+/** Workspace files `source` imports, relative to the workspace and possibly without an extension. Package imports are skipped. */
+function readLocalImports(workspaceDir: string, source: string): string[] {
+  let content: string;
+  try {
+    content = readFileSync(join(workspaceDir, source), 'utf-8');
+  } catch {
+    return [];
+  }
+  const imports: string[] = [];
+  for (const [, specifier] of content.matchAll(IMPORT_PATTERN)) {
+    if (specifier.startsWith('/')) imports.push(posix.normalize(specifier.slice(1)));
+    else if (specifier.startsWith('.')) imports.push(posix.join(posix.dirname(source), specifier));
+  }
+  return imports;
+}
+
+/**
+ * Whether a workspace file changed in this batch or imports, directly or
+ * through other files, one that did. Imports are read lazily, only for the
+ * files asked about.
+ */
+function createImportTracker(workspaceDir: string, changedPaths: Set<string>): (path: string) => boolean {
+  // Nothing that can be imported changed, e.g. only docs.json or an image
+  if (![...changedPaths].some((path) => extname(path) !== '' && IMPORT_EXTENSIONS.includes(extname(path)))) {
+    return (path) => changedPaths.has(path);
+  }
+  const results = new Map<string, boolean>();
+  const resolveImport = (imported: string) => IMPORT_EXTENSIONS
+    .map((ext) => `${imported}${ext}`)
+    .find((path) => changedPaths.has(path) || (extname(path) !== '' && existsSync(join(workspaceDir, path))));
+
+  const isAffected = (path: string, visiting: Set<string>): boolean => {
+    const known = results.get(path);
+    if (known !== undefined) return known;
+    if (changedPaths.has(path)) return true;
+    if (visiting.has(path)) return false; // import cycle
+    visiting.add(path);
+    const affected = readLocalImports(workspaceDir, path).some((imported) => {
+      const resolved = resolveImport(imported);
+      return resolved !== undefined && isAffected(resolved, visiting);
+    });
+    visiting.delete(path);
+    results.set(path, affected);
+    return affected;
+  };
+  return (path) => isAffected(path, new Set());
+}
+
+function tryLoadConfig(workspaceDir: string): { loaded?: LoadedContentConfig<ContentConfig>; error?: string } {
+  try {
+    return { loaded: loadContentConfig(workspaceDir, { strictVariables: false }) };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+const sessionQueues = new Map<string, Promise<unknown>>();
+
+/** Run batches of one session one at a time, so their workspace writes and page diffs don't interleave. */
+function runExclusive<T>(sessionId: string, task: () => T): Promise<T> {
+  const previous = sessionQueues.get(sessionId) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(task);
+  sessionQueues.set(sessionId, next);
+  void next.finally(() => {
+    if (sessionQueues.get(sessionId) === next) sessionQueues.delete(sessionId);
+  }).catch(() => undefined);
+  return next;
+}
+
+/**
+ * Apply a batch of workspace changes, then regenerate only the pages they
+ * affect: an edited page, pages importing an edited file, pages a docs.json
+ * or spec edit adds or moves (all pages when the variables change), and
+ * nothing else; the other pages are at most scanned for imports. Pages the
+ * navigation dropped are removed; .md/.mdx files outside the navigation
+ * (snippets) are mirrored as `syncSessionFile` does.
+ *
+ * The generated files are rendered before any is written. When they would
+ * take the session over its quota, the workspace changes are undone and
+ * `quotaError` is set.
+ */
+export function applySessionFiles(sessionId: string, changes: SessionFileChange[]): Promise<SessionBatchResult> {
+  return runExclusive(sessionId, () => {
+    const workspaceDir = join(WORKSPACE_DIR, sessionId);
+    const outputDir = join(PREVIEW_CONTENT_DIR, sessionId);
+    const before = tryLoadConfig(workspaceDir).loaded;
+    const previousOutputs = before ? runContentPass(sessionId, before, false).outputs : new Map<string, string | undefined>();
+    const changedPaths = new Set(changes.map((change) => change.path));
+    const isAffected = createImportTracker(workspaceDir, changedPaths);
+
+    const restoreWorkspace = applyWorkspaceChanges(workspaceDir, changes);
+    // Whatever fails from here on, the workspace and the content go back to
+    // how they were, so the caller can be told that nothing changed
+    let restoreContent: (() => void) | undefined;
+    try {
+      const { loaded, error: configError } = tryLoadConfig(workspaceDir);
+      // Only pages that are new or moved, or whose source or imports changed,
+      // are rendered again; every page when the variables changed
+      const variablesChanged = JSON.stringify(before?.variables) !== JSON.stringify(loaded?.variables);
+      const shouldRenderPage = (source: string, page: string) => variablesChanged
+        || previousOutputs.get(page) !== source
+        || !existsSync(join(outputDir, page))
+        || isAffected(source);
+      const pass: ContentPass = loaded
+        ? runContentPass(sessionId, loaded, true, shouldRenderPage)
+        : { outputs: previousOutputs, pending: new Map(), changed: [] };
+
+      // A page importing a changed file compiles differently even when its own output is the same
+      const changedPages = new Set(pass.changed.map((entry) => entry.page));
+      for (const [page, source] of pass.outputs) {
+        if (!source || !page.endsWith('.mdx') || changedPages.has(page) || changedPaths.has(source)) continue;
+        if (isAffected(source)) pass.changed.push({ page, source });
+      }
+      const removedPages: string[] = [];
+      if (loaded) {
+        for (const output of previousOutputs.keys()) {
+          if (pass.outputs.has(output)) continue;
+          pass.pending.set(output, null);
+          if (output.endsWith('.mdx')) removedPages.push(output);
+        }
+      }
+
+      const pagesBySource = new Map<string, string[]>();
+      for (const [page, source] of pass.outputs) {
+        if (!source || !page.endsWith('.mdx')) continue;
+        pagesBySource.set(source, [...(pagesBySource.get(source) ?? []), page]);
+      }
+
+      const specWrites: string[] = [];
+      const files = changes.map((change): SessionFileResult => {
+        const ext = extname(change.path).toLowerCase();
+        const pages = pagesBySource.get(change.path) ?? [];
+        if (pages.length === 0 && (ext === '.mdx' || ext === '.md')) {
+          // Not a navigation page: keep the mirrored copy that imports resolve against.
+          const slug = change.path.replace(/\.(mdx?|md)$/, '');
+          pass.pending.set(`${slug}.mdx`, change.deleted
+            ? null
+            : renderPage(join(workspaceDir, change.path), join(outputDir, `${slug}.mdx`), slug, sessionContentOptions(sessionId, loaded?.variables ?? {})));
+        } else if (!change.deleted && SPEC_EXTENSIONS.has(ext) && change.path !== PRIMARY_CONFIG_NAME && change.path !== LEGACY_CONFIG_NAME) {
+          specWrites.push(change.path);
+        }
+        return { path: change.path, status: change.deleted ? 'deleted' : 'written', pages };
+      });
+
+      const quotaError = checkSessionQuota(sessionId, pass.pending);
+      if (quotaError) {
+        restoreWorkspace();
+        return { files: [], changedPages: [], removedPages: [], quotaError };
+      }
+
+      restoreContent = writeFiles(outputDir, pass.pending);
+      // public/ is shared by every session, so a deleted spec is left there:
+      // another session may use the same path
+      writeFiles(resolve('public'), new Map(specWrites.map((path) => [path, readFileSync(join(workspaceDir, path))])));
+
+      return { files, changedPages: pass.changed, removedPages, ...(configError ? { configError } : {}) };
+    } catch (error) {
+      restoreContent?.();
+      restoreWorkspace();
+      throw error;
+    }
+  });
+}
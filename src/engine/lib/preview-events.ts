@@ -0,0 +1,68 @@
+/**
+ * Per-session change events for preview pages.
+ *
+ * The sync/init route handlers and the `__events` stream run in separate
+ * module instances (see the invalidation stamp in preview-source.ts), so an
+ * in-memory emitter would not reach the stream. The latest event is written
+ * to a file under the content directory instead, and each open stream polls
+ * that file.
+ */
+import { mkdirSync, readFileSync, renameSync, unwatchFile, watchFile, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+
+const PREVIEW_CONTENT_DIR = process.env.PREVIEW_CONTENT_DIR || './content';
+const EVENTS_DIR = join(PREVIEW_CONTENT_DIR, '.events');
+const POLL_INTERVAL_MS = 300;
+
+export type PreviewEvent =
+  /** Content was written and the cached source invalidated: refresh the page. */
+  | { type: 'updated'; at: number; file?: string }
+  /** Generating or compiling content failed: show the error. */
+  | { type: 'error'; at: number; file?: string; message: string };
+
+type PreviewEventInput =
+  | { type: 'updated'; file?: string }
+  | { type: 'error'; file?: string; message: string };
+
+function getEventPath(sessionId: string): string {
+  return join(EVENTS_DIR, `${sessionId}.json`);
+}
+
+export function publishSessionEvent(sessionId: string, event: PreviewEventInput): void {
+  mkdirSync(EVENTS_DIR, { recursive: true });
+  const path = getEventPath(sessionId);
+  const tmpPath = `${path}.${process.pid}.tmp`;
+  // Write then rename, so a polling stream never reads a half-written event.
+  writeFileSync(tmpPath, JSON.stringify({ ...event, at: Date.now() }), 'utf-8');
+  renameSync(tmpPath, path);
+}
+
+export function readSessionEvent(sessionId: string): PreviewEvent | null {
+  try {
+    const parsed = JSON.parse(readFileSync(getEventPath(sessionId), 'utf-8')) as PreviewEvent;
+    return typeof parsed?.type === 'string' && typeof parsed.at === 'number' ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Call `onEvent` for every event published after `since`. Returns a function
+ * that stops watching.
+ */
+export function watchSessionEvents(
+  sessionId: string,
+  since: number,
+  onEvent: (event: PreviewEvent) => void,
+): () => void {
+  const path = getEventPath(sessionId);
+  let last = since;
+  const listener = () => {
+    const event = readSessionEvent(sessionId);
+    if (!event || event.at <= last) return;
+    last = event.at;
+    onEvent(event);
+  };
+  watchFile(path, { interval: POLL_INTERVAL_MS }, listener);
+  return () => unwatchFile(path, listener);
+}
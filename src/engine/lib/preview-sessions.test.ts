@@ -0,0 +1,90 @@
+import assert from 'node:assert/strict';
+import { existsSync, mkdirSync, mkdtempSync, rmSync, utimesSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import test, { after } from 'node:test';
+
+const contentDir = mkdtempSync(join(tmpdir(), 'velu-sessions-'));
+process.env.PREVIEW_CONTENT_DIR = contentDir;
+const workspaceDir = mkdtempSync(join(tmpdir(), 'velu-workspaces-'));
+process.env.WORKSPACE_DIR = workspaceDir;
+process.env.PREVIEW_SESSION_TTL_MINUTES = '60';
+process.env.PREVIEW_MAX_SESSION_PAGES = '2';
+process.env.PREVIEW_MAX_SESSION_BYTES = '100';
+const { checkSessionQuota, expireIdleSessions, listSessions } = await import('./preview-sessions');
+
+const HOUR = 60 * 60_000;
+
+after(() => {
+  rmSync(contentDir, { recursive: true, force: true });
+  rmSync(workspaceDir, { recursive: true, force: true });
+});
+
+function writeSession(sessionId: string, files: Record<string, string>, lastAccess?: number) {
+  for (const [path, content] of Object.entries(files)) {
+    mkdirSync(join(contentDir, sessionId, path, '..'), { recursive: true });
+    writeFileSync(join(contentDir, sessionId, path), content);
+  }
+  if (lastAccess === undefined) return;
+  mkdirSync(join(contentDir, '.sessions'), { recursive: true });
+  writeFileSync(join(contentDir, '.sessions', `${sessionId}.json`), JSON.stringify({ createdAt: lastAccess, lastAccess }));
+}
+
+test('checkSessionQuota counts pending writes and removals against the current content', () => {
+  writeSession('quota', { 'index.mdx': 'a'.repeat(10), 'guides/intro.mdx': 'b'.repeat(10), 'meta.json': '{}' });
+
+  assert.equal(checkSessionQuota('quota'), null);
+  assert.equal(checkSessionQuota('quota', new Map([['guides/intro.mdx', 'c'.repeat(50)]])), null);
+  assert.equal(checkSessionQuota('quota', new Map([['guides/new.mdx', 'x']])), 'Session has 3 pages; the limit is 2.');
+  assert.equal(checkSessionQuota('quota', new Map<string, string | null>([['guides/new.mdx', 'x'], ['index.mdx', null]])), null);
+  assert.equal(checkSessionQuota('quota', new Map([['index.mdx', 'a'.repeat(90)]])), 'Session content is 102 bytes; the limit is 100.');
+
+  // `replace` ignores what is on disk, as for init
+  assert.equal(checkSessionQuota('quota', new Map([['index.mdx', 'x']]), { replace: true }), null);
+});
+
+test('listSessions reports size and access, most recently used first', () => {
+  writeSession('older', { 'index.mdx': 'one' }, 1_000);
+  writeSession('newer', { 'index.mdx': 'two', 'guides/a.mdx': 'three' }, 2_000);
+
+  const sessions = listSessions().filter((session) => session.sessionId !== 'quota');
+  assert.deepEqual(sessions.map(({ sessionId, pageCount, bytes, lastAccess }) => ({ sessionId, pageCount, bytes, lastAccess })), [
+    { sessionId: 'newer', pageCount: 2, bytes: 8, lastAccess: 2_000 },
+    { sessionId: 'older', pageCount: 1, bytes: 3, lastAccess: 1_000 },
+  ]);
+});
+
+test('expireIdleSessions removes idle sessions and orphaned bookkeeping files', () => {
+  const now = Date.now();
+  writeSession('idle', { 'index.mdx': 'x' }, now - 2 * HOUR);
+  writeSession('active', { 'index.mdx': 'x' }, now - HOUR / 2);
+  mkdirSync(join(contentDir, '.invalidation'), { recursive: true });
+  writeFileSync(join(contentDir, '.invalidation', 'idle.stamp'), '1');
+  writeFileSync(join(contentDir, '.invalidation', 'active.stamp'), '1');
+
+  // Left by sessions whose content is already gone: old ones go, recent ones stay
+  const orphan = join(contentDir, '.invalidation', 'gone.stamp');
+  const recentOrphan = join(contentDir, '.invalidation', 'recent.stamp');
+  writeFileSync(orphan, '1');
+  writeFileSync(recentOrphan, '1');
+  utimesSync(orphan, (now - 2 * HOUR) / 1000, (now - 2 * HOUR) / 1000);
+
+  // Comments stay while the session has a workspace
+  mkdirSync(join(contentDir, '.comments'), { recursive: true });
+  mkdirSync(join(workspaceDir, '7'));
+  writeFileSync(join(contentDir, '.comments', '7.json'), '[]');
+  writeFileSync(join(contentDir, '.comments', '8.json'), '[]');
+
+  const expired = expireIdleSessions(now);
+  assert.ok(expired.includes('idle'));
+  assert.ok(!expired.includes('active'));
+  assert.equal(existsSync(join(contentDir, 'idle')), false);
+  assert.equal(existsSync(join(contentDir, '.sessions', 'idle.json')), false);
+  assert.equal(existsSync(join(contentDir, '.invalidation', 'idle.stamp')), false);
+  assert.equal(existsSync(join(contentDir, 'active')), true);
+  assert.equal(existsSync(join(contentDir, '.invalidation', 'active.stamp')), true);
+  assert.equal(existsSync(orphan), false);
+  assert.equal(existsSync(recentOrphan), true);
+  assert.equal(existsSync(join(contentDir, '.comments', '7.json')), true);
+  assert.equal(existsSync(join(contentDir, '.comments', '8.json')), false);
+});
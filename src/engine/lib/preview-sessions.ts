@@ -0,0 +1,265 @@
+/**
+ * Preview session lifecycle: last-access tracking, idle expiry, quotas and
+ * the session listing.
+ *
+ * Like the invalidation stamps (see preview-source.ts), access records are
+ * files under the content directory, because API routes and page routes run
+ * in separate module instances. Expiry removes a session's generated content
+ * and its bookkeeping files; the workspace is left alone, so `init` brings
+ * the session back. Review comments go once the workspace is gone too.
+ *
+ * Configured through the environment:
+ *   PREVIEW_SESSION_TTL_MINUTES   idle time before a session is removed (default 1440, 0 disables)
+ *   PREVIEW_MAX_SESSION_PAGES     generated pages per session (default unlimited)
+ *   PREVIEW_MAX_SESSION_BYTES     generated bytes per session (default unlimited)
+ */
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, statSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { readSessionEvent } from './preview-events';
+
+const PREVIEW_CONTENT_DIR = process.env.PREVIEW_CONTENT_DIR || './content';
+const WORKSPACE_DIR = process.env.WORKSPACE_DIR || '/mnt/nfs_share/editor_sessions';
+const SESSIONS_DIR = join(PREVIEW_CONTENT_DIR, '.sessions');
+const COMMENTS_DIR = join(PREVIEW_CONTENT_DIR, '.comments');
+
+/** Access records are rewritten at most this often per session and module instance. */
+const TOUCH_INTERVAL_MS = 60_000;
+const SWEEP_INTERVAL_MS = 5 * 60_000;
+
+function readLimit(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+const SESSION_TTL_MS = readLimit('PREVIEW_SESSION_TTL_MINUTES', 24 * 60) * 60_000;
+const MAX_SESSION_PAGES = readLimit('PREVIEW_MAX_SESSION_PAGES', 0);
+const MAX_SESSION_BYTES = readLimit('PREVIEW_MAX_SESSION_BYTES', 0);
+
+export interface SessionInfo {
+  sessionId: string;
+  pageCount: number;
+  /** Size of the generated content, in bytes. */
+  bytes: number;
+  createdAt: number;
+  lastAccess: number;
+  /** The latest event, when it is an error (cleared by the next successful update). */
+  lastError?: { message: string; file?: string; at: number };
+}
+
+interface SessionRecord {
+  createdAt: number;
+  lastAccess: number;
+}
+
+function getRecordPath(sessionId: string): string {
+  return join(SESSIONS_DIR, `${sessionId}.json`);
+}
+
+function readRecord(sessionId: string): SessionRecord | null {
+  try {
+    const parsed = JSON.parse(readFileSync(getRecordPath(sessionId), 'utf-8')) as Partial<SessionRecord>;
+    if (typeof parsed.lastAccess !== 'number') return null;
+    return { createdAt: typeof parsed.createdAt === 'number' ? parsed.createdAt : parsed.lastAccess, lastAccess: parsed.lastAccess };
+  } catch {
+    return null;
+  }
+}
+
+const lastTouched = new Map<string, number>();
+
+/**
+ * Record that a session was used (a page render, an open event stream or
+ * an API call). Also starts the idle sweep in this module instance.
+ */
+export function touchSession(sessionId: string): void {
+  startSessionSweep();
+  const now = Date.now();
+  if (now - (lastTouched.get(sessionId) ?? 0) < TOUCH_INTERVAL_MS) return;
+  if (!existsSync(join(PREVIEW_CONTENT_DIR, sessionId))) return;
+  lastTouched.set(sessionId, now);
+  try {
+    mkdirSync(SESSIONS_DIR, { recursive: true });
+    const record: SessionRecord = { createdAt: readRecord(sessionId)?.createdAt ?? now, lastAccess: now };
+    writeFileSync(getRecordPath(sessionId), JSON.stringify(record), 'utf-8');
+  } catch (error) {
+    console.error(`[PREVIEW:sessions] Failed to record access for session ${sessionId}:`, error);
+  }
+}
+
+/**
+ * Whether `sessionId` names a session: a numeric id, as the preview proxy
+ * expects, with generated content or a workspace.
+ */
+export function sessionExists(sessionId: string): boolean {
+  if (!/^\d+$/.test(sessionId)) return false;
+  return existsSync(join(PREVIEW_CONTENT_DIR, sessionId)) || existsSync(join(WORKSPACE_DIR, sessionId));
+}
+
+/**
+ * Remove a session's generated content and bookkeeping files (access
+ * record, invalidation stamp, last event).
+ */
+export function removeSession(sessionId: string): void {
+  lastTouched.delete(sessionId);
+  rmSync(join(PREVIEW_CONTENT_DIR, sessionId), { recursive: true, force: true });
+  for (const path of [
+    getRecordPath(sessionId),
+    join(PREVIEW_CONTENT_DIR, '.invalidation', `${sessionId}.stamp`),
+    join(PREVIEW_CONTENT_DIR, '.events', `${sessionId}.json`),
+  ]) {
+    rmSync(path, { force: true });
+  }
+}
+
+/** Size of every file under `dir`, keyed by its path relative to `dir`. */
+function listFileSizes(dir: string): Map<string, number> {
+  const sizes = new Map<string, number>();
+  const walk = (current: string, prefix: string) => {
+    for (const entry of readdirSync(current, { withFileTypes: true })) {
+      const path = join(current, entry.name);
+      if (entry.isDirectory()) {
+        walk(path, `${prefix}${entry.name}/`);
+        continue;
+      }
+      sizes.set(`${prefix}${entry.name}`, statSync(path).size);
+    }
+  };
+  if (existsSync(dir)) walk(dir, '');
+  return sizes;
+}
+
+function totalSizes(sizes: Map<string, number>): { pageCount: number; bytes: number } {
+  const totals = { pageCount: 0, bytes: 0 };
+  for (const [path, size] of sizes) {
+    totals.bytes += size;
+    if (path.endsWith('.mdx')) totals.pageCount += 1;
+  }
+  return totals;
+}
+
+/** Ids of the sessions with generated content. */
+function listSessionIds(): string[] {
+  if (!existsSync(PREVIEW_CONTENT_DIR)) return [];
+  return readdirSync(PREVIEW_CONTENT_DIR, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory() && !entry.name.startsWith('.'))
+    .map((entry) => entry.name);
+}
+
+function lastAccessOf(sessionId: string): { createdAt: number; lastAccess: number } {
+  const record = readRecord(sessionId);
+  if (record) return record;
+  // Sessions created before access tracking: fall back to the content dir's mtime
+  const mtime = Math.round(statSync(join(PREVIEW_CONTENT_DIR, sessionId)).mtimeMs);
+  return { createdAt: mtime, lastAccess: mtime };
+}
+
+export function getSessionInfo(sessionId: string): SessionInfo {
+  const event = readSessionEvent(sessionId);
+  return {
+    sessionId,
+    ...totalSizes(listFileSizes(join(PREVIEW_CONTENT_DIR, sessionId))),
+    ...lastAccessOf(sessionId),
+    ...(event?.type === 'error' ? { lastError: { message: event.message, file: event.file, at: event.at } } : {}),
+  };
+}
+
+/** Every session with generated content, most recently used first. */
+export function listSessions(): SessionInfo[] {
+  return listSessionIds()
+    .map((sessionId) => getSessionInfo(sessionId))
+    .sort((a, b) => b.lastAccess - a.lastAccess);
+}
+
+export function getSessionLimits(): { ttlMinutes: number; maxPages: number | null; maxBytes: number | null } {
+  return {
+    ttlMinutes: SESSION_TTL_MS / 60_000,
+    maxPages: MAX_SESSION_PAGES || null,
+    maxBytes: MAX_SESSION_BYTES || null,
+  };
+}
+
+/**
+ * Generated files a request is about to write, relative to the session's
+ * content dir: the new content, or null for a removal.
+ */
+export type PendingContent = Map<string, string | Buffer | null>;
+
+/**
+ * Check what a session's generated content would be after `pending` is
+ * written against the page and byte quotas, so a request can be rejected
+ * before it touches anything. With `replace`, `pending` is the session's
+ * whole content (as for `init`). Returns the reason when it would be over a
+ * quota.
+ */
+export function checkSessionQuota(
+  sessionId: string,
+  pending: PendingContent = new Map(),
+  options: { replace?: boolean } = {},
+): string | null {
+  if (!MAX_SESSION_PAGES && !MAX_SESSION_BYTES) return null;
+  const sizes = options.replace ? new Map<string, number>() : listFileSizes(join(PREVIEW_CONTENT_DIR, sessionId));
+  for (const [path, content] of pending) {
+    if (content === null) sizes.delete(path);
+    else sizes.set(path, typeof content === 'string' ? Buffer.byteLength(content) : content.length);
+  }
+  const { pageCount, bytes } = totalSizes(sizes);
+  if (MAX_SESSION_PAGES && pageCount > MAX_SESSION_PAGES) {
+    return `Session has ${pageCount} pages; the limit is ${MAX_SESSION_PAGES}.`;
+  }
+  if (MAX_SESSION_BYTES && bytes > MAX_SESSION_BYTES) {
+    return `Session content is ${bytes} bytes; the limit is ${MAX_SESSION_BYTES}.`;
+  }
+  return null;
+}
+
+/** Remove every session idle for longer than the TTL. Returns the removed ids. */
+export function expireIdleSessions(now = Date.now()): string[] {
+  if (!SESSION_TTL_MS) return [];
+  for (const [sessionId, touchedAt] of lastTouched) {
+    if (now - touchedAt > SESSION_TTL_MS) lastTouched.delete(sessionId);
+  }
+  const expired: string[] = [];
+  for (const sessionId of listSessionIds()) {
+    try {
+      if (now - lastAccessOf(sessionId).lastAccess <= SESSION_TTL_MS) continue;
+      removeSession(sessionId);
+      expired.push(sessionId);
+    } catch (error) {
+      console.error(`[PREVIEW:sessions] Failed to expire session ${sessionId}:`, error);
+    }
+  }
+
+  // Bookkeeping files left by sessions whose content is already gone
+  for (const dir of [SESSIONS_DIR, join(PREVIEW_CONTENT_DIR, '.invalidation'), join(PREVIEW_CONTENT_DIR, '.events')]) {
+    if (!existsSync(dir)) continue;
+    for (const name of readdirSync(dir)) {
+      const sessionId = name.replace(/\.(?:json|stamp)$/, '');
+      const path = join(dir, name);
+      if (sessionId === name || existsSync(join(PREVIEW_CONTENT_DIR, sessionId))) continue;
+      try {
+        if (now - statSync(path).mtimeMs > SESSION_TTL_MS) rmSync(path, { force: true });
+      } catch { /* removed meanwhile */ }
+    }
+  }
+
+  // Comments outlive expiry, so `init` brings them back, but not the workspace
+  if (existsSync(COMMENTS_DIR)) {
+    for (const name of readdirSync(COMMENTS_DIR)) {
+      const sessionId = name.replace(/\.json$/, '');
+      if (sessionId === name || sessionExists(sessionId)) continue;
+      rmSync(join(COMMENTS_DIR, name), { force: true });
+    }
+  }
+
+  if (expired.length > 0) console.log(`[PREVIEW:sessions] Expired idle sessions: ${expired.join(', ')}`);
+  return expired;
+}
+
+let sweepTimer: ReturnType<typeof setInterval> | null = null;
+
+/** Start the periodic idle sweep for this module instance (idempotent). */
+export function startSessionSweep(): void {
+  if (sweepTimer || !SESSION_TTL_MS) return;
+  sweepTimer = setInterval(() => expireIdleSessions(), SWEEP_INTERVAL_MS);
+  sweepTimer.unref?.();
+}
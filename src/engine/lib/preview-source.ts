@@ -58,6 +58,16 @@ function writeInvalidationStamp(sessionId: string): void {
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 const sourceCache = new Map<string, { source: any; createdAt: number }>();
 
+/**
+ * Drop cached sources of sessions whose content is gone (deleted or expired
+ * through another module instance), so abandoned sessions don't stay in memory.
+ */
+function pruneSourceCache(): void {
+  for (const sessionId of sourceCache.keys()) {
+    if (!existsSync(join(PREVIEW_CONTENT_DIR, sessionId))) sourceCache.delete(sessionId);
+  }
+}
+
 // Dynamic instance — singleton, initialized lazily
 let dynamicInstance: Awaited<ReturnType<typeof dynamic>> | null = null;
 let dynamicInitPromise: Promise<Awaited<ReturnType<typeof dynamic>>> | null = null;
@@ -176,6 +186,7 @@ function scanContentDir(sessionDir: string): {
  * Scans the content directory at call time and compiles MDX on-demand.
  */
 export async function getSessionSource(sessionId: string) {
+  pruneSourceCache();
   const cached = sourceCache.get(sessionId);
   if (cached) {
     const stamp = readInvalidationStamp(sessionId);
@@ -254,6 +265,21 @@ export function invalidateSessionSource(sessionId: string): void {
   log('invalidate', `session=${sessionId} hadCache=${had} wroteStamp=true`);
 }
 
+/**
+ * Compile one generated page of a session (`relPath` is relative to its
+ * content dir). Throws the MDX compile error, so the sync route can report
+ * it instead of the next page render failing.
+ */
+export async function compileSessionPage(sessionId: string, relPath: string): Promise<void> {
+  const sessionDir = join(PREVIEW_CONTENT_DIR, sessionId);
+  const fullPath = join(sessionDir, relPath);
+  const dyn = await getDynamic();
+  const [entry] = await dyn.doc('docs', sessionDir, [
+    { info: { path: relPath, fullPath }, data: parseFrontmatter(readFileSync(fullPath, 'utf-8')) },
+  ]);
+  await entry?.load();
+}
+
 /**
  * Get the page tree filtered to a specific session's content.
  * Unlike source.ts's synchronous version, this is async because
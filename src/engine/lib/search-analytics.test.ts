@@ -0,0 +1,63 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { buildSearchReport, parseSearchEvent, resolveSearchAnalyticsConfig, type SearchEvent } from './search-analytics';
+
+function search(searchId: string, query: string, results: number): SearchEvent {
+  return { id: searchId, receivedAt: '2026-01-02T00:00:00.000Z', type: 'search', searchId, query, results, filters: {} };
+}
+
+function click(searchId: string, url: string): SearchEvent {
+  return { id: `${searchId}-click`, receivedAt: '2026-01-02T00:00:01.000Z', type: 'click', searchId, query: '', url, position: 0, filters: {} };
+}
+
+test('resolveSearchAnalyticsConfig is off unless search.analytics is set', () => {
+  assert.equal(resolveSearchAnalyticsConfig(undefined), null);
+  assert.equal(resolveSearchAnalyticsConfig({ enabled: false }), null);
+  assert.deepEqual(resolveSearchAnalyticsConfig(true), { file: '.velu-search/events.jsonl' });
+  assert.deepEqual(resolveSearchAnalyticsConfig({ endpoint: 'https://docs.example.com/api/search-analytics' }), {
+    endpoint: 'https://docs.example.com/api/search-analytics',
+    file: '.velu-search/events.jsonl',
+  });
+});
+
+test('parseSearchEvent validates dialog events and keeps known filters', () => {
+  const parsed = parseSearchEvent({
+    type: 'click',
+    search_id: 'abc',
+    query: ' API keys ',
+    url: '/keys/',
+    position: 2,
+    filters: { version: 'v2', secret: 'x' },
+    page_url: '/quickstart/',
+  });
+  assert.ok('event' in parsed);
+  assert.equal(parsed.event.query, 'API keys');
+  assert.equal(parsed.event.position, 2);
+  assert.deepEqual(parsed.event.filters, { version: 'v2' });
+  assert.equal(parsed.event.pageUrl, '/quickstart/');
+
+  assert.deepEqual(parseSearchEvent({ type: 'search', search_id: 'abc', query: 'keys' }), { error: '`results` must be a count.' });
+  assert.deepEqual(parseSearchEvent({ type: 'view', search_id: 'abc', query: 'keys' }), { error: '`type` must be "search" or "click".' });
+});
+
+test('buildSearchReport lists top, zero-result and low-CTR queries', () => {
+  const report = buildSearchReport([
+    search('1', 'API Keys', 4), click('1', '/keys/'),
+    search('2', 'api  keys', 4), click('2', '/keys/'),
+    search('3', 'webhooks', 3),
+    search('4', 'Webhooks', 3),
+    search('5', 'webhooks', 3),
+    search('6', 'sso', 0),
+  ], { limit: 10 });
+
+  assert.equal(report.searches, 6);
+  assert.equal(report.queries, 3);
+  assert.deepEqual(report.topQueries.map(({ query, searches, ctr }) => ({ query, searches, ctr })), [
+    { query: 'webhooks', searches: 3, ctr: 0 },
+    { query: 'api keys', searches: 2, ctr: 1 },
+    { query: 'sso', searches: 1, ctr: 0 },
+  ]);
+  assert.equal(report.topQueries[1].topClick, '/keys/');
+  assert.deepEqual(report.zeroResultQueries.map((entry) => entry.query), ['sso']);
+  assert.deepEqual(report.lowCtrQueries.map((entry) => entry.query), ['webhooks']);
+});
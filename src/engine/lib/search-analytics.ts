@@ -0,0 +1,266 @@
+import { randomUUID } from 'node:crypto';
+import { existsSync } from 'node:fs';
+import { appendFile, mkdir, readFile } from 'node:fs/promises';
+import { dirname, isAbsolute, join } from 'node:path';
+
+export interface SearchAnalyticsConfig {
+  /** Where the search dialog posts events; undefined uses the built-in route. */
+  endpoint?: string;
+  /** JSONL file `/api/search-analytics` appends to, relative to the docs directory. */
+  file: string;
+}
+
+export interface SearchEvent {
+  id: string;
+  receivedAt: string;
+  type: 'search' | 'click';
+  /** Shared by a search and the clicks on its results. */
+  searchId: string;
+  query: string;
+  /** Result count, on `search` events. */
+  results?: number;
+  /** Clicked result URL and its 0-based position, on `click` events. */
+  url?: string;
+  position?: number;
+  /** `language`, `version` and `product` the dialog searched with. */
+  filters: Record<string, string>;
+  pageUrl?: string;
+}
+
+export interface SearchQueryStats {
+  /** Lowercased, with whitespace collapsed. */
+  query: string;
+  searches: number;
+  /** Searches with at least one click. */
+  clicked: number;
+  /** Share of searches with a click, 0 to 1. */
+  ctr: number;
+  averageResults: number;
+  zeroResults: number;
+  /** Most clicked result URL. */
+  topClick?: string;
+}
+
+export interface SearchReport {
+  searches: number;
+  queries: number;
+  from?: string;
+  to?: string;
+  topQueries: SearchQueryStats[];
+  /** Queries that found nothing: pages to write. */
+  zeroResultQueries: SearchQueryStats[];
+  /** Queries with results nobody clicks: pages to retitle or improve. */
+  lowCtrQueries: SearchQueryStats[];
+}
+
+export const SEARCH_ANALYTICS_ROUTE = '/api/search-analytics';
+export const DEFAULT_SEARCH_ANALYTICS_FILE = '.velu-search/events.jsonl';
+
+const MAX_QUERY_LENGTH = 200;
+const MAX_URL_LENGTH = 2000;
+const FILTER_KEYS = ['language', 'version', 'product'];
+const LOW_CTR_THRESHOLD = 0.2;
+const LOW_CTR_MIN_SEARCHES = 3;
+
+// ── Config ─────────────────────────────────────────────────────────────────────
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+function trimString(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : undefined;
+}
+
+/** `search.analytics` from docs.json: `true` or `{ endpoint, file }`. Null when it is off. */
+export function resolveSearchAnalyticsConfig(raw: unknown): SearchAnalyticsConfig | null {
+  if (raw === true) return { file: DEFAULT_SEARCH_ANALYTICS_FILE };
+  if (!isRecord(raw) || raw.enabled === false) return null;
+  return {
+    endpoint: trimString(raw.endpoint),
+    file: trimString(raw.file) ?? DEFAULT_SEARCH_ANALYTICS_FILE,
+  };
+}
+
+/** The events file of an enabled `search.analytics`, relative paths resolved against `docsDir`. */
+export function resolveSearchAnalyticsFile(config: SearchAnalyticsConfig, docsDir: string): string {
+  return isAbsolute(config.file) ? config.file : join(docsDir, config.file);
+}
+
+// ── Events ─────────────────────────────────────────────────────────────────────
+
+function normalizeQuery(query: string): string {
+  return query.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function isCount(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+/**
+ * Validate an event from the search dialog: `type`, `search_id`, `query`,
+ * `filters`, `page_url`, plus `results` for searches and `url`/`position`
+ * for clicks.
+ */
+export function parseSearchEvent(body: unknown): { event: SearchEvent } | { error: string } {
+  if (!isRecord(body)) return { error: 'Expected a JSON object.' };
+  if (body.type !== 'search' && body.type !== 'click') return { error: '`type` must be "search" or "click".' };
+  const searchId = trimString(body.search_id);
+  const query = trimString(body.query);
+  if (!searchId || searchId.length > 100) return { error: '`search_id` is required.' };
+  if (!query) return { error: '`query` is required.' };
+  if (query.length > MAX_QUERY_LENGTH) return { error: `\`query\` is longer than ${MAX_QUERY_LENGTH} characters.` };
+
+  const filters: Record<string, string> = {};
+  if (isRecord(body.filters)) {
+    for (const key of FILTER_KEYS) {
+      const value = trimString(body.filters[key]);
+      if (value) filters[key] = value.slice(0, 100);
+    }
+  }
+  const pageUrl = trimString(body.page_url)?.slice(0, MAX_URL_LENGTH);
+  const base = {
+    id: randomUUID(),
+    receivedAt: new Date().toISOString(),
+    searchId,
+    query,
+    filters,
+    ...(pageUrl ? { pageUrl } : {}),
+  };
+
+  if (body.type === 'search') {
+    if (!isCount(body.results)) return { error: '`results` must be a count.' };
+    return { event: { ...base, type: 'search', results: body.results } };
+  }
+  const url = trimString(body.url);
+  if (!url || url.length > MAX_URL_LENGTH) return { error: '`url` is required.' };
+  if (!isCount(body.position)) return { error: '`position` must be a count.' };
+  return { event: { ...base, type: 'click', url, position: body.position } };
+}
+
+export async function appendSearchEvent(path: string, event: SearchEvent): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  await appendFile(path, `${JSON.stringify(event)}\n`, 'utf-8');
+}
+
+export async function readSearchEvents(path: string): Promise<SearchEvent[]> {
+  if (!existsSync(path)) return [];
+  const lines = (await readFile(path, 'utf-8')).split('\n');
+  return lines.flatMap((line) => {
+    if (!line.trim()) return [];
+    try {
+      return [JSON.parse(line) as SearchEvent];
+    } catch {
+      return [];
+    }
+  });
+}
+
+// ── Reporting ──────────────────────────────────────────────────────────────────
+
+/** Per-query searches, clicks and results, with the three lists writers act on. */
+export function buildSearchReport(events: SearchEvent[], options: { limit: number }): SearchReport {
+  const clicksBySearch = new Map<string, SearchEvent[]>();
+  for (const event of events) {
+    if (event.type !== 'click') continue;
+    clicksBySearch.set(event.searchId, [...(clicksBySearch.get(event.searchId) ?? []), event]);
+  }
+
+  const stats = new Map<string, SearchQueryStats & { totalResults: number; urls: Map<string, number> }>();
+  let searches = 0;
+  const dates: string[] = [];
+  for (const event of events) {
+    if (event.type !== 'search') continue;
+    searches += 1;
+    dates.push(event.receivedAt);
+    const query = normalizeQuery(event.query);
+    const entry = stats.get(query) ?? {
+      query, searches: 0, clicked: 0, ctr: 0, averageResults: 0, zeroResults: 0, totalResults: 0, urls: new Map(),
+    };
+    const clicks = clicksBySearch.get(event.searchId) ?? [];
+    entry.searches += 1;
+    entry.totalResults += event.results ?? 0;
+    if (event.results === 0) entry.zeroResults += 1;
+    if (clicks.length > 0) entry.clicked += 1;
+    for (const click of clicks) entry.urls.set(click.url!, (entry.urls.get(click.url!) ?? 0) + 1);
+    stats.set(query, entry);
+  }
+
+  const queries = Array.from(stats.values()).map(({ totalResults, urls, ...entry }) => {
+    const topClick = Array.from(urls.entries()).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))[0]?.[0];
+    return {
+      ...entry,
+      ctr: entry.searches > 0 ? entry.clicked / entry.searches : 0,
+      averageResults: entry.searches > 0 ? totalResults / entry.searches : 0,
+      ...(topClick ? { topClick } : {}),
+    };
+  });
+  const bySearches = (a: SearchQueryStats, b: SearchQueryStats) => b.searches - a.searches || a.query.localeCompare(b.query);
+  dates.sort();
+
+  return {
+    searches,
+    queries: queries.length,
+    ...(dates.length > 0 ? { from: dates[0], to: dates[dates.length - 1] } : {}),
+    topQueries: [...queries].sort(bySearches).slice(0, options.limit),
+    zeroResultQueries: queries
+      .filter((entry) => entry.zeroResults > 0)
+      .sort((a, b) => b.zeroResults - a.zeroResults || bySearches(a, b))
+      .slice(0, options.limit),
+    lowCtrQueries: queries
+      .filter((entry) => entry.searches >= LOW_CTR_MIN_SEARCHES && entry.averageResults > 0 && entry.ctr < LOW_CTR_THRESHOLD)
+      .sort((a, b) => a.ctr - b.ctr || bySearches(a, b))
+      .slice(0, options.limit),
+  };
+}
+
+function percent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+function table(headers: string[], rows: string[][]): string[] {
+  if (rows.length === 0) return ['  (none)'];
+  const widths = headers.map((header, column) => Math.max(header.length, ...rows.map((row) => row[column].length)));
+  // The last column is free text, so it isn't padded.
+  const line = (cells: string[]) => `  ${cells.map((cell, column) => (
+    column === cells.length - 1 ? cell : cell.padStart(widths[column])
+  )).join('  ')}`;
+  return [line(headers), ...rows.map(line)];
+}
+
+export function formatSearchReport(report: SearchReport): string {
+  const period = report.from && report.to ? ` (${report.from.slice(0, 10)} to ${report.to.slice(0, 10)})` : '';
+  return [
+    `${report.searches} searches, ${report.queries} distinct queries${period}`,
+    '',
+    'Top queries',
+    ...table(
+      ['searches', 'results', 'CTR', 'query'],
+      report.topQueries.map((entry) => [
+        String(entry.searches),
+        entry.averageResults.toFixed(1),
+        percent(entry.ctr),
+        entry.topClick ? `${entry.query} → ${entry.topClick}` : entry.query,
+      ]),
+    ),
+    '',
+    'Zero-result queries',
+    ...table(
+      ['searches', 'query'],
+      report.zeroResultQueries.map((entry) => [String(entry.zeroResults), entry.query]),
+    ),
+    '',
+    `Low-CTR queries (${LOW_CTR_MIN_SEARCHES}+ searches, under ${percent(LOW_CTR_THRESHOLD)} clicked)`,
+    ...table(
+      ['searches', 'results', 'CTR', 'query'],
+      report.lowCtrQueries.map((entry) => [
+        String(entry.searches),
+        entry.averageResults.toFixed(1),
+        percent(entry.ctr),
+        entry.query,
+      ]),
+    ),
+  ].join('\n');
+}
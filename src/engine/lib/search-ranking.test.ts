@@ -0,0 +1,47 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { expandSearchQuery, mergeSearchResults } from '../components/search-synonyms';
+import { buildPagefindConfig, resolvePageSearchWeight, resolveSearchRankingConfig } from './search-ranking';
+
+test('resolveSearchRankingConfig normalizes synonyms, boosts and selectors', () => {
+  assert.deepEqual(resolveSearchRankingConfig(undefined), { synonyms: [], boost: [], excludeSelectors: [] });
+
+  const config = resolveSearchRankingConfig({
+    synonyms: { 'API Key': ['token', 'api key'], lonely: [] },
+    boost: { quickstart: 3, '/guides/**': 20, '/broken': -1 },
+    apiBoost: 0.5,
+    excludeSelectors: ['.velu-title-actions', 4],
+  });
+  assert.deepEqual(config.synonyms, [['api key', 'token']]);
+  assert.deepEqual(config.boost, [{ pattern: '/quickstart', weight: 3 }, { pattern: '/guides/**', weight: 10 }]);
+  assert.equal(config.apiWeight, 0.5);
+  assert.deepEqual(buildPagefindConfig(config, { site: 'dist', outputPath: 'dist/pagefind' }), {
+    site: 'dist',
+    output_path: 'dist/pagefind',
+    exclude_selectors: ['.velu-title-actions'],
+  });
+});
+
+test('resolvePageSearchWeight uses the first matching path, then the API weight', () => {
+  const config = resolveSearchRankingConfig({
+    boost: { '**/quickstart': 3, '/guides/*': 1.5 },
+    apiBoost: 0.5,
+  });
+  assert.equal(resolvePageSearchWeight(config, '/quickstart/', false), 3);
+  assert.equal(resolvePageSearchWeight(config, '/v2/quickstart', true), 3);
+  assert.equal(resolvePageSearchWeight(config, '/guides/webhooks', false), 1.5);
+  assert.equal(resolvePageSearchWeight(config, '/guides/webhooks/retries', false), undefined);
+  assert.equal(resolvePageSearchWeight(config, '/api/users/create', true), 0.5);
+});
+
+test('expandSearchQuery swaps whole terms and mergeSearchResults keeps the best score', () => {
+  const synonyms = [['api key', 'token'], ['sso', 'single sign-on']];
+  assert.deepEqual(expandSearchQuery('Rotate API key', synonyms), ['Rotate API key', 'rotate token']);
+  assert.deepEqual(expandSearchQuery('ssot', synonyms), ['ssot']);
+
+  const merged = mergeSearchResults([
+    [{ id: 'a', score: 1 }, { id: 'b', score: 0.5 }],
+    [{ id: 'b', score: 2 }],
+  ]);
+  assert.deepEqual(merged, [{ id: 'b', score: 2 }, { id: 'a', score: 1 }]);
+});
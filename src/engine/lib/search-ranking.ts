@@ -0,0 +1,148 @@
+/**
+ * Keyword search tuning from docs.json `search`: synonyms the search dialog
+ * expands queries with, per-path and API-page weights the page template
+ * emits as `data-pagefind-weight`, and the `pagefind.json` that
+ * `_server.mjs build` runs Pagefind with.
+ */
+
+export interface SearchBoostRule {
+  /** Page path, or a glob where `*` matches within a segment and `**` across segments. */
+  pattern: string;
+  weight: number;
+}
+
+export interface SearchRankingConfig {
+  /** Lowercased groups of interchangeable terms. */
+  synonyms: string[][];
+  /** In docs.json order; the first matching rule wins. */
+  boost: SearchBoostRule[];
+  /** Weight for API operation pages without a `boost` rule. */
+  apiWeight?: number;
+  /** CSS selectors Pagefind leaves out of every page. */
+  excludeSelectors: string[];
+}
+
+export interface PagefindConfig {
+  site: string;
+  output_path: string;
+  exclude_selectors?: string[];
+}
+
+// Pagefind's accepted range for `data-pagefind-weight`.
+const MIN_WEIGHT = 0.1;
+const MAX_WEIGHT = 10;
+
+// ── Config ─────────────────────────────────────────────────────────────────────
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+function normalizeTerm(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const term = value.toLowerCase().replace(/\s+/g, ' ').trim();
+  return term.length > 0 ? term : undefined;
+}
+
+function normalizeWeight(value: unknown): number | undefined {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) return undefined;
+  return Math.min(MAX_WEIGHT, Math.max(MIN_WEIGHT, value));
+}
+
+function toGroup(terms: unknown[]): string[] | null {
+  const group = Array.from(new Set(terms.map(normalizeTerm).filter((term): term is string => Boolean(term))));
+  return group.length > 1 ? group : null;
+}
+
+/**
+ * `search.synonyms` is a list of groups (`[["api key", "token"]]`) or a map
+ * from a term to its synonyms (`{ "api key": ["token"] }`); both become groups.
+ */
+function resolveSynonyms(raw: unknown): string[][] {
+  const groups = Array.isArray(raw)
+    ? raw.map((group) => (Array.isArray(group) ? toGroup(group) : null))
+    : isRecord(raw)
+      ? Object.entries(raw).map(([term, synonyms]) => toGroup([term, ...(Array.isArray(synonyms) ? synonyms : [synonyms])]))
+      : [];
+  return groups.filter((group): group is string[] => group !== null);
+}
+
+function resolveBoost(raw: unknown): SearchBoostRule[] {
+  if (!isRecord(raw)) return [];
+  return Object.entries(raw).flatMap(([pattern, value]) => {
+    const weight = normalizeWeight(value);
+    const trimmed = pattern.trim();
+    if (weight === undefined || !trimmed) return [];
+    return [{ pattern: trimmed.startsWith('/') ? trimmed : `/${trimmed}`, weight }];
+  });
+}
+
+/** The ranking parts of docs.json `search`; everything is optional. */
+export function resolveSearchRankingConfig(raw: unknown): SearchRankingConfig {
+  const search = isRecord(raw) ? raw : {};
+  const apiWeight = normalizeWeight(search.apiBoost);
+  return {
+    synonyms: resolveSynonyms(search.synonyms),
+    boost: resolveBoost(search.boost),
+    ...(apiWeight !== undefined ? { apiWeight } : {}),
+    excludeSelectors: Array.isArray(search.excludeSelectors)
+      ? search.excludeSelectors.filter((selector): selector is string => typeof selector === 'string' && selector.trim().length > 0)
+      : [],
+  };
+}
+
+// ── Weights ────────────────────────────────────────────────────────────────────
+
+function normalizePath(value: string): string {
+  const path = `/${value}`.replace(/\/{2,}/g, '/').replace(/\/+$/, '');
+  return path || '/';
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const source = normalizePath(pattern)
+    .split(/(\*\*\/|\*\*|\*)/)
+    .map((part) => {
+      if (part === '**/') return '(?:.*/)?';
+      if (part === '**') return '.*';
+      if (part === '*') return '[^/]*';
+      return escapeRegExp(part);
+    })
+    .join('');
+  return new RegExp(`^${source}$`);
+}
+
+export function matchesSearchPath(pattern: string, pagePath: string): boolean {
+  return globToRegExp(pattern).test(normalizePath(pagePath));
+}
+
+/**
+ * `data-pagefind-weight` for a page: the first `boost` rule matching its path,
+ * else `apiBoost` on API operation pages. Undefined keeps Pagefind's default.
+ */
+export function resolvePageSearchWeight(
+  config: SearchRankingConfig,
+  pagePath: string,
+  isApiPage: boolean,
+): number | undefined {
+  const rule = config.boost.find((entry) => matchesSearchPath(entry.pattern, pagePath));
+  if (rule) return rule.weight;
+  return isApiPage ? config.apiWeight : undefined;
+}
+
+// ── Pagefind ───────────────────────────────────────────────────────────────────
+
+/** Pagefind reads `pagefind.json` from its working directory. */
+export function buildPagefindConfig(
+  config: SearchRankingConfig,
+  paths: { site: string; outputPath: string },
+): PagefindConfig {
+  return {
+    site: paths.site,
+    output_path: paths.outputPath,
+    ...(config.excludeSelectors.length > 0 ? { exclude_selectors: config.excludeSelectors } : {}),
+  };
+}
@@ -0,0 +1,74 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { fuseResults, rankSections, type SemanticIndex } from '../components/semantic-search';
+import { extractPageSections, resolveSemanticSearchConfig } from './semantic-index';
+
+const PAGE_HTML = `<!DOCTYPE html><html><head><title>Keys - Acme</title></head><body>
+<nav><div>Sidebar</div></nav>
+<div data-pagefind-body="true" data-pagefind-meta="title:API key management, tokens,version:v2" data-pagefind-filter="version:v2">
+  <div class="velu-title-row"><h1>API key management</h1></div>
+  <p>Keys authenticate requests &amp; identify projects.</p>
+  <h2 id="rotating-keys"><a href="#rotating-keys">Rotating keys</a></h2>
+  <div><p>Create a new key, deploy it, then revoke the old one.</p><script>ignored()</script></div>
+  <h3 id="revoking">Revoking</h3>
+  <p>Revoked keys stop working at once.</p>
+</div>
+<footer><div>Footer text</div></footer>
+</body></html>`;
+
+test('resolveSemanticSearchConfig is off unless search.semantic is set', () => {
+  assert.equal(resolveSemanticSearchConfig(undefined), null);
+  assert.equal(resolveSemanticSearchConfig({ enabled: false }), null);
+  assert.deepEqual(resolveSemanticSearchConfig(true), { model: 'Xenova/all-MiniLM-L6-v2' });
+  assert.deepEqual(resolveSemanticSearchConfig({ model: 'Xenova/bge-small-en-v1.5' }), { model: 'Xenova/bge-small-en-v1.5' });
+});
+
+test('extractPageSections splits the search body at h2/h3 headings', () => {
+  const sections = extractPageSections(PAGE_HTML, '/v2/keys/');
+
+  assert.deepEqual(sections.map(({ url, heading }) => ({ url, heading })), [
+    { url: '/v2/keys/', heading: undefined },
+    { url: '/v2/keys/#rotating-keys', heading: 'Rotating keys' },
+    { url: '/v2/keys/#revoking', heading: 'Revoking' },
+  ]);
+  assert.equal(sections[0].title, 'API key management, tokens');
+  assert.equal(sections[0].excerpt, 'API key management Keys authenticate requests & identify projects.');
+  assert.deepEqual(sections[1].filters, { version: 'v2' });
+  assert.equal(sections[1].text, 'API key management, tokens\nRotating keys\nCreate a new key, deploy it, then revoke the old one.');
+  assert.doesNotMatch(sections.map((section) => section.text).join('\n'), /Sidebar|Footer|ignored/);
+  assert.deepEqual(extractPageSections('<html><body><p>No search body</p></body></html>', '/404/'), []);
+});
+
+test('rankSections scopes to the page filters and falls back to every section', () => {
+  const index: SemanticIndex = {
+    model: 'test',
+    dimensions: 2,
+    sections: [
+      { url: '/v1/keys/', title: 'Keys v1', excerpt: '', filters: { version: 'v1' } },
+      { url: '/v2/keys/', title: 'Keys v2', excerpt: '', filters: { version: 'v2' } },
+      { url: '/v2/other/', title: 'Other', excerpt: '', filters: { version: 'v2' } },
+    ],
+    vectors: new Int8Array([127, 0, 90, 90, 0, 127]),
+  };
+  const query = new Float32Array([1, 0]);
+
+  assert.deepEqual(rankSections(index, query, {}).map((hit) => hit.section.url), ['/v1/keys/', '/v2/keys/']);
+  assert.deepEqual(rankSections(index, query, { version: 'v2' }).map((hit) => hit.section.url), ['/v2/keys/']);
+  assert.deepEqual(rankSections(index, query, { version: 'v3' }).map((hit) => hit.section.url), ['/v1/keys/', '/v2/keys/']);
+});
+
+test('fuseResults merges keyword and semantic results per page', () => {
+  const keyword = [
+    { url: '/docs/install/', excerpt: '<mark>install</mark>', meta: { title: 'Install' } },
+    { url: '/docs/keys/', excerpt: 'keys', meta: { title: 'Keys' } },
+  ];
+  const hit = (url: string, heading?: string) => ({
+    section: { url, title: 'Keys', heading, excerpt: 'Rotate <keys>', filters: {} },
+    score: 0.8,
+  });
+  const fused = fuseResults(keyword, [hit('/keys/#rotating', 'Rotating'), hit('/keys/#revoking'), hit('/auth/')], '/docs');
+
+  assert.deepEqual(fused.map((result) => result.url), ['/docs/keys/', '/docs/install/', '/docs/auth/']);
+  assert.equal(fused[0], keyword[1]);
+  assert.equal(fused[2].excerpt, 'Rotate &lt;keys&gt;');
+});
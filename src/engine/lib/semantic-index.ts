@@ -0,0 +1,301 @@
+/**
+ * Build-time semantic search index, written next to Pagefind's by
+ * `_server.mjs build` when docs.json has `search.semantic`.
+ *
+ * Reads the exported HTML the same way Pagefind does (the
+ * `data-pagefind-body` element and its `data-pagefind-filter`), splits each
+ * page at its h2/h3 headings, embeds the sections with a local
+ * `@huggingface/transformers` model and writes `dist/semantic/`:
+ *
+ * - `index.json` — model, dimensions and one entry per section
+ * - `vectors.bin` — the normalized embeddings as int8, one row per section
+ * - `models/` and `runtime/` — the model and the browser build of the
+ *   library, so `search.tsx` embeds queries without a network call
+ */
+import { copyFileSync, cpSync, existsSync, mkdirSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { dirname, join, relative } from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export interface SemanticSearchConfig {
+  /** Hugging Face model id with ONNX weights, loaded on the CPU. */
+  model: string;
+}
+
+export interface SemanticSection {
+  /** Site-relative URL without base path, with the heading anchor when there is one. */
+  url: string;
+  title: string;
+  heading?: string;
+  /** Plain-text start of the section, shown in results Pagefind didn't find. */
+  excerpt: string;
+  /** `language`, `version` and `product`, as in the page's `data-pagefind-filter`. */
+  filters: Record<string, string>;
+}
+
+export interface SemanticIndexFile {
+  version: 1;
+  model: string;
+  dimensions: number;
+  sections: SemanticSection[];
+}
+
+interface SectionSource extends SemanticSection {
+  /** What gets embedded: title, heading and section text. */
+  text: string;
+}
+
+interface TransformersModule {
+  env: { cacheDir: string };
+  pipeline: (task: 'feature-extraction', model: string, options?: { dtype?: string }) => Promise<
+    (texts: string[], options: { pooling: 'mean'; normalize: boolean }) => Promise<{ data: Float32Array; dims: number[] }>
+  >;
+}
+
+export const SEMANTIC_INDEX_DIR = 'semantic';
+export const DEFAULT_SEMANTIC_MODEL = 'Xenova/all-MiniLM-L6-v2';
+
+const TRANSFORMERS_PACKAGE = '@huggingface/transformers';
+const MODEL_DTYPE = 'q8';
+const BATCH_SIZE = 16;
+const MAX_EMBED_LENGTH = 2000;
+const EXCERPT_LENGTH = 180;
+const FILTER_KEYS = new Set(['language', 'version', 'product']);
+
+// ── Config ─────────────────────────────────────────────────────────────────
+
+/** `search.semantic` from docs.json: `true` or `{ model }`. Null when it is off. */
+export function resolveSemanticSearchConfig(raw: unknown): SemanticSearchConfig | null {
+  if (raw === true) return { model: DEFAULT_SEMANTIC_MODEL };
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return null;
+  const { enabled, model } = raw as { enabled?: unknown; model?: unknown };
+  if (enabled === false) return null;
+  return { model: typeof model === 'string' && model.trim() ? model.trim() : DEFAULT_SEMANTIC_MODEL };
+}
+
+// ── HTML ───────────────────────────────────────────────────────────────────
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[\da-f]+|#\d+|amp|lt|gt|quot|apos|nbsp);/gi, (match, entity: string) => {
+    const lower = entity.toLowerCase();
+    if (lower.startsWith('#x')) return String.fromCodePoint(parseInt(lower.slice(2), 16));
+    if (lower.startsWith('#')) return String.fromCodePoint(parseInt(lower.slice(1), 10));
+    return { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' }[lower] ?? match;
+  });
+}
+
+function readAttribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\s${name}="([^"]*)"`));
+  return match ? decodeEntities(match[1]) : undefined;
+}
+
+function toText(html: string): string {
+  return decodeEntities(html
+    .replace(/<(script|style|svg|template)\b[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<[^>]+>/g, ' '))
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/** The inner HTML of the `data-pagefind-body` element, found by counting nested divs. */
+function extractBody(html: string): { tag: string; inner: string } | null {
+  const open = html.match(/<div\b[^>]*\sdata-pagefind-body\b[^>]*>/);
+  if (!open || open.index === undefined) return null;
+  const start = open.index + open[0].length;
+  const divs = /<(\/?)div\b[^>]*>/g;
+  divs.lastIndex = start;
+  let depth = 1;
+  for (let match = divs.exec(html); match; match = divs.exec(html)) {
+    depth += match[1] ? -1 : 1;
+    if (depth === 0) return { tag: open[0], inner: html.slice(start, match.index) };
+  }
+  return { tag: open[0], inner: html.slice(start) };
+}
+
+/** `title:…,language:en` — titles may contain commas, so split only before known keys. */
+function parseMetaTitle(meta: string | undefined): string | undefined {
+  if (!meta) return undefined;
+  const title = meta.split(/,(?=(?:language|version|product):)/).find((entry) => entry.startsWith('title:'));
+  return title?.slice('title:'.length).trim() || undefined;
+}
+
+function parseFilters(value: string | undefined): Record<string, string> {
+  const filters: Record<string, string> = {};
+  for (const entry of (value ?? '').split(',')) {
+    const index = entry.indexOf(':');
+    if (index <= 0) continue;
+    const key = entry.slice(0, index).trim();
+    const filterValue = entry.slice(index + 1).trim();
+    if (FILTER_KEYS.has(key) && filterValue) filters[key] = filterValue;
+  }
+  return filters;
+}
+
+function excerptOf(text: string): string {
+  return text.length > EXCERPT_LENGTH ? `${text.slice(0, EXCERPT_LENGTH).replace(/\s+\S*$/, '')}…` : text;
+}
+
+/** Sections of one exported page; empty when the page isn't indexed for search. */
+export function extractPageSections(html: string, url: string): SectionSource[] {
+  const body = extractBody(html);
+  if (!body) return [];
+  const title = parseMetaTitle(readAttribute(body.tag, 'data-pagefind-meta'))
+    || toText(html.match(/<title>([\s\S]*?)<\/title>/i)?.[1] ?? '')
+    || url;
+  const filters = parseFilters(readAttribute(body.tag, 'data-pagefind-filter'));
+
+  const sections: SectionSource[] = [];
+  const push = (heading: string | undefined, anchor: string | undefined, chunk: string) => {
+    const text = toText(chunk);
+    if (!text) return;
+    sections.push({
+      url: anchor ? `${url}#${anchor}` : url,
+      title,
+      ...(heading ? { heading } : {}),
+      excerpt: excerptOf(text),
+      filters,
+      text: [title, heading, text].filter(Boolean).join('\n').slice(0, MAX_EMBED_LENGTH),
+    });
+  };
+
+  const headings = /<h([23])\b([^>]*)>([\s\S]*?)<\/h\1>/gi;
+  let heading: string | undefined;
+  let anchor: string | undefined;
+  let offset = 0;
+  for (let match = headings.exec(body.inner); match; match = headings.exec(body.inner)) {
+    push(heading, anchor, body.inner.slice(offset, match.index));
+    heading = toText(match[3]) || undefined;
+    anchor = readAttribute(match[2], 'id');
+    offset = match.index + match[0].length;
+  }
+  push(heading, anchor, body.inner.slice(offset));
+  return sections;
+}
+
+/** Exported pages under `distDir`; `trailingSlash` export puts each at `<route>/index.html`. */
+function collectPages(distDir: string): Array<{ path: string; url: string }> {
+  const pages: Array<{ path: string; url: string }> = [];
+  function walk(dir: string) {
+    for (const entry of readdirSync(dir, { withFileTypes: true })) {
+      const path = join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (dir === distDir && (entry.name === '_next' || entry.name === 'pagefind' || entry.name === SEMANTIC_INDEX_DIR)) continue;
+        walk(path);
+      } else if (entry.name.endsWith('.html')) {
+        const rel = relative(distDir, path).replace(/\\/g, '/');
+        const route = rel === 'index.html' ? '/' : `/${rel.replace(/(^|\/)index\.html$/, '$1').replace(/\.html$/, '')}`;
+        pages.push({ path, url: route });
+      }
+    }
+  }
+  walk(distDir);
+  return pages.sort((a, b) => a.url.localeCompare(b.url));
+}
+
+// ── Embeddings ─────────────────────────────────────────────────────────────
+
+/** The docs project's install wins over the CLI's, so users can add the package without touching Velu. */
+function resolveTransformers(docsDir: string): string {
+  for (const base of [join(docsDir, 'package.json'), import.meta.url]) {
+    try {
+      return createRequire(base).resolve(TRANSFORMERS_PACKAGE);
+    } catch {
+      // try the next location
+    }
+  }
+  throw new Error(`Semantic search needs ${TRANSFORMERS_PACKAGE}. Run \`npm install ${TRANSFORMERS_PACKAGE}\` in the docs directory.`);
+}
+
+function findPackageDir(entryPath: string): string {
+  let dir = dirname(entryPath);
+  while (dir !== dirname(dir)) {
+    const manifest = join(dir, 'package.json');
+    if (existsSync(manifest) && JSON.parse(readFileSync(manifest, 'utf-8')).name === TRANSFORMERS_PACKAGE) return dir;
+    dir = dirname(dir);
+  }
+  throw new Error(`Could not find the ${TRANSFORMERS_PACKAGE} package directory.`);
+}
+
+/** Normalized vectors scaled to int8, which keeps cosine ranking and a quarter of the size. */
+function quantize(vectors: Float32Array, count: number, dimensions: number): Int8Array {
+  const out = new Int8Array(count * dimensions);
+  for (let i = 0; i < out.length; i += 1) {
+    out[i] = Math.max(-127, Math.min(127, Math.round(vectors[i] * 127)));
+  }
+  return out;
+}
+
+/**
+ * Copy the browser build and its ONNX runtime files. Names differ between
+ * releases, so take the web bundle that exists and every `ort-wasm*` file.
+ */
+function copyBrowserRuntime(packageDir: string, outDir: string) {
+  const distDir = join(packageDir, 'dist');
+  const bundle = ['transformers.web.min.js', 'transformers.min.js', 'transformers.web.js', 'transformers.js']
+    .find((name) => existsSync(join(distDir, name)));
+  if (!bundle) throw new Error(`No browser build found in ${distDir}.`);
+  mkdirSync(outDir, { recursive: true });
+  copyFileSync(join(distDir, bundle), join(outDir, 'transformers.js'));
+  for (const name of readdirSync(distDir)) {
+    if (/^ort-wasm.*\.(wasm|mjs)$/.test(name)) copyFileSync(join(distDir, name), join(outDir, name));
+  }
+}
+
+/**
+ * Embed every indexed page in `distDir` and write `dist/semantic/`. Models
+ * download once into `cacheDir`. Returns the number of pages and sections.
+ */
+export async function buildSemanticIndex(options: {
+  distDir: string;
+  docsDir: string;
+  cacheDir: string;
+  config: SemanticSearchConfig;
+}): Promise<{ pages: number; sections: number }> {
+  const { distDir, docsDir, cacheDir, config } = options;
+  const entry = resolveTransformers(docsDir);
+  const transformers = await import(pathToFileURL(entry).href) as TransformersModule;
+  transformers.env.cacheDir = cacheDir;
+
+  let pages = 0;
+  const sources: SectionSource[] = [];
+  for (const page of collectPages(distDir)) {
+    const sections = extractPageSections(readFileSync(page.path, 'utf-8'), page.url);
+    if (sections.length > 0) pages += 1;
+    sources.push(...sections);
+  }
+
+  const extractor = await transformers.pipeline('feature-extraction', config.model, { dtype: MODEL_DTYPE });
+  const chunks: Float32Array[] = [];
+  let dimensions = 0;
+  for (let start = 0; start < sources.length; start += BATCH_SIZE) {
+    const batch = sources.slice(start, start + BATCH_SIZE).map((source) => source.text);
+    const output = await extractor(batch, { pooling: 'mean', normalize: true });
+    dimensions = output.dims[output.dims.length - 1];
+    chunks.push(output.data);
+  }
+  const vectors = new Float32Array(sources.length * dimensions);
+  chunks.reduce((offset, chunk) => {
+    vectors.set(chunk, offset);
+    return offset + chunk.length;
+  }, 0);
+
+  const outDir = join(distDir, SEMANTIC_INDEX_DIR);
+  rmSync(outDir, { recursive: true, force: true });
+  mkdirSync(outDir, { recursive: true });
+  const index: SemanticIndexFile = {
+    version: 1,
+    model: config.model,
+    dimensions,
+    sections: sources.map(({ text: _text, ...section }) => section),
+  };
+  writeFileSync(join(outDir, 'index.json'), JSON.stringify(index));
+  writeFileSync(join(outDir, 'vectors.bin'), quantize(vectors, sources.length, dimensions));
+
+  const modelDir = join(cacheDir, config.model);
+  if (existsSync(modelDir)) cpSync(modelDir, join(outDir, 'models', config.model), { recursive: true });
+  copyBrowserRuntime(findPackageDir(entry), join(outDir, 'runtime'));
+
+  return { pages, sections: sources.length };
+}
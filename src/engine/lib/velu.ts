@@ -1,5 +1,15 @@
 import { existsSync, readFileSync } from 'node:fs';
 import { resolve } from 'node:path';
+import {
+  ASSISTANT_ROUTE,
+  resolveAssistantConfig,
+  VELU_ASSISTANT_API,
+  type AssistantClientConfig,
+  type AssistantConfig,
+} from './assistant';
+import { FEEDBACK_ROUTE, resolveFeedbackConfig, type FeedbackConfig } from './feedback';
+import { resolveSearchAnalyticsConfig, SEARCH_ANALYTICS_ROUTE, type SearchAnalyticsConfig } from './search-analytics';
+import { resolvePageSearchWeight, resolveSearchRankingConfig, type SearchRankingConfig } from './search-ranking';
 import { normalizeConfigNavigation } from './navigation-normalize';
 const PRIMARY_CONFIG_NAME = 'docs.json';
 const LEGACY_CONFIG_NAME = 'velu.json';
@@ -204,6 +214,7 @@ export interface VeluConfig {
   name?: string;
   description?: string;
   title?: string;
+  basePath?: string;
   favicon?: string | VeluThemeAsset;
   logo?: string | VeluThemeAsset;
   colors?: {
@@ -225,6 +236,21 @@ export interface VeluConfig {
   footer?: VeluFooterConfig;
   footerSocials?: Record<string, unknown> | VeluFooterSocialInput[];
   banner?: { content?: string; dismissible?: boolean };
+  feedback?: { endpoint?: string; sink?: Record<string, unknown> };
+  assistant?: {
+    endpoint?: string;
+    protocol?: 'velu-sse' | 'openai-chat' | 'custom';
+    suggestions?: string[];
+    model?: Record<string, unknown>;
+  };
+  search?: {
+    semantic?: boolean | { enabled?: boolean; model?: string };
+    analytics?: boolean | { enabled?: boolean; endpoint?: string; file?: string };
+    synonyms?: string[][] | Record<string, string[]>;
+    boost?: Record<string, number>;
+    apiBoost?: number;
+    excludeSelectors?: string[];
+  };
   contextual?: {
     options?: Array<string | VeluContextualCustomOption>;
   };
@@ -1033,6 +1059,90 @@ export function getSiteOrigin(src?: VeluConfigSource): string {
   return 'http://localhost:4321';
 }
 
+/**
+ * URL prefix the site is served under, e.g. `/docs`, or `''` at the domain
+ * root. `VELU_BASE_PATH` (set by the CLI, also read by next.config.mjs) wins
+ * over `basePath` in docs.json.
+ */
+export function getBasePath(src?: VeluConfigSource): string {
+  const config = src?.config ?? loadVeluConfig();
+  const value = process.env.VELU_BASE_PATH ?? config.basePath ?? '';
+  const trimmed = String(value).trim().replace(/\/{2,}/g, '/').replace(/\/+$/, '');
+  if (!trimmed) return '';
+  return trimmed.startsWith('/') ? trimmed : `/${trimmed}`;
+}
+
+/** Prefix a site-relative path with the base path. Absolute URLs pass through. */
+export function withBasePath(path: string, src?: VeluConfigSource): string {
+  if (/^[a-zA-Z][a-zA-Z\d+.-]*:/.test(path) || path.startsWith('//')) return path;
+  const basePath = getBasePath(src);
+  const normalized = path.startsWith('/') ? path : `/${path}`;
+  return `${basePath}${normalized}`;
+}
+
+/** Origin plus base path: the absolute URL that site-relative paths hang off. */
+export function getSiteUrl(src?: VeluConfigSource): string {
+  return `${getSiteOrigin(src)}${getBasePath(src)}`;
+}
+
+export function getFeedbackConfig(src?: VeluConfigSource): FeedbackConfig | null {
+  return resolveFeedbackConfig((src?.config ?? loadVeluConfig()).feedback);
+}
+
+/**
+ * Where the page feedback widget posts: `feedback.endpoint`, else the
+ * built-in `/api/feedback` route when docs.json has a `feedback` block.
+ * Undefined keeps the hosted Velu API.
+ */
+export function getFeedbackEndpoint(src?: VeluConfigSource): string | undefined {
+  const feedback = getFeedbackConfig(src);
+  if (!feedback) return undefined;
+  return withBasePath(feedback.endpoint ?? FEEDBACK_ROUTE, src);
+}
+
+export function getAssistantConfig(src?: VeluConfigSource): AssistantConfig {
+  return resolveAssistantConfig((src?.config ?? loadVeluConfig()).assistant);
+}
+
+/**
+ * The widget's settings: `assistant.endpoint`, else the hosted Velu API for
+ * `velu-sse` and the built-in `/api/assistant` route for other protocols.
+ */
+export function getAssistantClientConfig(src?: VeluConfigSource): AssistantClientConfig {
+  const assistant = getAssistantConfig(src);
+  const fallback = assistant.protocol === 'velu-sse' ? VELU_ASSISTANT_API : ASSISTANT_ROUTE;
+  return {
+    endpoint: withBasePath(assistant.endpoint ?? fallback, src),
+    protocol: assistant.protocol,
+    suggestions: assistant.suggestions,
+    ...(assistant.model.name ? { model: assistant.model.name } : {}),
+  };
+}
+
+export function getSearchAnalyticsConfig(src?: VeluConfigSource): SearchAnalyticsConfig | null {
+  return resolveSearchAnalyticsConfig((src?.config ?? loadVeluConfig()).search?.analytics);
+}
+
+/** Where the search dialog sends events; undefined when `search.analytics` is off. */
+export function getSearchAnalyticsEndpoint(src?: VeluConfigSource): string | undefined {
+  const analytics = getSearchAnalyticsConfig(src);
+  if (!analytics) return undefined;
+  return withBasePath(analytics.endpoint ?? SEARCH_ANALYTICS_ROUTE, src);
+}
+
+export function getSearchRankingConfig(src?: VeluConfigSource): SearchRankingConfig {
+  return resolveSearchRankingConfig((src?.config ?? loadVeluConfig()).search);
+}
+
+/** Synonym groups the search dialog expands queries with. */
+export function getSearchSynonyms(src?: VeluConfigSource): string[][] {
+  return getSearchRankingConfig(src).synonyms;
+}
+
+export function getPageSearchWeight(pagePath: string, isApiPage: boolean, src?: VeluConfigSource): number | undefined {
+  return resolvePageSearchWeight(getSearchRankingConfig(src), pagePath, isApiPage);
+}
+
 export function getCliVersion(): string {
   try {
     const constPath = resolve(process.cwd(), 'public', 'const.json');
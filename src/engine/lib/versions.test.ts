@@ -0,0 +1,79 @@
+import assert from 'node:assert/strict';
+import { execFileSync } from 'node:child_process';
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import test from 'node:test';
+import { currentNavigationContent, isValidVersionTag, prefixNavigation, resolveGitVersions } from './versions';
+
+test('prefixNavigation prefixes pages and local specs and pins operations to the spec', () => {
+  const files = new Set<string>();
+  const prefixed = prefixNavigation({
+    openapi: 'openapi.json',
+    groups: [
+      { group: 'Guides', root: 'guides/index', pages: ['guides/intro', { group: 'More', pages: ['guides/more'] }] },
+      { group: 'API', pages: ['GET /users', 'https://example.com/spec.json POST /users'] },
+      { group: 'Remote', openapi: 'https://example.com/spec.json', pages: ['GET /items'] },
+    ],
+  }, 'versions/1-0', files);
+
+  assert.deepEqual(prefixed, {
+    openapi: 'versions/1-0/openapi.json',
+    groups: [
+      {
+        group: 'Guides',
+        root: 'versions/1-0/guides/index',
+        pages: ['versions/1-0/guides/intro', { group: 'More', pages: ['versions/1-0/guides/more'] }],
+      },
+      { group: 'API', pages: ['versions/1-0/openapi.json GET /users', 'https://example.com/spec.json POST /users'] },
+      { group: 'Remote', openapi: 'https://example.com/spec.json', pages: ['https://example.com/spec.json GET /items'] },
+    ],
+  });
+  assert.deepEqual([...files].sort(), ['guides/index', 'guides/intro', 'guides/more', 'openapi.json']);
+});
+
+test('currentNavigationContent reads the default version with the specs it inherits', () => {
+  assert.deepEqual(currentNavigationContent({
+    openapi: 'openapi.json',
+    versions: [
+      { version: '1.0', pages: ['old'] },
+      { version: '2.0', default: true, pages: ['new'] },
+    ],
+  }), { openapi: 'openapi.json', pages: ['new'] });
+  assert.deepEqual(currentNavigationContent({ groups: [], global: {} }), { groups: [] });
+});
+
+test('isValidVersionTag accepts ref names and rejects options and ranges', () => {
+  for (const tag of ['v1.0.0', 'release/2024-01', 'a1b2c3d', 'v2.0.0-rc.1']) assert.equal(isValidVersionTag(tag), true, tag);
+  for (const tag of ['-v1', '--upload-pack=x', 'v1..v2', 'v1 v2', '', 'v1.lock']) assert.equal(isValidVersionTag(tag), false, tag);
+});
+
+test('resolveGitVersions fills a tagged version from the docs directory at that tag', () => {
+  const repo = mkdtempSync(join(tmpdir(), 'velu-versions-'));
+  const git = (...args: string[]) => execFileSync('git', args, { cwd: repo, stdio: 'pipe' });
+  try {
+    const docsDir = join(repo, 'docs');
+    mkdirSync(docsDir);
+    writeFileSync(join(docsDir, 'docs.json'), JSON.stringify({ navigation: { pages: ['index'] } }));
+    writeFileSync(join(docsDir, 'index.mdx'), 'v1\n');
+    git('init', '-q');
+    git('add', '-A');
+    git('-c', 'user.name=Velu', '-c', 'user.email=velu@example.com', 'commit', '-qm', 'v1');
+    git('tag', 'v1.0.0');
+    writeFileSync(join(docsDir, 'index.mdx'), 'v2\n');
+
+    const config = resolveGitVersions({
+      navigation: { versions: [{ version: '2.0', pages: ['index'] }, { version: '1.0', tag: 'v1.0.0' }] },
+    }, docsDir);
+
+    assert.deepEqual(config.navigation.versions[1], { version: '1.0', tag: 'v1.0.0', pages: ['.velu-out/versions/1-0/index'] });
+    assert.equal(readFileSync(join(docsDir, '.velu-out/versions/1-0/index.mdx'), 'utf-8'), 'v1\n');
+    assert.equal(git('status', '--porcelain', '--untracked-files=no').toString().trim(), 'M docs/index.mdx');
+
+    assert.throws(() => resolveGitVersions({
+      navigation: { versions: [{ version: '0.9', tag: '--output=/tmp/x' }] },
+    }, docsDir), /not a valid git tag name/);
+  } finally {
+    rmSync(repo, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,281 @@
+/**
+ * Versions whose pages live outside the working tree's navigation:
+ *
+ * - `velu version cut` copies the current pages into `versions/<slug>/` and
+ *   adds a `navigation.versions` entry pointing at the copies.
+ * - An entry with `tag` (`{ "version": "1.0", "tag": "v1.0.0" }`) is built from
+ *   that git tag: the docs directory at the tag is checked out into
+ *   `.velu-out/versions/<slug>/` and its navigation becomes the entry's. Only
+ *   `velu build`, the dev server and `velu check-links` resolve tags; the
+ *   preview server never runs git on a workspace.
+ *
+ * Both rewrite page references (and local OpenAPI/AsyncAPI specs) with a path
+ * prefix, so the content pipeline reads them like any other page.
+ */
+import { execFileSync } from 'node:child_process';
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+export const VERSION_SNAPSHOT_DIR = 'versions';
+/** Where tagged versions are checked out, relative to the docs directory. Kept out of the sources, next to the build output. */
+export const GIT_VERSIONS_DIR = '.velu-out/versions';
+
+/** Keys of a navigation block (the root or a version entry) that hold its content. */
+export const NAVIGATION_CONTENT_KEYS = ['tabs', 'dropdowns', 'anchors', 'groups', 'pages', 'menu', 'openapi', 'asyncapi'] as const;
+
+const CONFIG_NAMES = ['docs.json', 'velu.json'];
+const TAG_STAMP_FILE = '.velu-tag';
+/** A git ref name or commit: no leading `-` (it would be read as an option), no `..`, no spaces or control characters. */
+const TAG_PATTERN = /^(?!.*\.\.)(?!.*\.lock$)[A-Za-z0-9_][A-Za-z0-9._/+@-]*$/;
+const HTTP_METHODS = new Set(['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS', 'TRACE', 'WEBHOOK']);
+
+type NavigationBlock = Record<string, unknown>;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+// ── Navigation ─────────────────────────────────────────────────────────────────
+
+export function hasNavigationContent(block: NavigationBlock): boolean {
+  return NAVIGATION_CONTENT_KEYS.some((key) => key !== 'openapi' && key !== 'asyncapi' && block[key] !== undefined);
+}
+
+export function pickNavigationContent(block: NavigationBlock): NavigationBlock {
+  const content: NavigationBlock = {};
+  for (const key of NAVIGATION_CONTENT_KEYS) {
+    if (block[key] !== undefined) content[key] = block[key];
+  }
+  return content;
+}
+
+/** The version entry readers land on: the one marked `default`, else the first. */
+export function findCurrentVersionIndex(versions: unknown[]): number {
+  const index = versions.findIndex((entry) => isRecord(entry) && entry.default === true);
+  return index >= 0 ? index : 0;
+}
+
+/**
+ * The navigation content of the working tree: the current version entry when
+ * docs.json has `navigation.versions` (with the specs it inherits), else the
+ * root navigation.
+ */
+export function currentNavigationContent(navigation: unknown): NavigationBlock {
+  if (!isRecord(navigation)) return {};
+  const versions = Array.isArray(navigation.versions) ? navigation.versions : [];
+  if (versions.length > 0) {
+    const entry = versions[findCurrentVersionIndex(versions)];
+    if (!isRecord(entry)) return {};
+    const inherited: NavigationBlock = {};
+    if (navigation.openapi !== undefined) inherited.openapi = navigation.openapi;
+    if (navigation.asyncapi !== undefined) inherited.asyncapi = navigation.asyncapi;
+    return { ...inherited, ...pickNavigationContent(entry) };
+  }
+  return pickNavigationContent(navigation);
+}
+
+function isLocalPath(value: string): boolean {
+  return !/^[a-zA-Z][a-zA-Z\d+.-]*:/.test(value);
+}
+
+function joinPrefix(prefix: string, path: string): string {
+  return `${prefix}/${path.replace(/^\/+/, '')}`;
+}
+
+/**
+ * Prefix every page reference and local spec path in a navigation block.
+ * Operation references name their (prefixed) spec, so they point at the
+ * copy. `files` collects the original references, for copying them.
+ */
+export function prefixNavigation(block: NavigationBlock, prefix: string, files = new Set<string>()): NavigationBlock {
+  function prefixSpec(spec: string): string {
+    if (!isLocalPath(spec)) return spec;
+    files.add(spec.replace(/^\/+/, ''));
+    return joinPrefix(prefix, spec);
+  }
+
+  function prefixPage(ref: string, openapi: string | undefined): string {
+    const trimmed = ref.trim();
+    const parts = trimmed.split(/\s+/);
+    if (parts.length === 1) {
+      if (!isLocalPath(trimmed)) return ref;
+      files.add(trimmed.replace(/^\/+/, ''));
+      return joinPrefix(prefix, trimmed);
+    }
+    // `GET /users` uses the inherited spec; `openapi.json GET /users` names one.
+    if (HTTP_METHODS.has(parts[0].toUpperCase())) return openapi ? `${openapi} ${trimmed}` : ref;
+    return [prefixSpec(parts[0]), ...parts.slice(1)].join(' ');
+  }
+
+  function prefixSource(value: unknown): unknown {
+    if (typeof value === 'string') return prefixSpec(value);
+    if (Array.isArray(value)) return value.map((entry) => (typeof entry === 'string' ? prefixSpec(entry) : entry));
+    if (isRecord(value)) return { ...value, ...(value.source !== undefined ? { source: prefixSource(value.source) } : {}) };
+    return value;
+  }
+
+  /** The spec operation references below a node use, as the content pipeline picks it. */
+  function firstSpec(value: unknown): string | undefined {
+    if (typeof value === 'string') return value;
+    if (Array.isArray(value)) return value.find((entry): entry is string => typeof entry === 'string');
+    if (isRecord(value)) return firstSpec(value.source);
+    return undefined;
+  }
+
+  function visit(node: unknown, inheritedOpenApi: string | undefined): unknown {
+    if (Array.isArray(node)) return node.map((entry) => visit(entry, inheritedOpenApi));
+    if (!isRecord(node)) return node;
+    const openapi = node.openapi !== undefined ? firstSpec(prefixSource(node.openapi)) : inheritedOpenApi;
+    const output: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(node)) {
+      if (key === 'pages' && Array.isArray(value)) {
+        output[key] = value.map((item) => (typeof item === 'string' ? prefixPage(item, openapi) : visit(item, openapi)));
+      } else if (key === 'root' && typeof value === 'string') {
+        output[key] = prefixPage(value, openapi);
+      } else if (key === 'openapi' || key === 'asyncapi') {
+        output[key] = prefixSource(value);
+      } else {
+        output[key] = visit(value, openapi);
+      }
+    }
+    return output;
+  }
+
+  return visit(block, undefined) as NavigationBlock;
+}
+
+// ── Git tags ───────────────────────────────────────────────────────────────────
+
+function git(cwd: string, args: string[], env?: Record<string, string>): string {
+  try {
+    return execFileSync('git', args, {
+      cwd,
+      encoding: 'utf-8',
+      stdio: ['ignore', 'pipe', 'pipe'],
+      env: env ? { ...process.env, ...env } : process.env,
+    }).trim();
+  } catch (error) {
+    const stderr = (error as { stderr?: string }).stderr?.trim();
+    throw new Error(stderr || `git ${args.join(' ')} failed`);
+  }
+}
+
+function slugify(input: string, fallback: string): string {
+  const slug = input
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return slug || fallback;
+}
+
+/** The URL prefix navigation normalization gives a version entry. */
+export function versionSlug(version: string, index: number): string {
+  return slugify(version, `version-${index + 1}`);
+}
+
+/**
+ * Check out the docs directory as it was at `tag` into `dest`. A temporary
+ * index keeps the working tree's index and files untouched; a stamp with the
+ * tag's commit skips the checkout when it is already there.
+ */
+export function isValidVersionTag(tag: string): boolean {
+  return TAG_PATTERN.test(tag);
+}
+
+/** The commit `tag` points at. */
+function resolveTagCommit(docsDir: string, tag: string): string {
+  if (!isValidVersionTag(tag)) throw new Error(`"${tag}" is not a valid git tag name`);
+  return git(docsDir, ['rev-parse', '--verify', '--quiet', '--end-of-options', `${tag}^{commit}`]);
+}
+
+function checkoutTag(docsDir: string, tag: string, dest: string): void {
+  const commit = resolveTagCommit(docsDir, tag);
+  const stampPath = join(dest, TAG_STAMP_FILE);
+  if (existsSync(stampPath) && readFileSync(stampPath, 'utf-8').trim() === commit) return;
+
+  const prefix = git(docsDir, ['rev-parse', '--show-prefix']);
+  // checkout-index only writes entries below the working directory, so both run from the top.
+  const root = git(docsDir, ['rev-parse', '--show-toplevel']);
+  const indexFile = join(tmpdir(), `velu-version-${process.pid}-${Date.now()}.index`);
+  rmSync(dest, { recursive: true, force: true });
+  mkdirSync(dest, { recursive: true });
+  try {
+    const env = { GIT_INDEX_FILE: indexFile };
+    git(root, ['read-tree', prefix ? `${commit}:${prefix.replace(/\/$/, '')}` : commit], env);
+    git(root, ['checkout-index', '--all', '--force', `--prefix=${dest.replace(/\\/g, '/')}/`], env);
+  } finally {
+    rmSync(indexFile, { force: true });
+  }
+  writeFileSync(stampPath, `${commit}\n`, 'utf-8');
+}
+
+function readSnapshotConfig(dir: string): Record<string, unknown> | null {
+  for (const name of CONFIG_NAMES) {
+    const path = join(dir, name);
+    if (!existsSync(path)) continue;
+    const parsed = JSON.parse(readFileSync(path, 'utf-8'));
+    return isRecord(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+function taggedVersions(config: object): Array<{ entry: Record<string, unknown>; index: number; tag: string }> {
+  const navigation = (config as Record<string, unknown>).navigation;
+  const versions = isRecord(navigation) && Array.isArray(navigation.versions) ? navigation.versions : [];
+  return versions.flatMap((entry, index) => (
+    isRecord(entry) && typeof entry.tag === 'string' && !hasNavigationContent(entry)
+      ? [{ entry, index, tag: entry.tag.trim() }]
+      : []
+  ));
+}
+
+/**
+ * The commit each tagged version resolves to, keyed by version slug, for the
+ * build manifest: moving a tag changes the build inputs. A tag that doesn't
+ * resolve maps to an empty string.
+ */
+export function resolveVersionTagCommits(config: object, docsDir: string): Record<string, string> {
+  const commits: Record<string, string> = {};
+  for (const { entry, index, tag } of taggedVersions(config)) {
+    const slug = versionSlug(typeof entry.version === 'string' ? entry.version : '', index);
+    try {
+      commits[slug] = resolveTagCommit(docsDir, tag);
+    } catch {
+      commits[slug] = '';
+    }
+  }
+  return commits;
+}
+
+/**
+ * Fill `navigation.versions` entries that have a `tag` and no pages of their
+ * own with the navigation docs.json had at that tag.
+ */
+export function resolveGitVersions<T extends object>(config: T, docsDir: string): T {
+  const raw = config as Record<string, unknown>;
+  const navigation = isRecord(raw.navigation) ? raw.navigation : undefined;
+  const versions = Array.isArray(navigation?.versions) ? navigation.versions : [];
+  if (taggedVersions(config).length === 0) return config;
+
+  const resolved = versions.map((entry, index) => {
+    if (!isRecord(entry) || typeof entry.tag !== 'string' || hasNavigationContent(entry)) return entry;
+    const tag = entry.tag.trim();
+    const slug = versionSlug(typeof entry.version === 'string' ? entry.version : '', index);
+    const dest = join(docsDir, GIT_VERSIONS_DIR, slug);
+    try {
+      checkoutTag(docsDir, tag, dest);
+    } catch (error) {
+      throw new Error(`Version "${String(entry.version)}": could not check out tag ${tag}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    const snapshot = readSnapshotConfig(dest);
+    if (!snapshot) throw new Error(`Version "${String(entry.version)}": no docs.json at tag ${tag}`);
+    return {
+      ...entry,
+      ...prefixNavigation(currentNavigationContent(snapshot.navigation), `${GIT_VERSIONS_DIR}/${slug}`),
+    };
+  });
+
+  return { ...config, navigation: { ...navigation, versions: resolved } };
+}
@@ -0,0 +1,44 @@
+/**
+ * MCP server over stdio for local agents (`velu mcp`).
+ *
+ * Reads newline-delimited JSON-RPC messages from stdin and writes responses
+ * to stdout. Runs inside the generated project so it sees the same content
+ * as the /mcp HTTP endpoint. Diagnostics go to stderr only — stdout is the
+ * transport.
+ */
+import { createInterface } from 'node:readline';
+import { handleMcpPayload, mcpParseErrorResponse } from './lib/mcp';
+import { getSiteUrl } from './lib/velu';
+
+const context = { origin: getSiteUrl() };
+
+function send(message: unknown) {
+  process.stdout.write(`${JSON.stringify(message)}\n`);
+}
+
+const lines = createInterface({ input: process.stdin, crlfDelay: Infinity });
+let pending = Promise.resolve();
+
+lines.on('line', (line) => {
+  const trimmed = line.trim();
+  if (!trimmed) return;
+
+  // Answer in arrival order even when a tool call takes a while.
+  pending = pending.then(async () => {
+    let payload: unknown;
+    try {
+      payload = JSON.parse(trimmed);
+    } catch {
+      send(mcpParseErrorResponse());
+      return;
+    }
+    const response = await handleMcpPayload(payload, context);
+    if (response !== null) send(response);
+  });
+});
+
+lines.on('close', () => {
+  pending.finally(() => process.exit(0));
+});
+
+console.error(`  velu MCP server ready on stdio (${context.origin})`);
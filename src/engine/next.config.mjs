@@ -5,11 +5,15 @@ const withMDX = createMDX({
   configPath: './source.config.ts',
 });
 
+const basePath = process.env.VELU_BASE_PATH || '';
+
 /** @type {import('next').NextConfig} */
 const config = {
   reactStrictMode: false,
   output: process.env.PREVIEW_MODE ? undefined : (process.env.NODE_ENV === 'production' ? 'export' : undefined),
-  basePath: process.env.VELU_BASE_PATH || '',
+  basePath,
+  // Inlined into client bundles for asset URLs that bypass next/link.
+  env: { VELU_BASE_PATH: basePath },
   // For static hosts without rewrite rules, emit directory routes
   // (e.g. /docs/page/index.html) so extensionless URLs resolve.
   trailingSlash: true,
@@ -1,18 +1,20 @@
 import type { NextRequest } from 'next/server';
 import { NextResponse } from 'next/server';
-import { getPreviewSecret, verifyPreviewToken } from './lib/preview-auth';
+import { authorizeApiRequest, getPreviewSecret, verifyApiSecret, verifyPreviewToken } from './lib/preview-auth';
 
 /**
  * Next.js proxy (middleware) that enforces HMAC-signed token authentication
  * for preview page routes.
  *
  * Flow:
- *  1. Requests with `x-preview-secret` header pass through (server-to-server API calls).
+ *  1. Requests with a valid `x-preview-secret` header pass through (server-to-server API calls).
  *  2. Extract sessionId from the URL path (`/{sessionId}/...`).
- *  3. If `?token=` query param is present: validate HMAC, set an HttpOnly cookie,
+ *  3. A `read` token in the `Authorization` or `x-preview-token` header: allow.
+ *  4. If `?token=` query param is present: validate HMAC, set an HttpOnly cookie,
  *     redirect to the same URL without the token (keeps browser history clean).
- *  4. If a valid `__velu_preview_{sessionId}` cookie exists: allow.
- *  5. Otherwise: 403.
+ *     `__velu_preview_assets_{sessionId}` carries the same token for the assets route.
+ *  5. If a valid `__velu_preview_{sessionId}` cookie exists: allow.
+ *  6. Otherwise: 403.
  */
 export function proxy(request: NextRequest) {
   const secret = getPreviewSecret();
@@ -21,7 +23,7 @@ export function proxy(request: NextRequest) {
   if (!secret) return NextResponse.next();
 
   // Server-to-server API calls use the x-preview-secret header — skip page auth
-  if (request.headers.get('x-preview-secret')) {
+  if (verifyApiSecret(request)) {
     return NextResponse.next();
   }
 
@@ -39,6 +41,9 @@ export function proxy(request: NextRequest) {
   const sessionId = first;
   if (!/^\d+$/.test(sessionId)) return NextResponse.next();
 
+  // --- Token in a header (server-side renders, screenshots) ---
+  if (authorizeApiRequest(request, sessionId, 'read')) return NextResponse.next();
+
   // --- Token in query string: validate, set cookie, redirect to clean URL ---
   const tokenParam = request.nextUrl.searchParams.get('token');
   if (tokenParam) {
@@ -63,6 +68,14 @@ export function proxy(request: NextRequest) {
       path: `/${sessionId}`,
       maxAge,
     });
+    // Images and the favicon load from the session's assets route, outside /{sessionId}
+    response.cookies.set(`__velu_preview_assets_${sessionId}`, tokenParam, {
+      httpOnly: true,
+      secure: true,
+      sameSite: 'none',
+      path: `/api/sessions/${sessionId}/assets`,
+      maxAge,
+    });
 
     return response;
   }
@@ -1,6 +1,7 @@
 import type { NextRequest } from 'next/server';
 import { NextResponse } from 'next/server';
 import redirectRules from '@/generated/redirects';
+import { slugifyChangelogTag } from '@/lib/changelog';
 import {
   compileRedirectRules,
   isExternalDestination,
@@ -11,18 +12,25 @@ import {
 const compiledRedirects = compileRedirectRules(normalizeRedirectRules(redirectRules));
 
 export function proxy(request: NextRequest) {
+  // With a base path, `nextUrl.pathname` has it stripped and cloned URLs add it
+  // back, so redirect rules and rewrites stay site-relative.
   const { pathname } = request.nextUrl;
 
-  if (pathname.startsWith('/rss-file')) {
+  if (pathname.startsWith('/feed-file')) {
     return NextResponse.next();
   }
   if (pathname.startsWith('/llms-file') || pathname.startsWith('/llms-full-file')) {
     return NextResponse.next();
   }
 
-  if (pathname.endsWith('/rss.xml')) {
+  if (/\/(?:rss\.xml|atom\.xml|feed\.json)$/.test(pathname)) {
     const rewritten = request.nextUrl.clone();
-    rewritten.pathname = `/rss-file${pathname.slice(0, -('/rss.xml'.length))}`;
+    // `?tag=api` serves the feed that static exports have at `tags/api/rss.xml`.
+    const tag = request.nextUrl.searchParams.get('tag')?.trim();
+    const feedPath = tag
+      ? pathname.replace(/\/([^/]+)$/, `/tags/${slugifyChangelogTag(tag)}/$1`)
+      : pathname;
+    rewritten.pathname = `/feed-file${feedPath}`;
     return NextResponse.rewrite(rewritten);
   }
 
@@ -38,6 +46,12 @@ export function proxy(request: NextRequest) {
     return NextResponse.rewrite(rewritten);
   }
 
+  if (pathname === '/mcp' || pathname === '/mcp/') {
+    const rewritten = request.nextUrl.clone();
+    rewritten.pathname = '/api/mcp';
+    return NextResponse.rewrite(rewritten);
+  }
+
   if (pathname.endsWith('.md')) {
     const rewritten = request.nextUrl.clone();
     rewritten.pathname = `/md-file${pathname}`;
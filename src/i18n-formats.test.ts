@@ -0,0 +1,99 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { formatExchange, joinPage, pageSegments, parseExchange, splitPage, type ExchangeDocument } from "./i18n-formats.js";
+
+const PAGE = [
+  "---",
+  "title: Getting started",
+  "icon: rocket",
+  "---",
+  "",
+  "import Note from \"./snippets/note.mdx\"",
+  "",
+  "## Install",
+  "",
+  "Run the installer and",
+  "follow the prompts.",
+  "",
+  "```bash",
+  "npm install velu",
+  "```",
+  "",
+  "- First step",
+  "- Second step",
+  "",
+  "<Note>Read this first.</Note>",
+  "",
+].join("\n");
+
+const document: ExchangeDocument = {
+  sourceLanguage: "en",
+  targetLanguage: "fr",
+  files: [{
+    file: "guides/intro.mdx",
+    sourceHash: "0123456789abcdef",
+    units: [
+      { id: "title", source: "Say \"hello\"", target: "Dites « bonjour »" },
+      { id: "3", source: "Line one\nline \"two\"\twith a tab", target: "Ligne un\nligne \"deux\"" },
+      { id: "4", source: "Back\\slash & <tags>" },
+    ],
+  }],
+};
+
+test("splitPage keeps code, imports and tags out of the segments", () => {
+  const segments = pageSegments(splitPage(PAGE));
+  assert.deepEqual(segments.map((part) => [part.id, part.source]), [
+    ["title", "Getting started"],
+    ["1", "Install"],
+    ["2", "Run the installer and\nfollow the prompts."],
+    ["3", "First step"],
+    ["4", "Second step"],
+    ["5", "Read this first."],
+  ]);
+});
+
+test("joinPage rebuilds the page as it was when nothing is translated", () => {
+  assert.equal(joinPage(splitPage(PAGE), () => null), PAGE);
+  assert.equal(joinPage(splitPage(PAGE), (part) => part.source), PAGE);
+});
+
+test("joinPage puts translations into the page's skeleton", () => {
+  const translations: Record<string, string> = {
+    title: "Premiers pas: \"guide\"",
+    1: "Installation",
+    2: "Lancez l'installateur\net suivez les étapes.",
+    5: "Lisez ceci d'abord.",
+  };
+  const page = joinPage(splitPage(PAGE), (part) => translations[part.id] ?? null);
+
+  assert.match(page, /^title: "Premiers pas: \\"guide\\""$/m);
+  assert.match(page, /^icon: rocket$/m);
+  assert.match(page, /^## Installation$/m);
+  assert.match(page, /^Lancez l'installateur\net suivez les étapes\.$/m);
+  assert.match(page, /^- Second step$/m);
+  assert.match(page, /^<Note>Lisez ceci d'abord\.<\/Note>$/m);
+  assert.match(page, /^```bash\nnpm install velu\n```$/m);
+});
+
+test("XLIFF keeps files, hashes and escaped text through a round trip", () => {
+  const text = formatExchange(document, "xliff");
+  assert.match(text, /<source>Back\\slash &amp; &lt;tags&gt;<\/source>/);
+  assert.deepEqual(parseExchange(text, "xliff"), document);
+  assert.throws(() => parseExchange("msgid \"\"", "xliff"), /Not an XLIFF file/);
+});
+
+test("PO escapes quotes, tabs and newlines", () => {
+  const text = formatExchange(document, "po");
+  assert.match(text, /^msgid "Say \\"hello\\""$/m);
+  assert.match(text, /^msgid ""\n"Line one\\n"\n"line \\"two\\"\\twith a tab"$/m);
+  assert.match(text, /^msgid "Back\\\\slash & <tags>"$/m);
+  assert.match(text, /^msgctxt "guides\/intro.mdx#title"$/m);
+  assert.deepEqual(parseExchange(text, "po"), document);
+});
+
+test("PO fuzzy entries import as untranslated", () => {
+  const text = formatExchange(document, "po").replace("msgctxt \"guides/intro.mdx#title\"", "#, fuzzy\nmsgctxt \"guides/intro.mdx#title\"");
+  const [file] = parseExchange(text, "po").files;
+  assert.deepEqual(file.units[0], { id: "title", source: "Say \"hello\"" });
+  assert.equal(file.units[1].target, "Ligne un\nligne \"deux\"");
+});
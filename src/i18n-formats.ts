@@ -0,0 +1,408 @@
+import { parse as parseYaml } from "yaml";
+
+// Page text for translators. A page splits into translatable segments (a few
+// frontmatter fields, headings, paragraphs, list items, table rows) and the
+// MDX around them (code, imports, JSX tags), which stays as it is. The
+// segments travel in XLIFF 1.2 or PO files; importing puts the translations
+// back into the source page's skeleton.
+
+// ── Types ──────────────────────────────────────────────────────────────────────
+
+interface TextPart {
+  /** `title`/`description`/`sidebarTitle` for frontmatter, else the segment's position in the body. */
+  id: string;
+  source: string;
+  /** Text before the segment on its first line (indentation, `## `, `- `, an opening tag). */
+  prefix: string;
+  /** Text after the segment on its last line (a closing tag). */
+  suffix: string;
+  /** Indentation of continuation lines. */
+  indent: string;
+  /** Frontmatter values are written back as YAML strings. */
+  yaml: boolean;
+  /** The original lines, kept when the segment has no translation. */
+  raw: string;
+}
+
+type PagePart = string | TextPart;
+
+interface ExchangeUnit {
+  id: string;
+  source: string;
+  target?: string;
+}
+
+interface ExchangeFile {
+  /** Source page file, relative to the docs directory. */
+  file: string;
+  /** Hash of the source page when it was exported. */
+  sourceHash?: string;
+  units: ExchangeUnit[];
+}
+
+interface ExchangeDocument {
+  sourceLanguage: string;
+  targetLanguage: string;
+  files: ExchangeFile[];
+}
+
+type ExchangeFormat = "xliff" | "po";
+
+const FRONTMATTER_FIELDS = ["title", "description", "sidebarTitle"];
+const SOURCE_HASH_NOTE = "source-sha256:";
+
+// ── Segments ───────────────────────────────────────────────────────────────────
+
+const FENCE_PATTERN = /^\s*(`{3,}|~{3,})/;
+const HEADING_PATTERN = /^(\s*#{1,6}\s+)(.*?)(\s*)$/;
+const LIST_ITEM_PATTERN = /^(\s*(?:[-*+]|\d+[.)])\s+(?:\[[ xX]\]\s+)?)(.*)$/;
+const TAG_ONLY_PATTERN = /^\s*(?:<\/?[A-Za-z][\w.:-]*(?:\s[^<>]*)?\/?>\s*)+$/;
+const OPEN_TAG_START_PATTERN = /^\s*<[A-Za-z][\w.:-]*(?:\s[^<>]*)?$/;
+const INLINE_ELEMENT_PATTERN = /^(\s*<([A-Za-z][\w.:-]*)(?:\s[^<>]*)?>)(.+?)(<\/\2>\s*)$/;
+const TABLE_DIVIDER_PATTERN = /^\s*\|?(?:\s*:?-+:?\s*\|)+\s*:?-*:?\s*\|?\s*$/;
+const FRONTMATTER_FIELD_PATTERN = new RegExp(`^(\\s*(?:${FRONTMATTER_FIELDS.join("|")})\\s*:\\s*)(.+?)\\s*$`);
+
+/** Lines that are MDX rather than prose: imports, comments, rules and lines holding only tags. */
+function isStructuralLine(line: string): boolean {
+  const trimmed = line.trim();
+  return trimmed === ""
+    || /^(?:import|export)\s/.test(trimmed)
+    || /^\{\/\*.*\*\/\}$/.test(trimmed)
+    || /^<!--.*-->$/.test(trimmed)
+    || /^(?:-{3,}|\*{3,}|_{3,})$/.test(trimmed)
+    || /^\{.*\}$/.test(trimmed)
+    || TAG_ONLY_PATTERN.test(line)
+    || TABLE_DIVIDER_PATTERN.test(line);
+}
+
+function leadingWhitespace(line: string): string {
+  return line.match(/^\s*/)![0];
+}
+
+function frontmatterValue(value: string): string | null {
+  if (/^[|>]/.test(value)) return null;
+  try {
+    const parsed = parseYaml(`value: ${value}`) as { value?: unknown };
+    return typeof parsed?.value === "string" && parsed.value.trim() ? parsed.value : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Split a page into MDX kept as is (strings) and translatable segments. */
+function splitPage(content: string): PagePart[] {
+  const lines = content.split("\n");
+  const parts: PagePart[] = [];
+  let index = 0;
+  let counter = 0;
+
+  if (lines[0]?.trim() === "---") {
+    const end = lines.findIndex((line, i) => i > 0 && line.trim() === "---");
+    if (end !== -1) {
+      parts.push(lines[0]);
+      for (const line of lines.slice(1, end)) {
+        const match = line.match(FRONTMATTER_FIELD_PATTERN);
+        const value = match ? frontmatterValue(match[2]) : null;
+        if (!match || value === null) {
+          parts.push(line);
+          continue;
+        }
+        const id = match[1].trim().replace(/\s*:$/, "");
+        parts.push({ id, source: value, prefix: match[1], suffix: "", indent: "", yaml: true, raw: line });
+      }
+      parts.push(lines[end]);
+      index = end + 1;
+    }
+  }
+
+  let fence: string | null = null;
+  let openTag = false;
+  while (index < lines.length) {
+    const line = lines[index];
+    const fenceMatch = line.match(FENCE_PATTERN);
+    if (fence || fenceMatch) {
+      if (fenceMatch && !fence) fence = fenceMatch[1];
+      else if (fenceMatch && fenceMatch[1].startsWith(fence!) && line.trim() === fenceMatch[1]) fence = null;
+      parts.push(line);
+      index += 1;
+      continue;
+    }
+    // A tag whose attributes span several lines stays as it is until its `>`.
+    if (openTag || OPEN_TAG_START_PATTERN.test(line)) {
+      openTag = !/>\s*$/.test(line);
+      parts.push(line);
+      index += 1;
+      continue;
+    }
+    if (isStructuralLine(line)) {
+      parts.push(line);
+      index += 1;
+      continue;
+    }
+
+    counter += 1;
+    const id = String(counter);
+    const heading = line.match(HEADING_PATTERN);
+    const element = line.match(INLINE_ELEMENT_PATTERN);
+    if (heading || element || line.trimStart().startsWith("|")) {
+      const [prefix, text, suffix] = heading
+        ? [heading[1], heading[2], heading[3]]
+        : element
+          ? [element[1], element[3], element[4]]
+          : [leadingWhitespace(line), line.trim(), ""];
+      parts.push({ id, source: text, prefix, suffix, indent: "", yaml: false, raw: line });
+      index += 1;
+      continue;
+    }
+
+    // A paragraph or list item runs until a blank or structural line, a heading or the next item.
+    const item = line.match(LIST_ITEM_PATTERN);
+    const prefix = item ? item[1] : leadingWhitespace(line);
+    const text = [item ? item[2] : line.trim()];
+    const raw = [line];
+    let indent = item ? " ".repeat(prefix.length) : prefix;
+    index += 1;
+    while (index < lines.length) {
+      const next = lines[index];
+      if (isStructuralLine(next) || FENCE_PATTERN.test(next) || HEADING_PATTERN.test(next)
+        || LIST_ITEM_PATTERN.test(next) || OPEN_TAG_START_PATTERN.test(next) || next.trimStart().startsWith("|")) break;
+      if (raw.length === 1) indent = leadingWhitespace(next);
+      text.push(next.trim());
+      raw.push(next);
+      index += 1;
+    }
+    parts.push({ id, source: text.join("\n"), prefix, suffix: "", indent, yaml: false, raw: raw.join("\n") });
+  }
+
+  return parts;
+}
+
+function pageSegments(parts: PagePart[]): TextPart[] {
+  return parts.filter((part): part is TextPart => typeof part !== "string");
+}
+
+/** Rebuild a page from its parts, with `translate` giving each segment's text (or null to keep the source). */
+function joinPage(parts: PagePart[], translate: (part: TextPart) => string | null): string {
+  return parts.map((part) => {
+    if (typeof part === "string") return part;
+    const text = translate(part);
+    if (text === null || text === part.source) return part.raw;
+    if (part.yaml) return `${part.prefix}${JSON.stringify(text.replace(/\s*\n\s*/g, " "))}`;
+    const lines = text.split("\n");
+    return [
+      `${part.prefix}${lines[0]}`,
+      ...lines.slice(1).map((line) => `${part.indent}${line}`),
+    ].join("\n") + part.suffix;
+  }).join("\n");
+}
+
+// ── XLIFF ──────────────────────────────────────────────────────────────────────
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function unescapeXml(value: string): string {
+  const cdata = value.match(/^\s*<!\[CDATA\[([\s\S]*)\]\]>\s*$/);
+  if (cdata) return cdata[1];
+  return value
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCodePoint(parseInt(code, 10)))
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, "\"")
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+function xmlAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[match[1]] = unescapeXml(match[2] ?? match[3] ?? "");
+  }
+  return attributes;
+}
+
+function formatXliff(document: ExchangeDocument): string {
+  const lines = [
+    "<?xml version=\"1.0\" encoding=\"UTF-8\"?>",
+    "<xliff version=\"1.2\" xmlns=\"urn:oasis:names:tc:xliff:document:1.2\">",
+  ];
+  for (const file of document.files) {
+    lines.push(`  <file original="${escapeXml(file.file)}" source-language="${escapeXml(document.sourceLanguage)}" target-language="${escapeXml(document.targetLanguage)}" datatype="plaintext">`);
+    if (file.sourceHash) lines.push(`    <header><note from="velu">${SOURCE_HASH_NOTE} ${file.sourceHash}</note></header>`);
+    lines.push("    <body>");
+    for (const unit of file.units) {
+      lines.push(`      <trans-unit id="${escapeXml(unit.id)}" xml:space="preserve">`);
+      lines.push(`        <source>${escapeXml(unit.source)}</source>`);
+      if (unit.target !== undefined) lines.push(`        <target>${escapeXml(unit.target)}</target>`);
+      lines.push("      </trans-unit>");
+    }
+    lines.push("    </body>", "  </file>");
+  }
+  lines.push("</xliff>");
+  return `${lines.join("\n")}\n`;
+}
+
+function parseXliff(text: string): ExchangeDocument {
+  if (!/<xliff\b/.test(text)) throw new Error("Not an XLIFF file.");
+  const document: ExchangeDocument = { sourceLanguage: "", targetLanguage: "", files: [] };
+  for (const fileMatch of text.matchAll(/<file\b([^>]*)>([\s\S]*?)<\/file>/g)) {
+    const attributes = xmlAttributes(fileMatch[1]);
+    document.sourceLanguage ||= attributes["source-language"] ?? "";
+    document.targetLanguage ||= attributes["target-language"] ?? "";
+    const note = fileMatch[2].match(new RegExp(`<note\\b[^>]*>\\s*${SOURCE_HASH_NOTE}\\s*([0-9a-f]+)\\s*</note>`));
+    const units: ExchangeUnit[] = [];
+    for (const unitMatch of fileMatch[2].matchAll(/<trans-unit\b([^>]*)>([\s\S]*?)<\/trans-unit>/g)) {
+      const id = xmlAttributes(unitMatch[1]).id;
+      const source = unitMatch[2].match(/<source\b[^>]*>([\s\S]*?)<\/source>/);
+      if (!id || !source) continue;
+      const target = unitMatch[2].match(/<target\b[^>]*>([\s\S]*?)<\/target>/);
+      units.push({ id, source: unescapeXml(source[1]), ...(target ? { target: unescapeXml(target[1]) } : {}) });
+    }
+    if (attributes.original) document.files.push({ file: attributes.original, sourceHash: note?.[1], units });
+  }
+  return document;
+}
+
+// ── PO ─────────────────────────────────────────────────────────────────────────
+
+function poString(value: string): string {
+  const escaped = value.replace(/\\/g, "\\\\").replace(/"/g, "\\\"").replace(/\t/g, "\\t");
+  if (!value.includes("\n")) return `"${escaped}"`;
+  const lines = escaped.split("\n").map((line, index, all) => `"${line}${index < all.length - 1 ? "\\n" : ""}"`);
+  return ["\"\"", ...lines.filter((line) => line !== "\"\"")].join("\n");
+}
+
+function unescapePo(value: string): string {
+  return value.replace(/\\(.)/g, (_, char: string) => (char === "n" ? "\n" : char === "t" ? "\t" : char));
+}
+
+/** Units are keyed by `msgctxt "<file>#<id>"`, so equal strings on different pages stay apart. */
+function formatPo(document: ExchangeDocument): string {
+  const entries = [[
+    "msgid \"\"",
+    "msgstr \"\"",
+    "\"Content-Type: text/plain; charset=UTF-8\\n\"",
+    `"Language: ${document.targetLanguage}\\n"`,
+    `"X-Source-Language: ${document.sourceLanguage}\\n"`,
+  ].join("\n")];
+  for (const file of document.files) {
+    file.units.forEach((unit, index) => {
+      const lines: string[] = [];
+      if (index === 0 && file.sourceHash) lines.push(`#. ${SOURCE_HASH_NOTE} ${file.sourceHash}`);
+      lines.push(`#: ${file.file}`);
+      lines.push(`msgctxt ${poString(`${file.file}#${unit.id}`)}`);
+      lines.push(`msgid ${poString(unit.source)}`);
+      lines.push(`msgstr ${poString(unit.target ?? "")}`);
+      entries.push(lines.join("\n"));
+    });
+  }
+  return `${entries.join("\n\n")}\n`;
+}
+
+interface PoEntry {
+  comments: string[];
+  fuzzy: boolean;
+  msgctxt?: string;
+  msgid?: string;
+  msgstr?: string;
+}
+
+function parsePoEntries(text: string): PoEntry[] {
+  const entries: PoEntry[] = [];
+  let entry: PoEntry = { comments: [], fuzzy: false };
+  let field: "msgctxt" | "msgid" | "msgstr" | null = null;
+  const flush = () => {
+    if (entry.msgid !== undefined) entries.push(entry);
+    entry = { comments: [], fuzzy: false };
+    field = null;
+  };
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) {
+      flush();
+      continue;
+    }
+    if (line.startsWith("#~")) continue;
+    if (line.startsWith("#")) {
+      if (field === "msgstr") flush();
+      if (line.startsWith("#,") && /\bfuzzy\b/.test(line)) entry.fuzzy = true;
+      entry.comments.push(line);
+      continue;
+    }
+    const keyword = line.match(/^(msgctxt|msgid|msgstr)\s+"(.*)"$/);
+    if (keyword) {
+      if (keyword[1] !== "msgstr" && field === "msgstr") flush();
+      field = keyword[1] as "msgctxt" | "msgid" | "msgstr";
+      entry[field] = unescapePo(keyword[2]);
+      continue;
+    }
+    const continuation = line.match(/^"(.*)"$/);
+    if (continuation && field) entry[field] = (entry[field] ?? "") + unescapePo(continuation[1]);
+  }
+  flush();
+  return entries;
+}
+
+function parsePo(text: string): ExchangeDocument {
+  const entries = parsePoEntries(text);
+  const header = entries.find((entry) => entry.msgid === "" && entry.msgctxt === undefined)?.msgstr ?? "";
+  const headerField = (name: string) => header.match(new RegExp(`^${name}:\\s*(.*)$`, "m"))?.[1].trim() ?? "";
+  const document: ExchangeDocument = {
+    sourceLanguage: headerField("X-Source-Language"),
+    targetLanguage: headerField("Language"),
+    files: [],
+  };
+
+  const files = new Map<string, ExchangeFile>();
+  for (const entry of entries) {
+    const context = entry.msgctxt?.match(/^(.*)#([^#]+)$/);
+    if (!context || entry.msgid === undefined) continue;
+    let file = files.get(context[1]);
+    if (!file) {
+      file = { file: context[1], units: [] };
+      files.set(context[1], file);
+      document.files.push(file);
+    }
+    const hash = entry.comments.map((comment) => comment.match(new RegExp(`^#\\.\\s*${SOURCE_HASH_NOTE}\\s*([0-9a-f]+)`))?.[1]).find(Boolean);
+    if (hash) file.sourceHash = hash;
+    // Fuzzy entries are a translator's unconfirmed guess; import them as untranslated.
+    const target = !entry.fuzzy && entry.msgstr ? entry.msgstr : undefined;
+    file.units.push({ id: context[2], source: entry.msgid, ...(target !== undefined ? { target } : {}) });
+  }
+  return document;
+}
+
+// ── Formats ────────────────────────────────────────────────────────────────────
+
+function formatExchange(document: ExchangeDocument, format: ExchangeFormat): string {
+  return format === "po" ? formatPo(document) : formatXliff(document);
+}
+
+function parseExchange(text: string, format: ExchangeFormat): ExchangeDocument {
+  return format === "po" ? parsePo(text) : parseXliff(text);
+}
+
+/** The format a file name implies: `.po` or `.xlf`/`.xliff`. */
+function exchangeFormatForFile(file: string): ExchangeFormat | null {
+  if (/\.po$/i.test(file)) return "po";
+  if (/\.(?:xlf|xliff)$/i.test(file)) return "xliff";
+  return null;
+}
+
+export {
+  exchangeFormatForFile,
+  formatExchange,
+  joinPage,
+  pageSegments,
+  parseExchange,
+  splitPage,
+  type ExchangeDocument,
+  type ExchangeFile,
+  type ExchangeFormat,
+  type ExchangeUnit,
+  type PagePart,
+  type TextPart,
+};
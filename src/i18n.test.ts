@@ -0,0 +1,81 @@
+import assert from "node:assert/strict";
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import test, { after } from "node:test";
+import { exportTranslations, importTranslations, translationStatus } from "./i18n.js";
+
+const root = mkdtempSync(join(tmpdir(), "velu-i18n-"));
+after(() => rmSync(root, { recursive: true, force: true }));
+
+const INTRO = [
+  "---",
+  "title: Introduction",
+  "description: \"What Velu does\"",
+  "---",
+  "",
+  "## Overview",
+  "",
+  "Velu turns Markdown into a site.",
+  "",
+  "```bash",
+  "velu build",
+  "```",
+  "",
+  "<Tip>Start with `velu init`.</Tip>",
+  "",
+].join("\n");
+
+/** A docs directory with English pages and a French tree that lists `fr/index` only. */
+function createDocs(name: string): { docsDir: string; configPath: string } {
+  const docsDir = join(root, name);
+  mkdirSync(join(docsDir, "guides"), { recursive: true });
+  mkdirSync(join(docsDir, "fr"), { recursive: true });
+  const configPath = join(docsDir, "docs.json");
+  writeFileSync(configPath, JSON.stringify({
+    navigation: {
+      languages: [
+        { language: "en", tabs: [{ tab: "Docs", pages: ["index", "guides/intro"] }] },
+        { language: "fr", tabs: [{ tab: "Docs", pages: ["fr/index", "fr/guides/intro"] }] },
+      ],
+    },
+  }));
+  writeFileSync(join(docsDir, "index.mdx"), "# Home\n");
+  writeFileSync(join(docsDir, "fr", "index.mdx"), "# Accueil\n");
+  writeFileSync(join(docsDir, "guides", "intro.mdx"), INTRO);
+  return { docsDir, configPath };
+}
+
+for (const format of ["xliff", "po"] as const) {
+  test(`an untouched ${format} export imports back as the source page`, () => {
+    const { docsDir, configPath } = createDocs(`round-trip-${format}`);
+    const exported = exportTranslations(docsDir, configPath, "fr", { format, all: false });
+    assert.equal(exported.pages, 1);
+
+    const file = join(root, `round-trip.${format === "po" ? "po" : "xlf"}`);
+    writeFileSync(file, exported.text);
+    const result = importTranslations(docsDir, configPath, file);
+
+    assert.deepEqual(result.pages, [{ file: "fr/guides/intro.mdx", translated: 0, untranslated: 5 }]);
+    assert.equal(readFileSync(join(docsDir, "fr", "guides", "intro.mdx"), "utf-8"), INTRO);
+  });
+}
+
+test("a translated page is outdated once its source changes", () => {
+  const { docsDir, configPath } = createDocs("stale");
+  const file = join(root, "stale.po");
+  const exported = exportTranslations(docsDir, configPath, "fr", { format: "po", all: false });
+  writeFileSync(file, exported.text.replace("msgid \"Overview\"\nmsgstr \"\"", "msgid \"Overview\"\nmsgstr \"Aperçu\""));
+  importTranslations(docsDir, configPath, file);
+
+  assert.match(readFileSync(join(docsDir, "fr", "guides", "intro.mdx"), "utf-8"), /^## Aperçu$/m);
+  assert.equal(existsSync(join(docsDir, ".velu-i18n.json")), true);
+  let [status] = translationStatus(docsDir, configPath).languages;
+  assert.deepEqual(status.stale, []);
+  assert.equal(exportTranslations(docsDir, configPath, "fr", { format: "po", all: false }).pages, 0);
+
+  writeFileSync(join(docsDir, "guides", "intro.mdx"), INTRO.replace("a site", "a documentation site"));
+  [status] = translationStatus(docsDir, configPath).languages;
+  assert.deepEqual(status.stale, [{ source: "guides/intro", translation: "fr/guides/intro", reason: "hash" }]);
+  assert.equal(exportTranslations(docsDir, configPath, "fr", { format: "po", all: false }).pages, 1);
+});
@@ -0,0 +1,393 @@
+import { execFileSync } from "node:child_process";
+import { createHash } from "node:crypto";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname, join, posix } from "node:path";
+import {
+  exchangeFormatForFile,
+  formatExchange,
+  joinPage,
+  pageSegments,
+  parseExchange,
+  splitPage,
+  type ExchangeDocument,
+  type ExchangeFile,
+  type ExchangeFormat,
+  type TextPart,
+} from "./i18n-formats.js";
+import { normalizeConfigNavigation } from "./navigation-normalize.js";
+import { collectPagesWithTabsByLanguage, isAsyncApiChannelReference, isOpenApiOperationReference, type VeluConfig } from "./validate.js";
+import { rewriteRelativeImports } from "./version-cut.js";
+
+// ── Types ──────────────────────────────────────────────────────────────────────
+
+interface PagePair {
+  /** Page reference in the default language's navigation. */
+  source: string;
+  sourceFile: string;
+  /** Page reference in the translated navigation, or null when it has none. */
+  translation: string | null;
+  translationFile: string | null;
+}
+
+interface LanguagePages {
+  pairs: PagePair[];
+  /** Translated pages with no default-language counterpart. */
+  extra: string[];
+}
+
+interface StalePage {
+  source: string;
+  translation: string;
+  /** `hash`: the source changed since its translation was imported; `git`: it was committed after the translation. */
+  reason: "hash" | "git";
+  sourceUpdated?: string;
+  translationUpdated?: string;
+}
+
+interface LanguageStatus {
+  language: string;
+  pages: number;
+  translated: number;
+  /**
+   * Default-language pages with no translated page (or no file for it), and
+   * where the translation goes. `unlisted`: the file is there, but the
+   * language's navigation doesn't list it.
+   */
+  missing: Array<{ source: string; translation: string; unlisted?: true }>;
+  stale: StalePage[];
+  /** Translated pages with no default-language counterpart. */
+  extra: string[];
+}
+
+interface I18nStatus {
+  defaultLanguage: string;
+  languages: LanguageStatus[];
+}
+
+interface ExportOptions {
+  format: ExchangeFormat;
+  /** Export every page, not only missing and outdated translations. */
+  all: boolean;
+}
+
+interface ImportedPage {
+  file: string;
+  translated: number;
+  untranslated: number;
+}
+
+interface ImportResult {
+  language: string;
+  pages: ImportedPage[];
+  /** Files in the import that are not default-language pages. */
+  skipped: string[];
+  /** Imported pages the language's navigation doesn't list yet. */
+  unlisted: string[];
+}
+
+/** `.velu-i18n.json`: per language, the hash of each translated page's source when it was imported. */
+type TranslationLock = Record<string, Record<string, { source: string; hash: string }>>;
+
+const LOCK_FILE = ".velu-i18n.json";
+const PAGE_EXTENSIONS = [".mdx", ".md"];
+
+// ── Pages ──────────────────────────────────────────────────────────────────────
+
+function loadConfig(configPath: string): VeluConfig {
+  return normalizeConfigNavigation(JSON.parse(readFileSync(configPath, "utf-8")) as VeluConfig);
+}
+
+function resolvePageFile(docsDir: string, ref: string): string | null {
+  for (const ext of PAGE_EXTENSIONS) {
+    if (existsSync(join(docsDir, `${ref}${ext}`))) return `${ref}${ext}`;
+  }
+  return null;
+}
+
+/** A page's reference without the language folder, so `fr/guides/intro` pairs with `guides/intro` or `en/guides/intro`. */
+function pageKey(ref: string, language: string): string {
+  const [first, ...rest] = ref.split("/");
+  return rest.length > 0 && first.toLowerCase() === language.toLowerCase() ? rest.join("/") : ref;
+}
+
+/** Where a missing translation goes: the source path with its language folder swapped, or under `<lang>/`. */
+function translationRef(source: string, defaultLanguage: string, language: string): string {
+  return `${language}/${pageKey(source, defaultLanguage)}`;
+}
+
+function contentPages(pages: Array<{ page: string }>): string[] {
+  return pages
+    .map((entry) => entry.page.trim().replace(/^\/+/, ""))
+    .filter((page) => page && !isOpenApiOperationReference(page) && !isAsyncApiChannelReference(page));
+}
+
+/**
+ * Pair each default-language page (the first entry of `navigation.languages`)
+ * with its page in every other language.
+ */
+function pairLanguagePages(docsDir: string, config: VeluConfig): { defaultLanguage: string; languages: Map<string, LanguagePages> } {
+  if (!config.navigation.languages || config.navigation.languages.length < 2) {
+    throw new Error("Translations need navigation.languages in docs.json with a page tree for each language.");
+  }
+  const byLanguage = collectPagesWithTabsByLanguage(config);
+  const [defaultLanguage, ...others] = config.navigation.languages.map((entry) => entry.language);
+  const sources = [...new Set(contentPages(byLanguage[defaultLanguage] ?? []))];
+
+  const languages = new Map<string, LanguagePages>();
+  for (const language of others) {
+    const translated = new Map<string, string>();
+    for (const page of contentPages(byLanguage[language] ?? [])) {
+      if (!translated.has(pageKey(page, language))) translated.set(pageKey(page, language), page);
+    }
+    const pairs = sources.map((source) => {
+      const key = pageKey(source, defaultLanguage);
+      const translation = translated.get(key) ?? null;
+      translated.delete(key);
+      return {
+        source,
+        sourceFile: resolvePageFile(docsDir, source) ?? `${source}.mdx`,
+        translation,
+        translationFile: translation ? resolvePageFile(docsDir, translation) : null,
+      };
+    });
+    languages.set(language, { pairs, extra: [...translated.values()] });
+  }
+  return { defaultLanguage, languages };
+}
+
+function languagePairs(languages: Map<string, LanguagePages>, language: string): LanguagePages {
+  const entry = languages.get(language);
+  if (!entry) throw new Error(`Unknown language: ${language}. Use one of: ${[...languages.keys()].join(", ")}.`);
+  return entry;
+}
+
+// ── Staleness ──────────────────────────────────────────────────────────────────
+
+function hashContent(content: string): string {
+  return createHash("sha256").update(content).digest("hex").slice(0, 16);
+}
+
+function readLock(docsDir: string): TranslationLock {
+  const path = join(docsDir, LOCK_FILE);
+  if (!existsSync(path)) return {};
+  try {
+    const parsed = JSON.parse(readFileSync(path, "utf-8")) as unknown;
+    return typeof parsed === "object" && parsed !== null && !Array.isArray(parsed) ? parsed as TranslationLock : {};
+  } catch {
+    return {};
+  }
+}
+
+function writeLock(docsDir: string, lock: TranslationLock): void {
+  writeFileSync(join(docsDir, LOCK_FILE), `${JSON.stringify(lock, null, 2)}\n`, "utf-8");
+}
+
+/** Last commit time (ms) of every file under the docs directory, or an empty map outside a git repository. */
+function gitTimestamps(docsDir: string): Map<string, number> {
+  const timestamps = new Map<string, number>();
+  let log: string;
+  try {
+    log = execFileSync("git", ["-c", "core.quotepath=off", "log", "--format=%x1e%ct", "--name-only", "--relative", "--", "."], {
+      cwd: docsDir,
+      encoding: "utf-8",
+      stdio: ["ignore", "pipe", "ignore"],
+      maxBuffer: 64 * 1024 * 1024,
+    });
+  } catch {
+    return timestamps;
+  }
+  for (const record of log.split("\x1e")) {
+    const [time, ...files] = record.trim().split("\n");
+    const ms = Number(time) * 1000;
+    if (!Number.isFinite(ms)) continue;
+    for (const file of files) {
+      if (file && !timestamps.has(file)) timestamps.set(file, ms);
+    }
+  }
+  return timestamps;
+}
+
+function isoDate(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 10);
+}
+
+/**
+ * A translation is outdated when its source's hash no longer matches the one
+ * recorded at import, or, for translations not imported by `velu i18n import`,
+ * when the source was committed after it.
+ */
+function findStale(docsDir: string, language: string, pairs: PagePair[], lock: TranslationLock, timestamps: Map<string, number>): StalePage[] {
+  const stale: StalePage[] = [];
+  for (const pair of pairs) {
+    if (!pair.translation || !pair.translationFile || !existsSync(join(docsDir, pair.sourceFile))) continue;
+    const recorded = lock[language]?.[pair.translation];
+    if (recorded && recorded.source === pair.source) {
+      if (hashContent(readFileSync(join(docsDir, pair.sourceFile), "utf-8")) !== recorded.hash) {
+        stale.push({ source: pair.source, translation: pair.translation, reason: "hash" });
+      }
+      continue;
+    }
+    const sourceTime = timestamps.get(pair.sourceFile);
+    const translationTime = timestamps.get(pair.translationFile);
+    if (sourceTime !== undefined && translationTime !== undefined && sourceTime > translationTime) {
+      stale.push({
+        source: pair.source,
+        translation: pair.translation,
+        reason: "git",
+        sourceUpdated: isoDate(sourceTime),
+        translationUpdated: isoDate(translationTime),
+      });
+    }
+  }
+  return stale;
+}
+
+function translationStatus(docsDir: string, configPath: string, only?: string): I18nStatus {
+  const { defaultLanguage, languages } = pairLanguagePages(docsDir, loadConfig(configPath));
+  if (only) languagePairs(languages, only);
+  const lock = readLock(docsDir);
+  const timestamps = gitTimestamps(docsDir);
+
+  const statuses: LanguageStatus[] = [];
+  for (const [language, { pairs, extra }] of languages) {
+    if (only && language !== only) continue;
+    const missing = pairs
+      .filter((pair) => !pair.translationFile)
+      .map((pair) => {
+        const translation = pair.translation ?? translationRef(pair.source, defaultLanguage, language);
+        return { source: pair.source, translation, ...(!pair.translation && resolvePageFile(docsDir, translation) ? { unlisted: true as const } : {}) };
+      });
+    statuses.push({
+      language,
+      pages: pairs.length,
+      translated: pairs.length - missing.length,
+      missing,
+      stale: findStale(docsDir, language, pairs, lock, timestamps),
+      extra,
+    });
+  }
+  return { defaultLanguage, languages: statuses };
+}
+
+function formatStatus(status: I18nStatus): string {
+  const lines: string[] = [];
+  for (const language of status.languages) {
+    lines.push(`${language.language}: ${language.translated}/${language.pages} translated, ${language.missing.length} missing, ${language.stale.length} outdated`);
+    for (const page of language.missing) {
+      const note = page.unlisted ? ` (file exists; add it to the ${language.language} navigation)` : "";
+      lines.push(`  missing   ${page.source} → ${page.translation}${note}`);
+    }
+    for (const page of language.stale) {
+      const detail = page.reason === "hash"
+        ? "source changed since the translation was imported"
+        : `source committed ${page.sourceUpdated}, translation ${page.translationUpdated}`;
+      lines.push(`  outdated  ${page.translation} (${detail})`);
+    }
+    for (const page of language.extra) lines.push(`  extra     ${page} (no ${status.defaultLanguage} page)`);
+  }
+  return lines.join("\n");
+}
+
+// ── Export / import ────────────────────────────────────────────────────────────
+
+function exportTranslations(docsDir: string, configPath: string, language: string, options: ExportOptions): { text: string; pages: number; units: number } {
+  const { defaultLanguage, languages } = pairLanguagePages(docsDir, loadConfig(configPath));
+  const { pairs } = languagePairs(languages, language);
+  const stale = findStale(docsDir, language, pairs, readLock(docsDir), gitTimestamps(docsDir));
+  const pending = new Set([
+    ...pairs.filter((pair) => !pair.translationFile).map((pair) => pair.source),
+    ...stale.map((page) => page.source),
+  ]);
+
+  const document: ExchangeDocument = { sourceLanguage: defaultLanguage, targetLanguage: language, files: [] };
+  for (const pair of pairs) {
+    if (!options.all && !pending.has(pair.source)) continue;
+    const path = join(docsDir, pair.sourceFile);
+    if (!existsSync(path)) continue;
+    const content = readFileSync(path, "utf-8");
+    const units = pageSegments(splitPage(content)).map((part) => ({ id: part.id, source: part.source }));
+    if (units.length > 0) document.files.push({ file: pair.sourceFile, sourceHash: hashContent(content), units });
+  }
+
+  return {
+    text: formatExchange(document, options.format),
+    pages: document.files.length,
+    units: document.files.reduce((total, file) => total + file.units.length, 0),
+  };
+}
+
+/** Translations for a page's segments: by id while the source text still matches, else by source text. */
+function segmentTranslator(file: ExchangeFile): (part: TextPart) => string | null {
+  const byId = new Map(file.units.map((unit) => [unit.id, unit]));
+  const bySource = new Map(file.units.filter((unit) => unit.target).map((unit) => [unit.source, unit.target!]));
+  return (part) => {
+    const unit = byId.get(part.id);
+    if (unit && unit.source === part.source && unit.target) return unit.target;
+    return bySource.get(part.source) ?? null;
+  };
+}
+
+/**
+ * Write the translated pages of an XLIFF or PO file: each page is rebuilt from
+ * its current source, so code, imports and components follow the source.
+ * Segments with no translation keep the source text.
+ */
+function importTranslations(docsDir: string, configPath: string, file: string, language?: string): ImportResult {
+  const format = exchangeFormatForFile(file);
+  if (!format) throw new Error(`Can't tell the format of ${file}. Use a .xlf, .xliff or .po file.`);
+  const document = parseExchange(readFileSync(file, "utf-8"), format);
+  const target = language ?? document.targetLanguage;
+  if (!target) throw new Error(`${file} names no target language. Pass --lang.`);
+
+  const { defaultLanguage, languages } = pairLanguagePages(docsDir, loadConfig(configPath));
+  const { pairs } = languagePairs(languages, target);
+  const pairsByFile = new Map(pairs.map((pair) => [pair.sourceFile, pair]));
+
+  const lock = readLock(docsDir);
+  const result: ImportResult = { language: target, pages: [], skipped: [], unlisted: [] };
+  for (const exchangeFile of document.files) {
+    const pair = pairsByFile.get(exchangeFile.file.replace(/^\/+/, ""));
+    const sourcePath = pair ? join(docsDir, pair.sourceFile) : null;
+    if (!pair || !sourcePath || !existsSync(sourcePath)) {
+      result.skipped.push(exchangeFile.file);
+      continue;
+    }
+
+    const ref = pair.translation ?? translationRef(pair.source, defaultLanguage, target);
+    const targetFile = pair.translationFile ?? `${ref}${posix.extname(pair.sourceFile)}`;
+    const content = readFileSync(sourcePath, "utf-8");
+    const translate = segmentTranslator(exchangeFile);
+    let translated = 0;
+    let untranslated = 0;
+    let output = joinPage(splitPage(content), (part) => {
+      const text = translate(part);
+      if (text === null) untranslated += 1;
+      else translated += 1;
+      return text;
+    });
+    if (posix.dirname(targetFile) !== posix.dirname(pair.sourceFile)) {
+      output = rewriteRelativeImports(output, sourcePath, docsDir);
+    }
+
+    const targetPath = join(docsDir, targetFile);
+    mkdirSync(dirname(targetPath), { recursive: true });
+    writeFileSync(targetPath, output, "utf-8");
+    lock[target] = { ...lock[target], [ref]: { source: pair.source, hash: exchangeFile.sourceHash ?? hashContent(content) } };
+    result.pages.push({ file: targetFile, translated, untranslated });
+    if (!pair.translation) result.unlisted.push(ref);
+  }
+
+  if (result.pages.length > 0) writeLock(docsDir, lock);
+  return result;
+}
+
+export {
+  exportTranslations,
+  formatStatus,
+  importTranslations,
+  translationStatus,
+  type I18nStatus,
+  type ImportResult,
+  type LanguageStatus,
+  type StalePage,
+};
@@ -0,0 +1,47 @@
+import { indexJsonRanges } from "./diagnostics.js";
+
+// In-place edits of JSON source text. Only the touched array items change, so
+// key order, indentation and line breaks elsewhere in the file are preserved.
+
+function arrayLength(ranges: ReturnType<typeof indexJsonRanges>, pointer: string): number {
+  let count = 0;
+  while (ranges.has(`${pointer}/${count}`)) count += 1;
+  return count;
+}
+
+/** Append `value` to the array at `pointer`, reusing the separator between existing items. */
+function appendJsonArrayItem(source: string, pointer: string, value: unknown): string {
+  const ranges = indexJsonRanges(source);
+  const array = ranges.get(pointer);
+  if (!array || source[array.start] !== "[") throw new Error(`No array at ${pointer || "/"}`);
+
+  const json = JSON.stringify(value);
+  const count = arrayLength(ranges, pointer);
+  if (count === 0) {
+    return `${source.slice(0, array.start + 1)}${json}${source.slice(array.start + 1)}`;
+  }
+
+  const last = ranges.get(`${pointer}/${count - 1}`)!;
+  const separator = count >= 2
+    ? source.slice(ranges.get(`${pointer}/${count - 2}`)!.end, last.start)
+    : `,${source.slice(array.start + 1, last.start)}`;
+  return `${source.slice(0, last.end)}${separator}${json}${source.slice(last.end)}`;
+}
+
+/** Remove the items at `indexes` from the array at `pointer`. */
+function removeJsonArrayItems(source: string, pointer: string, indexes: number[]): string {
+  let result = source;
+  for (const index of Array.from(new Set(indexes)).sort((a, b) => b - a)) {
+    const ranges = indexJsonRanges(result);
+    const item = ranges.get(`${pointer}/${index}`);
+    if (!item) continue;
+    const next = ranges.get(`${pointer}/${index + 1}`);
+    const previous = ranges.get(`${pointer}/${index - 1}`);
+    if (next) result = result.slice(0, item.start) + result.slice(next.start);
+    else if (previous) result = result.slice(0, previous.end) + result.slice(item.end);
+    else result = result.slice(0, item.start) + result.slice(item.end);
+  }
+  return result;
+}
+
+export { appendJsonArrayItem, removeJsonArrayItems };
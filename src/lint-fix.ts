@@ -0,0 +1,162 @@
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { removeJsonArrayItems } from "./json-edit.js";
+import { collectPageArrays, type LintFix } from "./lint-rules.js";
+
+// ── Types ──────────────────────────────────────────────────────────────────────
+
+interface FileChange {
+  file: string;
+  before: string;
+  after: string;
+  /** Number of fixes that changed this file. */
+  fixes: number;
+}
+
+// ── Config fixes ───────────────────────────────────────────────────────────────
+
+/**
+ * Drop repeated page references from navigation, keeping the first
+ * occurrence. Duplicates are counted per language, like `validateVeluConfig`.
+ */
+function duplicatePageFix(configFile: string): LintFix {
+  return {
+    file: configFile,
+    apply(source) {
+      const navigation = JSON.parse(source).navigation ?? {};
+      const scopes = Array.isArray(navigation.languages) && navigation.languages.length > 0
+        ? navigation.languages.map((language: unknown, index: number) => ({ value: language, path: ["navigation", "languages", index] }))
+        : [{ value: navigation, path: ["navigation"] }];
+
+      const removals = new Map<string, number[]>();
+      for (const scope of scopes) {
+        const seen = new Set<string>();
+        for (const { pointer, pages } of collectPageArrays(scope.value, scope.path)) {
+          pages.forEach((page, index) => {
+            if (page === null) return;
+            if (!seen.has(page)) {
+              seen.add(page);
+              return;
+            }
+            removals.set(pointer, [...(removals.get(pointer) ?? []), index]);
+          });
+        }
+      }
+
+      let result = source;
+      for (const [pointer, indexes] of removals) {
+        result = removeJsonArrayItems(result, pointer, indexes);
+      }
+      return result;
+    },
+  };
+}
+
+// ── Applying fixes ─────────────────────────────────────────────────────────────
+
+/**
+ * Apply fixes file by file, in order, each to the output of the previous one.
+ * A fix that throws is skipped. Files are only written when `write` is set.
+ */
+function applyLintFixes(docsDir: string, fixes: LintFix[], options: { write: boolean }): FileChange[] {
+  const changes = new Map<string, FileChange>();
+
+  for (const fix of fixes) {
+    const path = join(docsDir, fix.file);
+    let change = changes.get(fix.file);
+    if (!change) {
+      if (!existsSync(path)) continue;
+      const source = readFileSync(path, "utf-8");
+      change = { file: fix.file, before: source, after: source, fixes: 0 };
+      changes.set(fix.file, change);
+    }
+
+    let next: string;
+    try {
+      next = fix.apply(change.after);
+    } catch {
+      continue;
+    }
+    if (next !== change.after) {
+      change.after = next;
+      change.fixes += 1;
+    }
+  }
+
+  const changed = Array.from(changes.values()).filter((change) => change.after !== change.before);
+  if (options.write) {
+    for (const change of changed) {
+      writeFileSync(join(docsDir, change.file), change.after, "utf-8");
+    }
+  }
+  return changed;
+}
+
+// ── Diff ───────────────────────────────────────────────────────────────────────
+
+const DIFF_CONTEXT = 3;
+
+/** Unified diff of one file, as printed by `velu lint --fix --dry-run`. */
+function formatUnifiedDiff(change: FileChange): string {
+  const a = change.before.split("\n");
+  const b = change.after.split("\n");
+
+  // Longest common subsequence table, filled from the end.
+  const width = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i -= 1) {
+    for (let j = b.length - 1; j >= 0; j -= 1) {
+      lcs[i * width + j] = a[i] === b[j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  type Op = { kind: " " | "-" | "+"; text: string; aLine: number; bLine: number };
+  const ops: Op[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      ops.push({ kind: " ", text: a[i], aLine: i, bLine: j });
+      i += 1;
+      j += 1;
+    } else if (i < a.length && (j === b.length || lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])) {
+      ops.push({ kind: "-", text: a[i], aLine: i, bLine: j });
+      i += 1;
+    } else {
+      ops.push({ kind: "+", text: b[j], aLine: i, bLine: j });
+      j += 1;
+    }
+  }
+
+  const lines = [`--- a/${change.file}`, `+++ b/${change.file}`];
+  let index = 0;
+  let previousEnd = 0;
+  while (index < ops.length) {
+    while (index < ops.length && ops[index].kind === " ") index += 1;
+    if (index >= ops.length) break;
+
+    const start = Math.max(previousEnd, index - DIFF_CONTEXT);
+    let end = index;
+    let lastChange = index;
+    while (end < ops.length && end - lastChange <= DIFF_CONTEXT * 2) {
+      if (ops[end].kind !== " ") lastChange = end;
+      end += 1;
+    }
+    end = Math.min(ops.length, lastChange + DIFF_CONTEXT + 1);
+
+    const hunk = ops.slice(start, end);
+    const aCount = hunk.filter((op) => op.kind !== "+").length;
+    const bCount = hunk.filter((op) => op.kind !== "-").length;
+    const aStart = aCount === 0 ? hunk[0].aLine : hunk[0].aLine + 1;
+    const bStart = bCount === 0 ? hunk[0].bLine : hunk[0].bLine + 1;
+    lines.push(`@@ -${aStart},${aCount} +${bStart},${bCount} @@`);
+    for (const op of hunk) lines.push(`${op.kind}${op.text}`);
+    index = end;
+    previousEnd = end;
+  }
+  return lines.join("\n");
+}
+
+export { applyLintFixes, duplicatePageFix, formatUnifiedDiff, type FileChange };
@@ -0,0 +1,509 @@
+import { existsSync, readdirSync, readFileSync } from "node:fs";
+import { dirname, join, posix, relative, resolve } from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import { locateJsonPointer, pointerFromPath, type Diagnostic, type DiagnosticSeverity } from "./diagnostics.js";
+import { extractPageTitle, sanitizeFrontmatterValue, VARIABLE_TOKEN_PATTERN } from "./engine/lib/content-pipeline.js";
+import { appendJsonArrayItem } from "./json-edit.js";
+import { markdownLines, parseFrontmatter, stripInlineCode, type Frontmatter } from "./mdx-source.js";
+import { normalizeConfigNavigation } from "./navigation-normalize.js";
+import {
+  collectPagesByLanguage,
+  isAsyncApiChannelReference,
+  isOpenApiOperationReference,
+  type VeluConfig,
+} from "./validate.js";
+
+// ── Types ──────────────────────────────────────────────────────────────────────
+
+type RuleSeverity = "off" | "warn" | "error";
+
+interface LintPage {
+  /** Path relative to the docs directory, with forward slashes. */
+  file: string;
+  path: string;
+  content: string;
+  frontmatter: Frontmatter | null;
+}
+
+interface LintContext {
+  docsDir: string;
+  /** Config file name relative to `docsDir`. */
+  configFile: string;
+  config: VeluConfig;
+  pages: LintPage[];
+  /** Component names available to every page through `getMDXComponents`. */
+  components: Set<string>;
+}
+
+/** A source rewrite applied by `velu lint --fix`. */
+interface LintFix {
+  /** File to rewrite, relative to the docs directory. */
+  file: string;
+  apply(source: string): string;
+}
+
+interface LintReport {
+  /** Defaults to the page being checked. */
+  file?: string;
+  line?: number;
+  column?: number;
+  message: string;
+  fix?: LintFix;
+}
+
+interface LintRunResult {
+  diagnostics: Diagnostic[];
+  /** Fixes attached to reported (enabled, unsuppressed) issues, in report order. */
+  fixes: LintFix[];
+}
+
+interface LintRule {
+  id: string;
+  description: string;
+  defaultSeverity: Exclude<RuleSeverity, "off">;
+  checkPage?(page: LintPage, context: LintContext): LintReport[];
+  checkProject?(context: LintContext): LintReport[];
+}
+
+const PACKAGE_SRC = dirname(fileURLToPath(import.meta.url));
+const CORE_MDX_COMPONENTS_PATH = join(PACKAGE_SRC, "engine-core", "mdx-components.tsx");
+
+// Spread into getMDXComponents from `fumadocs-ui/mdx`.
+const FUMADOCS_MDX_COMPONENTS = [
+  "Callout", "CalloutContainer", "CalloutDescription", "CalloutTitle", "Card", "Cards",
+  "CodeBlockTab", "CodeBlockTabs", "CodeBlockTabsList", "CodeBlockTabsTrigger",
+];
+
+// ── Helpers ────────────────────────────────────────────────────────────────────
+
+/** Component keys of the object `getMDXComponents` returns, read from its source. */
+function loadMdxComponentNames(): Set<string> {
+  const names = new Set(FUMADOCS_MDX_COMPONENTS);
+  const source = readFileSync(CORE_MDX_COMPONENTS_PATH, "utf-8");
+  const body = source.slice(source.indexOf("  return {"));
+  for (const match of body.matchAll(/^ {4}([A-Z][A-Za-z0-9]*)\s*:/gm)) {
+    names.add(match[1]);
+  }
+  return names;
+}
+
+/** Names a page brings into scope itself through `import` or `export`. */
+function collectLocalComponents(content: string): Set<string> {
+  const names = new Set<string>();
+  for (const match of content.matchAll(/^import\s+([^'"]+?)\s+from\s+['"][^'"]+['"]/gm)) {
+    const clause = match[1];
+    const defaultName = clause.match(/^([A-Za-z_$][\w$]*)/);
+    if (defaultName) names.add(defaultName[1]);
+    const namespace = clause.match(/\*\s+as\s+([A-Za-z_$][\w$]*)/);
+    if (namespace) names.add(namespace[1]);
+    const named = clause.match(/\{([^}]*)\}/);
+    for (const part of named ? named[1].split(",") : []) {
+      const local = part.trim().split(/\s+as\s+/).pop();
+      if (local) names.add(local);
+    }
+  }
+  for (const match of content.matchAll(/^export\s+(?:const|let|function|class)\s+([A-Za-z_$][\w$]*)/gm)) {
+    names.add(match[1]);
+  }
+  return names;
+}
+
+function collectImportedFiles(page: LintPage, docsDir: string): string[] {
+  const files: string[] = [];
+  for (const match of page.content.matchAll(/^import\s+[^'"]+?\s+from\s+['"]([^'"]+\.mdx?)['"]/gm)) {
+    const specifier = match[1];
+    const path = specifier.startsWith("/") ? join(docsDir, specifier) : resolve(dirname(page.path), specifier);
+    files.push(relative(docsDir, path).replace(/\\/g, "/"));
+  }
+  return files;
+}
+
+function collectMarkdownFiles(docsDir: string): string[] {
+  const files: string[] = [];
+  function walk(dir: string) {
+    for (const entry of readdirSync(dir, { withFileTypes: true })) {
+      if (entry.name.startsWith(".") || entry.name.startsWith("_") || entry.name === "node_modules") continue;
+      const path = join(dir, entry.name);
+      if (entry.isDirectory()) walk(path);
+      else if (/\.mdx?$/.test(entry.name)) files.push(relative(docsDir, path).replace(/\\/g, "/"));
+    }
+  }
+  walk(docsDir);
+  return files;
+}
+
+/** Every `pages` array under `value` with its JSON pointer and string entries, in document order. */
+function collectPageArrays(value: unknown, path: Array<string | number> = []): Array<{ pointer: string; pages: Array<string | null> }> {
+  if (Array.isArray(value)) {
+    return value.flatMap((item, index) => collectPageArrays(item, [...path, index]));
+  }
+  if (typeof value !== "object" || value === null) return [];
+  const found: Array<{ pointer: string; pages: Array<string | null> }> = [];
+  for (const [key, item] of Object.entries(value)) {
+    if (key === "pages" && Array.isArray(item)) {
+      found.push({ pointer: pointerFromPath([...path, key]), pages: item.map((page) => (typeof page === "string" ? page : null)) });
+    }
+    found.push(...collectPageArrays(item, [...path, key]));
+  }
+  return found;
+}
+
+function sharedSegments(a: string, b: string): number {
+  const left = a.split("/").filter(Boolean);
+  const right = b.split("/").filter(Boolean);
+  let count = 0;
+  while (count < left.length && count < right.length && left[count] === right[count]) count += 1;
+  return count;
+}
+
+/** Append `page` to the nav `pages` array whose entries share the most of its directory. */
+function appendToClosestGroup(source: string, page: string): string {
+  const arrays = collectPageArrays(JSON.parse(source).navigation, ["navigation"]);
+  if (arrays.length === 0) throw new Error("navigation has no pages arrays");
+  const directory = posix.dirname(page);
+  let best = arrays[0];
+  let bestScore = -1;
+  for (const candidate of arrays) {
+    const entries = candidate.pages.filter((entry): entry is string => entry !== null);
+    const score = Math.max(-1, ...entries.map((entry) => sharedSegments(directory, posix.dirname(entry.replace(/^\/+/, "")))));
+    if (score > bestScore) {
+      best = candidate;
+      bestScore = score;
+    }
+  }
+  return appendJsonArrayItem(source, best.pointer, page);
+}
+
+/** Add a frontmatter title the way the build derives one (first `# heading`, else the slug). */
+function addTitleFrontmatter(source: string, slug: string): string {
+  const frontmatter = parseFrontmatter(source);
+  if (!frontmatter) {
+    const { title, body } = extractPageTitle(source, slug);
+    return `---\ntitle: "${sanitizeFrontmatterValue(title)}"\n---\n\n${body}`;
+  }
+  if (typeof frontmatter.data.title === "string" && frontmatter.data.title.trim()) return source;
+
+  const lines = source.split(/\r?\n/);
+  const block = lines.slice(1, frontmatter.lineCount - 1).filter((line) => !/^title\s*:/.test(line));
+  const { title, body } = extractPageTitle(lines.slice(frontmatter.lineCount).join("\n").trimStart(), slug);
+  return ["---", `title: "${sanitizeFrontmatterValue(title)}"`, ...block, "---", "", body].join("\n");
+}
+
+function headings(page: LintPage): Array<{ level: number; line: number }> {
+  const found: Array<{ level: number; line: number }> = [];
+  for (const { text, line } of markdownLines(page.content)) {
+    const match = text.match(/^\s{0,3}(#{1,6})\s+\S/);
+    if (match) found.push({ level: match[1].length, line });
+  }
+  return found;
+}
+
+// ── Built-in rules ─────────────────────────────────────────────────────────────
+
+const missingTitle: LintRule = {
+  id: "missing-title",
+  description: "Pages should set a `title` in frontmatter instead of relying on the first heading.",
+  defaultSeverity: "warn",
+  checkPage(page) {
+    const title = page.frontmatter?.data.title;
+    if (typeof title === "string" && title.trim()) return [];
+    const slug = page.file.replace(/\.mdx?$/, "");
+    return [{
+      line: 1,
+      message: "Missing `title` in frontmatter",
+      fix: { file: page.file, apply: (source) => addTitleFrontmatter(source, slug) },
+    }];
+  },
+};
+
+const missingDescription: LintRule = {
+  id: "missing-description",
+  description: "Pages should set a `description` in frontmatter.",
+  defaultSeverity: "warn",
+  checkPage(page) {
+    const description = page.frontmatter?.data.description;
+    if (typeof description === "string" && description.trim()) return [];
+    return [{ line: 1, message: "Missing `description` in frontmatter" }];
+  },
+};
+
+const multipleH1: LintRule = {
+  id: "multiple-h1",
+  description: "A page has one H1: its frontmatter title or its first `# heading`.",
+  defaultSeverity: "warn",
+  checkPage(page) {
+    const hasTitle = typeof page.frontmatter?.data.title === "string";
+    const h1s = headings(page).filter((heading) => heading.level === 1);
+    return h1s.slice(hasTitle ? 0 : 1).map(({ line }) => ({
+      line,
+      message: hasTitle
+        ? "Extra H1: the frontmatter title is already rendered as the page H1"
+        : "More than one H1 on the page",
+    }));
+  },
+};
+
+const headingIncrement: LintRule = {
+  id: "heading-increment",
+  description: "Heading levels should only increase by one at a time.",
+  defaultSeverity: "warn",
+  checkPage(page) {
+    const reports: LintReport[] = [];
+    let previous = 1;
+    for (const { level, line } of headings(page)) {
+      if (level > previous + 1) {
+        reports.push({ line, message: `Heading level skips from H${previous} to H${level}` });
+      }
+      previous = level;
+    }
+    return reports;
+  },
+};
+
+const imageAlt: LintRule = {
+  id: "image-alt",
+  description: "Images need alt text.",
+  defaultSeverity: "warn",
+  checkPage(page) {
+    const reports: LintReport[] = [];
+    for (const { text, line } of markdownLines(page.content)) {
+      const code = stripInlineCode(text);
+      for (const match of code.matchAll(/!\[\s*\]\(\s*<?([^)\s>]*)/g)) {
+        reports.push({ line, column: (match.index ?? 0) + 1, message: `Image ${match[1]} has no alt text` });
+      }
+      for (const match of code.matchAll(/<img\b[^>]*>/gi)) {
+        const alt = match[0].match(/\balt\s*=\s*(?:"([^"]*)"|'([^']*)'|\{)/);
+        if (alt && (alt[0].endsWith("{") || (alt[1] ?? alt[2] ?? "").trim())) continue;
+        const src = match[0].match(/\bsrc\s*=\s*["']([^"']*)["']/)?.[1] ?? "";
+        reports.push({ line, column: (match.index ?? 0) + 1, message: `Image ${src} has no alt text` });
+      }
+    }
+    return reports;
+  },
+};
+
+const unknownComponent: LintRule = {
+  id: "unknown-component",
+  description: "JSX components must come from getMDXComponents or be imported by the page.",
+  defaultSeverity: "error",
+  checkPage(page, context) {
+    const local = collectLocalComponents(page.content);
+    const reports: LintReport[] = [];
+    for (const { text, line } of markdownLines(page.content)) {
+      for (const match of stripInlineCode(text).matchAll(/<([A-Z][A-Za-z0-9_]*)(?=[\s./>]|$)/g)) {
+        const name = match[1];
+        if (context.components.has(name) || local.has(name)) continue;
+        reports.push({ line, column: (match.index ?? 0) + 1, message: `Unknown component <${name}>` });
+      }
+    }
+    return reports;
+  },
+};
+
+const undefinedVariable: LintRule = {
+  id: "undefined-variable",
+  description: "`{{variables}}` must be defined in docs.json `variables`.",
+  defaultSeverity: "error",
+  checkPage(page, context) {
+    const variables = context.config.variables ?? {};
+    const reports: LintReport[] = [];
+    page.content.split(/\r?\n/).forEach((text, index) => {
+      for (const match of text.matchAll(VARIABLE_TOKEN_PATTERN)) {
+        const name = match[1].trim();
+        if (Object.prototype.hasOwnProperty.call(variables, name)) continue;
+        reports.push({ line: index + 1, column: (match.index ?? 0) + 1, message: `Undefined variable {{${name}}}` });
+      }
+    });
+    return reports;
+  },
+};
+
+const orphanPage: LintRule = {
+  id: "orphan-page",
+  description: "Markdown files on disk should be referenced from navigation.",
+  defaultSeverity: "warn",
+  checkProject(context) {
+    const referenced = new Set<string>();
+    for (const pages of Object.values(collectPagesByLanguage(context.config))) {
+      for (const page of pages) referenced.add(page.replace(/^\/+/, ""));
+    }
+    const imported = new Set(context.pages.flatMap((page) => collectImportedFiles(page, context.docsDir)));
+
+    return collectMarkdownFiles(context.docsDir)
+      .filter((file) => !file.startsWith("snippets/") && !imported.has(file))
+      .filter((file) => !referenced.has(file.replace(/\.mdx?$/, "")))
+      .map((file) => ({
+        file,
+        line: 1,
+        message: `${file} is not referenced in navigation`,
+        fix: { file: context.configFile, apply: (source) => appendToClosestGroup(source, file.replace(/\.mdx?$/, "")) },
+      }));
+  },
+};
+
+const BUILTIN_LINT_RULES: LintRule[] = [
+  missingTitle,
+  missingDescription,
+  multipleH1,
+  headingIncrement,
+  imageAlt,
+  unknownComponent,
+  undefinedVariable,
+  orphanPage,
+];
+
+// ── Suppressions ───────────────────────────────────────────────────────────────
+
+interface Suppressions {
+  /** Rule ids disabled for the whole file; `*` disables every rule. */
+  file: Set<string>;
+  /** Line number → rule ids disabled on that line. */
+  lines: Map<number, Set<string>>;
+}
+
+function parseSuppressions(content: string): Suppressions {
+  const suppressions: Suppressions = { file: new Set(), lines: new Map() };
+  content.split(/\r?\n/).forEach((text, index) => {
+    for (const match of text.matchAll(/(?:\{\/\*|<!--)\s*velu-lint-disable(-next-line)?([^*>]*?)\s*(?:\*\/\}|-->)/g)) {
+      const ids = match[2].split(/[\s,]+/).filter(Boolean);
+      const rules = ids.length > 0 ? ids : ["*"];
+      if (match[1]) {
+        const line = index + 2;
+        const existing = suppressions.lines.get(line) ?? new Set<string>();
+        rules.forEach((rule) => existing.add(rule));
+        suppressions.lines.set(line, existing);
+      } else {
+        rules.forEach((rule) => suppressions.file.add(rule));
+      }
+    }
+  });
+  return suppressions;
+}
+
+function isSuppressed(suppressions: Suppressions | undefined, ruleId: string, line?: number): boolean {
+  if (!suppressions) return false;
+  if (suppressions.file.has("*") || suppressions.file.has(ruleId)) return true;
+  const lineRules = line === undefined ? undefined : suppressions.lines.get(line);
+  return Boolean(lineRules && (lineRules.has("*") || lineRules.has(ruleId)));
+}
+
+// ── Runner ─────────────────────────────────────────────────────────────────────
+
+function isLintRule(value: unknown): value is LintRule {
+  if (typeof value !== "object" || value === null) return false;
+  const rule = value as Partial<LintRule>;
+  return typeof rule.id === "string"
+    && (typeof rule.checkPage === "function" || typeof rule.checkProject === "function");
+}
+
+async function loadPluginRules(docsDir: string, plugins: string[], diagnostics: Diagnostic[], configFile: string): Promise<LintRule[]> {
+  const rules: LintRule[] = [];
+  for (const plugin of plugins) {
+    const path = resolve(docsDir, plugin);
+    try {
+      const mod = await import(pathToFileURL(path).href);
+      const exported = mod.default ?? mod.rules;
+      const candidates = Array.isArray(exported) ? exported : [exported];
+      const valid = candidates.filter(isLintRule);
+      if (valid.length === 0) throw new Error("default export is not a lint rule or an array of rules");
+      rules.push(...valid.map((rule) => ({ ...rule, defaultSeverity: rule.defaultSeverity ?? "warn" })));
+    } catch (error) {
+      diagnostics.push({
+        ruleId: "lint-plugin",
+        severity: "error",
+        file: configFile,
+        message: `Could not load lint plugin ${plugin}: ${error instanceof Error ? error.message : String(error)}`,
+      });
+    }
+  }
+  return rules;
+}
+
+/**
+ * Run content rules over every page in navigation. `lint.rules` in the config
+ * sets each rule to off/warn/error; pages opt out with
+ * `{/* velu-lint-disable rule-id *\/}` or `velu-lint-disable-next-line`.
+ */
+async function runLintRules(docsDir: string, configPath: string): Promise<LintRunResult> {
+  const configSource = readFileSync(configPath, "utf-8");
+  const config = normalizeConfigNavigation(JSON.parse(configSource) as VeluConfig);
+  const configFile = relative(docsDir, configPath).replace(/\\/g, "/");
+  const diagnostics: Diagnostic[] = [];
+  const fixes: LintFix[] = [];
+
+  const rules = [
+    ...BUILTIN_LINT_RULES,
+    ...await loadPluginRules(docsDir, config.lint?.plugins ?? [], diagnostics, configFile),
+  ];
+  const ruleIds = new Set(rules.map((rule) => rule.id));
+  const configured = config.lint?.rules ?? {};
+  for (const id of Object.keys(configured)) {
+    if (ruleIds.has(id)) continue;
+    const pointer = pointerFromPath(["lint", "rules", id]);
+    diagnostics.push({
+      ruleId: "lint-config",
+      severity: "warning",
+      file: configFile,
+      pointer,
+      ...locateJsonPointer(configSource, pointer),
+      message: `Unknown lint rule '${id}'`,
+    });
+  }
+
+  const pageRefs = new Set(Object.values(collectPagesByLanguage(config)).flat());
+  const pages: LintPage[] = [];
+  for (const ref of pageRefs) {
+    if (isOpenApiOperationReference(ref) || isAsyncApiChannelReference(ref)) continue;
+    const file = [`${ref}.mdx`, `${ref}.md`].find((candidate) => existsSync(join(docsDir, candidate)));
+    if (!file) continue; // reported as missing-page by validateVeluConfig
+    const path = join(docsDir, file);
+    const content = readFileSync(path, "utf-8");
+    pages.push({ file: file.replace(/^\/+/, ""), path, content, frontmatter: parseFrontmatter(content) });
+  }
+
+  const context: LintContext = { docsDir, configFile, config, pages, components: loadMdxComponentNames() };
+  const suppressionCache = new Map<string, Suppressions>();
+  function suppressionsFor(file: string): Suppressions | undefined {
+    if (!suppressionCache.has(file)) {
+      const path = join(docsDir, file);
+      if (!/\.mdx?$/.test(file) || !existsSync(path)) return undefined;
+      suppressionCache.set(file, parseSuppressions(readFileSync(path, "utf-8")));
+    }
+    return suppressionCache.get(file);
+  }
+
+  for (const rule of rules) {
+    const level = configured[rule.id] ?? rule.defaultSeverity;
+    if (level === "off") continue;
+    const severity: DiagnosticSeverity = level === "error" ? "error" : "warning";
+
+    const reports: Array<LintReport & { file: string }> = [];
+    for (const page of rule.checkPage ? pages : []) {
+      reports.push(...rule.checkPage!(page, context).map((report) => ({ file: page.file, ...report })));
+    }
+    if (rule.checkProject) {
+      reports.push(...rule.checkProject(context).map((report) => ({ file: configFile, ...report })));
+    }
+
+    for (const { fix, ...report } of reports) {
+      if (isSuppressed(suppressionsFor(report.file), rule.id, report.line)) continue;
+      diagnostics.push({ ruleId: rule.id, severity, ...report });
+      if (fix) fixes.push(fix);
+    }
+  }
+
+  return { diagnostics, fixes };
+}
+
+export {
+  BUILTIN_LINT_RULES,
+  collectPageArrays,
+  runLintRules,
+  type LintContext,
+  type LintFix,
+  type LintPage,
+  type LintReport,
+  type LintRule,
+  type LintRunResult,
+  type RuleSeverity,
+};
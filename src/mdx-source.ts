@@ -0,0 +1,60 @@
+import { parse as parseYaml } from "yaml";
+
+// Line-level helpers shared by `velu lint` and `velu check-links`. They work on
+// raw page source, so reported line numbers match the file the author edits.
+
+interface SourceLine {
+  text: string;
+  /** 1-based line number in the original file. */
+  line: number;
+}
+
+interface Frontmatter {
+  data: Record<string, unknown>;
+  /** Number of lines the frontmatter block occupies, including both fences. */
+  lineCount: number;
+}
+
+function parseFrontmatter(content: string): Frontmatter | null {
+  const lines = content.split(/\r?\n/);
+  if (lines[0]?.trim() !== "---") return null;
+  const end = lines.findIndex((line, i) => i > 0 && line.trim() === "---");
+  if (end === -1) return null;
+
+  let data: unknown;
+  try {
+    data = parseYaml(lines.slice(1, end).join("\n"));
+  } catch {
+    data = null;
+  }
+  return {
+    data: typeof data === "object" && data !== null && !Array.isArray(data) ? data as Record<string, unknown> : {},
+    lineCount: end + 1,
+  };
+}
+
+/** Yield each line outside frontmatter and fenced code blocks. */
+function* markdownLines(content: string): Generator<SourceLine> {
+  const lines = content.split(/\r?\n/);
+  let index = parseFrontmatter(content)?.lineCount ?? 0;
+
+  let fence: string | null = null;
+  for (; index < lines.length; index += 1) {
+    const text = lines[index];
+    const fenceMatch = text.match(/^\s*(`{3,}|~{3,})/);
+    if (fenceMatch) {
+      if (!fence) fence = fenceMatch[1];
+      else if (fenceMatch[1].startsWith(fence)) fence = null;
+      continue;
+    }
+    if (fence) continue;
+    yield { text, line: index + 1 };
+  }
+}
+
+/** Blank out inline code spans, keeping columns stable. */
+function stripInlineCode(line: string): string {
+  return line.replace(/(`+)[^`]*?\1/g, (match) => " ".repeat(match.length));
+}
+
+export { markdownLines, parseFrontmatter, stripInlineCode, type Frontmatter, type SourceLine };
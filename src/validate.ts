@@ -1,7 +1,8 @@
 import Ajv, { type AnySchema } from "ajv";
 import addFormats from "ajv-formats";
 import { readFileSync, existsSync } from "node:fs";
-import { resolve, join } from "node:path";
+import { resolve, join, relative } from "node:path";
+import { indexJsonPointers, locateJsonPointer, pointerFromPath, type Diagnostic } from "./diagnostics.js";
 import { normalizeConfigNavigation } from "./navigation-normalize.js";
 const PRIMARY_CONFIG_NAME = "docs.json";
 const LEGACY_CONFIG_NAME = "velu.json";
@@ -162,6 +163,10 @@ interface VeluConfig {
     socials?: Record<string, unknown>;
   };
   footerSocials?: Record<string, unknown>;
+  lint?: {
+    rules?: Record<string, "off" | "warn" | "error">;
+    plugins?: string[];
+  };
   navigation: {
     openapi?: VeluOpenApiSource;
     asyncapi?: VeluOpenApiSource;
@@ -328,23 +333,59 @@ function collectPagesWithTabsByLanguage(config: VeluConfig): Record<string, Page
   return grouped;
 }
 
-function validateVeluConfig(docsDir: string, schemaPath: string): { valid: boolean; errors: string[] } {
+/** JSON pointers of every string in `value` equal to `target`, in document order. */
+function findStringPointers(value: unknown, target: string, path: Array<string | number> = []): string[] {
+  if (typeof value === "string") return value === target ? [pointerFromPath(path)] : [];
+  if (Array.isArray(value)) {
+    return value.flatMap((item, index) => findStringPointers(item, target, [...path, index]));
+  }
+  if (typeof value === "object" && value !== null) {
+    return Object.entries(value).flatMap(([key, item]) => findStringPointers(item, target, [...path, key]));
+  }
+  return [];
+}
+
+interface ValidationResult {
+  valid: boolean;
+  errors: string[];
+  diagnostics: Diagnostic[];
+}
+
+function validateVeluConfig(docsDir: string, schemaPath: string): ValidationResult {
   const errors: string[] = [];
+  const diagnostics: Diagnostic[] = [];
 
   const configPath = resolveConfigPath(docsDir);
   if (!configPath) {
+    const message = `docs.json or velu.json not found at ${join(docsDir, PRIMARY_CONFIG_NAME)}`;
     return {
       valid: false,
-      errors: [`docs.json or velu.json not found at ${join(docsDir, PRIMARY_CONFIG_NAME)}`],
+      errors: [message],
+      diagnostics: [{ ruleId: "config-not-found", severity: "error", file: PRIMARY_CONFIG_NAME, message }],
     };
   }
 
+  const configFile = relative(docsDir, configPath).replace(/\\/g, "/");
+
   if (!existsSync(schemaPath)) {
-    return { valid: false, errors: [`Schema not found at ${schemaPath}`] };
+    const message = `Schema not found at ${schemaPath}`;
+    return {
+      valid: false,
+      errors: [message],
+      diagnostics: [{ ruleId: "schema-not-found", severity: "error", file: configFile, message }],
+    };
   }
 
   const schema = loadJson(schemaPath) as AnySchema;
-  const rawConfig = loadJson(configPath) as VeluConfig;
+  const configSource = readFileSync(configPath, "utf-8");
+  const rawConfig = JSON.parse(configSource) as VeluConfig;
+  const pointerIndex = indexJsonPointers(configSource);
+
+  function report(ruleId: string, pointer: string, message: string, legacyMessage = message) {
+    const location = locateJsonPointer(configSource, pointer, pointerIndex);
+    diagnostics.push({ ruleId, severity: "error", file: configFile, pointer, ...location, message });
+    errors.push(legacyMessage);
+  }
 
   // Validate against JSON schema
   const ajv = new Ajv({ allErrors: true, strict: false });
@@ -354,7 +395,12 @@ function validateVeluConfig(docsDir: string, schemaPath: string): { valid: boole
 
   if (!schemaValid && validate.errors) {
     for (const err of validate.errors) {
-      errors.push(`Schema: ${err.instancePath || "/"} ${err.message}`);
+      const property = err.keyword === "additionalProperties"
+        ? (err.params as { additionalProperty?: string }).additionalProperty
+        : undefined;
+      const pointer = property !== undefined ? `${err.instancePath}${pointerFromPath([property])}` : err.instancePath;
+      const message = `${err.instancePath || "/"} ${err.message}`;
+      report(`schema/${err.keyword}`, pointer, message, `Schema: ${message}`);
     }
   }
 
@@ -362,39 +408,45 @@ function validateVeluConfig(docsDir: string, schemaPath: string): { valid: boole
 
   // Validate that all referenced page files exist (.mdx or .md)
   const pages = collectPages(config);
+  const reported = new Set<string>();
   for (const page of pages) {
     if (isOpenApiOperationReference(page)) continue;
     if (isAsyncApiChannelReference(page)) continue;
     const mdxPath = join(docsDir, `${page}.mdx`);
     const mdPath = join(docsDir, `${page}.md`);
     if (!existsSync(mdxPath) && !existsSync(mdPath)) {
-      errors.push(`Missing page: ${page}.md or ${page}.mdx (expected at ${mdPath})`);
+      const pointers = findStringPointers(rawConfig.navigation, page, ["navigation"]);
+      const pointer = pointers.find((candidate) => !reported.has(candidate)) ?? pointers[0] ?? "/navigation";
+      reported.add(pointer);
+      report("missing-page", pointer, `Missing page: ${page}.md or ${page}.mdx (expected at ${mdPath})`);
     }
   }
 
-  // Check for duplicate page references
-  if (config.navigation.languages && config.navigation.languages.length > 0) {
-    for (const lang of config.navigation.languages) {
-      const seen = new Set<string>();
-      const langPages = collectPagesFromTabs(lang.tabs);
-      for (const page of langPages) {
-        if (seen.has(page)) {
-          errors.push(`Duplicate page reference in language '${lang.language}': ${page}`);
-        }
-        seen.add(page);
-      }
+  // Check for duplicate page references; point at the repeated occurrence
+  function reportDuplicates(pageList: string[], scope: unknown, scopePath: Array<string | number>, language?: string) {
+    const seen = new Map<string, number>();
+    for (const page of pageList) {
+      const count = (seen.get(page) ?? 0) + 1;
+      seen.set(page, count);
+      if (count < 2) continue;
+      const pointers = findStringPointers(scope, page, scopePath);
+      const message = language
+        ? `Duplicate page reference in language '${language}': ${page}`
+        : `Duplicate page reference: ${page}`;
+      report("duplicate-page", pointers[count - 1] ?? pointerFromPath(scopePath), message);
     }
+  }
+
+  if (config.navigation.languages && config.navigation.languages.length > 0) {
+    config.navigation.languages.forEach((lang, index) => {
+      const rawLanguage = rawConfig.navigation?.languages?.[index];
+      reportDuplicates(collectPagesFromTabs(lang.tabs), rawLanguage, ["navigation", "languages", index], lang.language);
+    });
   } else {
-    const seen = new Set<string>();
-    for (const page of pages) {
-      if (seen.has(page)) {
-        errors.push(`Duplicate page reference: ${page}`);
-      }
-      seen.add(page);
-    }
+    reportDuplicates(pages, rawConfig.navigation, ["navigation"]);
   }
 
-  return { valid: errors.length === 0, errors };
+  return { valid: errors.length === 0, errors, diagnostics };
 }
 
-export { validateVeluConfig, collectPages, collectPagesByLanguage, collectPagesWithTabsByLanguage, VeluConfig, VeluGroup, VeluTab, VeluSeparator, VeluLink, VeluAnchor, type PageWithTab };
+export { validateVeluConfig, collectPages, isOpenApiOperationReference, isAsyncApiChannelReference, collectPagesByLanguage, collectPagesWithTabsByLanguage, VeluConfig, VeluGroup, VeluTab, VeluSeparator, VeluLink, VeluAnchor, type PageWithTab, type ValidationResult };
@@ -0,0 +1,137 @@
+import { copyFileSync, existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname, join, relative, resolve, sep } from "node:path";
+import {
+  currentNavigationContent,
+  findCurrentVersionIndex,
+  hasNavigationContent,
+  NAVIGATION_CONTENT_KEYS,
+  prefixNavigation,
+  VERSION_SNAPSHOT_DIR,
+  versionSlug,
+} from "./engine/lib/versions.js";
+
+// ── Types ──────────────────────────────────────────────────────────────────────
+
+interface CutOptions {
+  /** Label for the working tree's version when docs.json has no versions yet (default "latest"). */
+  current?: string;
+  dryRun: boolean;
+}
+
+interface CutResult {
+  /** Snapshot folder, relative to the docs directory. */
+  dir: string;
+  pages: number;
+  specs: number;
+  /** Page references with no .mdx/.md file, left out of the snapshot. */
+  missing: string[];
+  /** The updated docs.json text. */
+  config: string;
+}
+
+const PAGE_EXTENSIONS = [".mdx", ".md"];
+const IMPORT_SPECIFIER_PATTERN = /^(\s*(?:import|export)\b[^\n]*?["'])(\.\.?\/[^"']+)(["'])/gm;
+
+// ── Snapshot ───────────────────────────────────────────────────────────────────
+
+function detectIndent(source: string): string | number {
+  const match = source.match(/\n([ \t]+)"/);
+  return match ? match[1] : 2;
+}
+
+/**
+ * Relative imports would break one level deeper, so they are rewritten to
+ * docs-root paths (`/snippets/...`), which the build resolves from the docs directory.
+ */
+function rewriteRelativeImports(content: string, srcPath: string, docsDir: string): string {
+  return content.replace(IMPORT_SPECIFIER_PATTERN, (_, head: string, specifier: string, tail: string) => {
+    const target = relative(docsDir, resolve(dirname(srcPath), specifier));
+    if (target.startsWith("..")) return `${head}${specifier}${tail}`;
+    return `${head}/${target.split(sep).join("/")}${tail}`;
+  });
+}
+
+function resolvePageFile(docsDir: string, ref: string): string | null {
+  for (const ext of PAGE_EXTENSIONS) {
+    const path = join(docsDir, `${ref}${ext}`);
+    if (existsSync(path)) return `${ref}${ext}`;
+  }
+  return null;
+}
+
+/**
+ * Copy the current version's pages into `versions/<slug>/` and add a
+ * `navigation.versions` entry for them after the current one. Without
+ * versions, the root navigation becomes the first (default) version.
+ */
+function cutVersion(docsDir: string, configPath: string, version: string, options: CutOptions): CutResult {
+  const label = version.trim();
+  if (!label) throw new Error("Pass the version to cut, e.g. `velu version cut 2.0`.");
+
+  const source = readFileSync(configPath, "utf-8");
+  const config = JSON.parse(source) as Record<string, unknown>;
+  const navigation = (config.navigation ?? {}) as Record<string, unknown>;
+  if (Array.isArray(navigation.languages) || Array.isArray(navigation.products)) {
+    throw new Error("Cutting versions of navigation with languages or products isn't supported; add the version entry by hand.");
+  }
+
+  const versions = Array.isArray(navigation.versions) ? [...navigation.versions] as Array<Record<string, unknown>> : [];
+  const slug = versionSlug(label, versions.length);
+  if (versions.some((entry, index) => entry.version === label || versionSlug(String(entry.version ?? ""), index) === slug)) {
+    throw new Error(`Version ${label} is already in docs.json.`);
+  }
+  const dir = `${VERSION_SNAPSHOT_DIR}/${slug}`;
+  if (existsSync(join(docsDir, dir))) throw new Error(`${dir} already exists.`);
+
+  const content = currentNavigationContent(navigation);
+  if (!hasNavigationContent(content)) throw new Error("docs.json has no pages to snapshot.");
+
+  const files = new Set<string>();
+  const snapshot = prefixNavigation(content, dir, files);
+  const copies: Array<{ from: string; to: string; page: boolean }> = [];
+  const missing: string[] = [];
+  for (const ref of files) {
+    const page = resolvePageFile(docsDir, ref);
+    if (page) {
+      copies.push({ from: page, to: `${dir}/${page}`, page: true });
+    } else if (existsSync(join(docsDir, ref))) {
+      copies.push({ from: ref, to: `${dir}/${ref}`, page: false });
+    } else {
+      missing.push(ref);
+    }
+  }
+
+  if (versions.length > 0) {
+    versions.splice(findCurrentVersionIndex(versions) + 1, 0, { version: label, ...snapshot });
+    navigation.versions = versions;
+  } else {
+    for (const key of NAVIGATION_CONTENT_KEYS) delete navigation[key];
+    navigation.versions = [
+      { version: options.current?.trim() || "latest", default: true, ...content },
+      { version: label, ...snapshot },
+    ];
+  }
+  config.navigation = navigation;
+  const updated = `${JSON.stringify(config, null, detectIndent(source))}\n`;
+
+  if (!options.dryRun) {
+    for (const copy of copies) {
+      const from = join(docsDir, copy.from);
+      const to = join(docsDir, copy.to);
+      mkdirSync(dirname(to), { recursive: true });
+      if (copy.page) writeFileSync(to, rewriteRelativeImports(readFileSync(from, "utf-8"), from, docsDir), "utf-8");
+      else copyFileSync(from, to);
+    }
+    writeFileSync(configPath, updated, "utf-8");
+  }
+
+  return {
+    dir,
+    pages: copies.filter((copy) => copy.page).length,
+    specs: copies.filter((copy) => !copy.page).length,
+    missing,
+    config: updated,
+  };
+}
+
+export { cutVersion, rewriteRelativeImports, type CutOptions, type CutResult };